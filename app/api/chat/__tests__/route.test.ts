@@ -0,0 +1,175 @@
+// @vitest-environment node
+
+/**
+ * Chat Route Streaming Tests
+ *
+ * Drives POST /api/chat through the Gemini code path with the fake model
+ * (installed with setModelFactory) and asserts the exact SSE frames.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { POST } from "../route";
+import { resetRateLimiter } from "@/lib/rate-limit";
+import { resetSessionCache } from "@/lib/cache/chat-cache";
+import { executeTool } from "@/lib/gemini/tools";
+import { estimateTokens } from "@/lib/tokens";
+import { setModelFactory } from "@/lib/gemini/client";
+import { FakeGenerativeModel, FIXTURES, type FixtureName } from "@/lib/gemini/testing";
+
+function chatRequest(message: string): Request {
+    return new Request("http://localhost/api/chat", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ userId: "user-test", conversationId: "conv-1", message }),
+    });
+}
+
+function useFixture(fixture: FixtureName): void {
+    setModelFactory(() => new FakeGenerativeModel(FIXTURES[fixture]));
+}
+
+async function postWithFixture(fixture: FixtureName, message: string): Promise<Response> {
+    useFixture(fixture);
+    const res = await POST(chatRequest(message));
+    expect(res.headers.get("content-type")).toBe("text/event-stream");
+    return res;
+}
+
+/**
+ * Expected wire frame for an event payload (protocol v1)
+ */
+function frame(id: number, event: string, payload: Record<string, unknown>): string {
+    return `id: ${id}\nevent: ${event}\ndata: ${JSON.stringify({ v: 1, ...payload })}\n\n`;
+}
+
+/**
+ * Split an SSE body into frames, keeping each frame's terminator
+ */
+async function readFrames(res: Response): Promise<string[]> {
+    const body = await res.text();
+    return body.split(/(?<=\n\n)/).filter(Boolean);
+}
+
+const briefMathMeta = {
+    processingTimeMs: 0,
+    estimatedTokens: 5,
+    detectedIntent: "math",
+    detectedDepth: "brief",
+    temperatureUsed: 0.1,
+    maxTokensUsed: 1024,
+    toolsUsed: ["calculate"],
+};
+
+describe("POST /api/chat (streaming)", () => {
+    beforeEach(() => {
+        vi.useFakeTimers({ now: new Date("2025-01-01T00:00:00Z"), toFake: ["setTimeout", "clearTimeout", "setInterval", "clearInterval", "Date"] });
+        vi.spyOn(console, "log").mockImplementation(() => undefined);
+        resetRateLimiter();
+        resetSessionCache();
+    });
+
+    afterEach(() => {
+        setModelFactory(null);
+        vi.useRealTimers();
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+        resetSessionCache();
+    });
+
+    it("should stream text events, then a terminal done event", async () => {
+        const res = await postWithFixture("text", "Hello");
+
+        expect(await readFrames(res)).toEqual([
+            frame(1, "text", { text: "Hello" }),
+            frame(2, "text", { text: ", world!" }),
+            frame(3, "done", {
+                meta: {
+                    processingTimeMs: 0,
+                    estimatedTokens: 4,
+                    detectedIntent: "general",
+                    detectedDepth: "brief",
+                    temperatureUsed: 0.7,
+                    maxTokensUsed: 1024,
+                },
+            }),
+        ]);
+    });
+
+    it("should stream tool lifecycle events and the post-tool answer", async () => {
+        const res = await postWithFixture("toolCall", "calculate 6 * 7");
+        const { result } = await executeTool("calculate", { expression: "6 * 7" });
+        const toolResult = JSON.stringify(result);
+
+        expect(await readFrames(res)).toEqual([
+            frame(1, "tool_start", { callId: "call_1_0", name: "calculate", args: { expression: "6 * 7" }, iteration: 1 }),
+            frame(2, "tool_complete", {
+                callId: "call_1_0",
+                name: "calculate",
+                result: toolResult,
+                durationMs: 0,
+                iteration: 1,
+            }),
+            frame(3, "text", { text: "The answer is 42." }),
+            frame(4, "done", { meta: briefMathMeta }),
+        ]);
+    });
+
+    it("should keep pre-tool text and stream the answer as a new segment", async () => {
+        const res = await postWithFixture("toolCallWithText", "calculate 6 * 7");
+        const frames = await readFrames(res);
+
+        expect(frames.filter((f) => !f.includes("event: tool_"))).toEqual([
+            frame(1, "text", { text: "Let me calculate." }),
+            frame(4, "segment", {}),
+            frame(5, "text", { text: "The answer" }),
+            frame(6, "text", { text: " is 42." }),
+            frame(7, "done", {
+                meta: {
+                    ...briefMathMeta,
+                    estimatedTokens: estimateTokens("Let me calculate.\n\nThe answer is 42."),
+                },
+            }),
+        ]);
+    });
+
+    it("should emit a TIMEOUT error and close when the model stalls", async () => {
+        const res = await postWithFixture("slow", "Hello");
+
+        await vi.advanceTimersByTimeAsync(90_000);
+
+        expect(await readFrames(res)).toEqual([
+            frame(1, "error", { error: "Request timeout", code: "TIMEOUT" }),
+        ]);
+    });
+
+    it("should classify SAFETY blocks after partial output", async () => {
+        const res = await postWithFixture("safety", "Hello");
+
+        expect(await readFrames(res)).toEqual([
+            frame(1, "text", { text: "Partial" }),
+            frame(2, "error", {
+                error: "[GoogleGenerativeAI Error]: Candidate was blocked due to SAFETY",
+                code: "SAFETY_BLOCKED",
+            }),
+        ]);
+    });
+
+    it("should classify quota exhaustion", async () => {
+        const res = await postWithFixture("quota", "Hello");
+
+        expect(await readFrames(res)).toEqual([
+            frame(1, "error", {
+                error: "[GoogleGenerativeAI Error]: [429 Too Many Requests] Resource has been exhausted (e.g. check quota).",
+                code: "QUOTA_EXCEEDED",
+            }),
+        ]);
+    });
+
+    it("should reject requests without a message before streaming", async () => {
+        useFixture("text");
+        const res = await POST(chatRequest(""));
+
+        expect(res.status).toBe(400);
+        expect(await res.json()).toEqual({ error: "Message is required", code: "INVALID_REQUEST" });
+    });
+});
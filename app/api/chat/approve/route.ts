@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { getApprovalStore } from "@/lib/chat/approvals";
+import { AppError, NotFoundError, toErrorResponse } from "@/lib/errors/index";
+
+function requireUserId(value: unknown): string {
+    const userId = typeof value === "string" ? value.trim() : "";
+    if (!userId) throw new AppError("User ID is required", 400, "INVALID_REQUEST");
+    return userId;
+}
+
+/**
+ * Tool calls waiting for the user's decision
+ * GET /api/chat/approve?userId=...&conversationId=...
+ */
+export async function GET(request: Request) {
+    try {
+        const params = new URL(request.url).searchParams;
+        const userId = requireUserId(params.get("userId"));
+        const conversationId = params.get("conversationId") ?? undefined;
+
+        return NextResponse.json({ approvals: getApprovalStore().list(userId, conversationId) });
+    } catch (error) {
+        return toErrorResponse(error);
+    }
+}
+
+/**
+ * Approve or deny a pending tool call; the paused chat stream resumes
+ * POST /api/chat/approve { userId, approvalId, approved }
+ */
+export async function POST(request: Request) {
+    try {
+        const body = await request.json().catch(() => {
+            throw new AppError("Invalid JSON", 400, "INVALID_REQUEST");
+        });
+        const userId = requireUserId(body.userId);
+
+        if (typeof body.approvalId !== "string" || !body.approvalId) {
+            throw new AppError("approvalId is required", 400, "INVALID_REQUEST");
+        }
+        if (typeof body.approved !== "boolean") {
+            throw new AppError("approved must be a boolean", 400, "INVALID_REQUEST");
+        }
+
+        if (!getApprovalStore().resolve(userId, body.approvalId, body.approved)) {
+            throw new NotFoundError("No pending approval with that id");
+        }
+
+        return NextResponse.json({ approvalId: body.approvalId, approved: body.approved });
+    } catch (error) {
+        return toErrorResponse(error);
+    }
+}
@@ -1,6 +1,8 @@
 import { NextResponse } from "next/server";
 import { ChatService } from "@/lib/chat/service";
 import { AppError } from "@/lib/errors";
+import { isProviderName } from "@/lib/providers";
+import { resolveToolPolicy } from "@/lib/gemini/tool-policy";
 
 export async function POST(request: Request) {
     try {
@@ -17,11 +19,17 @@ export async function POST(request: Request) {
         // Delegate to Service Layer
         const result = await ChatService.processRequest({
             userId: typeof body.userId === "string" ? body.userId.trim() : "",
+            conversationId: typeof body.conversationId === "string" && body.conversationId.trim()
+                ? body.conversationId.trim()
+                : undefined,
             message: typeof body.message === "string" ? body.message.trim() : "",
             attachments: Array.isArray(body.attachments) ? body.attachments : [],
             history: Array.isArray(body.history) ? body.history : [],
             stream: body.stream !== false,
             responseFormat: body.responseFormat === "json" ? "json" : "text",
+            ...(isProviderName(body.provider) && { provider: body.provider }),
+            signal: request.signal,
+            ...(body.toolPolicy !== undefined && { toolPolicy: resolveToolPolicy(body.toolPolicy) }),
         });
 
         // Return Response (Stream or JSON)
@@ -0,0 +1,76 @@
+import { NextResponse } from "next/server";
+import { getConversationStore, normalizeMessages, normalizeTitle } from "@/lib/storage";
+import { AppError, NotFoundError, toErrorResponse } from "@/lib/errors/index";
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+function requireUserId(value: unknown): string {
+    const userId = typeof value === "string" ? value.trim() : "";
+    if (!userId) throw new AppError("User ID is required", 400, "INVALID_REQUEST");
+    return userId;
+}
+
+/**
+ * Get a conversation with its messages
+ * GET /api/conversations/:id?userId=...
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const userId = requireUserId(new URL(request.url).searchParams.get("userId"));
+
+        const conversation = await getConversationStore().get(userId, id);
+        if (!conversation) throw new NotFoundError("Conversation not found");
+
+        return NextResponse.json({ conversation });
+    } catch (error) {
+        return toErrorResponse(error);
+    }
+}
+
+/**
+ * Update title and/or replace messages
+ * PATCH /api/conversations/:id { userId, title?, messages? }
+ */
+export async function PATCH(request: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const body = await request.json().catch(() => {
+            throw new AppError("Invalid JSON", 400, "INVALID_REQUEST");
+        });
+        if (typeof body !== "object" || body === null) {
+            throw new AppError("Body must be a JSON object", 400, "INVALID_REQUEST");
+        }
+        const userId = requireUserId(body.userId);
+
+        const conversation = await getConversationStore().update(userId, id, {
+            title: normalizeTitle(body.title),
+            messages: body.messages === undefined ? undefined : normalizeMessages(body.messages),
+        });
+        if (!conversation) throw new NotFoundError("Conversation not found");
+
+        return NextResponse.json({ conversation });
+    } catch (error) {
+        return toErrorResponse(error);
+    }
+}
+
+/**
+ * Delete a conversation
+ * DELETE /api/conversations/:id?userId=...
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const userId = requireUserId(new URL(request.url).searchParams.get("userId"));
+
+        const deleted = await getConversationStore().delete(userId, id);
+        if (!deleted) throw new NotFoundError("Conversation not found");
+
+        return new Response(null, { status: 204 });
+    } catch (error) {
+        return toErrorResponse(error);
+    }
+}
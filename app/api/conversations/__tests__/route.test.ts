@@ -0,0 +1,42 @@
+// @vitest-environment node
+
+/**
+ * Conversations Route Tests
+ *
+ * Tests that create and update reject bodies that are valid JSON but not
+ * objects with a 400 instead of failing with a 500.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { POST } from "../route";
+import { PATCH } from "../[id]/route";
+
+function jsonRequest(method: string, body: string): Request {
+    return new Request("http://localhost/api/conversations", {
+        method,
+        headers: { "content-type": "application/json" },
+        body,
+    });
+}
+
+const context = { params: Promise.resolve({ id: "conv-1" }) };
+
+describe("/api/conversations bodies", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it.each(["null", "42", "\"text\"", "true"])("should reject %s with 400", async (body) => {
+        const created = await POST(jsonRequest("POST", body));
+        const updated = await PATCH(jsonRequest("PATCH", body), context);
+
+        for (const res of [created, updated]) {
+            expect(res.status).toBe(400);
+            expect(await res.json()).toEqual({ error: "Body must be a JSON object", code: "INVALID_REQUEST" });
+        }
+    });
+});
@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import { getConversationStore, normalizeMessages, normalizeTitle } from "@/lib/storage";
+import { AppError, toErrorResponse } from "@/lib/errors/index";
+
+/**
+ * List conversations for a user
+ * GET /api/conversations?userId=...
+ */
+export async function GET(request: Request) {
+    try {
+        const userId = new URL(request.url).searchParams.get("userId")?.trim();
+        if (!userId) throw new AppError("User ID is required", 400, "INVALID_REQUEST");
+
+        const conversations = await getConversationStore().list(userId);
+        return NextResponse.json({ conversations });
+    } catch (error) {
+        return toErrorResponse(error);
+    }
+}
+
+/**
+ * Create a conversation
+ * POST /api/conversations { userId, id?, title?, messages? }
+ */
+export async function POST(request: Request) {
+    try {
+        const body = await request.json().catch(() => {
+            throw new AppError("Invalid JSON", 400, "INVALID_REQUEST");
+        });
+        if (typeof body !== "object" || body === null) {
+            throw new AppError("Body must be a JSON object", 400, "INVALID_REQUEST");
+        }
+
+        const userId = typeof body.userId === "string" ? body.userId.trim() : "";
+        if (!userId) throw new AppError("User ID is required", 400, "INVALID_REQUEST");
+
+        const store = getConversationStore();
+        const id = typeof body.id === "string" && body.id.trim() ? body.id.trim() : undefined;
+        if (id && await store.get(userId, id)) {
+            throw new AppError("Conversation already exists", 409, "INVALID_REQUEST");
+        }
+
+        const conversation = await store.create(userId, {
+            id,
+            title: normalizeTitle(body.title),
+            messages: body.messages === undefined ? undefined : normalizeMessages(body.messages),
+        });
+
+        return NextResponse.json({ conversation }, { status: 201 });
+    } catch (error) {
+        return toErrorResponse(error);
+    }
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { getToolMetrics } from "@/lib/gemini/tools";
+
+/**
+ * Per-tool call, failure and timeout counters since server start
+ * GET /api/tools/metrics
+ */
+export async function GET() {
+    return NextResponse.json({ tools: getToolMetrics().snapshot() });
+}
@@ -0,0 +1,94 @@
+// @vitest-environment node
+
+/**
+ * Currency Rates Route Tests
+ *
+ * Tests that uploads and resets of the shared rate table need the admin
+ * token, while reading stays open.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { GET, PUT, DELETE } from "../route";
+import { CurrencyRateStore, setCurrencyRateStore } from "@/lib/gemini/tools/units/currency";
+
+const TOKEN = "admin-token-for-tests";
+
+function putRequest(body: unknown, token?: string): Request {
+    return new Request("http://localhost/api/tools/rates", {
+        method: "PUT",
+        headers: {
+            "content-type": "application/json",
+            ...(token !== undefined && { authorization: `Bearer ${token}` }),
+        },
+        body: JSON.stringify(body),
+    });
+}
+
+function deleteRequest(token?: string): Request {
+    return new Request("http://localhost/api/tools/rates", {
+        method: "DELETE",
+        headers: token !== undefined ? { authorization: `Bearer ${token}` } : {},
+    });
+}
+
+async function currentEur(): Promise<number | undefined> {
+    const table = await (await GET()).json() as { rates: Record<string, number> };
+    return table.rates.EUR;
+}
+
+describe("/api/tools/rates", () => {
+    beforeEach(() => {
+        setCurrencyRateStore(new CurrencyRateStore(null));
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        setCurrencyRateStore(null);
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+    });
+
+    it("should reject writes when no admin token is configured", async () => {
+        vi.stubEnv("RATES_ADMIN_TOKEN", "");
+        const before = await currentEur();
+
+        const put = await PUT(putRequest({ rates: { EUR: 5 } }, "anything"));
+        expect(put.status).toBe(403);
+        expect(await put.json()).toMatchObject({ code: "FORBIDDEN" });
+
+        const del = await DELETE(deleteRequest("anything"));
+        expect(del.status).toBe(403);
+        expect(await currentEur()).toBe(before);
+    });
+
+    it("should reject writes without the right token", async () => {
+        vi.stubEnv("RATES_ADMIN_TOKEN", TOKEN);
+        const before = await currentEur();
+
+        for (const token of [undefined, "wrong", `${TOKEN}x`]) {
+            const put = await PUT(putRequest({ rates: { EUR: 5 } }, token));
+            expect(put.status).toBe(403);
+            expect((await DELETE(deleteRequest(token))).status).toBe(403);
+        }
+        expect(await currentEur()).toBe(before);
+    });
+
+    it("should accept writes with the admin token", async () => {
+        vi.stubEnv("RATES_ADMIN_TOKEN", TOKEN);
+        const before = await currentEur();
+
+        const put = await PUT(putRequest({ rates: { EUR: 5 } }, TOKEN));
+        expect(put.status).toBe(200);
+        expect(await currentEur()).toBe(5);
+
+        const del = await DELETE(deleteRequest(TOKEN));
+        expect(del.status).toBe(200);
+        expect(await currentEur()).toBe(before);
+    });
+
+    it("should check the token before reading the body", async () => {
+        vi.stubEnv("RATES_ADMIN_TOKEN", TOKEN);
+        const res = await PUT(new Request("http://localhost/api/tools/rates", { method: "PUT", body: "{" }));
+        expect(res.status).toBe(403);
+    });
+});
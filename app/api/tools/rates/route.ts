@@ -0,0 +1,69 @@
+import { timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import { getCurrencyRateStore } from "@/lib/gemini/tools/units/currency";
+import { AppError, ForbiddenError, toErrorResponse } from "@/lib/errors/index";
+
+/**
+ * The table is shared by every user, so changing it needs the server's
+ * RATES_ADMIN_TOKEN as a bearer token; without one configured, writes are off
+ */
+function requireAdmin(request: Request): void {
+    const expected = process.env.RATES_ADMIN_TOKEN;
+    if (!expected) {
+        throw new ForbiddenError("Rate uploads are disabled (RATES_ADMIN_TOKEN is not set)");
+    }
+    const match = /^Bearer\s+(.+)$/i.exec(request.headers.get("authorization") ?? "");
+    const given = Buffer.from(match?.[1]?.trim() ?? "");
+    const wanted = Buffer.from(expected);
+    if (given.length !== wanted.length || !timingSafeEqual(given, wanted)) {
+        throw new ForbiddenError("A valid admin token is required to change rates");
+    }
+}
+
+/**
+ * Currency rate table used by convert_units
+ * GET /api/tools/rates
+ */
+export async function GET() {
+    try {
+        return NextResponse.json(await getCurrencyRateStore().get());
+    } catch (error) {
+        return toErrorResponse(error);
+    }
+}
+
+/**
+ * Upload rates; merged into the current table unless `replace` is true
+ * PUT /api/tools/rates { base?, asOf?, source?, rates: { EUR: 0.92, ... }, replace? }
+ * Authorization: Bearer <RATES_ADMIN_TOKEN>
+ */
+export async function PUT(request: Request) {
+    try {
+        requireAdmin(request);
+        const body = await request.json().catch(() => {
+            throw new AppError("Invalid JSON", 400, "INVALID_REQUEST");
+        });
+        if (typeof body !== "object" || body === null) {
+            throw new AppError("Body must be a JSON object", 400, "INVALID_REQUEST");
+        }
+
+        const table = await getCurrencyRateStore().update(body, { replace: body.replace === true });
+        return NextResponse.json(table);
+    } catch (error) {
+        return toErrorResponse(error);
+    }
+}
+
+/**
+ * Discard uploaded rates and restore the bundled table
+ * DELETE /api/tools/rates
+ * Authorization: Bearer <RATES_ADMIN_TOKEN>
+ */
+export async function DELETE(request: Request) {
+    try {
+        requireAdmin(request);
+        return NextResponse.json(await getCurrencyRateStore().reset());
+    } catch (error) {
+        return toErrorResponse(error);
+    }
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { ToolCallRecord } from "@/types/chat";
+
+interface ApprovalPromptProps {
+    call: ToolCallRecord & { approvalId: string };
+    onRespond: (approvalId: string, approved: boolean) => Promise<void>;
+}
+
+/**
+ * Approve/deny card for a tool call paused until the user decides
+ */
+export default function ApprovalPrompt({ call, onRespond }: ApprovalPromptProps) {
+    const [submitting, setSubmitting] = useState(false);
+
+    const respond = async (approved: boolean) => {
+        setSubmitting(true);
+        try {
+            await onRespond(call.approvalId, approved);
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    return (
+        <div
+            role="alertdialog"
+            aria-label={`Approve ${call.name}`}
+            className="mt-2 rounded-lg border border-amber-500/40 bg-amber-500/5 p-3 text-xs"
+        >
+            <p className="text-foreground">
+                The assistant wants to run <span className="font-mono font-medium">{call.name}</span>
+            </p>
+            <pre className="mt-2 max-h-32 overflow-auto rounded bg-background/60 p-2 font-mono whitespace-pre-wrap break-all">
+                {JSON.stringify(call.args, null, 2)}
+            </pre>
+            <div className="mt-2 flex justify-end gap-2">
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-3 text-xs text-destructive hover:text-destructive hover:bg-destructive/10"
+                    disabled={submitting}
+                    onClick={() => respond(false)}
+                >
+                    Deny
+                </Button>
+                <Button
+                    size="sm"
+                    className="h-7 px-3 text-xs"
+                    disabled={submitting}
+                    onClick={() => respond(true)}
+                >
+                    Approve
+                </Button>
+            </div>
+        </div>
+    );
+}
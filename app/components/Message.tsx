@@ -4,14 +4,18 @@ import { cn, formatTime } from "@/lib/utils";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import { motion } from "framer-motion";
-import type { Message as MessageType } from "@/types/chat";
+import type { Message as MessageType, ToolCallRecord } from "@/types/chat";
 import Markdown from "./Markdown";
+import ToolActivity from "./ToolActivity";
+import ApprovalPrompt from "./ApprovalPrompt";
 import { useState, useCallback } from "react";
 import { useReducedMotion } from "@/hooks/useReducedMotion";
 
 interface MessageProps {
     message: MessageType;
     onRetry?: (() => void) | undefined;
+    /** Answers a tool call waiting for approval */
+    onApproval?: ((approvalId: string, approved: boolean) => Promise<void>) | undefined;
     isStreaming?: boolean;
 }
 
@@ -41,6 +45,7 @@ const reducedMotionVariants = {
 export default function Message({
     message,
     onRetry,
+    onApproval,
     isStreaming = false,
 }: MessageProps) {
     const isUser = message.sender === "user";
@@ -48,6 +53,12 @@ export default function Message({
     const isSending = message.status === "sending";
     const [copied, setCopied] = useState(false);
     const prefersReducedMotion = useReducedMotion();
+    // Bot text split at tool calls renders as separate blocks
+    const segments = message.segments && message.segments.length > 1 ? message.segments : null;
+    const awaitingApproval = (message.meta?.toolCalls ?? []).filter(
+        (call): call is ToolCallRecord & { approvalId: string } =>
+            call.status === "awaiting_approval" && call.approvalId !== undefined
+    );
 
     // Use reduced motion variants for accessibility
     const variants = prefersReducedMotion ? reducedMotionVariants : messageAnimationVariants;
@@ -126,6 +137,19 @@ export default function Message({
                         <p className="text-sm leading-relaxed whitespace-pre-wrap wrap-break-words">
                             {message.text}
                         </p>
+                    ) : segments ? (
+                        segments.map((segment, index) => (
+                            <div
+                                key={index}
+                                className={cn(index > 0 && "mt-3 pt-3 border-t border-border/50")}
+                            >
+                                <Markdown
+                                    content={segment || "..."}
+                                    className="text-sm"
+                                    isStreaming={(isSending || isStreaming) && index === segments.length - 1}
+                                />
+                            </div>
+                        ))
                     ) : (
                         <Markdown
                             content={message.text || "..."}
@@ -133,6 +157,14 @@ export default function Message({
                             isStreaming={isSending || isStreaming}
                         />
                     )}
+
+                    {!isUser && message.meta?.toolCalls && message.meta.toolCalls.length > 0 && (
+                        <ToolActivity calls={message.meta.toolCalls} />
+                    )}
+
+                    {!isUser && onApproval && awaitingApproval.map((call) => (
+                        <ApprovalPrompt key={call.id} call={call} onRespond={onApproval} />
+                    ))}
                 </div>
 
                 <div
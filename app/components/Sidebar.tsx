@@ -4,17 +4,10 @@ import { useState } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-
-interface Conversation {
-    id: string;
-    title: string;
-    lastMessage: string;
-    timestamp: Date;
-    messageCount: number;
-}
+import type { ConversationSummary } from "@/types/chat";
 
 interface SidebarProps {
-    conversations: Conversation[];
+    conversations: ConversationSummary[];
     activeConversationId: string | null;
     onSelectConversation: (id: string) => void;
     onNewConversation: () => void;
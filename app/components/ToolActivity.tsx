@@ -0,0 +1,107 @@
+"use client";
+
+import { useState } from "react";
+import { cn } from "@/lib/utils";
+import type { ToolCallRecord } from "@/types/chat";
+
+interface ToolActivityProps {
+    calls: ToolCallRecord[];
+}
+
+const statusStyles: Record<ToolCallRecord["status"], string> = {
+    awaiting_approval: "bg-amber-500 animate-pulse",
+    running: "bg-accent animate-pulse",
+    complete: "bg-emerald-500",
+    error: "bg-destructive",
+};
+
+/**
+ * Collapsible list of the tool calls made for a bot message
+ */
+export default function ToolActivity({ calls }: ToolActivityProps) {
+    const [open, setOpen] = useState(false);
+    const isRunning = calls.some((c) => c.status === "running" || c.status === "awaiting_approval");
+    const failed = calls.filter((c) => c.status === "error").length;
+
+    return (
+        <div className="mt-2 rounded-lg border border-border/50 bg-muted/30 text-xs">
+            <button
+                type="button"
+                onClick={() => setOpen((o) => !o)}
+                aria-expanded={open}
+                className="flex w-full items-center gap-2 px-3 py-1.5 text-muted-foreground hover:text-foreground transition-colors"
+            >
+                <ChevronIcon className={cn("w-3 h-3 transition-transform", open && "rotate-90")} />
+                <span>
+                    {isRunning
+                        ? "Running tools..."
+                        : `Used ${calls.length} tool${calls.length === 1 ? "" : "s"}`}
+                </span>
+                {failed > 0 && <span className="text-destructive">{failed} failed</span>}
+            </button>
+
+            {open && (
+                <ul className="border-t border-border/50 divide-y divide-border/50">
+                    {calls.map((call) => (
+                        <ToolCallItem key={call.id} call={call} />
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+function ToolCallItem({ call }: { call: ToolCallRecord }) {
+    const [expanded, setExpanded] = useState(false);
+
+    return (
+        <li>
+            <button
+                type="button"
+                onClick={() => setExpanded((e) => !e)}
+                aria-expanded={expanded}
+                className="flex w-full items-center gap-2 px-3 py-1.5 hover:bg-muted/50 transition-colors"
+            >
+                <span className={cn("w-1.5 h-1.5 rounded-full shrink-0", statusStyles[call.status])} />
+                <span className="font-mono text-foreground">{call.name}</span>
+                <span className="text-muted-foreground/70">#{call.iteration}</span>
+                {call.durationMs !== undefined && (
+                    <span className="ml-auto text-muted-foreground/70">{call.durationMs}ms</span>
+                )}
+            </button>
+
+            {expanded && (
+                <div className="space-y-2 px-3 pb-2">
+                    <ToolDetail label="Arguments" value={JSON.stringify(call.args, null, 2)} />
+                    {call.output !== undefined && <ToolDetail label="Output" value={call.output} />}
+                    {call.result !== undefined && <ToolDetail label="Result" value={call.result} />}
+                    {call.error !== undefined && <ToolDetail label="Error" value={call.error} isError />}
+                </div>
+            )}
+        </li>
+    );
+}
+
+function ToolDetail({ label, value, isError = false }: { label: string; value: string; isError?: boolean }) {
+    return (
+        <div>
+            <div className="mb-0.5 text-[10px] uppercase tracking-wide text-muted-foreground/70">{label}</div>
+            <pre
+                className={cn(
+                    "max-h-40 overflow-auto rounded bg-background/60 p-2 font-mono whitespace-pre-wrap break-all",
+                    isError && "text-destructive"
+                )}
+            >
+                {value}
+            </pre>
+        </div>
+    );
+}
+
+function ChevronIcon({ className }: { className?: string }) {
+    return (
+        <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <path d="M9 18l6-6-6-6" strokeLinecap="round" strokeLinejoin="round" />
+        </svg>
+    );
+}
@@ -17,6 +17,7 @@ interface VirtualMessageListProps {
     messages: MessageType[];
     isStreaming: boolean;
     onRetry?: () => void;
+    onApproval?: (approvalId: string, approved: boolean) => Promise<void>;
     containerHeight: number;
 }
 
@@ -27,6 +28,7 @@ export function VirtualMessageList({
     messages,
     isStreaming,
     onRetry,
+    onApproval,
     containerHeight,
 }: VirtualMessageListProps) {
     const containerRef = useRef<HTMLDivElement>(null);
@@ -76,6 +78,7 @@ export function VirtualMessageList({
                             key={message.id ?? `msg-${index}`}
                             message={message}
                             onRetry={message.status === "error" ? onRetry : undefined}
+                            onApproval={onApproval}
                             isStreaming={isStreaming && index === messages.length - 1}
                         />
                     ))}
@@ -103,6 +106,7 @@ export function VirtualMessageList({
                         <Message
                             message={item}
                             onRetry={item.status === "error" ? onRetry : undefined}
+                            onApproval={onApproval}
                             isStreaming={isStreaming && index === messages.length - 1}
                         />
                     </div>
@@ -23,6 +23,7 @@ import { useToast } from "@/hooks/use-toast";
 import { ThemeToggle } from "@/components/theme-toggle";
 import { motion, AnimatePresence } from "framer-motion";
 import { useChat } from "@/hooks/useChat";
+import { useConversations } from "@/hooks/useConversations";
 import { useReducedMotion } from "@/hooks/useReducedMotion";
 import { generateId } from "@/lib/utils";
 import {
@@ -37,18 +38,6 @@ import {
 // Lazy load Sidebar for code splitting
 const Sidebar = lazy(() => import("./components/Sidebar"));
 
-// ============================================================================
-// Types
-// ============================================================================
-
-interface Conversation {
-  id: string;
-  title: string;
-  lastMessage: string;
-  timestamp: Date;
-  messageCount: number;
-}
-
 // ============================================================================
 // Component
 // ============================================================================
@@ -66,7 +55,6 @@ export default function Home() {
   });
   const [input, setInput] = useState("");
   const [sidebarCollapsed, setSidebarCollapsed] = useState(true);
-  const [conversations, setConversations] = useState<Conversation[]>([]);
   const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -75,6 +63,13 @@ export default function Home() {
   const { toast } = useToast();
   const prefersReducedMotion = useReducedMotion();
 
+  // Conversation list backed by the server store
+  const {
+    conversations,
+    remove: removeConversation,
+    upsert: upsertConversation,
+  } = useConversations(userId);
+
   // Use the streaming chat hook
   const {
     messages,
@@ -82,11 +77,15 @@ export default function Home() {
     isStreaming,
     error,
     sendMessage,
+    respondToApproval,
     stopStreaming,
     clearMessages,
     retryLastMessage,
   } = useChat({
     userId,
+    conversationId: activeConversationId,
+    onConversationCreated: setActiveConversationId,
+    onPersisted: upsertConversation,
     onError: (err) => {
       toast({
         variant: "destructive",
@@ -117,27 +116,6 @@ export default function Home() {
     });
   }, []);
 
-  // Update conversation when messages change
-  useEffect(() => {
-    if (messages.length > 0 && activeConversationId) {
-      const lastMessage = messages[messages.length - 1];
-      if (lastMessage) {
-        setConversations((prev) =>
-          prev.map((conv) =>
-            conv.id === activeConversationId
-              ? {
-                ...conv,
-                lastMessage: lastMessage.text.slice(0, 50),
-                timestamp: new Date(),
-                messageCount: messages.length,
-              }
-              : conv
-          )
-        );
-      }
-    }
-  }, [messages, activeConversationId]);
-
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -185,53 +163,48 @@ export default function Home() {
       const trimmedInput = input.trim();
       if (!trimmedInput || isLoading) return;
 
-      // Create conversation if none exists
-      if (!activeConversationId) {
-        const newConv: Conversation = {
-          id: generateId(),
-          title: trimmedInput.slice(0, 30) + (trimmedInput.length > 30 ? "..." : ""),
-          lastMessage: trimmedInput.slice(0, 50),
-          timestamp: new Date(),
-          messageCount: 1,
-        };
-        setConversations((prev) => [newConv, ...prev]);
-        setActiveConversationId(newConv.id);
-      }
-
+      // useChat allocates a conversation id on the first message of a new chat
       setInput("");
       playMessageSound();
       await sendMessage(trimmedInput);
       playMessageSound();
     },
-    [input, isLoading, activeConversationId, playMessageSound, sendMessage]
+    [input, isLoading, playMessageSound, sendMessage]
   );
 
-  // Handle new conversation
+  // Handle new conversation (the previous one stays saved)
   const handleNewConversation = useCallback(() => {
-    clearMessages();
+    if (isStreaming) stopStreaming();
     setActiveConversationId(null);
     setInput("");
     inputRef.current?.focus();
-  }, [clearMessages]);
+  }, [isStreaming, stopStreaming]);
 
-  // Handle conversation selection
+  // Handle conversation selection (useChat loads its messages)
   const handleSelectConversation = useCallback((id: string) => {
+    if (isStreaming) stopStreaming();
     setActiveConversationId(id);
-    // In a real app, you'd load messages from storage/API here
-  }, []);
+  }, [isStreaming, stopStreaming]);
 
   // Handle conversation deletion
-  const handleDeleteConversation = useCallback((id: string) => {
-    setConversations((prev) => prev.filter((conv) => conv.id !== id));
+  const handleDeleteConversation = useCallback(async (id: string) => {
     if (activeConversationId === id) {
-      clearMessages();
       setActiveConversationId(null);
     }
-    toast({
-      title: "Conversation Deleted",
-      description: "The conversation has been removed.",
-    });
-  }, [activeConversationId, clearMessages, toast]);
+    try {
+      await removeConversation(id);
+      toast({
+        title: "Conversation Deleted",
+        description: "The conversation has been removed.",
+      });
+    } catch {
+      toast({
+        variant: "destructive",
+        title: "Delete Failed",
+        description: "The conversation could not be removed. Please try again.",
+      });
+    }
+  }, [activeConversationId, removeConversation, toast]);
 
   // Handle clear chat
   const handleClearChat = useCallback(() => {
@@ -318,6 +291,7 @@ export default function Home() {
                     key={message.id ?? `msg-${messages.indexOf(message)}`}
                     message={message}
                     onRetry={message.status === "error" ? retryLastMessage : undefined}
+                    onApproval={respondToApproval}
                     isStreaming={isStreaming && message === messages[messages.length - 1]}
                   />
                 ))}
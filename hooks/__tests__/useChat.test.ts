@@ -0,0 +1,136 @@
+/**
+ * useChat Retry Tests
+ *
+ * Tests that sendMessage only resends a request that failed before the
+ * stream started, and never one the server refused for good.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+import { useChat } from "@/hooks/useChat";
+import { createEventEncoder, type StreamEvent } from "@/lib/chat/stream-protocol";
+
+const done: StreamEvent = { type: "done", meta: { processingTimeMs: 5, estimatedTokens: 3 } };
+
+/**
+ * Streams `events`, then closes or, once they have been read, fails with `failAfter`
+ */
+function sseResponse(events: StreamEvent[], failAfter?: Error): Response {
+    const encode = createEventEncoder();
+    const bytes = new TextEncoder();
+    let sent = false;
+    const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+            if (sent) return controller.error(failAfter);
+            sent = true;
+            controller.enqueue(bytes.encode(events.map(encode).join("")));
+            if (!failAfter) controller.close();
+        },
+    });
+    return new Response(body, { headers: { "content-type": "text/event-stream" } });
+}
+
+function jsonResponse(body: unknown, status: number): Response {
+    return Response.json(body, { status });
+}
+
+async function send(fetchMock: ReturnType<typeof vi.fn>, onError = vi.fn()) {
+    vi.stubGlobal("fetch", fetchMock);
+    const { result } = renderHook(() => useChat({ userId: "user-test", conversationId: null, onError }));
+    await act(async () => {
+        const sending = result.current.sendMessage("hello");
+        await vi.runAllTimersAsync();
+        await sending;
+    });
+    return result;
+}
+
+describe("useChat retries", () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, "log").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.unstubAllGlobals();
+        vi.restoreAllMocks();
+    });
+
+    it("should retry a request that failed before any event arrived", async () => {
+        const fetchMock = vi.fn()
+            .mockRejectedValueOnce(new TypeError("fetch failed"))
+            .mockResolvedValueOnce(sseResponse([{ type: "text", text: "Hi" }, done]));
+
+        const result = await send(fetchMock);
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(result.current.messages.at(-1)).toMatchObject({ text: "Hi", status: "sent" });
+        expect(result.current.error).toBeNull();
+    });
+
+    it("should not resend after a server error event", async () => {
+        const fetchMock = vi.fn().mockResolvedValue(sseResponse([
+            { type: "text", text: "Partial" },
+            { type: "error", error: "Model timed out", code: "TIMEOUT" },
+        ]));
+        const onError = vi.fn();
+
+        const result = await send(fetchMock, onError);
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(result.current.error?.message).toBe("Model timed out");
+        expect(result.current.messages.at(-1)).toMatchObject({ text: "Partial", status: "error" });
+        expect(onError).toHaveBeenCalledTimes(1);
+    });
+
+    it("should not resend when the stream breaks after it started", async () => {
+        const fetchMock = vi.fn().mockResolvedValue(sseResponse(
+            [{ type: "tool_start", callId: "call_1_0", name: "calculate", args: {}, iteration: 1 }],
+            new TypeError("network error")
+        ));
+
+        const result = await send(fetchMock);
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(result.current.error?.message).toBe("network error");
+    });
+
+    it("should not resend a malformed stream", async () => {
+        const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                controller.enqueue(new TextEncoder().encode("event: text\ndata: {\"v\":1}\n\n"));
+                controller.close();
+            },
+        });
+        const fetchMock = vi.fn().mockResolvedValue(new Response(body));
+
+        const result = await send(fetchMock);
+
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+        expect(result.current.error?.name).toBe("StreamProtocolError");
+    });
+
+    it.each(["SAFETY_BLOCKED", "QUOTA_EXCEEDED", "INVALID_REQUEST"])(
+        "should not resend a request refused with %s",
+        async (code) => {
+            const fetchMock = vi.fn().mockResolvedValue(jsonResponse({ error: "Refused", code }, code === "INVALID_REQUEST" ? 400 : 500));
+
+            const result = await send(fetchMock);
+
+            expect(fetchMock).toHaveBeenCalledTimes(1);
+            expect(result.current.error).toMatchObject({ message: "Refused", code });
+        }
+    );
+
+    it("should retry a server failure before the stream started", async () => {
+        const fetchMock = vi.fn()
+            .mockResolvedValueOnce(jsonResponse({ error: "Upstream down", code: "INTERNAL_ERROR" }, 500))
+            .mockResolvedValueOnce(sseResponse([{ type: "text", text: "Recovered" }, done]));
+
+        const result = await send(fetchMock);
+
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(result.current.messages.at(-1)).toMatchObject({ text: "Recovered", status: "sent" });
+    });
+});
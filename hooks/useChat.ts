@@ -4,37 +4,63 @@
  * useChat Hook - Enhanced Edition
  *
  * Supports streaming, attachments, retry with exponential backoff.
+ * Messages are loaded and saved per conversation via /api/conversations.
  */
 
 import { useState, useCallback, useRef, useEffect } from "react";
 import { generateId } from "@/lib/utils";
-import type { Message } from "@/types/chat";
+import { toMessage, toStoredMessage } from "@/types/chat";
+import type { ConversationSummary, Message, ToolCallRecord } from "@/types/chat";
 import type { Attachment, ResponseMeta } from "@/lib/gemini";
+import { fetchConversation, saveConversationMessages } from "@/lib/chat/conversation-client";
+import { toSummary } from "@/lib/storage/serialize";
+import { decodeEvent } from "@/lib/chat/stream-protocol";
+import type { StreamEvent } from "@/lib/chat/stream-protocol";
+import { readSSE } from "@/lib/chat/sse-parser";
+import { AppError, type AppErrorCode } from "@/lib/errors/index";
 
 // Track in-flight request to prevent duplicates
 let currentRequestId: string | null = null;
 
 interface UseChatOptions {
     userId: string;
+    /** Conversation to load and save; null starts a new one on first send */
+    conversationId: string | null;
+    /** Called when sending from a null conversation allocates a new id */
+    onConversationCreated?: (id: string) => void;
+    /** Called after messages are persisted to the server */
+    onPersisted?: (summary: ConversationSummary) => void;
     onError?: (error: Error) => void;
-    onToolCall?: (toolName: string, status: "executing" | "complete") => void;
+    onToolCall?: (toolName: string, status: "executing" | "complete" | "error") => void;
 }
 
 interface UseChatReturn {
     messages: Message[];
     isLoading: boolean;
+    isLoadingHistory: boolean;
     isStreaming: boolean;
     error: Error | null;
     currentTool: string | null;
     lastMeta: ResponseMeta | null;
     sendMessage: (text: string, attachments?: Attachment[]) => Promise<void>;
+    /** Approve or deny a tool call paused with approval_required */
+    respondToApproval: (approvalId: string, approved: boolean) => Promise<void>;
     stopStreaming: () => void;
     clearMessages: () => void;
     retryLastMessage: () => void;
 }
 
-const STORAGE_KEY = "chatHistory";
 const MAX_RETRIES = 3;
+/** Failures a resend cannot fix */
+const TERMINAL_CODES: ReadonlySet<string> = new Set<AppErrorCode>([
+    "SAFETY_BLOCKED",
+    "QUOTA_EXCEEDED",
+    "INVALID_REQUEST",
+    "VALIDATION_ERROR",
+    "NOT_FOUND",
+    "FORBIDDEN",
+]);
+const SAVE_DEBOUNCE_MS = 300;
 
 /**
  * Exponential backoff delay calculation
@@ -43,9 +69,21 @@ function getBackoffDelay(attempt: number): number {
     return Math.min(1000 * Math.pow(2, attempt), 30000);
 }
 
-export function useChat({ userId, onError, onToolCall }: UseChatOptions): UseChatReturn {
+function serializeMessages(messages: Message[]): string {
+    return JSON.stringify(messages.map(toStoredMessage));
+}
+
+export function useChat({
+    userId,
+    conversationId,
+    onConversationCreated,
+    onPersisted,
+    onError,
+    onToolCall,
+}: UseChatOptions): UseChatReturn {
     const [messages, setMessages] = useState<Message[]>([]);
     const [isLoading, setIsLoading] = useState(false);
+    const [isLoadingHistory, setIsLoadingHistory] = useState(false);
     const [isStreaming, setIsStreaming] = useState(false);
     const [error, setError] = useState<Error | null>(null);
     const [currentTool, setCurrentTool] = useState<string | null>(null);
@@ -53,55 +91,69 @@ export function useChat({ userId, onError, onToolCall }: UseChatOptions): UseCha
 
     const abortRef = useRef<AbortController | null>(null);
     const lastUserMsgRef = useRef<{ text: string; attachments?: Attachment[] | undefined } | null>(null);
+    // Conversation the current `messages` belong to (null while unsaved/loading)
+    const ownerRef = useRef<string | null>(null);
+    // Last payload persisted, to skip redundant saves
+    const lastSavedRef = useRef<string>("[]");
 
-    // Load from localStorage on mount
+    // Load the conversation's messages whenever the selection changes
     useEffect(() => {
-        try {
-            const stored = localStorage.getItem(STORAGE_KEY);
-            if (stored) {
-                const parsed = JSON.parse(stored);
-                setMessages(
-                    parsed.map((m: { timestamp: string } & Omit<Message, "timestamp">) => ({
-                        ...m,
-                        timestamp: new Date(m.timestamp),
-                    }))
-                );
-            }
-        } catch {
-            // Ignore storage errors
-        }
-    }, []);
+        // Already holding this conversation (e.g. just allocated by sendMessage)
+        if (conversationId === ownerRef.current) return;
+
+        abortRef.current?.abort();
+        ownerRef.current = null;
+        lastSavedRef.current = "[]";
+        setMessages([]);
+        setError(null);
+        setLastMeta(null);
+
+        if (!conversationId) return;
+
+        let cancelled = false;
+        setIsLoadingHistory(true);
+
+        fetchConversation(userId, conversationId)
+            .then((conversation) => {
+                if (cancelled) return;
+                const loaded = conversation ? conversation.messages.map(toMessage) : [];
+                lastSavedRef.current = serializeMessages(loaded);
+                ownerRef.current = conversationId;
+                setMessages(loaded);
+            })
+            .catch((err) => {
+                if (cancelled) return;
+                setError(err instanceof Error ? err : new Error(String(err)));
+            })
+            .finally(() => {
+                if (!cancelled) setIsLoadingHistory(false);
+            });
 
-    // Save to localStorage on change (debounced to prevent excessive writes)
+        return () => {
+            cancelled = true;
+        };
+    }, [userId, conversationId]);
+
+    // Persist on change once streaming settles (debounced to prevent excessive writes)
     useEffect(() => {
+        if (!conversationId || ownerRef.current !== conversationId || isStreaming) return;
+
+        const serialized = serializeMessages(messages);
+        if (serialized === lastSavedRef.current) return;
+
         const saveTimeout = setTimeout(() => {
-            try {
-                const toStore = messages.map((m) => ({
-                    ...m,
-                    timestamp: m.timestamp.toISOString(),
-                }));
-                localStorage.setItem(STORAGE_KEY, JSON.stringify(toStore));
-            } catch (error) {
-                // Handle storage quota exceeded
-                if (error instanceof DOMException && error.name === "QuotaExceededError") {
-                    console.warn("[Storage] Quota exceeded, clearing old messages");
-                    // Keep only the last 20 messages if quota exceeded
-                    try {
-                        const recentMessages = messages.slice(-20).map((m) => ({
-                            ...m,
-                            timestamp: m.timestamp.toISOString(),
-                        }));
-                        localStorage.setItem(STORAGE_KEY, JSON.stringify(recentMessages));
-                    } catch {
-                        // If still failing, clear storage
-                        localStorage.removeItem(STORAGE_KEY);
-                    }
-                }
-            }
-        }, 300); // 300ms debounce
+            saveConversationMessages(userId, conversationId, messages.map(toStoredMessage))
+                .then((conversation) => {
+                    lastSavedRef.current = serialized;
+                    onPersisted?.(toSummary(conversation));
+                })
+                .catch((err) => {
+                    console.warn("[Storage] Failed to save conversation", err);
+                });
+        }, SAVE_DEBOUNCE_MS);
 
         return () => clearTimeout(saveTimeout);
-    }, [messages]);
+    }, [userId, conversationId, messages, isStreaming, onPersisted]);
 
     const stopStreaming = useCallback(() => {
         if (abortRef.current) {
@@ -126,6 +178,13 @@ export function useChat({ userId, onError, onToolCall }: UseChatOptions): UseCha
             }
             currentRequestId = requestId;
 
+            // First message of a new chat allocates the conversation id
+            const activeConversationId = conversationId ?? generateId();
+            if (!conversationId) {
+                ownerRef.current = activeConversationId;
+                onConversationCreated?.(activeConversationId);
+            }
+
             lastUserMsgRef.current = { text: trimmed, attachments };
             setError(null);
             setCurrentTool(null);
@@ -170,6 +229,8 @@ export function useChat({ userId, onError, onToolCall }: UseChatOptions): UseCha
             setMessages((prev) => [...prev, botMsg]);
 
             let retries = 0;
+            // Once the server has sent anything (text, tool calls), resending would repeat it
+            let streamStarted = false;
 
             while (retries <= MAX_RETRIES) {
                 try {
@@ -181,6 +242,7 @@ export function useChat({ userId, onError, onToolCall }: UseChatOptions): UseCha
                         body: JSON.stringify({
                             message: trimmed,
                             userId,
+                            conversationId: activeConversationId,
                             stream: true,
                             history: historyForServer,
                             attachments: attachments || [],
@@ -199,74 +261,115 @@ export function useChat({ userId, onError, onToolCall }: UseChatOptions): UseCha
 
                     if (!res.ok) {
                         const errData = await res.json().catch(() => ({}));
-                        throw new Error(errData.error || `HTTP ${res.status}`);
+                        const code: AppErrorCode = errData.code || "INTERNAL_ERROR";
+                        throw new AppError(
+                            errData.error || `HTTP ${res.status}`,
+                            res.status,
+                            code,
+                            res.status >= 500 && !TERMINAL_CODES.has(code)
+                        );
                     }
 
-                    // Stream the response
-                    const reader = res.body?.getReader();
-                    const decoder = new TextDecoder();
+                    // Stream the response; segments split pre-tool text from the final answer
+                    let segments: string[] = [""];
                     let fullText = "";
                     let receivedMeta: ResponseMeta | null = null;
 
-                    if (reader) {
-                        let done = false;
-                        while (!done) {
-                            const { value, done: d } = await reader.read();
-                            done = d;
-                            if (value) {
-                                const chunk = decoder.decode(value, { stream: true });
-                                const lines = chunk.split("\n");
-
-                                for (const line of lines) {
-                                    if (line.startsWith("data: ")) {
-                                        const data = line.slice(6);
-                                        if (data === "[DONE]") continue;
-
-                                        try {
-                                            const parsed = JSON.parse(data);
-
-                                            // Handle tool call notifications
-                                            if (parsed.toolCall) {
-                                                setCurrentTool(parsed.toolCall.name);
-                                                onToolCall?.(parsed.toolCall.name, parsed.toolCall.status);
-                                            }
-
-                                            // Handle text chunks
-                                            if (parsed.text) {
-                                                if (parsed.isToolResult) {
-                                                    // Replace with tool result
-                                                    fullText = parsed.text;
-                                                } else {
-                                                    fullText += parsed.text;
-                                                }
-                                                setMessages((prev) =>
-                                                    prev.map((m) =>
-                                                        m.id === botId ? { ...m, text: fullText } : m
-                                                    )
-                                                );
-                                            }
-
-                                            // Handle completion metadata
-                                            if (parsed.done && parsed.meta) {
-                                                receivedMeta = parsed.meta;
-                                                setLastMeta(parsed.meta);
-                                                setCurrentTool(null);
-                                            }
-
-                                            if (parsed.error) {
-                                                throw new Error(parsed.error);
-                                            }
-                                        } catch (e) {
-                                            if (
-                                                e instanceof Error &&
-                                                e.message !== "Unexpected end of JSON input"
-                                            ) {
-                                                throw e;
-                                            }
-                                        }
-                                    }
-                                }
+                    const updateBotText = (next: string[]) => {
+                        segments = next;
+                        fullText = segments.join("\n\n");
+                        setMessages((prev) =>
+                            prev.map((m) =>
+                                m.id === botId
+                                    ? { ...m, text: fullText, ...(segments.length > 1 && { segments }) }
+                                    : m
+                            )
+                        );
+                    };
+
+                    let toolCalls: ToolCallRecord[] = [];
+
+                    const updateToolCall = (record: ToolCallRecord) => {
+                        const exists = toolCalls.some((c) => c.id === record.id);
+                        toolCalls = exists
+                            ? toolCalls.map((c) => (c.id === record.id ? { ...c, ...record } : c))
+                            : [...toolCalls, record];
+                        const running = toolCalls.filter((c) => c.status === "running");
+                        setCurrentTool(running[running.length - 1]?.name ?? null);
+                        setMessages((prev) =>
+                            prev.map((m) =>
+                                m.id === botId ? { ...m, meta: { ...m.meta, toolCalls } } : m
+                            )
+                        );
+                    };
+
+                    const handleEvent = (event: StreamEvent) => {
+                        switch (event.type) {
+                            case "approval_required":
+                                updateToolCall({
+                                    id: event.callId,
+                                    name: event.name,
+                                    args: event.args,
+                                    iteration: event.iteration,
+                                    status: "awaiting_approval",
+                                    approvalId: event.approvalId,
+                                });
+                                break;
+                            case "tool_start":
+                                updateToolCall({
+                                    id: event.callId,
+                                    name: event.name,
+                                    args: event.args,
+                                    iteration: event.iteration,
+                                    status: "running",
+                                    approvalId: undefined,
+                                });
+                                onToolCall?.(event.name, "executing");
+                                break;
+                            case "tool_output": {
+                                const previous = toolCalls.find((c) => c.id === event.callId);
+                                if (previous) updateToolCall({ ...previous, output: (previous.output ?? "") + event.text });
+                                break;
                             }
+                            case "tool_complete":
+                            case "tool_error": {
+                                const previous = toolCalls.find((c) => c.id === event.callId);
+                                updateToolCall({
+                                    id: event.callId,
+                                    name: event.name,
+                                    args: previous?.args ?? {},
+                                    iteration: event.iteration,
+                                    durationMs: event.durationMs,
+                                    approvalId: undefined,
+                                    ...(event.type === "tool_complete"
+                                        ? { status: "complete", result: event.result }
+                                        : { status: "error", error: event.error }),
+                                });
+                                onToolCall?.(event.name, event.type === "tool_complete" ? "complete" : "error");
+                                break;
+                            }
+                            case "text":
+                                updateBotText([...segments.slice(0, -1), segments[segments.length - 1] + event.text]);
+                                break;
+                            case "segment":
+                                updateBotText([...segments, ""]);
+                                break;
+                            case "done":
+                                receivedMeta = event.meta;
+                                setLastMeta(event.meta);
+                                setCurrentTool(null);
+                                break;
+                            case "error":
+                                throw new AppError(event.error, 500, event.code, !TERMINAL_CODES.has(event.code));
+                        }
+                    };
+
+                    if (res.body) {
+                        for await (const frame of readSSE(res.body)) {
+                            const event = decodeEvent(frame);
+                            if (!event) continue;
+                            streamStarted = true;
+                            handleEvent(event);
                         }
                     }
 
@@ -279,7 +382,9 @@ export function useChat({ userId, onError, onToolCall }: UseChatOptions): UseCha
                                     text: fullText,
                                     status: "sent",
                                     timestamp: new Date(),
-                                    meta: receivedMeta || undefined,
+                                    meta: toolCalls.length > 0
+                                        ? { ...receivedMeta, toolCalls }
+                                        : receivedMeta || undefined,
                                 }
                                 : m
                         )
@@ -293,8 +398,9 @@ export function useChat({ userId, onError, onToolCall }: UseChatOptions): UseCha
                         break;
                     }
 
-                    // Check if we should retry
-                    if (retries < MAX_RETRIES) {
+                    // Retry only failures before the stream started; errors without a code are network failures
+                    const retryable = err instanceof AppError ? err.retryable : true;
+                    if (!streamStarted && retryable && retries < MAX_RETRIES) {
                         retries++;
                         const delay = getBackoffDelay(retries);
                         console.log(`[Error] Retry ${retries}/${MAX_RETRIES} in ${delay}ms`);
@@ -319,12 +425,31 @@ export function useChat({ userId, onError, onToolCall }: UseChatOptions): UseCha
             abortRef.current = null;
             currentRequestId = null; // Clear request lock
         },
-        [userId, isLoading, messages, onError, onToolCall]
+        [userId, conversationId, isLoading, messages, onConversationCreated, onError, onToolCall]
+    );
+
+    const respondToApproval = useCallback(
+        async (approvalId: string, approved: boolean) => {
+            try {
+                const res = await fetch("/api/chat/approve", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ userId, approvalId, approved }),
+                });
+                if (!res.ok) {
+                    const errData = await res.json().catch(() => ({}));
+                    throw new Error(errData.error || `HTTP ${res.status}`);
+                }
+                // The paused stream continues with tool_start or tool_error
+            } catch (err) {
+                onError?.(err instanceof Error ? err : new Error(String(err)));
+            }
+        },
+        [userId, onError]
     );
 
     const clearMessages = useCallback(() => {
         setMessages([]);
-        localStorage.removeItem(STORAGE_KEY);
         setError(null);
         setLastMeta(null);
     }, []);
@@ -354,11 +479,13 @@ export function useChat({ userId, onError, onToolCall }: UseChatOptions): UseCha
     return {
         messages,
         isLoading,
+        isLoadingHistory,
         isStreaming,
         error,
         currentTool,
         lastMeta,
         sendMessage,
+        respondToApproval,
         stopStreaming,
         clearMessages,
         retryLastMessage,
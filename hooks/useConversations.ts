@@ -0,0 +1,75 @@
+"use client";
+
+/**
+ * useConversations Hook
+ *
+ * Conversation list for the sidebar, backed by /api/conversations.
+ * Migrates the legacy single-history localStorage blob on first load.
+ */
+
+import { useState, useCallback, useEffect } from "react";
+import type { ConversationSummary } from "@/types/chat";
+import {
+    fetchConversations,
+    deleteConversation,
+    migrateLegacyHistory,
+} from "@/lib/chat/conversation-client";
+
+// Shared across mounts so StrictMode double effects don't migrate twice
+let migration: Promise<unknown> | null = null;
+
+interface UseConversationsReturn {
+    conversations: ConversationSummary[];
+    isLoading: boolean;
+    error: Error | null;
+    refresh: () => Promise<void>;
+    remove: (id: string) => Promise<void>;
+    /** Insert or update a single entry (e.g. after useChat persists) and move it to the top */
+    upsert: (summary: ConversationSummary) => void;
+}
+
+export function useConversations(userId: string): UseConversationsReturn {
+    const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<Error | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setConversations(await fetchConversations(userId));
+            setError(null);
+        } catch (err) {
+            setError(err instanceof Error ? err : new Error(String(err)));
+        } finally {
+            setIsLoading(false);
+        }
+    }, [userId]);
+
+    useEffect(() => {
+        if (!migration) {
+            migration = migrateLegacyHistory(userId).catch((err) => {
+                console.warn("[Conversations] Legacy history migration failed", err);
+                migration = null;
+            });
+        }
+        migration.then(refresh);
+    }, [userId, refresh]);
+
+    const remove = useCallback(async (id: string) => {
+        setConversations((prev) => prev.filter((c) => c.id !== id));
+        try {
+            await deleteConversation(userId, id);
+        } catch (err) {
+            // Restore the server's view if the delete failed
+            await refresh();
+            throw err;
+        }
+    }, [userId, refresh]);
+
+    const upsert = useCallback((summary: ConversationSummary) => {
+        setConversations((prev) => [summary, ...prev.filter((c) => c.id !== summary.id)]);
+    }, []);
+
+    return { conversations, isLoading, error, refresh, remove, upsert };
+}
+
+export default useConversations;
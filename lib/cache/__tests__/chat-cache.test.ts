@@ -0,0 +1,62 @@
+/**
+ * Session Cache Tests
+ *
+ * Tests for per-conversation session keying and expiry.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { SessionCache } from "@/lib/cache/chat-cache";
+import { MockSession } from "@/lib/providers";
+
+const fakeSession = (label: string) => new MockSession([{ chunks: [label] }]);
+
+describe("Session Cache", () => {
+    let cache: SessionCache;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        cache = new SessionCache({ sessionTimeout: 1000 });
+    });
+
+    afterEach(() => {
+        cache.dispose();
+        vi.useRealTimers();
+    });
+
+    it("should keep separate sessions per conversation of the same user", () => {
+        const a = fakeSession("a");
+        const b = fakeSession("b");
+        cache.set("user-1", "conv-a", a);
+        cache.set("user-1", "conv-b", b);
+
+        expect(cache.get("user-1", "conv-a")).toBe(a);
+        expect(cache.get("user-1", "conv-b")).toBe(b);
+        expect(cache.get("user-2", "conv-a")).toBeNull();
+    });
+
+    it("should delete a single conversation or all of a user's sessions", () => {
+        cache.set("user-1", "conv-a", fakeSession("a"));
+        cache.set("user-1", "conv-b", fakeSession("b"));
+        cache.set("user-2", "conv-a", fakeSession("c"));
+
+        expect(cache.delete("user-1", "conv-a")).toBe(true);
+        expect(cache.has("user-1", "conv-a")).toBe(false);
+        expect(cache.deleteUser("user-1")).toBe(1);
+        expect(cache.has("user-2", "conv-a")).toBe(true);
+    });
+
+    it("should expire sessions after the timeout", () => {
+        cache.set("user-1", "conv-a", fakeSession("a"));
+        vi.advanceTimersByTime(1500);
+
+        expect(cache.get("user-1", "conv-a")).toBeNull();
+    });
+
+    it("should track history per conversation", () => {
+        cache.set("user-1", "conv-a", fakeSession("a"));
+        cache.updateHistory("user-1", "conv-a", [{ role: "user", parts: [{ text: "hi" }] }]);
+
+        expect(cache.getSessionData("user-1", "conv-a")?.history).toHaveLength(1);
+        expect(cache.getSessionData("user-1", "conv-a")?.conversationId).toBe("conv-a");
+    });
+});
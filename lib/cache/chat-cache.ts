@@ -5,16 +5,22 @@
  * - Automatic session expiration
  * - Memory-efficient LRU eviction
  * - Type-safe session handling
+ * - One session per (userId, conversationId) so conversations run in parallel
  */
 
-import type { ChatSession, Content } from "@google/generative-ai";
+import type { Content } from "@google/generative-ai";
+import type { ChatProviderSession } from "../providers/types";
 
-interface CachedSession {
-    session: ChatSession;
+export interface CachedSession {
+    userId: string;
+    conversationId: string;
+    session: ChatProviderSession;
     lastAccessed: number;
     createdAt: number;
     messageCount: number;
     history: Content[];
+    /** Key of the tool set the session was started with */
+    toolSet: string;
 }
 
 interface CacheConfig {
@@ -32,6 +38,13 @@ const DEFAULT_CONFIG: CacheConfig = {
     cleanupInterval: 5 * 60 * 1000, // 5 minutes
 };
 
+/**
+ * Build the cache key for a user's conversation
+ */
+function sessionKey(userId: string, conversationId: string): string {
+    return `${userId}\u0000${conversationId}`;
+}
+
 /**
  * Enterprise session cache with automatic cleanup and LRU eviction
  */
@@ -46,55 +59,54 @@ export class SessionCache {
     }
 
     /**
-     * Get a session by user ID
+     * Get a session for a user's conversation
      */
-    get(userId: string): ChatSession | null {
-        const cached = this.sessions.get(userId);
-
-        if (!cached) {
-            return null;
-        }
-
-        // Check if session has expired
-        if (Date.now() - cached.lastAccessed > this.config.sessionTimeout) {
-            this.sessions.delete(userId);
-            return null;
-        }
-
-        // Update last accessed time
-        cached.lastAccessed = Date.now();
-        return cached.session;
+    get(userId: string, conversationId: string): ChatProviderSession | null {
+        return this.getSessionData(userId, conversationId)?.session ?? null;
     }
 
     /**
      * Get full session data including history
      */
-    getSessionData(userId: string): CachedSession | null {
-        const cached = this.sessions.get(userId);
+    getSessionData(userId: string, conversationId: string): CachedSession | null {
+        const key = sessionKey(userId, conversationId);
+        const cached = this.sessions.get(key);
         if (!cached) return null;
 
+        // Check if session has expired
         if (Date.now() - cached.lastAccessed > this.config.sessionTimeout) {
-            this.sessions.delete(userId);
+            this.sessions.delete(key);
             return null;
         }
 
+        // Update last accessed time
         cached.lastAccessed = Date.now();
         return cached;
     }
 
     /**
-     * Store a session for a user
+     * Store a session for a user's conversation (replaces any existing one)
      */
-    set(userId: string, session: ChatSession, initialHistory: Content[] = []): void {
+    set(
+        userId: string,
+        conversationId: string,
+        session: ChatProviderSession,
+        initialHistory: Content[] = [],
+        toolSet = ""
+    ): void {
+        const key = sessionKey(userId, conversationId);
         // Evict oldest sessions if at capacity
-        if (this.sessions.size >= this.config.maxSessions) {
+        if (!this.sessions.has(key) && this.sessions.size >= this.config.maxSessions) {
             this.evictOldest();
         }
 
         const now = Date.now();
-        this.sessions.set(userId, {
+        this.sessions.set(key, {
+            userId,
+            conversationId,
             session,
             history: initialHistory,
+            toolSet,
             lastAccessed: now,
             createdAt: now,
             messageCount: initialHistory.length,
@@ -104,8 +116,8 @@ export class SessionCache {
     /**
      * Update message count for a session
      */
-    incrementMessageCount(userId: string): void {
-        const cached = this.sessions.get(userId);
+    incrementMessageCount(userId: string, conversationId: string): void {
+        const cached = this.sessions.get(sessionKey(userId, conversationId));
         if (cached) {
             cached.messageCount++;
             cached.lastAccessed = Date.now();
@@ -115,8 +127,8 @@ export class SessionCache {
     /**
      * Update history for a session
      */
-    updateHistory(userId: string, history: Content[]): void {
-        const cached = this.sessions.get(userId);
+    updateHistory(userId: string, conversationId: string, history: Content[]): void {
+        const cached = this.sessions.get(sessionKey(userId, conversationId));
         if (cached) {
             cached.history = history;
             cached.lastAccessed = Date.now();
@@ -126,16 +138,29 @@ export class SessionCache {
     /**
      * Delete a specific session
      */
-    delete(userId: string): boolean {
-        return this.sessions.delete(userId);
+    delete(userId: string, conversationId: string): boolean {
+        return this.sessions.delete(sessionKey(userId, conversationId));
+    }
+
+    /**
+     * Delete every session belonging to a user
+     */
+    deleteUser(userId: string): number {
+        let deleted = 0;
+        for (const [key, cached] of this.sessions) {
+            if (cached.userId === userId) {
+                this.sessions.delete(key);
+                deleted++;
+            }
+        }
+        return deleted;
     }
 
     /**
      * Check if a session exists
      */
-    has(userId: string): boolean {
-        const session = this.get(userId);
-        return session !== null;
+    has(userId: string, conversationId: string): boolean {
+        return this.get(userId, conversationId) !== null;
     }
 
     /**
@@ -173,9 +198,9 @@ export class SessionCache {
         const now = Date.now();
         const expiredIds: string[] = [];
 
-        for (const [userId, cached] of this.sessions) {
+        for (const [key, cached] of this.sessions) {
             if (now - cached.lastAccessed > this.config.sessionTimeout) {
-                expiredIds.push(userId);
+                expiredIds.push(key);
             }
         }
 
@@ -195,16 +220,17 @@ export class SessionCache {
         let oldestId: string | null = null;
         let oldestTime = Date.now();
 
-        for (const [userId, cached] of this.sessions) {
+        for (const [key, cached] of this.sessions) {
             if (cached.lastAccessed < oldestTime) {
                 oldestTime = cached.lastAccessed;
-                oldestId = userId;
+                oldestId = key;
             }
         }
 
         if (oldestId) {
+            const evicted = this.sessions.get(oldestId);
             this.sessions.delete(oldestId);
-            console.log(`[SessionCache] Evicted oldest session: ${oldestId}`);
+            console.log(`[SessionCache] Evicted oldest session: ${evicted?.userId}/${evicted?.conversationId}`);
         }
     }
 
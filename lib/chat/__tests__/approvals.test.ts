@@ -0,0 +1,68 @@
+/**
+ * Approval Store Tests
+ *
+ * Tests for parking tool calls until they are approved, denied, expire
+ * or are cancelled, and for scoping pending approvals per user.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { ApprovalStore } from "@/lib/chat/approvals";
+
+const call = { callId: "call_1_0", name: "files__write", args: { path: "a.txt" } };
+
+describe("ApprovalStore", () => {
+    let store: ApprovalStore;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        store = new ApprovalStore(1000);
+    });
+
+    afterEach(() => {
+        store.clear();
+        vi.useRealTimers();
+    });
+
+    it("should resolve with the user's decision", async () => {
+        const approved = store.request("user-1", "conv-1", call);
+        const denied = store.request("user-1", "conv-1", call);
+
+        expect(store.resolve("user-1", approved.id, true)).toBe(true);
+        expect(store.resolve("user-1", denied.id, false)).toBe(true);
+
+        await expect(approved.decision).resolves.toBe("approved");
+        await expect(denied.decision).resolves.toBe("denied");
+        expect(store.list("user-1")).toEqual([]);
+    });
+
+    it("should only let the owning user answer", async () => {
+        const pending = store.request("user-1", "conv-1", call);
+
+        expect(store.resolve("user-2", pending.id, true)).toBe(false);
+        expect(store.resolve("user-1", "unknown", true)).toBe(false);
+        expect(store.list("user-2")).toEqual([]);
+        expect(store.list("user-1", "conv-1")).toEqual([
+            { id: pending.id, conversationId: "conv-1", ...call, createdAt: Date.now() },
+        ]);
+        expect(store.list("user-1", "conv-2")).toEqual([]);
+    });
+
+    it("should expire unanswered approvals", async () => {
+        const pending = store.request("user-1", "conv-1", call);
+
+        vi.advanceTimersByTime(1000);
+
+        await expect(pending.decision).resolves.toBe("expired");
+        expect(store.resolve("user-1", pending.id, true)).toBe(false);
+    });
+
+    it("should cancel when the request signal aborts", async () => {
+        const controller = new AbortController();
+        const pending = store.request("user-1", "conv-1", call, controller.signal);
+
+        controller.abort();
+
+        await expect(pending.decision).resolves.toBe("cancelled");
+        expect(store.list("user-1")).toEqual([]);
+    });
+});
@@ -0,0 +1,64 @@
+/**
+ * History Reconciliation Tests
+ *
+ * Tests for detecting when a cached session no longer matches the client.
+ */
+
+import { describe, it, expect } from "vitest";
+import type { Content } from "@google/generative-ai";
+import { historyDiverges, withoutPendingMessage } from "@/lib/chat/history";
+
+const user = (text: string): Content => ({ role: "user", parts: [{ text }] });
+const model = (text: string): Content => ({ role: "model", parts: [{ text }] });
+const toolResponse = (): Content => ({
+    role: "function",
+    parts: [{ functionResponse: { name: "calculate", response: { result: 4 } } }],
+});
+
+describe("History Reconciliation", () => {
+    describe("withoutPendingMessage", () => {
+        it("should drop the trailing pending user turn", () => {
+            const history = [user("hi"), model("hello"), user("2+2?")];
+            expect(withoutPendingMessage(history, "2+2?")).toEqual([user("hi"), model("hello")]);
+        });
+
+        it("should keep history that does not end with the message", () => {
+            const history = [user("hi"), model("hello")];
+            expect(withoutPendingMessage(history, "2+2?")).toBe(history);
+        });
+    });
+
+    describe("historyDiverges", () => {
+        it("should accept an empty session", () => {
+            expect(historyDiverges([], [user("a"), model("b")])).toBe(false);
+        });
+
+        it("should accept matching user turns despite different model turns", () => {
+            const session = [user("a"), model("calling tool"), toolResponse(), model("4"), user("b"), model("ok")];
+            const client = [user("a"), model("calling tool\n\n4"), user("b"), model("ok")];
+            expect(historyDiverges(session, client)).toBe(false);
+        });
+
+        it("should accept a session built from a trimmed window", () => {
+            const session = [user("c"), model("3")];
+            const client = [user("a"), model("1"), user("b"), model("2"), user("c"), model("3")];
+            expect(historyDiverges(session, client)).toBe(false);
+        });
+
+        it("should detect an edited user turn", () => {
+            const session = [user("a"), model("1"), user("b"), model("2")];
+            const client = [user("a"), model("1"), user("B edited"), model("2")];
+            expect(historyDiverges(session, client)).toBe(true);
+        });
+
+        it("should detect a cleared conversation", () => {
+            expect(historyDiverges([user("a"), model("1")], [])).toBe(true);
+        });
+
+        it("should detect turns the session never saw", () => {
+            const session = [user("a"), model("1")];
+            const client = [user("a"), model("1"), user("from another tab"), model("2")];
+            expect(historyDiverges(session, client)).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,136 @@
+/**
+ * SSE Parser Tests
+ *
+ * Tests for incremental event-stream parsing, including frames split
+ * at every possible chunk boundary.
+ */
+
+import { describe, it, expect } from "vitest";
+import { readSSE, SSEParser } from "../sse-parser";
+import type { SSEMessage } from "../sse-parser";
+
+function parseAll(chunks: string[]): { messages: SSEMessage[]; parser: SSEParser } {
+    const parser = new SSEParser();
+    const messages = chunks.flatMap((chunk) => parser.feed(chunk));
+    parser.end();
+    return { messages, parser };
+}
+
+/**
+ * Deterministic pseudo-random split of a string into chunks of 1..maxSize chars
+ */
+function randomSplit(input: string, seed: number, maxSize: number): string[] {
+    const chunks: string[] = [];
+    let state = seed;
+    let i = 0;
+    while (i < input.length) {
+        state = (state * 1103515245 + 12345) % 2147483648;
+        const size = 1 + (state % maxSize);
+        chunks.push(input.slice(i, i + size));
+        i += size;
+    }
+    return chunks;
+}
+
+const STREAM = [
+    ": keep-alive comment",
+    "retry: 3000",
+    "id: 1",
+    "event: text",
+    'data: {"v":1,"text":"Hello"}',
+    "",
+    "id: 2",
+    "event: text",
+    "data: line one",
+    "data: line two",
+    "",
+    "event: done",
+    "data:no-space",
+    "",
+    "",
+].join("\r\n");
+
+const EXPECTED: SSEMessage[] = [
+    { id: "1", event: "text", data: '{"v":1,"text":"Hello"}' },
+    { id: "2", event: "text", data: "line one\nline two" },
+    { id: "2", event: "done", data: "no-space" },
+];
+
+describe("SSEParser", () => {
+    it("should parse a complete stream in one chunk", () => {
+        const { messages, parser } = parseAll([STREAM]);
+        expect(messages).toEqual(EXPECTED);
+        expect(parser.retry).toBe(3000);
+    });
+
+    it("should produce the same messages for every two-way split", () => {
+        for (let i = 0; i <= STREAM.length; i++) {
+            const { messages } = parseAll([STREAM.slice(0, i), STREAM.slice(i)]);
+            expect(messages, `split at ${i}`).toEqual(EXPECTED);
+        }
+    });
+
+    it("should produce the same messages for random chunkings", () => {
+        for (let seed = 1; seed <= 50; seed++) {
+            const { messages } = parseAll(randomSplit(STREAM, seed, 7));
+            expect(messages, `seed ${seed}`).toEqual(EXPECTED);
+        }
+    });
+
+    it("should handle one character per chunk", () => {
+        expect(parseAll([...STREAM]).messages).toEqual(EXPECTED);
+    });
+
+    it("should accept LF and lone CR line endings", () => {
+        const lf = "event: text\ndata: a\n\n";
+        const cr = "event: text\rdata: a\r\r";
+        expect(parseAll([lf]).messages).toEqual([{ event: "text", data: "a" }]);
+        expect(parseAll([cr]).messages).toEqual([{ event: "text", data: "a" }]);
+    });
+
+    it("should not treat a CRLF split across chunks as two line breaks", () => {
+        const { messages } = parseAll(["data: a\r", "\ndata: b\r\n\r", "\n"]);
+        expect(messages).toEqual([{ data: "a\nb" }]);
+    });
+
+    it("should ignore frames without data and reset the event name", () => {
+        const { messages } = parseAll(["event: ping\n\n", "data: x\n\n"]);
+        expect(messages).toEqual([{ data: "x" }]);
+    });
+
+    it("should discard an unterminated final message", () => {
+        const { messages } = parseAll(["data: complete\n\n", "data: partial"]);
+        expect(messages).toEqual([{ data: "complete" }]);
+    });
+
+    it("should strip a leading byte order mark", () => {
+        expect(parseAll(["\uFEFFdata: x\n\n"]).messages).toEqual([{ data: "x" }]);
+    });
+
+    it("should ignore invalid retry values and unknown fields", () => {
+        const { messages, parser } = parseAll(["retry: soon\nfoo: bar\ndata: x\n\n"]);
+        expect(messages).toEqual([{ data: "x" }]);
+        expect(parser.retry).toBeNull();
+    });
+
+    it("should keep empty data lines", () => {
+        expect(parseAll(["data\ndata: b\n\n"]).messages).toEqual([{ data: "\nb" }]);
+    });
+});
+
+describe("readSSE", () => {
+    it("should decode multi-byte characters split across byte chunks", async () => {
+        const bytes = new TextEncoder().encode("data: héllo 👋\n\n");
+        const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                for (const byte of bytes) controller.enqueue(new Uint8Array([byte]));
+                controller.close();
+            },
+        });
+
+        const messages: SSEMessage[] = [];
+        for await (const message of readSSE(body)) messages.push(message);
+
+        expect(messages).toEqual([{ data: "héllo 👋" }]);
+    });
+});
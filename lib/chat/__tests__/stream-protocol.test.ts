@@ -0,0 +1,110 @@
+/**
+ * Stream Protocol Tests
+ *
+ * Tests for encoding and decoding chat stream events, so the agent
+ * (server) and useChat (client) cannot drift apart.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    createEventEncoder,
+    decodeEvent,
+    encodeEvent,
+    isTerminalEvent,
+    STREAM_PROTOCOL_VERSION,
+} from "../stream-protocol";
+import type { RawStreamFrame, StreamEvent } from "../stream-protocol";
+import { StreamProtocolError } from "../../errors/index";
+
+/**
+ * Minimal frame reader for a single encoded event
+ */
+function toFrame(encoded: string): RawStreamFrame {
+    const frame: RawStreamFrame = { data: "" };
+    for (const line of encoded.split("\n")) {
+        const [field, ...rest] = line.split(": ");
+        const value = rest.join(": ");
+        if (field === "id") frame.id = value;
+        if (field === "event") frame.event = value;
+        if (field === "data") frame.data = value;
+    }
+    return frame;
+}
+
+const events: StreamEvent[] = [
+    { type: "text", text: "Hello\nworld" },
+    { type: "segment" },
+    { type: "approval_required", approvalId: "a-1", callId: "call_1_0", name: "files__write", args: { path: "x" }, iteration: 1 },
+    { type: "tool_start", callId: "call_1_0", name: "calculate", args: { expression: "6 * 7" }, iteration: 1 },
+    { type: "tool_output", callId: "call_1_0", name: "run_code", stream: "stdout", text: "42\n", iteration: 1 },
+    { type: "tool_complete", callId: "call_1_0", name: "calculate", result: '{"numericValue":42}', durationMs: 3, iteration: 1 },
+    { type: "tool_error", callId: "call_2_0", name: "encode", error: "Unknown operation", durationMs: 1, iteration: 2 },
+    { type: "done", meta: { processingTimeMs: 12, estimatedTokens: 3, toolsUsed: ["calculate"] } },
+    { type: "error", error: "Request timeout", code: "TIMEOUT" },
+];
+
+describe("Stream Protocol", () => {
+    describe("encodeEvent", () => {
+        it("should write id, event name and versioned data lines", () => {
+            expect(encodeEvent({ type: "text", text: "Hi" }, 7)).toBe(
+                `id: 7\nevent: text\ndata: {"v":${STREAM_PROTOCOL_VERSION},"text":"Hi"}\n\n`
+            );
+        });
+
+        it("should keep data on a single line when text contains newlines", () => {
+            const encoded = encodeEvent({ type: "text", text: "a\nb" }, 1);
+            expect(encoded.trimEnd().split("\n")).toHaveLength(3);
+        });
+    });
+
+    describe("createEventEncoder", () => {
+        it("should number events sequentially from 1", () => {
+            const encode = createEventEncoder();
+            const ids = [encode(events[0]!), encode(events[1]!)].map((e) => toFrame(e).id);
+            expect(ids).toEqual(["1", "2"]);
+        });
+    });
+
+    describe("decodeEvent", () => {
+        it.each(events)("should round-trip $type events", (event) => {
+            expect(decodeEvent(toFrame(encodeEvent(event, 1)))).toEqual(event);
+        });
+
+        it("should ignore unknown event names", () => {
+            expect(decodeEvent({ event: "heartbeat", data: '{"v":1}' })).toBeNull();
+        });
+
+        it("should ignore unnamed frames", () => {
+            expect(decodeEvent({ data: '{"v":1,"text":"legacy"}' })).toBeNull();
+        });
+
+        it("should reject invalid JSON", () => {
+            expect(() => decodeEvent({ event: "text", data: '{"v":1,"te' })).toThrow(StreamProtocolError);
+        });
+
+        it("should reject payloads without a version", () => {
+            expect(() => decodeEvent({ event: "text", data: '{"text":"hi"}' })).toThrow("protocol version");
+        });
+
+        it("should reject newer protocol versions", () => {
+            const data = JSON.stringify({ v: STREAM_PROTOCOL_VERSION + 1, text: "hi" });
+            expect(() => decodeEvent({ event: "text", data })).toThrow("newer than supported");
+        });
+
+        it("should reject events missing required fields", () => {
+            expect(() => decodeEvent({ event: "tool_start", data: '{"v":1,"callId":"c","name":"x","iteration":1}' }))
+                .toThrow("'args'");
+            expect(() => decodeEvent({ event: "tool_complete", data: '{"v":1,"callId":"c","name":"x","result":"1"}' }))
+                .toThrow("'iteration'");
+            expect(() => decodeEvent({ event: "tool_output", data: '{"v":1,"callId":"c","name":"x","iteration":1,"stream":"stdin","text":""}' }))
+                .toThrow("unknown stream 'stdin'");
+            expect(() => decodeEvent({ event: "done", data: '{"v":1}' })).toThrow("'meta'");
+        });
+    });
+
+    describe("isTerminalEvent", () => {
+        it("should treat only done and error as terminal", () => {
+            expect(events.filter(isTerminalEvent).map((e) => e.type)).toEqual(["done", "error"]);
+        });
+    });
+});
@@ -0,0 +1,141 @@
+/**
+ * Tool Approvals
+ *
+ * Server-side pending state for tool calls that need the user's consent.
+ * The agent parks a call here and streams an approval_required event; the
+ * call resumes when /api/chat/approve answers it, the wait times out, or the
+ * request is cancelled. Pending approvals are scoped per user and conversation.
+ */
+
+import { randomUUID } from "crypto";
+
+const APPROVAL_CONFIG = {
+    /** How long a call waits for an answer before it is treated as denied */
+    TIMEOUT_MS: 60_000,
+};
+
+export type ApprovalDecision = "approved" | "denied" | "expired" | "cancelled";
+
+/**
+ * The tool call awaiting a decision
+ */
+export interface ApprovalRequest {
+    callId: string;
+    name: string;
+    args: Record<string, unknown>;
+}
+
+export interface PendingApproval {
+    id: string;
+    decision: Promise<ApprovalDecision>;
+}
+
+/**
+ * Parks a tool call until it is approved or denied (bound to one conversation)
+ */
+export type ToolApprovalGate = (request: ApprovalRequest, signal?: AbortSignal) => PendingApproval;
+
+export interface ApprovalSummary extends ApprovalRequest {
+    id: string;
+    conversationId: string;
+    createdAt: number;
+}
+
+interface PendingEntry extends ApprovalSummary {
+    userId: string;
+    settle: (decision: ApprovalDecision) => void;
+}
+
+export class ApprovalStore {
+    private readonly pending = new Map<string, PendingEntry>();
+
+    constructor(private readonly timeoutMs: number = APPROVAL_CONFIG.TIMEOUT_MS) { }
+
+    /**
+     * Park a call; the decision settles exactly once
+     */
+    request(
+        userId: string,
+        conversationId: string,
+        call: ApprovalRequest,
+        signal?: AbortSignal
+    ): PendingApproval {
+        const id = randomUUID();
+
+        const decision = new Promise<ApprovalDecision>((resolve) => {
+            const timer = setTimeout(() => settle("expired"), this.timeoutMs);
+            const onAbort = () => settle("cancelled");
+
+            const settle = (result: ApprovalDecision) => {
+                if (!this.pending.delete(id)) return;
+                clearTimeout(timer);
+                signal?.removeEventListener("abort", onAbort);
+                resolve(result);
+            };
+
+            this.pending.set(id, {
+                id,
+                userId,
+                conversationId,
+                ...call,
+                createdAt: Date.now(),
+                settle,
+            });
+
+            if (signal?.aborted) onAbort();
+            else signal?.addEventListener("abort", onAbort, { once: true });
+        });
+
+        return { id, decision };
+    }
+
+    /**
+     * Answer a pending approval; false when it is unknown, already settled,
+     * or belongs to another user
+     */
+    resolve(userId: string, approvalId: string, approved: boolean): boolean {
+        const entry = this.pending.get(approvalId);
+        if (!entry || entry.userId !== userId) return false;
+        entry.settle(approved ? "approved" : "denied");
+        return true;
+    }
+
+    /**
+     * Pending approvals for a user, optionally limited to one conversation
+     */
+    list(userId: string, conversationId?: string): ApprovalSummary[] {
+        return [...this.pending.values()]
+            .filter((entry) => entry.userId === userId
+                && (conversationId === undefined || entry.conversationId === conversationId))
+            .map(({ userId: _userId, settle: _settle, ...summary }) => summary);
+    }
+
+    /**
+     * Cancel every pending approval
+     */
+    clear(): void {
+        for (const entry of [...this.pending.values()]) entry.settle("cancelled");
+    }
+
+    /**
+     * Gate for the agent bound to one conversation
+     */
+    gate(userId: string, conversationId: string): ToolApprovalGate {
+        return (call, signal) => this.request(userId, conversationId, call, signal);
+    }
+}
+
+let globalStore: ApprovalStore | null = null;
+
+export function getApprovalStore(): ApprovalStore {
+    if (!globalStore) globalStore = new ApprovalStore();
+    return globalStore;
+}
+
+/**
+ * Reset the global store (for testing)
+ */
+export function resetApprovalStore(): void {
+    globalStore?.clear();
+    globalStore = null;
+}
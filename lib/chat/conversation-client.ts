@@ -0,0 +1,105 @@
+/**
+ * Conversation API Client
+ *
+ * Browser-side wrappers around /api/conversations.
+ */
+
+import type { ConversationSummary, StoredConversation, StoredMessage } from "@/types/chat";
+
+/** localStorage key used before conversations were stored per id */
+export const LEGACY_STORAGE_KEY = "chatHistory";
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+    const res = await fetch(url, init);
+    if (!res.ok) {
+        const errData = await res.json().catch(() => ({}));
+        const error = new Error(errData.error || `HTTP ${res.status}`) as Error & { status?: number };
+        error.status = res.status;
+        throw error;
+    }
+    return (res.status === 204 ? undefined : await res.json()) as T;
+}
+
+function conversationUrl(userId: string, id?: string): string {
+    const base = id ? `/api/conversations/${encodeURIComponent(id)}` : "/api/conversations";
+    return `${base}?userId=${encodeURIComponent(userId)}`;
+}
+
+export async function fetchConversations(userId: string): Promise<ConversationSummary[]> {
+    const data = await request<{ conversations: ConversationSummary[] }>(conversationUrl(userId));
+    return data.conversations;
+}
+
+/**
+ * Load a conversation, returning null if it does not exist (yet)
+ */
+export async function fetchConversation(userId: string, id: string): Promise<StoredConversation | null> {
+    try {
+        const data = await request<{ conversation: StoredConversation }>(conversationUrl(userId, id));
+        return data.conversation;
+    } catch (error) {
+        if ((error as { status?: number }).status === 404) return null;
+        throw error;
+    }
+}
+
+export async function createConversation(
+    userId: string,
+    input: { id?: string; title?: string; messages?: StoredMessage[] } = {}
+): Promise<StoredConversation> {
+    const data = await request<{ conversation: StoredConversation }>("/api/conversations", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ userId, ...input }),
+    });
+    return data.conversation;
+}
+
+/**
+ * Replace a conversation's messages, creating it on first save
+ */
+export async function saveConversationMessages(
+    userId: string,
+    id: string,
+    messages: StoredMessage[]
+): Promise<StoredConversation> {
+    try {
+        const data = await request<{ conversation: StoredConversation }>(conversationUrl(userId, id), {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ userId, messages }),
+        });
+        return data.conversation;
+    } catch (error) {
+        if ((error as { status?: number }).status !== 404) throw error;
+        return createConversation(userId, { id, messages });
+    }
+}
+
+export async function deleteConversation(userId: string, id: string): Promise<void> {
+    await request<void>(conversationUrl(userId, id), { method: "DELETE" });
+}
+
+/**
+ * Move the legacy single-blob history into its own conversation.
+ * Returns the created conversation, or null if there was nothing to migrate.
+ */
+export async function migrateLegacyHistory(userId: string): Promise<StoredConversation | null> {
+    let stored: StoredMessage[];
+    try {
+        const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+        stored = raw ? JSON.parse(raw) : [];
+    } catch {
+        return null;
+    }
+
+    if (!Array.isArray(stored) || stored.length === 0) {
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        return null;
+    }
+
+    const conversation = await createConversation(userId, { messages: stored });
+    // Only drop the legacy blob once the server has it
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return conversation;
+}
@@ -0,0 +1,58 @@
+/**
+ * History Reconciliation
+ *
+ * Decides whether a cached model session still matches the history the client sent.
+ * Only user turns are compared: model turns differ in shape between the session
+ * (function calls, split segments) and the client (one rendered message).
+ */
+
+import type { Content } from "@google/generative-ai";
+import { sanitizeMessage } from "../sanitize";
+
+/**
+ * Plain text of a turn, ignoring non-text parts.
+ * Sanitized so raw client text compares equal to what the session was sent.
+ */
+function turnText(content: Content): string {
+    return sanitizeMessage(
+        (content.parts ?? [])
+            .map((part) => ("text" in part && typeof part.text === "string" ? part.text : ""))
+            .join("")
+    );
+}
+
+/**
+ * User-authored text turns, skipping tool responses and empty turns
+ */
+function userTurns(history: Content[]): string[] {
+    return history
+        .filter((content) => content.role === "user")
+        .map(turnText)
+        .filter(Boolean);
+}
+
+/**
+ * Drop the trailing user turn if it is the message about to be sent.
+ * The client includes the pending message in `history`; the session must not see it twice.
+ */
+export function withoutPendingMessage(history: Content[], message: string): Content[] {
+    const last = history[history.length - 1];
+    if (last?.role === "user" && turnText(last) === sanitizeMessage(message)) {
+        return history.slice(0, -1);
+    }
+    return history;
+}
+
+/**
+ * True when the session's user turns are not a suffix of the client's user turns.
+ * A suffix (rather than equality) is accepted because sessions start from a trimmed window.
+ */
+export function historyDiverges(sessionHistory: Content[], clientHistory: Content[]): boolean {
+    const sessionTurns = userTurns(sessionHistory);
+    const clientTurns = userTurns(clientHistory);
+
+    if (sessionTurns.length > clientTurns.length) return true;
+
+    const offset = clientTurns.length - sessionTurns.length;
+    return sessionTurns.some((text, i) => clientTurns[offset + i] !== text);
+}
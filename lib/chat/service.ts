@@ -3,25 +3,40 @@ import { getSessionCache } from "../cache/chat-cache";
 import { sanitizeMessage, detectInjection } from "../sanitize";
 import { AppError, RateLimitError } from "../errors";
 import { GeminiAgent } from "../gemini/agent";
+import type { ToolPolicy } from "../gemini/tool-policy";
 import {
-    getModel,
     createGenerationConfig,
+    getToolsForRequest,
     MODEL_CONFIG,
     Attachment,
 } from "../gemini";
+import { ensureMcpTools } from "../mcp";
+import { getProvider } from "../providers";
+import type { ProviderName } from "../providers";
 import { trimHistoryByTokens } from "../tokens";
+import { historyDiverges, withoutPendingMessage } from "./history";
+import { getApprovalStore } from "./approvals";
 import { Content } from "@google/generative-ai";
 
 interface ChatRequestParams {
     userId: string;
+    /** Conversation the message belongs to; each gets its own model session */
+    conversationId?: string;
     message: string;
     attachments?: Attachment[];
     history?: Content[];
     stream?: boolean;
     responseFormat?: "text" | "json";
+    /** Model backend for this request (defaults to CHAT_PROVIDER, then gemini) */
+    provider?: ProviderName;
+    /** Client disconnect; aborts the model request and running tools */
+    signal?: AbortSignal;
+    /** Tool loop limits for this request */
+    toolPolicy?: ToolPolicy;
 }
 
 const CONFIG = {
+    DEFAULT_CONVERSATION_ID: "default",
     MAX_HISTORY_MESSAGES: 30,
     MAX_OUTPUT_TOKENS: MODEL_CONFIG.MAX_OUTPUT_TOKENS,
 };
@@ -48,12 +63,16 @@ export class ChatService {
     static async processRequest(params: ChatRequestParams): Promise<Response | object> {
         const {
             userId,
+            conversationId = CONFIG.DEFAULT_CONVERSATION_ID,
             message,
             attachments = [],
             history = [],
             stream = true,
             responseFormat = "text",
+            signal,
+            toolPolicy,
         } = params;
+        const provider = getProvider(params.provider);
 
         // 1. Validation
         if (!userId) throw new AppError("User ID is required", 400, "INVALID_REQUEST");
@@ -72,42 +91,70 @@ export class ChatService {
         }
         const cleanMessage = sanitizeMessage(message);
 
-        // 4. Session Management
-        const sessionCache = getSessionCache();
-        let chat = sessionCache.get(userId);
-
-        // 5. Intent Detection & Config
+        // 4. Intent Detection & Config
         const { config: generationConfig, intent, depth } = createGenerationConfig(cleanMessage);
 
         const finalConfig = responseFormat === "json"
             ? { ...generationConfig, responseMimeType: "application/json" }
             : generationConfig;
 
-        // 6. Initialize Chat if needed
+        // 5. Tool Selection (by intent, limited to the policy allow-list;
+        //    MCP server tools are registered on first use)
+        await ensureMcpTools();
+        const tools = getToolsForRequest({ intent, allowedTools: toolPolicy?.allowedTools });
+        const toolSet = tools.map((t) => t.name).sort().join(",");
+
+        // 6. Session Management (one session per conversation, rebuilt if the
+        //    client diverged or the request needs a different tool set)
+        const sessionCache = getSessionCache();
+        const clientHistory = withoutPendingMessage(history, message);
+        const cached = sessionCache.getSessionData(userId, conversationId);
+        let chat = cached?.session ?? null;
+
+        if (cached && (cached.session.provider !== provider.name || cached.toolSet !== toolSet)) {
+            sessionCache.delete(userId, conversationId);
+            chat = null;
+        }
+
+        if (chat && historyDiverges(await chat.getHistory(), clientHistory)) {
+            console.log(`[ChatService] ${userId.slice(0, 8)}/${conversationId.slice(0, 8)} history diverged, rebuilding session`);
+            sessionCache.delete(userId, conversationId);
+            chat = null;
+        }
+
+        // 7. Initialize Chat if needed
         if (!chat) {
-            const model = getModel();
-            chat = model.startChat({
-                history: this.trimHistory(history),
+            chat = provider.startSession({
+                history: this.trimHistory(clientHistory),
                 generationConfig: {
                     maxOutputTokens: CONFIG.MAX_OUTPUT_TOKENS,
                     ...finalConfig,
                 },
+                tools,
             });
-            sessionCache.set(userId, chat, history);
+            sessionCache.set(userId, conversationId, chat, clientHistory, toolSet);
+        } else {
+            sessionCache.updateHistory(userId, conversationId, clientHistory);
         }
 
-        console.log(`[ChatService] ${userId.slice(0, 8)} | ${intent} (${depth})`);
+        console.log(`[ChatService] ${userId.slice(0, 8)} | ${provider.name} | ${intent} (${depth})`);
 
-        // 7. Execute AI
+        // 8. Execute AI
         const intentInfo = { intent, depth, config: finalConfig };
+        // Sensitive tools wait for /api/chat/approve (streaming only; refused otherwise)
+        const runOptions = {
+            signal,
+            toolPolicy,
+            approvals: getApprovalStore().gate(userId, conversationId),
+        };
 
         if (stream) {
-            return GeminiAgent.streamResponse(chat, cleanMessage, attachments, intentInfo);
+            return GeminiAgent.streamResponse(chat, cleanMessage, attachments, intentInfo, runOptions);
         } else {
-            const { response, meta } = await GeminiAgent.generateResponse(chat, cleanMessage, attachments, intentInfo);
+            const { response, meta } = await GeminiAgent.generateResponse(chat, cleanMessage, attachments, intentInfo, runOptions);
             return {
                 message: response,
-                conversationId: userId,
+                conversationId,
                 timestamp: new Date().toISOString(),
                 meta,
             };
@@ -0,0 +1,139 @@
+/**
+ * Incremental SSE Parser
+ *
+ * Parses a text/event-stream body following the WHATWG server-sent events
+ * rules, independent of how the bytes are split into network chunks:
+ * - LF, CRLF and lone CR line endings (including a CRLF split across chunks)
+ * - multi-line `data:` fields joined with "\n"
+ * - `:` comment lines, ignored
+ * - `id:` persisting across messages, `retry:` reconnection delay
+ * - a leading byte order mark
+ */
+
+import type { RawStreamFrame } from "./stream-protocol";
+
+export type SSEMessage = RawStreamFrame;
+
+export class SSEParser {
+    private buffer = "";
+    private dataLines: string[] = [];
+    private eventType: string | undefined;
+    private lastEventId: string | undefined;
+    private started = false;
+    /** Last CR ended a line; an LF opening the next chunk belongs to it */
+    private skipLeadingLF = false;
+
+    /** Reconnection delay from the latest valid `retry:` field, in ms */
+    retry: number | null = null;
+
+    /**
+     * Consume a chunk of decoded text and return the messages it completes
+     */
+    feed(chunk: string): SSEMessage[] {
+        let text = chunk;
+        if (!this.started && text.length > 0) {
+            this.started = true;
+            if (text.charCodeAt(0) === 0xfeff) text = text.slice(1);
+        }
+        if (text.length > 0) {
+            if (this.skipLeadingLF && text.startsWith("\n")) text = text.slice(1);
+            this.skipLeadingLF = false;
+        }
+
+        this.buffer += text;
+        const messages: SSEMessage[] = [];
+
+        let lineStart = 0;
+        for (let i = 0; i < this.buffer.length; i++) {
+            const ch = this.buffer[i];
+            if (ch !== "\n" && ch !== "\r") continue;
+
+            const message = this.processLine(this.buffer.slice(lineStart, i));
+            if (message) messages.push(message);
+
+            if (ch === "\r") {
+                if (i + 1 < this.buffer.length) {
+                    if (this.buffer[i + 1] === "\n") i++;
+                } else {
+                    this.skipLeadingLF = true;
+                }
+            }
+            lineStart = i + 1;
+        }
+
+        this.buffer = this.buffer.slice(lineStart);
+        return messages;
+    }
+
+    /**
+     * Signal end of stream. An unterminated final message is discarded,
+     * as the spec requires.
+     */
+    end(): void {
+        this.buffer = "";
+        this.dataLines = [];
+        this.eventType = undefined;
+        this.skipLeadingLF = false;
+    }
+
+    private processLine(line: string): SSEMessage | null {
+        if (line === "") return this.dispatch();
+        if (line.startsWith(":")) return null;
+
+        const colon = line.indexOf(":");
+        const field = colon === -1 ? line : line.slice(0, colon);
+        let value = colon === -1 ? "" : line.slice(colon + 1);
+        if (value.startsWith(" ")) value = value.slice(1);
+
+        switch (field) {
+            case "event":
+                this.eventType = value;
+                break;
+            case "data":
+                this.dataLines.push(value);
+                break;
+            case "id":
+                if (!value.includes("\0")) this.lastEventId = value;
+                break;
+            case "retry":
+                if (/^\d+$/.test(value)) this.retry = Number(value);
+                break;
+        }
+        return null;
+    }
+
+    private dispatch(): SSEMessage | null {
+        const dataLines = this.dataLines;
+        const eventType = this.eventType;
+        this.dataLines = [];
+        this.eventType = undefined;
+
+        if (dataLines.length === 0) return null;
+        return {
+            data: dataLines.join("\n"),
+            ...(eventType && { event: eventType }),
+            ...(this.lastEventId && { id: this.lastEventId }),
+        };
+    }
+}
+
+/**
+ * Read an event-stream body, yielding each complete message as it arrives
+ */
+export async function* readSSE(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    const parser = new SSEParser();
+
+    try {
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            yield* parser.feed(decoder.decode(value, { stream: true }));
+        }
+        yield* parser.feed(decoder.decode());
+        parser.end();
+    } finally {
+        reader.releaseLock();
+    }
+}
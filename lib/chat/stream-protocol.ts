@@ -0,0 +1,226 @@
+/**
+ * Chat Stream Protocol
+ *
+ * Typed server-sent events shared by GeminiAgent (encoder) and useChat (decoder).
+ * Each frame carries an `id:`, an `event:` name matching the event type, and a
+ * JSON `data:` payload stamped with the protocol version:
+ *
+ *   id: 1
+ *   event: text
+ *   data: {"v":1,"text":"Hello"}
+ *
+ * Text events append to the current segment of the message; a `segment`
+ * event starts a new one, so pre-tool text is never overwritten.
+ * `approval_required` pauses a call until the user answers it through
+ * /api/chat/approve; the call then continues with tool_start or tool_error.
+ * `tool_output` events stream a running call's output between its tool_start
+ * and tool_complete/tool_error.
+ * `done` and `error` are terminal: nothing follows them on the same stream.
+ */
+
+import { StreamProtocolError } from "../errors/index";
+import type { AppErrorCode } from "../errors/index";
+import type { ResponseMeta } from "../gemini/types";
+
+export const STREAM_PROTOCOL_VERSION = 1;
+
+// ============================================================================
+// Event Types
+// ============================================================================
+
+export type StreamErrorCode = Extract<
+    AppErrorCode,
+    "TIMEOUT" | "SAFETY_BLOCKED" | "QUOTA_EXCEEDED" | "INTERNAL_ERROR"
+>;
+
+export type StreamEvent =
+    /** Incremental model text, appended to the message */
+    | { type: "text"; text: string }
+    /** Following text starts a new segment (e.g. the answer after tool calls) */
+    | { type: "segment" }
+    /** A sensitive tool call is waiting for the user to approve or deny it */
+    | { type: "approval_required"; approvalId: string; callId: string; name: string; args: Record<string, unknown>; iteration: number }
+    /** A tool call started executing */
+    | { type: "tool_start"; callId: string; name: string; args: Record<string, unknown>; iteration: number }
+    /** Output of a running tool call, in the order it was produced */
+    | { type: "tool_output"; callId: string; name: string; stream: "stdout" | "stderr"; text: string; iteration: number }
+    /** A tool call succeeded; `result` is JSON, truncated for display */
+    | { type: "tool_complete"; callId: string; name: string; result: string; durationMs: number; iteration: number }
+    /** A tool call failed; the model still receives the error and continues */
+    | { type: "tool_error"; callId: string; name: string; error: string; durationMs: number; iteration: number }
+    /** Response finished successfully */
+    | { type: "done"; meta: ResponseMeta }
+    /** Response failed; the stream closes after this event */
+    | { type: "error"; error: string; code: StreamErrorCode };
+
+export type StreamEventType = StreamEvent["type"];
+
+export const STREAM_EVENT_TYPES: readonly StreamEventType[] = [
+    "text",
+    "segment",
+    "approval_required",
+    "tool_start",
+    "tool_output",
+    "tool_complete",
+    "tool_error",
+    "done",
+    "error",
+];
+
+/**
+ * One SSE message as delivered by a parser: the raw field values
+ */
+export interface RawStreamFrame {
+    id?: string | undefined;
+    event?: string | undefined;
+    data: string;
+}
+
+export function isTerminalEvent(event: StreamEvent): boolean {
+    return event.type === "done" || event.type === "error";
+}
+
+// ============================================================================
+// Encoder
+// ============================================================================
+
+/**
+ * Serialize an event as one SSE frame (terminated by a blank line)
+ */
+export function encodeEvent(event: StreamEvent, id: number): string {
+    const { type, ...payload } = event;
+    const data = JSON.stringify({ v: STREAM_PROTOCOL_VERSION, ...payload });
+    return `id: ${id}\nevent: ${type}\ndata: ${data}\n\n`;
+}
+
+/**
+ * Encoder that numbers events sequentially from 1
+ */
+export function createEventEncoder(): (event: StreamEvent) => string {
+    let nextId = 1;
+    return (event) => encodeEvent(event, nextId++);
+}
+
+// ============================================================================
+// Decoder
+// ============================================================================
+
+function isStreamEventType(value: string): value is StreamEventType {
+    return (STREAM_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+function requireString(payload: Record<string, unknown>, field: string, type: string): string {
+    const value = payload[field];
+    if (typeof value !== "string") {
+        throw new StreamProtocolError(`'${type}' event is missing '${field}'`);
+    }
+    return value;
+}
+
+function requireNumber(payload: Record<string, unknown>, field: string, type: string): number {
+    const value = payload[field];
+    if (typeof value !== "number") {
+        throw new StreamProtocolError(`'${type}' event is missing '${field}'`);
+    }
+    return value;
+}
+
+/**
+ * Fields shared by the tool lifecycle events
+ */
+function toolFields(payload: Record<string, unknown>, type: string) {
+    return {
+        callId: requireString(payload, "callId", type),
+        name: requireString(payload, "name", type),
+        iteration: requireNumber(payload, "iteration", type),
+    };
+}
+
+function requireArgs(payload: Record<string, unknown>, type: string): Record<string, unknown> {
+    const args = payload.args;
+    if (typeof args !== "object" || args === null || Array.isArray(args)) {
+        throw new StreamProtocolError(`'${type}' event is missing 'args'`);
+    }
+    return args as Record<string, unknown>;
+}
+
+/**
+ * Decode one SSE frame into a StreamEvent.
+ *
+ * Returns null for event names this client does not know, so a newer server
+ * can add events without breaking older clients. Throws StreamProtocolError
+ * for malformed payloads or a protocol version newer than this client.
+ */
+export function decodeEvent(frame: RawStreamFrame): StreamEvent | null {
+    const type = frame.event ?? "message";
+    if (!isStreamEventType(type)) return null;
+
+    let payload: unknown;
+    try {
+        payload = JSON.parse(frame.data);
+    } catch {
+        throw new StreamProtocolError(`'${type}' event has invalid JSON data`);
+    }
+    if (typeof payload !== "object" || payload === null || Array.isArray(payload)) {
+        throw new StreamProtocolError(`'${type}' event data must be an object`);
+    }
+
+    const fields = payload as Record<string, unknown>;
+    const version = fields.v;
+    if (typeof version !== "number") {
+        throw new StreamProtocolError(`'${type}' event has no protocol version`);
+    }
+    if (version > STREAM_PROTOCOL_VERSION) {
+        throw new StreamProtocolError(
+            `Stream protocol v${version} is newer than supported v${STREAM_PROTOCOL_VERSION}`
+        );
+    }
+
+    switch (type) {
+        case "text":
+            return { type, text: requireString(fields, "text", type) };
+        case "segment":
+            return { type };
+        case "approval_required":
+            return {
+                type,
+                approvalId: requireString(fields, "approvalId", type),
+                ...toolFields(fields, type),
+                args: requireArgs(fields, type),
+            };
+        case "tool_start":
+            return { type, ...toolFields(fields, type), args: requireArgs(fields, type) };
+        case "tool_output": {
+            const stream = requireString(fields, "stream", type);
+            if (stream !== "stdout" && stream !== "stderr") {
+                throw new StreamProtocolError(`'${type}' event has unknown stream '${stream}'`);
+            }
+            return { type, ...toolFields(fields, type), stream, text: requireString(fields, "text", type) };
+        }
+        case "tool_complete":
+            return {
+                type,
+                ...toolFields(fields, type),
+                result: requireString(fields, "result", type),
+                durationMs: requireNumber(fields, "durationMs", type),
+            };
+        case "tool_error":
+            return {
+                type,
+                ...toolFields(fields, type),
+                error: requireString(fields, "error", type),
+                durationMs: requireNumber(fields, "durationMs", type),
+            };
+        case "done":
+            if (typeof fields.meta !== "object" || fields.meta === null) {
+                throw new StreamProtocolError("'done' event is missing 'meta'");
+            }
+            return { type, meta: fields.meta as ResponseMeta };
+        case "error":
+            return {
+                type,
+                error: requireString(fields, "error", type),
+                code: requireString(fields, "code", type) as StreamErrorCode,
+            };
+    }
+}
@@ -18,7 +18,10 @@ export type AppErrorCode =
     | "TOOL_EXECUTION_FAILED"
     | "VALIDATION_ERROR"
     | "NETWORK_ERROR"
-    | "STORAGE_ERROR";
+    | "STORAGE_ERROR"
+    | "NOT_FOUND"
+    | "FORBIDDEN"
+    | "APPROVAL_DENIED";
 
 // ============================================================================
 // Base Error Class
@@ -79,11 +82,15 @@ export class TimeoutError extends AppError {
 }
 
 export class ToolExecutionError extends AppError {
-    constructor(toolName: string, originalError: string) {
+    constructor(
+        public toolName: string,
+        originalError: string,
+        code: AppErrorCode = "TOOL_EXECUTION_FAILED"
+    ) {
         super(
             `Tool '${toolName}' failed: ${originalError}`,
             500,
-            "TOOL_EXECUTION_FAILED",
+            code,
             true
         );
         this.name = "ToolExecutionError";
@@ -104,6 +111,34 @@ export class StorageError extends AppError {
     }
 }
 
+export class NotFoundError extends AppError {
+    constructor(message: string = "Resource not found") {
+        super(message, 404, "NOT_FOUND", false);
+        this.name = "NotFoundError";
+    }
+}
+
+export class ForbiddenError extends AppError {
+    constructor(message: string = "Not allowed") {
+        super(message, 403, "FORBIDDEN", false);
+        this.name = "ForbiddenError";
+    }
+}
+
+export class StreamProtocolError extends AppError {
+    constructor(message: string = "Malformed stream event") {
+        super(message, 502, "INTERNAL_ERROR", false);
+        this.name = "StreamProtocolError";
+    }
+}
+
+export class McpError extends AppError {
+    constructor(message: string, public rpcCode?: number) {
+        super(message, 502, "INTERNAL_ERROR", true);
+        this.name = "McpError";
+    }
+}
+
 // ============================================================================
 // Error Utilities
 // ============================================================================
@@ -181,3 +216,20 @@ export function handleError(error: unknown) {
         retryable: appError.retryable
     };
 }
+
+/**
+ * Convert an error thrown inside a route handler into a JSON Response
+ */
+export function toErrorResponse(error: unknown): Response {
+    const message = error instanceof Error ? error.message : "An unexpected error occurred";
+    const status = error instanceof AppError ? error.statusCode : 500;
+    const code = error instanceof AppError ? error.code : "INTERNAL_ERROR";
+
+    if (status === 500) {
+        console.error(`[API Error] ${code}:`, error);
+    } else {
+        console.warn(`[API Error] ${code}:`, message);
+    }
+
+    return Response.json({ error: message, code }, { status });
+}
@@ -0,0 +1,290 @@
+/**
+ * Gemini Agent Tests
+ *
+ * Tests for cancellation (a client abort must stop the model request and
+ * tool execution), for the tool loop policy and forced final answer, and
+ * for pausing sensitive tools until the user approves them.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { Part } from "@google/generative-ai";
+import { GeminiAgent } from "../agent";
+import { executeTool, toolRegistry } from "../tools";
+import { ApprovalStore } from "@/lib/chat/approvals";
+import { DEFAULT_TOOL_POLICY } from "../tool-policy";
+import { MockSession } from "@/lib/providers";
+import type { ProviderChunk, SendOptions } from "@/lib/providers";
+
+const intentInfo = { intent: "general", depth: "brief", config: { temperature: 0.7, maxOutputTokens: 1024 } };
+
+/**
+ * Mock session that records the signal of every model request
+ */
+class RecordingSession extends MockSession {
+    readonly signals: Array<AbortSignal | undefined> = [];
+
+    override async sendMessageStream(parts: Part[], options: SendOptions = {}): Promise<AsyncIterable<ProviderChunk>> {
+        this.signals.push(options.signal);
+        return super.sendMessageStream(parts, options);
+    }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function readAll(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<string> {
+    const decoder = new TextDecoder();
+    let text = "";
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) return text;
+        text += decoder.decode(value, { stream: true });
+    }
+}
+
+describe("GeminiAgent cancellation", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "log").mockImplementation(() => undefined);
+    });
+
+    it("should abort the model request when the client cancels the stream", async () => {
+        const session = new RecordingSession([{ chunks: ["a", "b", "c", "d"], delayMs: 30 }]);
+        const res = await GeminiAgent.streamResponse(session, "hi", [], intentInfo);
+        const reader = res.body!.getReader();
+
+        const first = await reader.read();
+        expect(new TextDecoder().decode(first.value)).toContain('"text":"a"');
+
+        await reader.cancel();
+        expect(session.signals[0]?.aborted).toBe(true);
+
+        // The scripted turn never finishes, so no model turn is recorded
+        await sleep(150);
+        expect((await session.getHistory()).map((c) => c.role)).toEqual(["user"]);
+    });
+
+    it("should stop before running tools when the request signal aborts", async () => {
+        const session = new RecordingSession([
+            {
+                chunks: ["Let me check."],
+                functionCalls: [{ name: "calculate", args: { expression: "1+1" } }],
+                delayMs: 30,
+            },
+        ]);
+        const request = new AbortController();
+        const res = await GeminiAgent.streamResponse(session, "1+1?", [], intentInfo, { signal: request.signal });
+
+        request.abort();
+        const body = await readAll(res.body!.getReader());
+
+        expect(session.signals[0]?.aborted).toBe(true);
+        expect(body).not.toContain("event: tool_start");
+        expect(body).not.toContain("event: done");
+        expect(body).not.toContain("event: error");
+    });
+
+    it("should abort the blocking path through the same signal", async () => {
+        const session = new MockSession([{ chunks: ["slow"], delayMs: 1000 }]);
+        const request = new AbortController();
+        const pending = GeminiAgent.generateResponse(session, "hi", [], intentInfo, { signal: request.signal });
+
+        request.abort();
+        await expect(pending).rejects.toThrow(/abort/i);
+    });
+});
+
+describe("executeTool cancellation", () => {
+    it("should not start a tool once the signal has fired", async () => {
+        const controller = new AbortController();
+        controller.abort();
+
+        const result = await executeTool("calculate", { expression: "1+1" }, controller.signal);
+
+        expect(result).toMatchObject({ success: false, error: "Tool 'calculate' failed: cancelled" });
+    });
+});
+
+describe("GeminiAgent tool policy", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "log").mockImplementation(() => undefined);
+    });
+
+    const calc = (expression: string) => ({ name: "calculate", args: { expression } });
+
+    it("should force a final answer when the iteration limit is hit", async () => {
+        const session = new MockSession([
+            { functionCalls: [calc("1+1")] },
+            { functionCalls: [calc("2+2")] },
+            { chunks: ["Best answer so far: 2."] },
+        ]);
+
+        const { response, meta } = await GeminiAgent.generateResponse(session, "go", [], intentInfo, {
+            toolPolicy: { ...DEFAULT_TOOL_POLICY, maxIterations: 1 },
+        });
+
+        expect(response).toBe("Best answer so far: 2.");
+        expect(meta.toolsUsed).toEqual(["calculate"]);
+        expect(meta.toolStopReason).toBe("max_iterations");
+
+        const forced = (await session.getHistory()).filter((c) => c.role === "function").at(-1);
+        expect(JSON.stringify(forced)).toContain("without calling any more tools");
+    });
+
+    it("should detect a call repeated with identical arguments", async () => {
+        const session = new MockSession([
+            { functionCalls: [calc("6 * 7")] },
+            { functionCalls: [calc("6 * 7")] },
+            { functionCalls: [calc("6 * 7")] },
+            { chunks: ["42"] },
+        ]);
+
+        const { response, meta } = await GeminiAgent.generateResponse(session, "go", [], intentInfo);
+
+        expect(response).toBe("42");
+        expect(meta.toolStopReason).toBe("loop_detected");
+        expect(meta.toolsUsed).toEqual(["calculate", "calculate"]);
+    });
+
+    it("should reject tools outside the allowed list without running them", async () => {
+        const session = new MockSession([
+            { functionCalls: [{ name: "encode", args: { text: "hi", operation: "base64_encode" } }] },
+            { chunks: ["Encoding is not available."] },
+        ]);
+
+        const { response } = await GeminiAgent.generateResponse(session, "encode hi", [], intentInfo, {
+            toolPolicy: { ...DEFAULT_TOOL_POLICY, allowedTools: ["calculate"] },
+        });
+
+        expect(response).toBe("Encoding is not available.");
+        const toolTurn = (await session.getHistory()).find((c) => c.role === "function");
+        expect(toolTurn?.parts[0]).toMatchObject({
+            functionResponse: { response: { error: "Tool 'encode' is not allowed for this request" } },
+        });
+    });
+
+    it("should stream a fallback answer when the model stays silent after the limit", async () => {
+        const session = new MockSession([
+            { functionCalls: [calc("1+1")] },
+            { functionCalls: [calc("2+2")] },
+            { functionCalls: [calc("3+3")] },
+        ]);
+
+        const res = await GeminiAgent.streamResponse(session, "go", [], intentInfo, {
+            toolPolicy: { ...DEFAULT_TOOL_POLICY, maxIterations: 1 },
+        });
+        const body = await readAll(res.body!.getReader());
+
+        expect(body).toContain("I couldn't finish working this out with tools");
+        expect(body).toContain('"toolStopReason":"max_iterations"');
+        expect(body).toContain("event: done");
+    });
+});
+
+describe("GeminiAgent tool approvals", () => {
+    const handler = vi.fn(async () => ({ success: true, result: "written" }));
+
+    beforeEach(() => {
+        vi.spyOn(console, "log").mockImplementation(() => undefined);
+        toolRegistry.register({
+            declaration: { name: "test_write", description: "Writes something" },
+            handler,
+            metadata: { category: "external", cost: "low", sideEffects: true },
+        });
+    });
+
+    afterEach(() => {
+        toolRegistry.unregister("test_write");
+        handler.mockClear();
+        vi.restoreAllMocks();
+    });
+
+    const writeCall = { name: "test_write", args: { path: "notes.txt" } };
+
+    /**
+     * Stream a response, answering the first approval_required event
+     */
+    async function streamWithDecision(store: ApprovalStore, approved: boolean): Promise<string> {
+        const session = new MockSession([{ functionCalls: [writeCall] }, { chunks: ["Finished."] }]);
+        const res = await GeminiAgent.streamResponse(session, "write it", [], intentInfo, {
+            approvals: store.gate("user-1", "conv-1"),
+        });
+
+        const reader = res.body!.getReader();
+        const decoder = new TextDecoder();
+        let body = "";
+        while (true) {
+            const { value, done } = await reader.read();
+            if (done) return body;
+            body += decoder.decode(value, { stream: true });
+
+            const match = body.match(/"approvalId":"([^"]+)"/);
+            const pending = store.list("user-1", "conv-1");
+            if (match && pending.length > 0) {
+                expect(pending[0]).toMatchObject({ id: match[1], name: "test_write", args: writeCall.args });
+                store.resolve("user-1", match[1]!, approved);
+            }
+        }
+    }
+
+    it("should run the call after the user approves it", async () => {
+        const body = await streamWithDecision(new ApprovalStore(), true);
+
+        expect(handler).toHaveBeenCalledOnce();
+        expect(body.indexOf("event: approval_required")).toBeLessThan(body.indexOf("event: tool_start"));
+        expect(body).toContain("event: tool_complete");
+        expect(body).toContain("Finished.");
+    });
+
+    it("should skip the call and tell the model when the user denies it", async () => {
+        const body = await streamWithDecision(new ApprovalStore(), false);
+
+        expect(handler).not.toHaveBeenCalled();
+        expect(body).not.toContain("event: tool_start");
+        expect(body).toContain("The user denied the call to 'test_write'");
+        expect(body).toContain("event: done");
+    });
+
+    it("should refuse sensitive calls when no approval gate is available", async () => {
+        const session = new MockSession([{ functionCalls: [writeCall] }, { chunks: ["Cannot write."] }]);
+
+        const { response } = await GeminiAgent.generateResponse(session, "write it", [], intentInfo);
+
+        expect(response).toBe("Cannot write.");
+        expect(handler).not.toHaveBeenCalled();
+        const toolTurn = (await session.getHistory()).find((c) => c.role === "function");
+        expect(toolTurn?.parts[0]).toMatchObject({
+            functionResponse: { response: { code: "APPROVAL_DENIED" } },
+        });
+    });
+});
+
+describe("GeminiAgent tool output", () => {
+    beforeEach(() => {
+        vi.spyOn(console, "log").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should stream run_code output between tool_start and tool_complete", async () => {
+        const session = new MockSession([
+            { functionCalls: [{ name: "run_code", args: { code: "console.log('hello'); 6 * 7" } }] },
+            { chunks: ["It prints hello and returns 42."] },
+        ]);
+        // run_code asks first; approve every request straight away
+        const store = new ApprovalStore();
+        const res = await GeminiAgent.streamResponse(session, "run it", [], intentInfo, {
+            approvals: (request, signal) => {
+                const pending = store.gate("user-1", "conv-1")(request, signal);
+                store.resolve("user-1", pending.id, true);
+                return pending;
+            },
+        });
+        const body = await readAll(res.body!.getReader());
+
+        expect(body).toContain('event: tool_output\ndata: {"v":1,"callId":"call_1_0","name":"run_code","stream":"stdout","text":"hello\\n","iteration":1}');
+        expect(body.indexOf("event: tool_start")).toBeLessThan(body.indexOf("event: tool_output"));
+        expect(body.indexOf("event: tool_output")).toBeLessThan(body.indexOf("event: tool_complete"));
+        expect(body).toContain("event: done");
+    });
+});
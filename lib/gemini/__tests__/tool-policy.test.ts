@@ -0,0 +1,92 @@
+/**
+ * Tool Policy Tests
+ *
+ * Tests for request policy parsing, loop bookkeeping and bounded concurrency.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+    callSignature,
+    DEFAULT_TOOL_POLICY,
+    mapWithConcurrency,
+    resolveToolPolicy,
+    ToolLoopState,
+} from "../tool-policy";
+
+describe("Tool Policy", () => {
+    describe("resolveToolPolicy", () => {
+        it("should use defaults for missing or invalid input", () => {
+            expect(resolveToolPolicy(undefined)).toEqual(DEFAULT_TOOL_POLICY);
+            expect(resolveToolPolicy({ maxIterations: "lots", maxParallel: NaN })).toEqual(DEFAULT_TOOL_POLICY);
+        });
+
+        it("should clamp numbers to safe bounds", () => {
+            const policy = resolveToolPolicy({ maxIterations: 100, maxTotalToolTimeMs: 5, maxParallel: 2.7 });
+            expect(policy).toMatchObject({ maxIterations: 10, maxTotalToolTimeMs: 1_000, maxParallel: 2 });
+        });
+
+        it("should keep only string tool names", () => {
+            expect(resolveToolPolicy({ allowedTools: ["calculate", 3, null] }).allowedTools).toEqual(["calculate"]);
+        });
+    });
+
+    describe("callSignature", () => {
+        it("should ignore argument key order", () => {
+            expect(callSignature({ name: "convert", args: { from: "km", to: "mi", value: 1 } }))
+                .toBe(callSignature({ name: "convert", args: { value: 1, to: "mi", from: "km" } }));
+        });
+
+        it("should distinguish different arguments", () => {
+            expect(callSignature({ name: "calculate", args: { expression: "1+1" } }))
+                .not.toBe(callSignature({ name: "calculate", args: { expression: "1+2" } }));
+        });
+    });
+
+    describe("ToolLoopState", () => {
+        it("should stop after the iteration limit", () => {
+            const state = new ToolLoopState({ ...DEFAULT_TOOL_POLICY, maxIterations: 2 });
+            state.iteration = 1;
+            expect(state.stopReason()).toBeNull();
+            state.iteration = 2;
+            expect(state.stopReason()).toBe("max_iterations");
+        });
+
+        it("should stop once the tool time budget is used", () => {
+            const state = new ToolLoopState({ ...DEFAULT_TOOL_POLICY, maxTotalToolTimeMs: 1_000 });
+            state.toolTimeMs = 1_000;
+            expect(state.stopReason()).toBe("time_budget");
+        });
+
+        it("should flag a repeated identical call as a loop", () => {
+            const state = new ToolLoopState();
+            const call = { name: "calculate", args: { expression: "1+1" } };
+            expect(state.markCall(call)).toBe(true);
+            expect(state.markCall({ ...call })).toBe(false);
+            expect(state.stopReason()).toBe("loop_detected");
+        });
+
+        it("should enforce the allowed tool list", () => {
+            const state = new ToolLoopState({ ...DEFAULT_TOOL_POLICY, allowedTools: ["calculate"] });
+            expect(state.isAllowed("calculate")).toBe(true);
+            expect(state.isAllowed("encode")).toBe(false);
+            expect(new ToolLoopState().isAllowed("encode")).toBe(true);
+        });
+    });
+
+    describe("mapWithConcurrency", () => {
+        it("should never exceed the limit and preserve order", async () => {
+            let active = 0;
+            let peak = 0;
+            const results = await mapWithConcurrency([5, 1, 4, 2, 3], 2, async (n) => {
+                active++;
+                peak = Math.max(peak, active);
+                await new Promise((resolve) => setTimeout(resolve, n));
+                active--;
+                return n * 10;
+            });
+
+            expect(results).toEqual([50, 10, 40, 20, 30]);
+            expect(peak).toBe(2);
+        });
+    });
+});
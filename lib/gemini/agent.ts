@@ -1,10 +1,22 @@
-import { ChatSession, Part, Content } from "@google/generative-ai";
-import { executeTool } from "./tools";
+import { Part } from "@google/generative-ai";
+import { executeTool, requiresApproval } from "./tools";
+import type { ChatProviderSession, ProviderChunk, ToolCall, ToolResult } from "../providers/types";
 import { estimateTokens } from "../tokens";
+import { createEventEncoder } from "../chat/stream-protocol";
+import type { StreamErrorCode, StreamEvent } from "../chat/stream-protocol";
+import type { ApprovalDecision, ToolApprovalGate } from "../chat/approvals";
 import { MODEL_CONFIG, Attachment, ResponseMeta } from "./index";
+import {
+    fallbackAnswer,
+    forcedAnswerInstruction,
+    mapWithConcurrency,
+    ToolLoopState,
+} from "./tool-policy";
+import type { ToolPolicy, ToolStopReason } from "./tool-policy";
 
 const AGENT_CONFIG = {
-    MAX_TOOL_ITERATIONS: 5,
+    /** Max characters of a tool result sent to the client for display */
+    TOOL_RESULT_PREVIEW_CHARS: 500,
     REQUEST_TIMEOUT: MODEL_CONFIG.REQUEST_TIMEOUT,
     SUPPORTED_MIME_TYPES: [
         "image/png", "image/jpeg", "image/webp", "image/gif",
@@ -14,6 +26,43 @@ const AGENT_CONFIG = {
     ],
 } as const;
 
+/**
+ * Per-request options for a response
+ */
+export interface AgentRunOptions {
+    /** Client disconnect; aborts model requests and running tools */
+    signal?: AbortSignal | undefined;
+    /** Limits for the tool loop (defaults to DEFAULT_TOOL_POLICY) */
+    toolPolicy?: ToolPolicy | undefined;
+    /** Asks the user about sensitive tools; without it those calls are refused */
+    approvals?: ToolApprovalGate | undefined;
+}
+
+/**
+ * JSON preview of a tool result, truncated for the activity panel
+ */
+function previewResult(result: unknown): string {
+    const json = JSON.stringify(result) ?? "null";
+    const limit = AGENT_CONFIG.TOOL_RESULT_PREVIEW_CHARS;
+    return json.length > limit ? `${json.slice(0, limit)}…` : json;
+}
+
+/**
+ * Error sent to the model when a sensitive call does not get approved
+ */
+function approvalDenial(name: string, decision: ApprovalDecision | null): string {
+    switch (decision) {
+        case "denied":
+            return `The user denied the call to '${name}'; do not retry it`;
+        case "expired":
+            return `The user did not approve the call to '${name}' in time; it was not run`;
+        case "cancelled":
+            return `The call to '${name}' was cancelled before it was approved`;
+        default:
+            return `'${name}' needs user approval, which is only available for streaming requests`;
+    }
+}
+
 export class GeminiAgent {
     /**
      * Process attachments and convert to Parts
@@ -47,89 +96,168 @@ export class GeminiAgent {
     }
 
     /**
-     * Handle Tool Execution Loop
+     * Execute one iteration's tool calls, at most `policy.maxParallel` at a time
+     *
+     * Disallowed and repeated calls are not run; they return an error result.
+     * Sensitive calls first wait for `approvals` (approval_required), and are
+     * refused when it is missing or the user does not approve. `emit` receives
+     * tool_start and tool_complete/tool_error for every call, with tool_output
+     * in between for tools that stream output. Time spent
+     * waiting for the user does not count toward the tool time budget.
      */
-    static async handleToolCalls(
-        chat: ChatSession,
-        initialResponse: string,
-        toolCalls: Array<{ name: string; args: Record<string, unknown> }>
-    ): Promise<{ text: string; toolsUsed: string[] }> {
-        const toolsUsed: string[] = [];
-        let iterations = 0;
-
-        while (toolCalls.length > 0 && iterations < AGENT_CONFIG.MAX_TOOL_ITERATIONS) {
-            iterations++;
-
-            const toolResults = await Promise.all(
-                toolCalls.map(async (call) => {
-                    toolsUsed.push(call.name);
-                    const result = await executeTool(call.name, call.args);
-                    return {
-                        functionResponse: {
-                            name: call.name,
-                            response: result.success
-                                ? { result: result.result }
-                                : { error: result.error },
-                        },
-                    };
-                })
-            );
+    static async runToolCalls(
+        toolCalls: ToolCall[],
+        state: ToolLoopState,
+        emit?: (event: StreamEvent) => void,
+        signal?: AbortSignal,
+        approvals?: ToolApprovalGate
+    ): Promise<ToolResult[]> {
+        const iteration = ++state.iteration;
+        const iterationStart = Date.now();
+        let approvalWaitMs = 0;
+
+        const results = await mapWithConcurrency(toolCalls, state.policy.maxParallel, async (call, index): Promise<ToolResult> => {
+            const callId = call.id ?? `call_${iteration}_${index}`;
+
+            const rejection = !state.isAllowed(call.name)
+                ? `Tool '${call.name}' is not allowed for this request`
+                : !state.markCall(call)
+                    ? `Repeated call to '${call.name}' with identical arguments; use the earlier result`
+                    : null;
+
+            if (rejection) {
+                emit?.({ type: "tool_start", callId, name: call.name, args: call.args, iteration });
+                emit?.({ type: "tool_error", callId, name: call.name, error: rejection, durationMs: 0, iteration });
+                return { id: call.id, name: call.name, response: { error: rejection } };
+            }
 
-            // Send tool results back to model
-            const response = await chat.sendMessage(toolResults as Part[]);
-            const responseText = response.response.text();
-
-            // Check if model wants to call more tools
-            const candidates = response.response.candidates;
-            const newCalls: typeof toolCalls = [];
-
-            if (candidates?.[0]?.content?.parts) {
-                for (const part of candidates[0].content.parts) {
-                    if ("functionCall" in part && part.functionCall) {
-                        newCalls.push({
-                            name: part.functionCall.name,
-                            args: part.functionCall.args as Record<string, unknown>,
-                        });
-                    }
+            if (requiresApproval(call.name)) {
+                let decision: ApprovalDecision | null = null;
+                if (approvals) {
+                    const waitStart = Date.now();
+                    const pending = approvals({ callId, name: call.name, args: call.args }, signal);
+                    emit?.({ type: "approval_required", approvalId: pending.id, callId, name: call.name, args: call.args, iteration });
+                    decision = await pending.decision;
+                    approvalWaitMs = Math.max(approvalWaitMs, Date.now() - waitStart);
+                }
+
+                if (decision !== "approved") {
+                    const error = approvalDenial(call.name, decision);
+                    emit?.({ type: "tool_error", callId, name: call.name, error, durationMs: 0, iteration });
+                    return { id: call.id, name: call.name, response: { error, code: "APPROVAL_DENIED" } };
                 }
             }
 
-            if (newCalls.length === 0) {
-                return { text: responseText, toolsUsed };
+            emit?.({ type: "tool_start", callId, name: call.name, args: call.args, iteration });
+            const startTime = Date.now();
+            const result = await executeTool(
+                call.name,
+                call.args,
+                signal,
+                emit && ((chunk) => emit({ type: "tool_output", callId, name: call.name, ...chunk, iteration }))
+            );
+            const durationMs = Date.now() - startTime;
+
+            emit?.(result.success
+                ? { type: "tool_complete", callId, name: call.name, result: previewResult(result.result), durationMs, iteration }
+                : { type: "tool_error", callId, name: call.name, error: result.error ?? "Tool failed", durationMs, iteration });
+
+            return {
+                id: call.id,
+                name: call.name,
+                response: result.success
+                    ? { result: result.result }
+                    : { error: result.error, ...(result.code && { code: result.code }) },
+            };
+        });
+
+        state.toolTimeMs += Date.now() - iterationStart - approvalWaitMs;
+        return results;
+    }
+
+    /**
+     * Replies to pending calls once a limit is hit, asking for a final answer
+     */
+    static forcedAnswerResults(toolCalls: ToolCall[], reason: ToolStopReason): ToolResult[] {
+        const error = forcedAnswerInstruction(reason);
+        return toolCalls.map((call) => ({ id: call.id, name: call.name, response: { error } }));
+    }
+
+    /**
+     * Handle Tool Execution Loop (blocking)
+     */
+    static async handleToolCalls(
+        chat: ChatProviderSession,
+        toolCalls: ToolCall[],
+        state: ToolLoopState,
+        signal?: AbortSignal
+    ): Promise<{ text: string; toolsUsed: string[]; stopReason: ToolStopReason | null }> {
+        const toolsUsed: string[] = [];
+        let text = "";
+
+        while (toolCalls.length > 0) {
+            const stopReason = state.stopReason();
+            if (stopReason) {
+                // Final turn: no more tools, answer with what we have
+                const response = await chat.sendToolResults(
+                    GeminiAgent.forcedAnswerResults(toolCalls, stopReason),
+                    { signal }
+                );
+                return { text: response.text || fallbackAnswer(stopReason), toolsUsed, stopReason };
             }
 
-            toolCalls = newCalls;
+            toolsUsed.push(...toolCalls.map((call) => call.name));
+            const toolResults = await GeminiAgent.runToolCalls(toolCalls, state, undefined, signal);
+            signal?.throwIfAborted();
+
+            // Send tool results back to model
+            const response = await chat.sendToolResults(toolResults, { signal });
+            text = response.text;
+            toolCalls = response.functionCalls;
         }
 
-        return { text: initialResponse, toolsUsed };
+        return { text, toolsUsed, stopReason: null };
     }
 
     /**
      * Generate a streaming response
+     *
+     * Model requests and tools are aborted when `signal` fires, when the
+     * client cancels the stream, or on timeout.
      */
     static async streamResponse(
-        chat: ChatSession,
+        chat: ChatProviderSession,
         message: string,
         attachments: Attachment[],
-        intentInfo: { intent: string; depth: string; config: any }
+        intentInfo: { intent: string; depth: string; config: any },
+        { signal, toolPolicy, approvals }: AgentRunOptions = {}
     ): Promise<Response> {
         const encoder = new TextEncoder();
+        const encodeEvent = createEventEncoder();
         const parts = [...this.processAttachments(attachments), { text: message }];
 
         // Batching configuration for 60fps feeling
         const BATCH_INTERVAL_MS = 16;
         let pendingData: string[] = [];
         let flushScheduled = false;
+        let closed = false;
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+        const upstream = new AbortController();
+        const onRequestAbort = () => upstream.abort(signal?.reason);
+        if (signal?.aborted) onRequestAbort();
+        else signal?.addEventListener("abort", onRequestAbort, { once: true });
 
         const stream = new ReadableStream({
             async start(controller) {
                 const startTime = Date.now();
                 let fullText = "";
                 const toolsUsed: string[] = [];
+                let stopReason: ToolStopReason | null = null;
 
                 // Flush batched data to client
                 const flush = () => {
-                    if (pendingData.length > 0) {
+                    if (!closed && pendingData.length > 0) {
                         const combined = pendingData.join("");
                         controller.enqueue(encoder.encode(combined));
                         pendingData = [];
@@ -145,9 +273,10 @@ export class GeminiAgent {
                     }
                 };
 
-                // Send data with optional immediate flush
-                const send = (data: string, immediate = false) => {
-                    pendingData.push(data);
+                // Send an event with optional immediate flush (dropped once closed)
+                const send = (event: StreamEvent, immediate = false) => {
+                    if (closed) return;
+                    pendingData.push(encodeEvent(event));
                     if (immediate) {
                         flush();
                     } else {
@@ -155,51 +284,90 @@ export class GeminiAgent {
                     }
                 };
 
-                const timeoutId = setTimeout(() => {
-                    send(`data: ${JSON.stringify({ error: "Request timeout" })}\n\n`, true);
+                // Idempotent close: the timeout may close before the model finishes
+                const close = () => {
+                    if (closed) return;
+                    flush();
+                    closed = true;
                     controller.close();
-                }, AGENT_CONFIG.REQUEST_TIMEOUT);
+                };
+
+                const startTimeout = () => {
+                    timeoutId = setTimeout(() => {
+                        send({ type: "error", error: "Request timeout", code: "TIMEOUT" }, true);
+                        close();
+                        upstream.abort(new Error("Request timeout"));
+                    }, AGENT_CONFIG.REQUEST_TIMEOUT);
+                };
+                startTimeout();
+
+                // The timeout is paused while tool calls wait for the user, then restarts
+                let awaitingApproval = 0;
+                const approvalGate: ToolApprovalGate | undefined = approvals && ((request, gateSignal) => {
+                    const pending = approvals(request, gateSignal);
+                    if (awaitingApproval++ === 0) clearTimeout(timeoutId);
+                    void pending.decision.then(() => {
+                        if (--awaitingApproval === 0 && !closed) startTimeout();
+                    });
+                    return pending;
+                });
+
+                const options = { signal: upstream.signal };
 
                 try {
-                    const result = await chat.sendMessageStream(parts);
-                    const pendingToolCalls: Array<{ name: string; args: Record<string, unknown> }> = [];
-
-                    for await (const chunk of result.stream) {
-                        const candidates = chunk.candidates;
-                        if (candidates?.[0]?.content?.parts) {
-                            for (const part of candidates[0].content.parts) {
-                                if ("functionCall" in part && part.functionCall) {
-                                    pendingToolCalls.push({
-                                        name: part.functionCall.name,
-                                        args: part.functionCall.args as Record<string, unknown>,
-                                    });
-                                    // Notify client immediately for tool calls
-                                    send(`data: ${JSON.stringify({
-                                        toolCall: { name: part.functionCall.name, status: "executing" },
-                                    })}\n\n`, true);
-                                }
+                    // Stream one model turn, returning the function calls it requested
+                    const streamTurn = async (turn: AsyncIterable<ProviderChunk>): Promise<ToolCall[]> => {
+                        const calls: ToolCall[] = [];
+                        let turnHasText = false;
+
+                        for await (const chunk of turn) {
+                            calls.push(...chunk.functionCalls);
+                            if (!chunk.text) continue;
+
+                            // Text after tool calls opens a new segment instead of extending the pre-tool text
+                            if (!turnHasText && fullText) {
+                                send({ type: "segment" });
+                                fullText += "\n\n";
                             }
+                            turnHasText = true;
+                            fullText += chunk.text;
+                            send({ type: "text", text: chunk.text });
                         }
+                        return calls;
+                    };
 
-                        const text = chunk.text();
-                        if (text) {
-                            fullText += text;
-                            send(`data: ${JSON.stringify({ text })}\n\n`);
+                    upstream.signal.throwIfAborted();
+                    let toolCalls = await streamTurn(await chat.sendMessageStream(parts, options));
+                    const loop = new ToolLoopState(toolPolicy);
+
+                    while (toolCalls.length > 0) {
+                        stopReason = loop.stopReason();
+                        if (stopReason) {
+                            // Final turn: no more tools, answer with what we have
+                            await streamTurn(await chat.sendToolResultsStream(
+                                GeminiAgent.forcedAnswerResults(toolCalls, stopReason),
+                                options
+                            ));
+                            if (!fullText) {
+                                fullText = fallbackAnswer(stopReason);
+                                send({ type: "text", text: fullText });
+                            }
+                            break;
                         }
-                    }
-
-                    if (pendingToolCalls.length > 0) {
-                        const toolResult = await GeminiAgent.handleToolCalls(chat, fullText, pendingToolCalls);
-                        toolsUsed.push(...toolResult.toolsUsed);
 
-                        if (toolResult.text !== fullText) {
-                            fullText = toolResult.text;
-                            send(`data: ${JSON.stringify({ text: fullText, isToolResult: true })}\n\n`, true);
-                        }
+                        toolsUsed.push(...toolCalls.map((call) => call.name));
+                        // Tool activity is sent to the client immediately
+                        const results = await GeminiAgent.runToolCalls(
+                            toolCalls,
+                            loop,
+                            (event) => send(event, true),
+                            upstream.signal,
+                            approvalGate
+                        );
+                        upstream.signal.throwIfAborted();
+                        toolCalls = await streamTurn(await chat.sendToolResultsStream(results, options));
                     }
 
-                    clearTimeout(timeoutId);
-
                     const meta: ResponseMeta = {
                         processingTimeMs: Date.now() - startTime,
                         estimatedTokens: estimateTokens(fullText),
@@ -208,23 +376,37 @@ export class GeminiAgent {
                         temperatureUsed: intentInfo.config.temperature,
                         maxTokensUsed: intentInfo.config.maxOutputTokens,
                         toolsUsed: toolsUsed.length > 0 ? toolsUsed : undefined,
+                        ...(stopReason && { toolStopReason: stopReason }),
                     };
 
-                    // Final messages flush immediately
-                    send(`data: ${JSON.stringify({ done: true, meta })}\n\n`, true);
-                    send("data: [DONE]\n\n", true);
+                    // Terminal event flushes immediately
+                    send({ type: "done", meta }, true);
                 } catch (error) {
+                    // Cancelled or timed out: the client is gone or already has its error
+                    if (upstream.signal.aborted) {
+                        console.log("[Agent] Stream aborted, upstream work stopped");
+                        return;
+                    }
+
                     const msg = error instanceof Error ? error.message : "Stream error";
-                    let code = "INTERNAL_ERROR";
+                    let code: StreamErrorCode = "INTERNAL_ERROR";
                     if (msg.includes("SAFETY")) code = "SAFETY_BLOCKED";
                     else if (msg.includes("QUOTA") || msg.includes("429")) code = "QUOTA_EXCEEDED";
 
-                    send(`data: ${JSON.stringify({ error: msg, code })}\n\n`, true
-                    );
+                    send({ type: "error", error: msg, code }, true);
                 } finally {
-                    controller.close();
+                    clearTimeout(timeoutId);
+                    signal?.removeEventListener("abort", onRequestAbort);
+                    close();
                 }
             },
+
+            // Client disconnected: drop pending output and stop the model and tools
+            cancel(reason) {
+                closed = true;
+                clearTimeout(timeoutId);
+                upstream.abort(reason);
+            },
         });
 
         return new Response(stream, {
@@ -240,36 +422,26 @@ export class GeminiAgent {
      * Generate a blocking response (non-streaming)
      */
     static async generateResponse(
-        chat: ChatSession,
+        chat: ChatProviderSession,
         message: string,
         attachments: Attachment[],
-        intentInfo: { intent: string; depth: string; config: any }
+        intentInfo: { intent: string; depth: string; config: any },
+        { signal, toolPolicy }: AgentRunOptions = {}
     ): Promise<{ response: string; meta: ResponseMeta }> {
         const startTime = Date.now();
         const parts = [...this.processAttachments(attachments), { text: message }];
 
-        const result = await chat.sendMessage(parts);
-        let responseText = result.response.text();
+        const result = await chat.sendMessage(parts, { signal });
+        let responseText = result.text;
         const toolsUsed: string[] = [];
-
-        const candidates = result.response.candidates;
-        const toolCalls: Array<{ name: string; args: Record<string, unknown> }> = [];
-
-        if (candidates?.[0]?.content?.parts) {
-            for (const part of candidates[0].content.parts) {
-                if ("functionCall" in part && part.functionCall) {
-                    toolCalls.push({
-                        name: part.functionCall.name,
-                        args: part.functionCall.args as Record<string, unknown>,
-                    });
-                }
-            }
-        }
+        let stopReason: ToolStopReason | null = null;
+        const toolCalls = result.functionCalls;
 
         if (toolCalls.length > 0) {
-            const toolResult = await GeminiAgent.handleToolCalls(chat, responseText, toolCalls);
+            const toolResult = await GeminiAgent.handleToolCalls(chat, toolCalls, new ToolLoopState(toolPolicy), signal);
             responseText = toolResult.text;
             toolsUsed.push(...toolResult.toolsUsed);
+            stopReason = toolResult.stopReason;
         }
 
         const meta: ResponseMeta = {
@@ -280,6 +452,7 @@ export class GeminiAgent {
             temperatureUsed: intentInfo.config.temperature,
             maxTokensUsed: intentInfo.config.maxOutputTokens,
             toolsUsed: toolsUsed.length > 0 ? toolsUsed : undefined,
+            ...(stopReason && { toolStopReason: stopReason }),
         };
 
         return { response: responseText, meta };
@@ -1,5 +1,10 @@
-import { GoogleGenerativeAI, type GenerativeModel, type GenerationConfig } from "@google/generative-ai";
-import { getToolDeclarations } from "./tools";
+import {
+    GoogleGenerativeAI,
+    type ChatSession,
+    type GenerativeModel,
+    type GenerationConfig,
+    type StartChatParams,
+} from "@google/generative-ai";
 import { SYSTEM_INSTRUCTION, detectIntent, getConfigForIntent, detectResponseDepth, getConfigForDepth } from "./prompts";
 import type { IntentType, ResponseDepthType } from "./types";
 
@@ -13,8 +18,17 @@ export const MODEL_CONFIG = {
     DEFAULT_TOP_K: 40,
 } as const;
 
+/** The part of the SDK chat session the provider uses */
+export type ModelChatSession = Pick<ChatSession, "sendMessage" | "sendMessageStream" | "getHistory">;
+
+/** The part of GenerativeModel the provider uses; test doubles implement just this */
+export interface ChatModel {
+    startChat(params?: StartChatParams): ModelChatSession;
+}
+
 let genAIInstance: GoogleGenerativeAI | null = null;
 let modelInstance: GenerativeModel | null = null;
+let modelFactory: (() => ChatModel) | null = null;
 
 export function getGenAI(): GoogleGenerativeAI {
     if (genAIInstance) return genAIInstance;
@@ -28,7 +42,9 @@ export function getGenAI(): GoogleGenerativeAI {
     return genAIInstance;
 }
 
-export function getModel(): GenerativeModel {
+export function getModel(): ChatModel {
+    if (modelFactory) return modelFactory();
+
     if (modelInstance) return modelInstance;
 
     const genAI = getGenAI();
@@ -36,7 +52,7 @@ export function getModel(): GenerativeModel {
     modelInstance = genAI.getGenerativeModel({
         model: MODEL_CONFIG.MODEL_NAME,
         systemInstruction: SYSTEM_INSTRUCTION,
-        tools: [getToolDeclarations()],
+        // Tools are chosen per session (see providers/gemini startSession)
         generationConfig: {
             temperature: MODEL_CONFIG.DEFAULT_TEMPERATURE,
             topP: MODEL_CONFIG.DEFAULT_TOP_P,
@@ -85,6 +101,14 @@ export function createJsonGenerationConfig(
     };
 }
 
+/**
+ * Build models with `factory` instead of the SDK (for testing, e.g. with
+ * the fakes in lib/gemini/testing); null restores the SDK model
+ */
+export function setModelFactory(factory: (() => ChatModel) | null): void {
+    modelFactory = factory;
+}
+
 export function resetModel(): void {
     modelInstance = null;
 }
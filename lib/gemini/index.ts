@@ -12,15 +12,20 @@ export {
     createJsonGenerationConfig,
     resetModel,
     resetClient,
+    setModelFactory,
     MODEL_CONFIG
 } from "./client";
+export type { ChatModel, ModelChatSession } from "./client";
 
 // Tools
 export {
     toolRegistry,
+    ToolRegistry,
     executeTool,
-    getToolDeclarations
+    getToolDeclarations,
+    getToolsForRequest
 } from "./tools";
+export type { ToolFilter, ToolInfo, ToolMetadata } from "./tools";
 
 // Prompts
 export {
@@ -43,7 +48,6 @@ export type {
     ResponseDepthType,
     ResponseDepthConfig,
     ToolHandler,
-    ToolRegistry,
     ToolExecutionResult,
     GeminiErrorCode,
     GeminiError,
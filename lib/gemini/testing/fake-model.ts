@@ -0,0 +1,140 @@
+/**
+ * Fake Gemini Model
+ *
+ * Stand-in for the model and chat session driven by fixture scripts, so the
+ * Gemini code path can run end to end without GOOGLE_API_KEY. Tests install
+ * it with setModelFactory(() => new FakeGenerativeModel(FIXTURES.toolCall)).
+ */
+
+import type {
+    Content,
+    EnhancedGenerateContentResponse,
+    FunctionCall,
+    GenerateContentResult,
+    GenerateContentStreamResult,
+    Part,
+    SingleRequestOptions,
+    StartChatParams,
+} from "@google/generative-ai";
+import type { ChatModel, ModelChatSession } from "../client";
+
+// ============================================================================
+// Script Types
+// ============================================================================
+
+export type FakeStep =
+    | { text: string }
+    | { functionCall: FunctionCall }
+    | { error: string }
+    | { delayMs: number };
+
+/** One model turn; each send (message or tool results) consumes the next turn */
+export type FakeTurn = FakeStep[];
+
+export type FakeScript = FakeTurn[];
+
+/**
+ * Delay that rejects with an AbortError when the request signal fires
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const abort = () => reject(new DOMException("The operation was aborted", "AbortError"));
+        if (signal?.aborted) return abort();
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            abort();
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+function toResponse(parts: Part[]): EnhancedGenerateContentResponse {
+    const functionCalls = parts
+        .filter((p): p is Part & { functionCall: FunctionCall } => "functionCall" in p && !!p.functionCall)
+        .map((p) => p.functionCall);
+
+    return {
+        candidates: [{ index: 0, content: { role: "model", parts } }],
+        text: () => parts.map((p) => ("text" in p && p.text ? p.text : "")).join(""),
+        functionCall: () => functionCalls[0],
+        functionCalls: () => (functionCalls.length > 0 ? functionCalls : undefined),
+    };
+}
+
+// ============================================================================
+// Fake Session
+// ============================================================================
+
+export class FakeChatSession implements ModelChatSession {
+    private readonly history: Content[];
+    private turnIndex = 0;
+
+    constructor(private readonly script: FakeScript, params?: StartChatParams) {
+        this.history = [...(params?.history ?? [])];
+    }
+
+    async getHistory(): Promise<Content[]> {
+        return [...this.history];
+    }
+
+    async sendMessage(
+        request: string | Array<string | Part>,
+        requestOptions?: SingleRequestOptions
+    ): Promise<GenerateContentResult> {
+        const { stream } = await this.sendMessageStream(request, requestOptions);
+        const parts: Part[] = [];
+        for await (const chunk of stream) {
+            parts.push(...(chunk.candidates?.[0]?.content.parts ?? []));
+        }
+        return { response: toResponse(parts) };
+    }
+
+    async sendMessageStream(
+        request: string | Array<string | Part>,
+        requestOptions: SingleRequestOptions = {}
+    ): Promise<GenerateContentStreamResult> {
+        const parts = (Array.isArray(request) ? request : [request])
+            .map((p) => (typeof p === "string" ? { text: p } : p));
+        const isToolResponse = parts.some((p) => "functionResponse" in p);
+        this.history.push({ role: isToolResponse ? "function" : "user", parts });
+
+        const turn = this.script[this.turnIndex++] ?? [{ text: "OK" }];
+        const played: Part[] = [];
+        const history = this.history;
+        const { signal } = requestOptions;
+
+        const stream = (async function* () {
+            for (const step of turn) {
+                if (signal?.aborted) {
+                    throw new DOMException("The operation was aborted", "AbortError");
+                }
+                if ("delayMs" in step) {
+                    await sleep(step.delayMs, signal);
+                } else if ("error" in step) {
+                    throw new Error(step.error);
+                } else if ("text" in step) {
+                    played.push({ text: step.text });
+                    yield toResponse([{ text: step.text }]);
+                } else {
+                    played.push({ functionCall: step.functionCall });
+                    yield toResponse([{ functionCall: step.functionCall }]);
+                }
+            }
+            history.push({ role: "model", parts: played });
+        })();
+
+        return { stream, response: Promise.resolve(toResponse(played)) };
+    }
+}
+
+export class FakeGenerativeModel implements ChatModel {
+    constructor(private readonly script: FakeScript) { }
+
+    startChat(params?: StartChatParams): FakeChatSession {
+        return new FakeChatSession(this.script, params);
+    }
+}
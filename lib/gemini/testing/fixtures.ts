@@ -0,0 +1,44 @@
+/**
+ * Fake Model Fixtures
+ *
+ * Named scripts for FakeGenerativeModel. Error messages mirror the wording
+ * of real SDK errors so downstream classification is exercised.
+ */
+
+import type { FakeScript } from "./fake-model";
+
+export const FIXTURES = {
+    /** Plain streamed answer */
+    text: [
+        [{ text: "Hello" }, { text: ", world!" }],
+    ],
+
+    /** One calculate call followed by the final answer */
+    toolCall: [
+        [{ functionCall: { name: "calculate", args: { expression: "6 * 7" } } }],
+        [{ text: "The answer is 42." }],
+    ],
+
+    /** Text before the tool call, then a streamed answer in its own segment */
+    toolCallWithText: [
+        [{ text: "Let me calculate." }, { functionCall: { name: "calculate", args: { expression: "6 * 7" } } }],
+        [{ text: "The answer" }, { text: " is 42." }],
+    ],
+
+    /** Model never answers within the request timeout */
+    slow: [
+        [{ delayMs: 10 * 60 * 1000 }, { text: "too late" }],
+    ],
+
+    /** Response blocked by safety filters mid-stream */
+    safety: [
+        [{ text: "Partial" }, { error: "[GoogleGenerativeAI Error]: Candidate was blocked due to SAFETY" }],
+    ],
+
+    /** Quota exhausted before any output */
+    quota: [
+        [{ error: "[GoogleGenerativeAI Error]: [429 Too Many Requests] Resource has been exhausted (e.g. check quota)." }],
+    ],
+} satisfies Record<string, FakeScript>;
+
+export type FixtureName = keyof typeof FIXTURES;
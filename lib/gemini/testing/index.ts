@@ -0,0 +1,10 @@
+/**
+ * Gemini Test Doubles
+ *
+ * Fake model and fixtures for exercising the Gemini path offline.
+ */
+
+export { FakeChatSession, FakeGenerativeModel } from "./fake-model";
+export type { FakeScript, FakeStep, FakeTurn } from "./fake-model";
+export { FIXTURES } from "./fixtures";
+export type { FixtureName } from "./fixtures";
@@ -0,0 +1,177 @@
+/**
+ * Tool Loop Policy
+ *
+ * Per-request limits for the agent's tool loop, plus the bookkeeping that
+ * enforces them. When a limit is hit the agent sends one final turn asking
+ * the model to answer without tools, so the user always gets a response.
+ */
+
+import type { ToolCall } from "../providers/types";
+
+export interface ToolPolicy {
+    /** Max tool iterations (model turns whose calls are executed) */
+    maxIterations: number;
+    /** Budget for tool execution time across the whole request, in ms */
+    maxTotalToolTimeMs: number;
+    /** Tool names the model may run; null allows every registered tool */
+    allowedTools: string[] | null;
+    /** Max tool calls executed concurrently within one iteration */
+    maxParallel: number;
+}
+
+export type ToolStopReason = "max_iterations" | "time_budget" | "loop_detected";
+
+export const DEFAULT_TOOL_POLICY: ToolPolicy = {
+    maxIterations: 5,
+    maxTotalToolTimeMs: 30_000,
+    allowedTools: null,
+    maxParallel: 4,
+};
+
+/** Bounds applied to client-supplied values */
+const POLICY_LIMITS = {
+    maxIterations: { min: 1, max: 10 },
+    maxTotalToolTimeMs: { min: 1_000, max: 120_000 },
+    maxParallel: { min: 1, max: 8 },
+} as const;
+
+const STOP_DESCRIPTIONS: Record<ToolStopReason, string> = {
+    max_iterations: "the tool call limit was reached",
+    time_budget: "the tool time budget was used up",
+    loop_detected: "the same tool call was repeated with identical arguments",
+};
+
+// ============================================================================
+// Policy Resolution
+// ============================================================================
+
+function clampInteger(value: unknown, fallback: number, { min, max }: { min: number; max: number }): number {
+    if (typeof value !== "number" || !Number.isFinite(value)) return fallback;
+    return Math.min(max, Math.max(min, Math.floor(value)));
+}
+
+/**
+ * Build a policy from an untrusted request value, falling back to defaults
+ * and clamping numbers to safe bounds
+ */
+export function resolveToolPolicy(input: unknown): ToolPolicy {
+    if (typeof input !== "object" || input === null) return { ...DEFAULT_TOOL_POLICY };
+    const raw = input as Record<string, unknown>;
+
+    return {
+        maxIterations: clampInteger(raw.maxIterations, DEFAULT_TOOL_POLICY.maxIterations, POLICY_LIMITS.maxIterations),
+        maxTotalToolTimeMs: clampInteger(
+            raw.maxTotalToolTimeMs,
+            DEFAULT_TOOL_POLICY.maxTotalToolTimeMs,
+            POLICY_LIMITS.maxTotalToolTimeMs
+        ),
+        allowedTools: Array.isArray(raw.allowedTools)
+            ? raw.allowedTools.filter((name): name is string => typeof name === "string")
+            : DEFAULT_TOOL_POLICY.allowedTools,
+        maxParallel: clampInteger(raw.maxParallel, DEFAULT_TOOL_POLICY.maxParallel, POLICY_LIMITS.maxParallel),
+    };
+}
+
+/**
+ * Stable identity of a call: name plus arguments with sorted keys
+ */
+export function callSignature(call: Pick<ToolCall, "name" | "args">): string {
+    const normalize = (value: unknown): unknown => {
+        if (Array.isArray(value)) return value.map(normalize);
+        if (typeof value === "object" && value !== null) {
+            return Object.fromEntries(
+                Object.keys(value)
+                    .sort()
+                    .map((key) => [key, normalize((value as Record<string, unknown>)[key])])
+            );
+        }
+        return value;
+    };
+    return `${call.name}:${JSON.stringify(normalize(call.args))}`;
+}
+
+// ============================================================================
+// Loop State
+// ============================================================================
+
+/**
+ * Tracks one request's tool loop against its policy
+ */
+export class ToolLoopState {
+    iteration = 0;
+    toolTimeMs = 0;
+    /** Set when a repeated call is seen; ends the loop at the next check */
+    loopDetected = false;
+    private readonly seen = new Set<string>();
+
+    constructor(readonly policy: ToolPolicy = DEFAULT_TOOL_POLICY) { }
+
+    /**
+     * Limit preventing another iteration, or null if the loop may continue
+     */
+    stopReason(): ToolStopReason | null {
+        if (this.loopDetected) return "loop_detected";
+        if (this.iteration >= this.policy.maxIterations) return "max_iterations";
+        if (this.toolTimeMs >= this.policy.maxTotalToolTimeMs) return "time_budget";
+        return null;
+    }
+
+    isAllowed(name: string): boolean {
+        return this.policy.allowedTools === null || this.policy.allowedTools.includes(name);
+    }
+
+    /**
+     * Record a call before running it; false if an identical call already ran
+     */
+    markCall(call: ToolCall): boolean {
+        const signature = callSignature(call);
+        if (this.seen.has(signature)) {
+            this.loopDetected = true;
+            return false;
+        }
+        this.seen.add(signature);
+        return true;
+    }
+}
+
+// ============================================================================
+// Forced Final Answer
+// ============================================================================
+
+/**
+ * Instruction returned in place of tool results for the final turn
+ */
+export function forcedAnswerInstruction(reason: ToolStopReason): string {
+    return `Tool call skipped because ${STOP_DESCRIPTIONS[reason]}. ` +
+        "Answer the user now using the information gathered so far, without calling any more tools.";
+}
+
+/**
+ * Shown to the user when the model produced no text even after the final turn
+ */
+export function fallbackAnswer(reason: ToolStopReason): string {
+    return `I couldn't finish working this out with tools because ${STOP_DESCRIPTIONS[reason]}. ` +
+        "Please try rephrasing or narrowing the question.";
+}
+
+/**
+ * Map items with at most `limit` promises in flight, preserving order
+ */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index] as T, index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
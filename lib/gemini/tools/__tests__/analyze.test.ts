@@ -0,0 +1,134 @@
+/**
+ * Text Analysis Tool Tests
+ *
+ * Tests for counts, readability, n-grams, language detection, sentence
+ * statistics and the compare mode.
+ */
+
+import { describe, it, expect } from "vitest";
+import { handler } from "../analyze";
+import { countSyllables, splitSentences, tokenizeWords } from "../text/tokenize";
+
+const TEXT = "The cat sat on the mat. Dr. Smith paid $3.50 for it! Was the cat happy? "
+    + "The cat was extraordinarily comfortable, and the mat was comfortable too.";
+
+async function analyze(args: Record<string, unknown>) {
+    const result = await handler(args);
+    if (!result.success) throw new Error(result.error);
+    return result.result as Record<string, unknown>;
+}
+
+describe("Text tokenizing", () => {
+    it("should keep abbreviations, initials and decimals inside sentences", () => {
+        expect(splitSentences("Dr. J. Smith paid 3.50 on Jan. 5. He left, e.g. at noon! Done")).toEqual([
+            "Dr. J. Smith paid 3.50 on Jan. 5.",
+            "He left, e.g. at noon!",
+            "Done",
+        ]);
+        expect(splitSentences("今日は晴れ。散歩に行こう！")).toEqual(["今日は晴れ。", "散歩に行こう！"]);
+    });
+
+    it("should split words across scripts", () => {
+        expect(tokenizeWords("Don't re-use $3.50 — naïve café")).toEqual(["Don't", "re-use", "3.50", "naïve", "café"]);
+        expect(tokenizeWords("東京タワー")).toHaveLength(5);
+    });
+
+    it("should estimate English syllables", () => {
+        expect(["cat", "table", "happy", "comfortable", "extraordinarily"].map(countSyllables)).toEqual([1, 2, 2, 4, 6]);
+    });
+});
+
+describe("Text Analysis Tool", () => {
+    it("should keep the full summary and add language and readability", async () => {
+        const result = await analyze({ text: TEXT });
+        expect(result).toMatchObject({
+            words: 27,
+            sentences: 4,
+            paragraphs: 1,
+            readingTime: "1 minute",
+            language: { language: "en", name: "English" },
+            readability: { level: "fairly easy" },
+        });
+        expect((result.topWords as unknown[]).slice(0, 3)).toEqual([
+            { word: "cat", count: 3 },
+            { word: "comfortable", count: 2 },
+            { word: "mat", count: 2 },
+        ]);
+    });
+
+    it("should score readability", async () => {
+        const result = await analyze({ text: TEXT, analysis_type: "readability" });
+        expect(result).toMatchObject({ fleschReadingEase: 76.6, fleschKincaidGrade: 4.2, gunningFog: 7.2, complexWords: 3 });
+
+        const dense = await analyze({
+            text: "Institutional accountability necessitates comprehensive organizational transparency, "
+                + "particularly regarding discretionary expenditure authorization.",
+            analysis_type: "readability",
+        });
+        expect(dense.level).toBe("very difficult");
+        expect(dense.gunningFog).toBeGreaterThan(20);
+    });
+
+    it("should count n-grams without stop-word edges", async () => {
+        const text = "The state of the art is moving. The state of the art changes. Art is long.";
+        const result = await analyze({ text, analysis_type: "ngrams", n: 4 });
+        expect(result).toMatchObject({ n: 4, stopWords: "en", ngrams: [{ ngram: "state of the art", count: 2 }] });
+
+        const all = await analyze({ text, analysis_type: "ngrams", n: 2, include_stop_words: true, top: 3 });
+        expect(all.ngrams).toEqual([{ ngram: "art is", count: 2 }, { ngram: "of the", count: 2 }, { ngram: "state of", count: 2 }]);
+    });
+
+    it("should use the detected language's stop words", async () => {
+        const result = await analyze({
+            text: "El perro de mi vecino es muy grande y el perro ladra por la noche.",
+            analysis_type: "frequency",
+            top: 1,
+        });
+        expect(result).toEqual({ topWords: [{ word: "perro", count: 2 }], stopWords: "es" });
+    });
+
+    it.each([
+        ["Le chat de ma voisine est très grand et il dort sur le canapé pendant que nous mangeons.", "fr", "Latin"],
+        ["Der Hund meines Nachbarn ist sehr groß und er bellt in der Nacht, wenn niemand zu Hause ist.", "de", "Latin"],
+        ["Это очень хорошая книга, и я её читаю уже второй день.", "ru", "Cyrillic"],
+        ["Це дуже гарна книга, і я її читаю вже другий день.", "uk", "Cyrillic"],
+        ["今日はとても良い天気ですね。散歩に行きましょう。", "ja", "Han+Kana"],
+        ["我们今天去公园散步，天气很好。", "zh", "Han"],
+        ["안녕하세요 만나서 반갑습니다", "ko", "Hangul"],
+    ])("should detect the language of %s", async (text, language, script) => {
+        expect(await analyze({ text, analysis_type: "language" })).toMatchObject({ language, script });
+    });
+
+    it("should report sentence statistics", async () => {
+        expect(await analyze({ text: TEXT, analysis_type: "sentences" })).toMatchObject({
+            count: 4,
+            medianWords: 6,
+            minWords: 4,
+            maxWords: 11,
+            questions: 1,
+            exclamations: 1,
+            shortest: { text: "Was the cat happy?", words: 4 },
+        });
+    });
+
+    it("should diff two texts word by word", async () => {
+        const result = await analyze({
+            text: "the quick brown fox jumps over the lazy dog",
+            compare_text: "the quick red fox jumped over the lazy dog today",
+            analysis_type: "compare",
+        });
+        expect(result).toMatchObject({
+            similarity: 0.737,
+            wordsAdded: 3,
+            wordsRemoved: 2,
+            wordsUnchanged: 7,
+            diff: "the quick [-brown-] {+red+} fox [-jumps-] {+jumped+} over the lazy dog {+today+}",
+        });
+        expect((await analyze({ text: "same  text", compare_text: "same text", analysis_type: "compare" })).similarity).toBe(1);
+    });
+
+    it("should require the second text for compare", async () => {
+        const result = await handler({ text: "a", analysis_type: "compare" });
+        expect(result.error).toBe("'compare' needs 'compare_text'");
+    });
+});
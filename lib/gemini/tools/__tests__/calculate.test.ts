@@ -1,7 +1,8 @@
 /**
  * Calculator Tool Tests
  * 
- * Tests for the safe math expression parser.
+ * Tests for the safe math expression parser, multi-statement programs,
+ * units, exact results, equation solving and the step trace.
  */
 
 import { describe, it, expect } from "vitest";
@@ -137,4 +138,195 @@ describe("Calculator Tool", () => {
             expect(result.success).toBe(false);
         });
     });
+
+    describe("Nested Functions and Angle Mode", () => {
+        it("should evaluate trig functions nested in each other", async () => {
+            const result = await handler({ expression: "sin(cos(30))" });
+            expect(result.success).toBe(true);
+            const inner = Math.cos(30 * Math.PI / 180);
+            expect((result.result as { numericValue: number }).numericValue).toBeCloseTo(Math.sin(inner * Math.PI / 180), 10);
+        });
+
+        it("should use radians when asked", async () => {
+            const result = await handler({ expression: "sin(PI / 2) + cos(0)", angle_mode: "radians" });
+            expect(result.success).toBe(true);
+            expect(result.result).toMatchObject({ numericValue: 2 });
+        });
+
+        it("should return inverse trig results in the angle mode", async () => {
+            const degrees = await handler({ expression: "acos(0.5)" });
+            const radians = await handler({ expression: "atan(1)", angle_mode: "radians" });
+            expect(degrees.result).toMatchObject({ numericValue: 60 });
+            expect((radians.result as { numericValue: number }).numericValue).toBeCloseTo(Math.PI / 4, 10);
+        });
+
+        it("should treat log as base 10 and ln as natural", async () => {
+            const result = await handler({ expression: "log(1000) + ln(E) + log(8, 2)" });
+            expect(result.result).toMatchObject({ numericValue: 7 });
+        });
+    });
+
+    describe("Exact Results", () => {
+        it("should keep fractions exact", async () => {
+            const result = await handler({ expression: "1/3 + 1/6" });
+            expect(result.result).toMatchObject({ result: "0.5", exact: "1/2", numericValue: 0.5 });
+        });
+
+        it("should avoid floating point error on decimals", async () => {
+            const result = await handler({ expression: "0.1 + 0.2" });
+            expect(result.result).toMatchObject({ result: "0.3", exact: "3/10" });
+        });
+
+        it("should compute big integers without rounding", async () => {
+            const power = await handler({ expression: "2^100" });
+            const factorial = await handler({ expression: "25!" });
+            expect(power.result).toMatchObject({ result: "1267650600228229401496703205376" });
+            expect(factorial.result).toMatchObject({ result: "15511210043330985984000000" });
+        });
+
+        it("should show every digit of large fractions", async () => {
+            const half = await handler({ expression: "99999999999999999999 * 1.5" });
+            const third = await handler({ expression: "-100000000000000000000 / 3" });
+            expect(half.result).toMatchObject({ result: "149999999999999999998.5", exact: "299999999999999999997/2" });
+            expect(third.result).toMatchObject({ result: "-33333333333333333333.3333333333" });
+        });
+
+        it("should take exact roots of perfect powers", async () => {
+            const result = await handler({ expression: "sqrt(9/16) + cbrt(-8)" });
+            expect(result.result).toMatchObject({ exact: "-5/4" });
+        });
+
+        it("should support modulo, gcd and lcm", async () => {
+            const result = await handler({ expression: "10 % 3 + gcd(12, 18) + lcm(4, 6)" });
+            expect(result.result).toMatchObject({ numericValue: 19 });
+        });
+    });
+
+    describe("Variables and Steps", () => {
+        it("should carry assignments across statements", async () => {
+            const result = await handler({ expression: "x = 3; y = x * 2\ny + 1" });
+            expect(result.success).toBe(true);
+            expect(result.result).toMatchObject({
+                result: "7",
+                variables: { x: "3", y: "6" },
+                steps: ["x = 3", "y = x * 2 = 6", "y + 1 = 7"],
+            });
+        });
+
+        it("should reassign a variable from its own value", async () => {
+            const result = await handler({ expression: "x = 5; x = x + 1; x * 2" });
+            expect(result.result).toMatchObject({
+                result: "12",
+                variables: { x: "6" },
+                steps: ["x = 5", "x = x + 1 = 6", "x * 2 = 12"],
+            });
+        });
+
+        it("should multiply implicitly", async () => {
+            const result = await handler({ expression: "r = 2; 3r^2 + 2(r + 1)" });
+            expect(result.result).toMatchObject({ numericValue: 18 });
+        });
+
+        it("should report which statement failed to parse", async () => {
+            const result = await handler({ expression: "a = 1; a + (2" });
+            expect(result.success).toBe(false);
+            expect(result.error).toContain("Unexpected end of expression");
+        });
+    });
+
+    describe("Units", () => {
+        it("should add compatible units in the first operand's unit", async () => {
+            const result = await handler({ expression: "5 km + 300 m" });
+            expect(result.result).toMatchObject({ result: "5.3 km", unit: "km", numericValue: 5.3 });
+        });
+
+        it("should derive compound units", async () => {
+            const speed = await handler({ expression: "100 km / 2 h" });
+            const area = await handler({ expression: "3 m * 20 cm" });
+            expect(speed.result).toMatchObject({ result: "50 km/h" });
+            expect(area.result).toMatchObject({ result: "0.6 m^2" });
+        });
+
+        it("should convert with 'to'", async () => {
+            const length = await handler({ expression: "5 ft to cm" });
+            const speed = await handler({ expression: "90 km/h to m/s" });
+            expect(length.result).toMatchObject({ result: "152.4 cm" });
+            expect(speed.result).toMatchObject({ result: "25 m/s" });
+        });
+
+        it("should cancel units to a plain number", async () => {
+            const result = await handler({ expression: "1 GB / 512 MB" });
+            expect(result.result).toMatchObject({ result: "2" });
+            expect(result.result).not.toHaveProperty("unit");
+        });
+
+        it("should reject mismatched units", async () => {
+            const sum = await handler({ expression: "5 km + 2 kg" });
+            const conversion = await handler({ expression: "3 h to m" });
+            expect(sum.error).toContain("Cannot add km and kg");
+            expect(conversion.error).toContain("Cannot convert h to m");
+        });
+    });
+
+    describe("Equations", () => {
+        it("should solve linear equations exactly", async () => {
+            const result = await handler({ expression: "3x + 1 = 2" });
+            expect(result.result).toMatchObject({
+                result: "x = 0.3333333333",
+                method: "linear",
+                solutions: [{ variable: "x", exact: "1/3" }],
+                steps: ["3x + 1 = 2 → x = 0.3333333333 (linear)"],
+            });
+        });
+
+        it("should solve quadratics with both roots", async () => {
+            const result = await handler({ expression: "x^2 - 5x + 6 = 0" });
+            expect(result.result).toMatchObject({
+                result: "x = 2 or x = 3",
+                method: "quadratic",
+            });
+        });
+
+        it("should solve other equations numerically", async () => {
+            const result = await handler({ expression: "2^x = 10" });
+            expect(result.result).toMatchObject({ method: "numeric" });
+            expect((result.result as { numericValue: number }).numericValue).toBeCloseTo(Math.log2(10), 9);
+        });
+
+        it("should find every root of a cubic", async () => {
+            const result = await handler({ expression: "x^3 - 6x^2 + 11x - 6 = 0" });
+            expect(result.result).toMatchObject({ result: "x = 1 or x = 2 or x = 3", method: "numeric" });
+            expect(result.result).not.toHaveProperty("note");
+        });
+
+        it("should report a repeated root once", async () => {
+            const result = await handler({ expression: "(x - 2)^2 * (x + 1) = 0" });
+            expect(result.result).toMatchObject({ result: "x = -1 or x = 2" });
+        });
+
+        it("should say when only some of the solutions are shown", async () => {
+            const result = await handler({ expression: "sin(x) = 0.5", angle_mode: "radians" });
+            const { solutions, note } = result.result as { solutions: Array<{ numericValue: number }>; note: string };
+            expect(solutions).toHaveLength(10);
+            expect(solutions[4]?.numericValue).toBeCloseTo(Math.PI / 6, 9);
+            expect(note).toContain("there are more");
+        });
+
+        it("should use a unique solution in later statements", async () => {
+            const result = await handler({ expression: "2n + 3 = 11; n^2" });
+            expect(result.result).toMatchObject({ result: "16", variables: { n: "4" } });
+        });
+
+        it("should solve for the requested variable", async () => {
+            const result = await handler({ expression: "a = 2; a * b = 10", variable: "b" });
+            expect(result.result).toMatchObject({ result: "b = 5" });
+        });
+
+        it("should fail when the equation has no solution", async () => {
+            const none = await handler({ expression: "x + 1 = x" });
+            const ambiguous = await handler({ expression: "p + q = 3" });
+            expect(none.error).toContain("no solution");
+            expect(ambiguous.error).toContain("several unknowns (p, q)");
+        });
+    });
 });
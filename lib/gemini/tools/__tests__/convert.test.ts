@@ -0,0 +1,153 @@
+/**
+ * Unit Conversion Tool Tests
+ *
+ * Tests for plain, compound, reciprocal and currency conversions, ambiguous
+ * aliases and the currency rate store.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { handler } from "../convert";
+import { CurrencyRateStore, setCurrencyRateStore } from "../units/currency";
+
+async function convert(value: number, from: string, to: string) {
+    const result = await handler({ value, from_unit: from, to_unit: to });
+    if (!result.success) throw new Error(result.error);
+    return result.result as { to: { value: number }; [key: string]: unknown };
+}
+
+async function convertError(value: number, from: string, to: string) {
+    const result = await handler({ value, from_unit: from, to_unit: to });
+    expect(result.success).toBe(false);
+    return result.error ?? "";
+}
+
+describe("Unit Conversion Tool", () => {
+    beforeEach(() => {
+        setCurrencyRateStore(new CurrencyRateStore(null));
+    });
+
+    afterEach(() => {
+        setCurrencyRateStore(null);
+    });
+
+    it("should convert simple units and temperatures", async () => {
+        expect((await convert(5, "km", "miles")).to.value).toBeCloseTo(3.106856, 6);
+        expect((await convert(1, "GB", "MB")).to.value).toBe(1024);
+        expect(await convert(100, "celsius", "F")).toMatchObject({
+            to: { value: 212 },
+            category: "temperature",
+            formula: "°F = °C × 9/5 + 32",
+        });
+    });
+
+    it("should convert compound units", async () => {
+        expect(await convert(90, "km/h", "m/s")).toMatchObject({ to: { value: 25 }, category: "speed" });
+        expect((await convert(60, "miles per hour", "kph")).to.value).toBeCloseTo(96.56064, 5);
+        expect((await convert(1, "sq ft", "cm²")).to.value).toBeCloseTo(929.0304, 4);
+        expect((await convert(1, "kWh", "kcal")).to.value).toBeCloseTo(860.421, 3);
+    });
+
+    it("should convert reciprocal fuel economy units", async () => {
+        const result = await convert(8, "L/100km", "mpg");
+        expect(result.to.value).toBeCloseTo(29.4018, 4);
+        expect(result.category).toBe("fuel economy");
+        expect(result.formula).toBe("mpg = 235.2145833 / L/100km");
+        expect((await convert(30, "mpg", "L/100km")).to.value).toBeCloseTo(7.8405, 4);
+        expect(await convertError(0, "mpg", "L/100km")).toContain("reciprocal");
+    });
+
+    it("should use the other unit to settle ambiguous aliases", async () => {
+        expect((await convert(16, "oz", "lb")).to.value).toBe(1);
+        expect((await convert(8, "oz", "cup")).to.value).toBe(1);
+        expect((await convert(1, "mb", "hPa")).to.value).toBe(1);
+        expect((await convert(2, "pounds", "kg")).to.value).toBeCloseTo(0.907185, 6);
+    });
+
+    it("should report aliases the conversion cannot settle", async () => {
+        expect(await convertError(1, "oz", "oz")).toBe(
+            "Unit 'oz' is ambiguous: it could be fluid ounce (volume) or ounce (mass). Use a specific unit such as 'fl oz' or 'ounce'"
+        );
+        expect(await convertError(100, "USD", "peso")).toContain("could be MXN (currency) or PHP (currency)");
+    });
+
+    it("should reject incompatible and unknown units", async () => {
+        expect(await convertError(1, "kg", "m")).toBe("Cannot convert between kg (mass) and m (length)");
+        expect(await convertError(1, "furlongs", "m")).toBe("Unknown unit 'furlongs'");
+        expect(await convertError(1, "°C/s", "K/s")).toBe("Temperature units cannot be combined with other units");
+    });
+
+    it("should convert currencies with the rate table's as-of date", async () => {
+        const result = await convert(100, "USD", "EUR");
+        expect(result.to.value).toBeCloseTo(96.08, 2);
+        expect(result).toMatchObject({ category: "currency", exchangeRate: 0.9608, rates: { base: "USD", asOf: "2024-12-31" } });
+        expect((await convert(10, "EUR/kg", "USD/lb")).to.value).toBeCloseTo(4.721, 4);
+    });
+});
+
+describe("CurrencyRateStore", () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), "rates-"));
+        filePath = path.join(dir, "currency-rates.json");
+    });
+
+    afterEach(async () => {
+        setCurrencyRateStore(null);
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it("should merge uploaded rates and persist them", async () => {
+        const store = new CurrencyRateStore(filePath);
+        await store.update({ asOf: "2025-01-15", rates: { EUR: 0.5, xyz: 2 } });
+
+        const reloaded = await new CurrencyRateStore(filePath).get();
+        expect(reloaded).toMatchObject({ base: "USD", asOf: "2025-01-15", source: "Uploaded rates" });
+        expect(reloaded.rates).toMatchObject({ USD: 1, EUR: 0.5, XYZ: 2, JPY: 157.2 });
+
+        setCurrencyRateStore(store);
+        expect(await convert(10, "USD", "EUR")).toMatchObject({ to: { value: 5 }, rates: { asOf: "2025-01-15" } });
+    });
+
+    it("should apply concurrent uploads one after the other", async () => {
+        const store = new CurrencyRateStore(filePath);
+        await Promise.all([
+            store.update({ rates: { AAA: 2 } }),
+            store.update({ rates: { BBB: 3 } }),
+        ]);
+
+        expect((await store.get()).rates).toMatchObject({ AAA: 2, BBB: 3 });
+        expect((await new CurrencyRateStore(filePath).get()).rates).toMatchObject({ AAA: 2, BBB: 3 });
+    });
+
+    it("should rebase the table for uploads in another base currency", async () => {
+        const store = new CurrencyRateStore(null);
+        const table = await store.update({ base: "EUR", rates: { GBP: 0.8 } });
+        expect(table.base).toBe("EUR");
+        expect(table.rates.EUR).toBe(1);
+        expect(table.rates.USD).toBeCloseTo(1 / 0.9608, 6);
+        expect(table.rates.GBP).toBe(0.8);
+    });
+
+    it("should replace or reset the table", async () => {
+        const store = new CurrencyRateStore(filePath);
+        const replaced = await store.update({ base: "CHF", rates: { EUR: 1.05 } }, { replace: true });
+        expect(replaced.rates).toEqual({ CHF: 1, EUR: 1.05 });
+
+        const reset = await store.reset();
+        expect(reset.base).toBe("USD");
+        await expect(fs.access(filePath)).rejects.toThrow();
+    });
+
+    it("should reject malformed uploads", async () => {
+        const store = new CurrencyRateStore(null);
+        await expect(store.update({ rates: { EUR: -1 } })).rejects.toThrow("Rate for EUR must be a positive number");
+        await expect(store.update({ rates: { EURO: 1 } })).rejects.toThrow("'EURO' is not a three-letter currency code");
+        await expect(store.update({ asOf: "yesterday", rates: {} })).rejects.toThrow("asOf must be a date");
+        await expect(store.update({ base: "XYZ", rates: { EUR: 1 } })).rejects.toThrow("without a XYZ rate");
+    });
+});
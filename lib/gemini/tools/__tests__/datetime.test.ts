@@ -0,0 +1,165 @@
+/**
+ * DateTime Tool Tests
+ *
+ * Tests for date arithmetic, business days, timezone conversion, ISO weeks
+ * and recurring schedules against a fixed clock.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { handler, setClock } from "../datetime";
+
+// Friday 8 March 2024, 15:30 UTC
+const NOW = new Date("2024-03-08T15:30:00Z");
+
+async function run(args: Record<string, unknown>) {
+    const result = await handler(args);
+    if (!result.success) throw new Error(result.error);
+    return result.result as Record<string, unknown>;
+}
+
+describe("DateTime Tool", () => {
+    beforeEach(() => {
+        setClock(() => NOW);
+    });
+
+    afterEach(() => {
+        setClock(null);
+    });
+
+    it("should report the current time from the clock", async () => {
+        expect(await run({ timezone: "Asia/Manila" })).toMatchObject({
+            date: "March 8, 2024",
+            weekday: "Friday",
+            timezone: "Asia/Manila",
+            unixTimestamp: NOW.getTime() / 1000,
+        });
+        expect(await run({ format: "iso8601" })).toEqual({ iso: "2024-03-08T15:30:00.000Z", timezone: "UTC" });
+    });
+
+    describe("add and subtract", () => {
+        it("should clamp month arithmetic to the end of the month", async () => {
+            const result = await run({ operation: "add", date: "2024-01-31", duration: "1 month" });
+            expect(result.result).toMatchObject({ date: "2024-02-29", weekday: "Thursday" });
+        });
+
+        it("should keep the local time across a DST change for calendar units", async () => {
+            const base = { operation: "add", date: "2024-03-09T12:00", timezone: "America/New_York" };
+            const day = await run({ ...base, duration: "P1D" });
+            const hours = await run({ ...base, duration: "24 hours" });
+            expect(day.result).toMatchObject({ iso: "2024-03-10T12:00:00-04:00" });
+            expect(hours.result).toMatchObject({ iso: "2024-03-10T13:00:00-04:00" });
+        });
+
+        it("should subtract from now by default", async () => {
+            const result = await run({ operation: "subtract", duration: "2 weeks 1 day" });
+            expect(result.result).toMatchObject({ iso: "2024-02-22T15:30:00Z" });
+        });
+
+        it("should reject malformed durations", async () => {
+            const result = await handler({ operation: "add", duration: "three days" });
+            expect(result.success).toBe(false);
+            expect(result.error).toContain("Unrecognized duration 'three days'");
+        });
+    });
+
+    describe("difference", () => {
+        it("should break the difference into calendar units and totals", async () => {
+            const result = await run({ operation: "difference", date: "2024-01-15", end_date: "2025-03-20T06:00" });
+            expect(result).toMatchObject({
+                direction: "future",
+                calendar: { years: 1, months: 2, days: 5, hours: 6, minutes: 0, seconds: 0 },
+                human: "1 year, 2 months, 5 days, 6 hours",
+                totalDays: 430.25,
+            });
+        });
+
+        it("should describe past dates relative to now", async () => {
+            const result = await run({ operation: "difference", end_date: "2024-03-01T15:30:00Z" });
+            expect(result).toMatchObject({ direction: "past", human: "7 days ago", totalDays: -7 });
+        });
+    });
+
+    describe("business_days", () => {
+        it("should count weekdays inclusively, excluding holidays", async () => {
+            const plain = await run({ operation: "business_days", date: "2024-03-01", end_date: "2024-03-15" });
+            const withHoliday = await run({
+                operation: "business_days",
+                date: "2024-03-01",
+                end_date: "2024-03-15",
+                holidays: ["2024-03-11", "2024-03-09"],
+            });
+            expect(plain).toMatchObject({ businessDays: 11, calendarDays: 15 });
+            expect(withHoliday).toMatchObject({ businessDays: 10, holidaysExcluded: 1 });
+        });
+
+        it("should add business days over weekends", async () => {
+            expect(await run({ operation: "business_days", count: 3 }))
+                .toMatchObject({ from: "2024-03-08", result: "2024-03-13", weekday: "Wednesday" });
+            expect(await run({ operation: "business_days", count: -1, date: "2024-03-11" }))
+                .toMatchObject({ result: "2024-03-08" });
+        });
+    });
+
+    it("should convert an instant between timezones", async () => {
+        const result = await run({
+            operation: "convert",
+            date: "2024-03-15T09:00",
+            timezone: "America/New_York",
+            to_timezone: "Asia/Tokyo",
+        });
+        expect(result).toMatchObject({
+            from: { iso: "2024-03-15T09:00:00-04:00" },
+            to: { iso: "2024-03-15T22:00:00+09:00", weekday: "Friday" },
+            offsetDifferenceHours: 13,
+        });
+    });
+
+    it("should compute ISO week numbers at year boundaries", async () => {
+        expect(await run({ operation: "week_number", date: "2021-01-03" }))
+            .toMatchObject({ isoYear: 2020, isoWeek: 53, isoWeekday: 7 });
+        expect(await run({ operation: "week_number", date: "2024-12-30" }))
+            .toMatchObject({ isoWeekString: "2025-W01", dayOfYear: 365, daysInYear: 366, quarter: 4 });
+    });
+
+    describe("recurrence", () => {
+        const dates = (result: Record<string, unknown>) =>
+            (result.occurrences as Array<{ date: string }>).map((o) => o.date);
+
+        it("should expand an ordinal weekday of each month", async () => {
+            const result = await run({ operation: "recurrence", rule: "every 2nd Tuesday", date: "2024-01-01", count: 3 });
+            expect(result.schedule).toBe("2nd Tuesday of every month");
+            expect(dates(result)).toEqual(["2024-01-09", "2024-02-13", "2024-03-12"]);
+        });
+
+        it("should expand fortnightly schedules from today", async () => {
+            const result = await run({ operation: "recurrence", rule: "every other Friday", count: 3 });
+            expect(dates(result)).toEqual(["2024-03-08", "2024-03-22", "2024-04-05"]);
+        });
+
+        it("should clamp days of month and stop at end_date", async () => {
+            const monthly = await run({ operation: "recurrence", rule: "every 3 months on the 31st", date: "2024-01-01", count: 3 });
+            const last = await run({ operation: "recurrence", rule: "every last friday", date: "2024-01-01", end_date: "2024-03-28", count: 10 });
+            expect(dates(monthly)).toEqual(["2024-01-31", "2024-04-30", "2024-07-31"]);
+            expect(dates(last)).toEqual(["2024-01-26", "2024-02-23"]);
+        });
+
+        it("should list several weekdays per week", async () => {
+            const result = await run({ operation: "recurrence", rule: "every Monday and Thursday", count: 4 });
+            expect(dates(result)).toEqual(["2024-03-11", "2024-03-14", "2024-03-18", "2024-03-21"]);
+        });
+
+        it("should reject rules it cannot read", async () => {
+            const result = await handler({ operation: "recurrence", rule: "whenever" });
+            expect(result.error).toContain("Unrecognized recurrence 'whenever'");
+        });
+    });
+
+    it("should reject unknown timezones", async () => {
+        const result = await handler({ timezone: "Mars/Olympus" });
+        expect(result).toEqual({
+            success: false,
+            result: null,
+            error: "DateTime failed: Unknown timezone 'Mars/Olympus'; use an IANA name like 'Europe/London'",
+        });
+    });
+});
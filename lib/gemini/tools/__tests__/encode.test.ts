@@ -0,0 +1,87 @@
+/**
+ * Encode/Decode Tool Tests
+ *
+ * Tests for digests, HMACs, hex, Base32, UTF-8 inspection and JWT decoding.
+ */
+
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { handler } from "../encode";
+
+async function run(text: string, operation: string, format: string, extra: Record<string, unknown> = {}) {
+    const result = await handler({ text, operation, format, ...extra });
+    if (!result.success) throw new Error(result.error);
+    return result.result as Record<string, unknown>;
+}
+
+function base64url(value: unknown): string {
+    return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+describe("Encode/Decode Tool", () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it("should compute SHA digests and HMACs", async () => {
+        expect((await run("abc", "hash", "sha1")).output).toBe("a9993e364706816aba3e25717850c26c9cd0d89d");
+        expect(await run("abc", "hash", "sha256")).toMatchObject({
+            output: "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+            algorithm: "SHA-256",
+            base64: "ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=",
+        });
+        expect((await run("abc", "hash", "sha512")).output).toMatch(/^ddaf35a193617aba/);
+
+        const hmac = await run("The quick brown fox jumps over the lazy dog", "hash", "sha256", { key: "key" });
+        expect(hmac).toMatchObject({
+            output: "f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8",
+            algorithm: "HMAC-SHA-256",
+        });
+    });
+
+    it("should refuse to decode a digest", async () => {
+        const result = await handler({ text: "abc", operation: "decode", format: "sha256" });
+        expect(result.error).toBe("SHA-256 is a one-way digest; use operation 'hash'");
+    });
+
+    it("should round-trip hex and Base32", async () => {
+        expect((await run("héllo", "encode", "hex")).output).toBe("68c3a96c6c6f");
+        expect((await run("68:C3:A9 6c 6c 6f", "decode", "hex")).output).toBe("héllo");
+        expect((await run("foobar", "encode", "base32")).output).toBe("MZXW6YTBOI======");
+        expect((await run("fo", "encode", "base32")).output).toBe("MZXQ====");
+        expect((await run("mzxw6ytboi", "decode", "base32")).output).toBe("foobar");
+        await expect(run("6g", "decode", "hex")).rejects.toThrow("pairs of hex digits");
+    });
+
+    it("should inspect UTF-8 bytes per character", async () => {
+        const result = await run("aé€😀", "encode", "utf8");
+        expect(result).toMatchObject({ output: "61 c3 a9 e2 82 ac f0 9f 98 80", byteLength: 10, characterCount: 4, truncated: false });
+        expect(result.characters).toEqual([
+            { char: "a", codePoint: "U+0061", bytes: "61" },
+            { char: "é", codePoint: "U+00E9", bytes: "c3 a9" },
+            { char: "€", codePoint: "U+20AC", bytes: "e2 82 ac" },
+            { char: "😀", codePoint: "U+1F600", bytes: "f0 9f 98 80" },
+        ]);
+        expect((await run("e2 82 ac", "decode", "utf8")).output).toBe("€");
+        await expect(run("c3 28", "decode", "utf8")).rejects.toThrow("Invalid UTF-8 byte sequence");
+    });
+
+    it("should decode JWT header and payload without verifying", async () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date("2024-06-01T00:00:00Z"));
+        const token = `${base64url({ alg: "HS256", typ: "JWT" })}.${base64url({ sub: "42", iat: 1716000000, exp: 1717000000 })}.c2ln`;
+
+        const result = await run(`Bearer ${token}`, "decode", "jwt");
+        expect(result).toMatchObject({
+            output: { header: { alg: "HS256", typ: "JWT" }, payload: { sub: "42", exp: 1717000000 } },
+            claims: { issuedAt: "2024-05-18T02:40:00.000Z", expiresAt: "2024-05-29T16:26:40.000Z", expired: true },
+            signaturePresent: true,
+            verified: false,
+        });
+    });
+
+    it("should reject malformed JWTs", async () => {
+        await expect(run("abc.def", "decode", "jwt")).rejects.toThrow("three dot-separated parts");
+        await expect(run("e30.bm90IGpzb24.sig", "decode", "jwt")).rejects.toThrow("JWT payload is not a Base64url-encoded JSON object");
+        await expect(run("x", "encode", "jwt")).rejects.toThrow("can only be decoded");
+    });
+});
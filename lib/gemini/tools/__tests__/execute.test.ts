@@ -0,0 +1,106 @@
+/**
+ * Tool Execution Tests
+ *
+ * Tests for executeTool's isolation: thrown errors, timeouts and
+ * cancellation become structured results and are counted per tool.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { executeTool, getToolMetrics, resetToolMetrics, toolRegistry } from "../index";
+import type { ToolHandler } from "../index";
+
+function withHandler(name: string, handler: ToolHandler) {
+    toolRegistry.register({
+        declaration: { name, description: "test tool" },
+        handler,
+        metadata: { category: "utility", cost: "low", sideEffects: false },
+    });
+}
+
+describe("executeTool", () => {
+    beforeEach(() => {
+        resetToolMetrics();
+        vi.spyOn(console, "log").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        toolRegistry.unregister("test_throws");
+        toolRegistry.unregister("test_hangs");
+        toolRegistry.unregister("test_leaks");
+        vi.unstubAllEnvs();
+        vi.restoreAllMocks();
+    });
+
+    it("should turn a thrown exception into a ToolExecutionError result", async () => {
+        withHandler("test_throws", async () => {
+            throw new Error("kaboom");
+        });
+
+        const result = await executeTool("test_throws", {});
+
+        expect(result).toEqual({
+            success: false,
+            result: null,
+            error: "Tool 'test_throws' failed: kaboom",
+            code: "TOOL_EXECUTION_FAILED",
+            retryable: true,
+        });
+    });
+
+    it("should time out slow handlers and abort their signal", async () => {
+        vi.stubEnv("TOOL_TIMEOUT_MS", "20");
+        let handlerSignal: AbortSignal | undefined;
+        withHandler("test_hangs", (_args, signal) => {
+            handlerSignal = signal;
+            return new Promise(() => undefined);
+        });
+
+        const result = await executeTool("test_hangs", {});
+
+        expect(result).toMatchObject({
+            success: false,
+            error: "Tool 'test_hangs' failed: timed out after 20ms",
+            code: "TIMEOUT",
+        });
+        expect(handlerSignal?.aborted).toBe(true);
+    });
+
+    it("should stop waiting when the request is cancelled mid-call", async () => {
+        withHandler("test_hangs", () => new Promise(() => undefined));
+        const controller = new AbortController();
+
+        const pending = executeTool("test_hangs", {}, controller.signal);
+        controller.abort();
+
+        await expect(pending).resolves.toMatchObject({ success: false, error: "Tool 'test_hangs' failed: cancelled" });
+    });
+
+    it("should tag handler-reported failures with a code", async () => {
+        const result = await executeTool("calculate", { expression: "" });
+        expect(result).toMatchObject({ success: false, code: "TOOL_EXECUTION_FAILED" });
+    });
+
+    it("should count calls, failures and timeouts per tool", async () => {
+        vi.stubEnv("TOOL_TIMEOUT_MS", "10");
+        withHandler("test_hangs", () => new Promise(() => undefined));
+
+        await executeTool("calculate", { expression: "1+1" });
+        await executeTool("calculate", { expression: "" });
+        await executeTool("test_hangs", {});
+
+        const snapshot = getToolMetrics().snapshot();
+        expect(snapshot.calculate).toMatchObject({ calls: 2, failures: 1, timeouts: 0, failureRate: 0.5 });
+        expect(snapshot.test_hangs).toMatchObject({ calls: 1, failures: 1, timeouts: 1 });
+        expect(snapshot.test_hangs?.lastErrorCode).toBe("TIMEOUT");
+    });
+
+    it("should keep failure messages out of the metrics", async () => {
+        withHandler("test_leaks", async () => ({ success: false, result: null, error: "token=secret-value rejected" }));
+
+        await executeTool("test_leaks", {});
+
+        const snapshot = getToolMetrics().snapshot();
+        expect(snapshot.test_leaks).toMatchObject({ failures: 1, lastErrorCode: "TOOL_EXECUTION_FAILED" });
+        expect(JSON.stringify(snapshot)).not.toContain("secret-value");
+    });
+});
@@ -0,0 +1,126 @@
+/**
+ * Data Format Tool Tests
+ *
+ * Tests for JSON, YAML, CSV and query-string conversions.
+ */
+
+import { describe, it, expect } from "vitest";
+import { handler } from "../format";
+
+async function convert(data: string, from: string, to: string, extra: Record<string, unknown> = {}) {
+    const result = await handler({ data, from, to, ...extra });
+    if (!result.success) throw new Error(result.error);
+    return (result.result as { output: string }).output;
+}
+
+const YAML_DOC = `# service config
+name: api
+port: 8080
+debug: false
+ratio: 0.5
+owner: ~
+tags: [web, "internal"]
+limits: {cpu: 2, memory: 512Mi}
+servers:
+  - host: a.example.com
+    weight: 3
+  - host: 'b.example.com'
+    weight: 1
+env:
+- NODE_ENV=production
+description: |
+  Line one
+  Line two
+summary: >-
+  Folded
+  text
+`;
+
+describe("Data Format Tool", () => {
+    it("should read YAML into JSON", async () => {
+        expect(JSON.parse(await convert(YAML_DOC, "yaml", "json"))).toEqual({
+            name: "api",
+            port: 8080,
+            debug: false,
+            ratio: 0.5,
+            owner: null,
+            tags: ["web", "internal"],
+            limits: { cpu: 2, memory: "512Mi" },
+            servers: [{ host: "a.example.com", weight: 3 }, { host: "b.example.com", weight: 1 }],
+            env: ["NODE_ENV=production"],
+            description: "Line one\nLine two\n",
+            summary: "Folded text",
+        });
+    });
+
+    it("should write YAML that reads back to the same value", async () => {
+        const value = {
+            title: "Report: Q1",
+            count: 3,
+            version: "1.0",
+            enabled: "yes",
+            empty: [],
+            notes: "first\nsecond",
+            items: [{ id: 1, tags: ["a", "b"] }, [1, 2], null],
+        };
+        const yaml = await convert(JSON.stringify(value), "json", "yaml");
+        expect(yaml).toBe([
+            "title: \"Report: Q1\"",
+            "count: 3",
+            "version: \"1.0\"",
+            "enabled: \"yes\"",
+            "empty: []",
+            "notes: |-",
+            "  first",
+            "  second",
+            "items:",
+            "  - id: 1",
+            "    tags:",
+            "      - a",
+            "      - b",
+            "  - - 1",
+            "    - 2",
+            "  - null",
+            "",
+        ].join("\n"));
+        expect(JSON.parse(await convert(yaml, "yaml", "json"))).toEqual(value);
+    });
+
+    it("should report YAML errors with line numbers", async () => {
+        const result = await handler({ data: "a: 1\n  b: 2\n", from: "yaml", to: "json" });
+        expect(result.error).toBe("Format conversion failed: Invalid YAML (line 2): unexpected indentation");
+        const duplicate = await handler({ data: "a: 1\na: 2", from: "yaml", to: "json" });
+        expect(duplicate.error).toContain("duplicate key 'a'");
+    });
+
+    it("should convert CSV records to JSON with inferred types", async () => {
+        const csv = "name;zip;score;active\n\"Doe; Jane\";02134;9.5;true\nBob;94105;7;false";
+        expect(JSON.parse(await convert(csv, "csv", "json"))).toEqual([
+            { name: "Doe; Jane", zip: "02134", score: 9.5, active: true },
+            { name: "Bob", zip: 94105, score: 7, active: false },
+        ]);
+        expect(JSON.parse(await convert("a,b\n1,x", "csv", "json", { infer_types: false }))).toEqual([{ a: "1", b: "x" }]);
+    });
+
+    it("should write JSON records as CSV with a union header", async () => {
+        const json = JSON.stringify([{ id: 1, note: "said \"hi\", left" }, { id: 2, extra: { deep: true } }]);
+        expect(await convert(json, "json", "csv")).toBe(
+            "id,note,extra\n1,\"said \"\"hi\"\", left\",\n2,,\"{\"\"deep\"\":true}\""
+        );
+        expect(await convert("[1, 2]", "json", "csv", { delimiter: "\t" })).toBe("value\n1\n2");
+    });
+
+    it("should convert query strings both ways", async () => {
+        expect(JSON.parse(await convert("https://x.test/search?q=hello+world&tag=a&tag=b&empty=", "query", "json"))).toEqual({
+            q: "hello world",
+            tag: ["a", "b"],
+            empty: "",
+        });
+        expect(await convert("{\"q\": \"a&b\", \"n\": 2, \"tag\": [\"x\", \"y\"]}", "json", "query")).toBe("q=a%26b&n=2&tag=x&tag=y");
+        await expect(convert("{\"a\": {\"b\": 1}}", "json", "query")).rejects.toThrow("'a' is nested");
+    });
+
+    it("should chain CSV to YAML", async () => {
+        expect(await convert("city,pop\nOslo,709037", "csv", "yaml")).toBe("- city: Oslo\n  pop: 709037\n");
+    });
+});
@@ -0,0 +1,122 @@
+/**
+ * Random Tool Tests
+ *
+ * Tests for seeded reproducibility, distributions, sampling without
+ * replacement, dice notation and crypto-only passwords.
+ */
+
+import { describe, it, expect } from "vitest";
+import { handler } from "../random";
+import { rollDice } from "../math/dice";
+import { randomNormal, sample, seededRandom, type RandomSource } from "../math/prng";
+
+async function run(args: Record<string, unknown>) {
+    const result = await handler(args);
+    if (!result.success) throw new Error(result.error);
+    return result.result as Record<string, unknown>;
+}
+
+/** Source that replays fixed values */
+function sequence(...values: number[]): RandomSource {
+    let i = 0;
+    return { next: () => values[i++ % values.length] ?? 0 };
+}
+
+describe("Random sources", () => {
+    it("should repeat the same sequence for the same seed", () => {
+        const a = seededRandom(42);
+        const b = seededRandom(42);
+        const first = Array.from({ length: 5 }, () => a.next());
+        expect(Array.from({ length: 5 }, () => b.next())).toEqual(first);
+        expect(first.every((x) => x >= 0 && x < 1)).toBe(true);
+        expect(seededRandom(43).next()).not.toBe(first[0]);
+    });
+
+    it("should draw normal deviates around the mean", () => {
+        const source = seededRandom(7);
+        const values = Array.from({ length: 5000 }, () => randomNormal(source, 10, 2));
+        const mean = values.reduce((sum, x) => sum + x, 0) / values.length;
+        const variance = values.reduce((sum, x) => sum + (x - mean) ** 2, 0) / values.length;
+        expect(mean).toBeCloseTo(10, 1);
+        expect(Math.sqrt(variance)).toBeCloseTo(2, 1);
+    });
+
+    it("should sample by weight and never repeat without replacement", () => {
+        expect(sample(sequence(0.5), ["a", "b", "c"], 1, { weights: [1, 0, 1] })).toEqual(["c"]);
+        expect(sample(sequence(0.99), ["a", "b"], 2, { weights: [3, 1] })).toEqual(["b", "a"]);
+        expect(() => sample(sequence(0), ["a", "b"], 3)).toThrow("Cannot draw 3 items without replacement from 2");
+        expect(sample(sequence(0), ["a", "b"], 3, { replacement: true })).toEqual(["a", "a", "a"]);
+    });
+});
+
+describe("Dice notation", () => {
+    it("should roll dice with modifiers", () => {
+        // 0.5 -> 4 on a d6, 0 -> 1, 0.99 -> 6
+        expect(rollDice("3d6+2", sequence(0.5, 0, 0.99))).toEqual({
+            notation: "3d6+2",
+            rolls: [{ dice: "3d6", rolls: [4, 1, 6], kept: [4, 1, 6], subtotal: 11 }],
+            modifier: 2,
+            total: 13,
+            min: 5,
+            max: 20,
+        });
+        expect(rollDice("d% - 1d4 - 1", sequence(0.5))).toMatchObject({ total: 51 - 3 - 1, min: 1 - 4 - 1, max: 100 - 1 - 1 });
+    });
+
+    it("should keep the highest or lowest dice", () => {
+        const result = rollDice("4d6kh3", sequence(0, 0.5, 0.99, 0.5));
+        expect(result.rolls[0]).toEqual({ dice: "4d6kh3", rolls: [1, 4, 6, 4], kept: [4, 6, 4], subtotal: 14 });
+        expect(result).toMatchObject({ min: 3, max: 18 });
+        expect(rollDice("2d20kl1", sequence(0.9, 0.1)).total).toBe(3);
+    });
+
+    it("should reject malformed notation", () => {
+        expect(() => rollDice("3x6", sequence(0))).toThrow("Invalid dice notation '3x6' at 'x6'");
+        expect(() => rollDice("5", sequence(0))).toThrow("No dice in '5'");
+        expect(() => rollDice("2d6kh3", sequence(0))).toThrow("Cannot keep 3 of 2 dice");
+        expect(() => rollDice("2000d6", sequence(0))).toThrow("At most 1000 dice per roll");
+    });
+});
+
+describe("Random Tool", () => {
+    it.each([
+        { type: "number", min: 1, max: 1000, count: 5 },
+        { type: "normal", mean: 100, std_dev: 15, count: 3 },
+        { type: "uuid" },
+        { type: "choice", items: "red, green, blue", weights: [1, 2, 3], count: 2 },
+        { type: "shuffle", items: "a,b,c,d,e,f" },
+        { type: "dice", notation: "4d6kh3+1" },
+    ])("should reproduce $type with a seed", async (args) => {
+        const first = await run({ ...args, seed: 2024 });
+        expect(await run({ ...args, seed: 2024 })).toEqual(first);
+        expect(first.seed).toBe(2024);
+    });
+
+    it("should draw distinct numbers unless replacement is allowed", async () => {
+        const result = await run({ type: "number", min: 1, max: 6, count: 6, seed: 1 });
+        expect([...(result.values as number[])].sort()).toEqual([1, 2, 3, 4, 5, 6]);
+        expect((await run({ type: "number", min: 1, max: 6, count: 20, replacement: true })).values).toHaveLength(20);
+        expect((await handler({ type: "number", min: 1, max: 6, count: 7 })).error)
+            .toBe("Cannot draw 7 distinct numbers from 1-6; set replacement to allow repeats");
+    });
+
+    it("should return a single value when no count is given", async () => {
+        const result = await run({ type: "number", min: 5, max: 5 });
+        expect(result).toEqual({ type: "number", value: 5, range: { min: 5, max: 5 } });
+        expect((await run({ type: "uuid", seed: 9 })).value).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    });
+
+    it("should keep passwords on the crypto RNG even with a seed", async () => {
+        const first = await run({ type: "password", length: 24, seed: 5 });
+        const second = await run({ type: "password", length: 24, seed: 5 });
+        expect(first.value).toHaveLength(24);
+        expect(first.value).not.toBe(second.value);
+        expect(first.note).toBe("Passwords always use the cryptographic RNG; the seed was ignored");
+        expect(first).not.toHaveProperty("seed");
+    });
+
+    it("should validate weights", async () => {
+        expect((await handler({ type: "choice", items: "a,b", weights: [1] })).error).toBe("Got 1 weights for 2 items");
+        expect((await handler({ type: "choice", items: "a,b", weights: [1, -1] })).error).toBe("Weights must be non-negative numbers");
+    });
+});
@@ -0,0 +1,104 @@
+/**
+ * Regex Test Tool Tests
+ *
+ * Tests for matches, groups, replacements, invalid patterns and the
+ * backtracking time limit.
+ */
+
+import { describe, it, expect } from "vitest";
+import { handler } from "../regex";
+import { runRegex } from "../code/regex";
+
+async function run(args: Record<string, unknown>) {
+    const result = await handler(args);
+    if (!result.success) throw new Error(result.error);
+    return result.result as { matchedInputs: number; totalInputs: number; results: Array<Record<string, unknown>> };
+}
+
+describe("Regex Test Tool", () => {
+    it("should return numbered and named groups for the first match", async () => {
+        const result = await run({ pattern: "(?<year>\\d{4})-(\\d{2})", inputs: ["on 2024-03 and 2025-01", "none"] });
+        expect(result).toMatchObject({ matchedInputs: 1, totalInputs: 2 });
+        expect(result.results).toEqual([
+            {
+                input: "on 2024-03 and 2025-01",
+                matched: true,
+                matches: [{ match: "2024-03", index: 3, groups: ["2024", "03"], namedGroups: { year: "2024" } }],
+            },
+            { input: "none", matched: false, matches: [] },
+        ]);
+    });
+
+    it("should list every match with the global flag and replace", async () => {
+        const result = await run({ pattern: "(a)|b", flags: "gi", inputs: ["AbA"], replacement: "[$&]" });
+        expect(result.results[0]).toEqual({
+            input: "AbA",
+            matched: true,
+            matches: [
+                { match: "A", index: 0, groups: ["A"] },
+                { match: "b", index: 1, groups: [null] },
+                { match: "A", index: 2, groups: ["A"] },
+            ],
+            replaced: "[A][b][A]",
+        });
+    });
+
+    it.each([
+        ["(\\w)(\\w)?", "g", "[$2$1|$&|$$|$10|$3]"],
+        ["(?<first>\\w+) (?<last>\\w+)", "", "$<last>, $<first> ($`|$')"],
+        ["o", "g", "$<x>$0"],
+        ["", "gu", "-"],
+    ])("should replace like String.prototype.replace for /%s/%s", async (pattern, flags, replacement) => {
+        const input = "hello world 😀";
+        const result = await run({ pattern, flags, inputs: [input], replacement });
+        expect(result.results[0]?.replaced).toBe(input.replace(new RegExp(pattern, flags), replacement));
+    });
+
+    it("should clip long inputs, matches and replacements", async () => {
+        const started = Date.now();
+        const input = "a".repeat(100_000);
+        const result = await run({ pattern: "", flags: "g", inputs: [input], replacement: "b".repeat(2000) });
+        const [first] = result.results;
+        expect(first?.input).toBe(`${"a".repeat(2000)}…`);
+        expect((first?.replaced as string).length).toBe(2001);
+        expect(first?.truncated).toBe(true);
+        expect(JSON.stringify(result).length).toBeLessThan(20_000);
+        expect(Date.now() - started).toBeLessThan(5000);
+    });
+
+    it("should cap the total result size across inputs", async () => {
+        const result = await run({ pattern: ".+", inputs: Array.from({ length: 50 }, () => "x".repeat(5000)) });
+        expect(JSON.stringify(result).length).toBeLessThan(110_000 + 50 * 200);
+        expect(result.results[49]).toMatchObject({ input: "…", matched: true, truncated: true, matches: [] });
+    });
+
+    it("should step over empty matches", async () => {
+        const result = await run({ pattern: "x*", flags: "gu", inputs: ["a😀"] });
+        expect((result.results[0]?.matches as unknown[]).length).toBe(3);
+    });
+
+    it("should report invalid patterns and flags", async () => {
+        expect((await handler({ pattern: "(", inputs: ["a"] })).error).toMatch(/Invalid regular expression.*Unterminated group/);
+        expect((await handler({ pattern: "a", flags: "gg", inputs: ["a"] })).error)
+            .toBe("Invalid flags 'gg': use each of d, g, i, m, s, u, v, y at most once");
+        expect((await handler({ pattern: "a", inputs: [] })).error).toBe("Provide at least one sample input");
+    });
+
+    it("should stop catastrophic backtracking at the time limit", async () => {
+        const started = Date.now();
+        const result = await handler({ pattern: "^(a+)+$", inputs: ["aaa", `${"a".repeat(40)}!`] });
+        expect(result.success).toBe(false);
+        expect(result.error).toMatch(/^Regex timed out after 1000ms on input 2 \(likely catastrophic backtracking/);
+        expect(Date.now() - started).toBeLessThan(5000);
+    });
+
+    it("should stop when the call is cancelled", async () => {
+        const controller = new AbortController();
+        const pending = runRegex(
+            { pattern: "^(a|a)*$", flags: "", inputs: [`${"a".repeat(40)}!`], maxMatches: 10, maxStringChars: 100, maxResultChars: 1000 },
+            { timeoutMs: 10_000, memoryMb: 64, signal: controller.signal }
+        );
+        controller.abort();
+        await expect(pending).rejects.toThrow("Regex test cancelled");
+    });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tool Registry Tests
+ *
+ * Tests for runtime registration, metadata filtering and the per-request
+ * tool selection used by the chat service.
+ */
+
+import { describe, it, expect, afterEach } from "vitest";
+import { ToolRegistry } from "../registry";
+import { getToolDeclarations, getToolsForRequest, toolRegistry } from "../index";
+import type { ToolModule } from "../types";
+
+function tool(name: string, metadata: Partial<ToolModule["metadata"]> = {}): ToolModule {
+    return {
+        declaration: { name, description: `${name} tool` },
+        handler: async () => ({ success: true, result: name }),
+        metadata: { category: "utility", cost: "low", sideEffects: false, ...metadata },
+    };
+}
+
+describe("ToolRegistry", () => {
+    it("should register, list and unregister tools", () => {
+        const registry = new ToolRegistry([tool("a")]);
+        registry.register(tool("b", { category: "math" }));
+
+        expect(registry.list()).toEqual([
+            { name: "a", description: "a tool", category: "utility", cost: "low", sideEffects: false },
+            { name: "b", description: "b tool", category: "math", cost: "low", sideEffects: false },
+        ]);
+
+        expect(registry.unregister("a")).toBe(true);
+        expect(registry.unregister("a")).toBe(false);
+        expect(registry.has("a")).toBe(false);
+    });
+
+    it("should reject duplicate names unless replacing", () => {
+        const registry = new ToolRegistry([tool("a")]);
+        const replacement = tool("a", { cost: "high" });
+
+        expect(() => registry.register(tool("a"))).toThrow("Tool 'a' is already registered");
+        registry.register(replacement, { replace: true });
+        expect(registry.get("a")).toBe(replacement);
+    });
+
+    it("should filter declarations by name, category, cost and side effects", () => {
+        const registry = new ToolRegistry([
+            tool("calc", { category: "math" }),
+            tool("search", { category: "external", cost: "high" }),
+            tool("write_file", { category: "external", cost: "medium", sideEffects: true }),
+        ]);
+        const names = (filter: Parameters<ToolRegistry["getDeclarations"]>[0]) =>
+            registry.getDeclarations(filter).map((d) => d.name);
+
+        expect(names({ categories: ["external"] })).toEqual(["search", "write_file"]);
+        expect(names({ maxCost: "medium" })).toEqual(["calc", "write_file"]);
+        expect(names({ excludeSideEffects: true })).toEqual(["calc", "search"]);
+        expect(names({ names: ["calc", "missing"] })).toEqual(["calc"]);
+        expect(names({ names: null, categories: null })).toHaveLength(3);
+    });
+});
+
+describe("getToolsForRequest", () => {
+    afterEach(() => {
+        toolRegistry.unregister("test_runtime");
+    });
+
+    it("should narrow tools by intent", () => {
+        const names = getToolsForRequest({ intent: "math" }).map((d) => d.name);
+        expect(names).toEqual(["calculate", "generate_random", "convert_units", "statistics"]);
+    });
+
+    it("should offer code tools for code requests", () => {
+        const names = getToolsForRequest({ intent: "code" }).map((d) => d.name);
+        expect(names).toContain("regex_test");
+        expect(names).not.toContain("generate_random");
+    });
+
+    it("should offer every tool for open-ended intents", () => {
+        expect(getToolsForRequest({ intent: "general" })).toEqual(getToolDeclarations().functionDeclarations);
+    });
+
+    it("should apply the policy allow-list on top of the intent", () => {
+        const names = getToolsForRequest({ intent: "math", allowedTools: ["calculate", "analyze_text"] })
+            .map((d) => d.name);
+        expect(names).toEqual(["calculate"]);
+    });
+
+    it("should include tools registered at runtime", () => {
+        toolRegistry.register(tool("test_runtime"));
+        expect(getToolsForRequest().map((d) => d.name)).toContain("test_runtime");
+    });
+});
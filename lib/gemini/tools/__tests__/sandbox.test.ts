@@ -0,0 +1,96 @@
+/**
+ * Run Code Tool Tests
+ *
+ * Tests for console capture and streaming, completion values, errors with
+ * line numbers, isolation from Node globals and the host realm, and the time
+ * and memory limits.
+ */
+
+import { describe, it, expect } from "vitest";
+import { handler } from "../sandbox";
+import { requiresApproval } from "../index";
+import type { ToolOutputChunk } from "../types";
+
+async function run(code: string, extra: Record<string, unknown> = {}) {
+    const result = await handler({ code, ...extra });
+    if (!result.success) throw new Error(result.error);
+    return result.result as Record<string, unknown>;
+}
+
+describe("Run Code Tool", () => {
+    it("should capture console output and the last expression", async () => {
+        const result = await run("const xs = [3, 1, 2].sort();\nconsole.log('sorted', xs);\nconsole.warn({ n: 1n });\nxs.length * 2");
+        expect(result).toMatchObject({
+            output: "sorted [1,2,3]\n{\"n\":\"1n\"}\n",
+            value: "6",
+            valueType: "number",
+        });
+    });
+
+    it("should stream output chunks as they are written", async () => {
+        const chunks: ToolOutputChunk[] = [];
+        const result = await handler({ code: "console.log('a'); console.error('b'); 'done'" }, undefined, (c) => chunks.push(c));
+        expect(result.success).toBe(true);
+        expect(chunks).toEqual([{ stream: "stdout", text: "a\n" }, { stream: "stderr", text: "b\n" }]);
+    });
+
+    it("should await a returned promise", async () => {
+        const result = await run("(async () => { await null; return { ok: true, items: new Set([1]) }; })()");
+        expect(result).toMatchObject({ value: "{\"ok\":true,\"items\":{\"[Set]\":[1]}}", valueType: "object" });
+    });
+
+    it("should report uncaught errors with their line and earlier output", async () => {
+        const result = await handler({ code: "console.log('before');\n\nnotDefined();" });
+        expect(result.success).toBe(false);
+        expect(result.error).toBe("ReferenceError: notDefined is not defined (line 3)\nOutput before the error:\nbefore\n");
+        expect((await handler({ code: "let = ;" })).error).toMatch(/^SyntaxError: .* \(line 1\)$/);
+        expect((await handler({ code: "throw 'plain'" })).error).toBe("Uncaught plain");
+    });
+
+    it("should not expose Node globals", async () => {
+        const result = await run("[typeof require, typeof process, typeof fetch, typeof setTimeout, typeof globalThis.Buffer].join()");
+        expect(result.value).toBe("undefined,undefined,undefined,undefined,undefined");
+        const escape = await run("try { console.log.constructor('return typeof process')() } catch (e) { 'blocked' }");
+        expect(escape.value).toBe("blocked");
+    });
+
+    it("should keep import() from leaking a host object", async () => {
+        const result = await run(
+            "import('fs').then(() => 'imported', (e) => {\n"
+            + "  try { const p = e.constructor.constructor('return process')(); return p.getBuiltinModule('fs').readdirSync('/').join(); }\n"
+            + "  catch (x) { return [e instanceof Error, e.message, x.name].join(); }\n"
+            + "})"
+        );
+        expect(result.value).toBe("true,import() is not available in the sandbox,EvalError");
+    });
+
+    it("should refuse to compile code from strings", async () => {
+        const result = await run("try { Object.getPrototypeOf(async function () {}).constructor('return 1') } catch (e) { e.name }");
+        expect(result.value).toBe("EvalError");
+        expect((await run("typeof require + typeof module + typeof process")).value).toBe("undefinedundefinedundefined");
+    });
+
+    it("should stop code that runs past the time limit", async () => {
+        const result = await handler({ code: "console.log('start'); while (true) {}", timeout_ms: 300 });
+        expect(result.error).toBe("Code ran longer than 300ms and was stopped\nOutput before the error:\nstart\n");
+    });
+
+    it("should stop code that exceeds the memory limit", async () => {
+        const result = await handler({ code: "const a = []; while (true) a.push({ i: a.length, s: 'x' + a.length });", timeout_ms: 10_000 });
+        expect(result.error).toBe("Code exceeded the 64 MB memory limit");
+    });
+
+    it("should report promises that never settle", async () => {
+        expect((await handler({ code: "new Promise(() => {})" })).error)
+            .toBe("Code finished without a result (a promise never settled)");
+    });
+
+    it("should ask the user before every run", () => {
+        expect(requiresApproval("run_code")).toBe(true);
+    });
+
+    it("should validate arguments", async () => {
+        expect((await handler({ code: "  " })).error).toBe("No code provided");
+        expect((await handler({ code: "1", timeout_ms: 60_000 })).error).toBe("timeout_ms must be an integer from 1 to 10000");
+    });
+});
@@ -0,0 +1,147 @@
+/**
+ * Statistics Tool Tests
+ *
+ * Tests for dataset parsing (number lists, JSON, CSV) and each operation.
+ */
+
+import { describe, it, expect } from "vitest";
+import { handler, parseDataset } from "../statistics";
+
+const SALES_CSV = `region,month,units,revenue
+North,Jan,10,100
+South,Jan,4,48
+North,Feb,14,150
+South,Feb,6,70
+"West, Coast",Feb,8,95`;
+
+describe("Statistics Tool", () => {
+    describe("parseDataset", () => {
+        it("should read bare number lists", () => {
+            expect(parseDataset("3, 5, 8").rows).toEqual([{ value: 3 }, { value: 5 }, { value: 8 }]);
+            expect(parseDataset("3 5\n8").rows).toHaveLength(3);
+        });
+
+        it("should read JSON arrays of numbers and objects", () => {
+            expect(parseDataset("[1, 2.5]").rows).toEqual([{ value: 1 }, { value: 2.5 }]);
+            expect(parseDataset('[{"a": 1, "b": "x"}, {"a": "2"}]')).toEqual({
+                columns: ["a", "b"],
+                rows: [{ a: 1, b: "x" }, { a: 2 }],
+            });
+        });
+
+        it("should read CSV with quoted fields", () => {
+            const dataset = parseDataset(SALES_CSV);
+            expect(dataset.columns).toEqual(["region", "month", "units", "revenue"]);
+            expect(dataset.rows[4]).toEqual({ region: "West, Coast", month: "Feb", units: 8, revenue: 95 });
+        });
+
+        it("should reject malformed input", () => {
+            expect(() => parseDataset("[1, 2")).toThrow("could not be parsed");
+            expect(() => parseDataset("name\n")).toThrow("no rows");
+        });
+    });
+
+    describe("describe", () => {
+        it("should summarise a list of numbers", async () => {
+            const result = await handler({ data: "2, 4, 4, 4, 5, 5, 7, 9" });
+            expect(result.success).toBe(true);
+            expect(result.result).toMatchObject({
+                operation: "describe",
+                rows: 8,
+                statistics: { count: 8, mean: 5, median: 4.5, mode: [4], min: 2, max: 9, q1: 4, q3: 5.5 },
+            });
+            expect((result.result as { statistics: { stdDev: number } }).statistics.stdDev).toBeCloseTo(2.138, 3);
+        });
+
+        it("should describe every numeric column as a table", async () => {
+            const result = await handler({ data: SALES_CSV });
+            const { table } = result.result as { table: { columns: string[]; rows: unknown[][] } };
+            expect(table.columns).toEqual(["column", "count", "mean", "median", "stdDev", "min", "q1", "q3", "max"]);
+            expect(table.rows.map((row) => row[0])).toEqual(["units", "revenue"]);
+            expect(table.rows[0]?.slice(0, 4)).toEqual(["units", 5, 8.4, 8]);
+        });
+
+        it("should count missing values", async () => {
+            const result = await handler({ data: "x\n1\n\n3\n", column: "x" });
+            expect(result.result).toMatchObject({ statistics: { count: 2, missing: 0, mean: 2 } });
+
+            const sparse = await handler({ data: '[{"x": 1}, {"x": null}, {"x": 3}]' });
+            expect(sparse.result).toMatchObject({ statistics: { count: 2, missing: 1 } });
+        });
+    });
+
+    it("should compute interpolated percentiles", async () => {
+        const result = await handler({ data: "1, 2, 3, 4", operation: "percentiles", percentiles: [0, 50, 90, 100] });
+        expect(result.result).toMatchObject({
+            table: { columns: ["percentile", "value"], rows: [[0, 1], [50, 2.5], [90, 3.7], [100, 4]] },
+        });
+
+        const invalid = await handler({ data: "1, 2", operation: "percentiles", percentiles: [120] });
+        expect(invalid.error).toContain("between 0 and 100");
+    });
+
+    it("should compute Pearson and Spearman correlation", async () => {
+        const result = await handler({ data: SALES_CSV, operation: "correlation", x_column: "units", y_column: "revenue" });
+        expect(result.result).toMatchObject({ x: "units", y: "revenue", n: 5, spearman: 1 });
+        expect((result.result as { pearson: number }).pearson).toBeCloseTo(0.9899, 4);
+    });
+
+    it("should build a correlation matrix for three or more columns", async () => {
+        const result = await handler({ data: "a,b,c\n1,2,9\n2,4,7\n3,6,8\n4,8,1", operation: "correlation" });
+        const { table } = result.result as { table: { columns: string[]; rows: unknown[][] } };
+        expect(table.columns).toEqual(["column", "a", "b", "c"]);
+        expect(table.rows[0]?.slice(0, 3)).toEqual(["a", 1, 1]);
+    });
+
+    it("should fit a least-squares line", async () => {
+        const result = await handler({ data: "x,y\n1,3\n2,5\n3,7\n4,9", operation: "regression" });
+        expect(result.result).toMatchObject({
+            x: "x",
+            y: "y",
+            slope: 2,
+            intercept: 1,
+            rSquared: 1,
+            equation: "y = 2 * x + 1",
+        });
+    });
+
+    it("should aggregate per group", async () => {
+        const result = await handler({ data: SALES_CSV, operation: "group_by", group_by: "region", column: "revenue" });
+        expect(result.result).toMatchObject({
+            groupBy: "region",
+            column: "revenue",
+            table: {
+                columns: ["region", "count", "sum", "mean", "min", "max"],
+                rows: [
+                    ["North", 2, 250, 125, 100, 150],
+                    ["South", 2, 118, 59, 48, 70],
+                    ["West, Coast", 1, 95, 95, 95, 95],
+                ],
+            },
+        });
+    });
+
+    it("should bin values into a histogram", async () => {
+        const result = await handler({ data: "1, 2, 2, 3, 9, 10", operation: "histogram", bins: 3 });
+        expect(result.result).toMatchObject({
+            binWidth: 3,
+            table: { columns: ["from", "to", "count"], rows: [[1, 4, 4], [4, 7, 0], [7, 10, 2]] },
+        });
+    });
+
+    it("should put a constant dataset in a single bin", async () => {
+        const result = await handler({ data: "7, 7, 7", operation: "histogram", bins: 3 });
+        expect(result.result).toMatchObject({
+            count: 3,
+            binWidth: 0,
+            table: { rows: [[7, 7, 3]] },
+        });
+    });
+
+    it("should report unknown and non-numeric columns", async () => {
+        const unknown = await handler({ data: SALES_CSV, column: "profit" });
+        const text = await handler({ data: SALES_CSV, operation: "histogram", column: "region" });
+        expect(unknown.error).toBe("Statistics failed: Unknown column 'profit' (columns: region, month, units, revenue)");
+        expect(text.error).toContain("Column 'region' is not numeric");
+    });
+});
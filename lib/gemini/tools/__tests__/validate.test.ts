@@ -0,0 +1,120 @@
+/**
+ * Tool Argument Validation Tests
+ *
+ * Tests for validateArgs against declaration schemas, and for executeTool
+ * rejecting invalid calls before the handler runs.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { SchemaType } from "@google/generative-ai";
+import type { FunctionDeclarationSchema } from "@google/generative-ai";
+import { validateArgs, formatIssues } from "../validate";
+import { executeTool, getToolMetrics, resetToolMetrics } from "../index";
+
+const schema: FunctionDeclarationSchema = {
+    type: SchemaType.OBJECT,
+    properties: {
+        text: { type: SchemaType.STRING },
+        mode: { type: SchemaType.STRING, format: "enum", enum: ["fast", "slow"] },
+        count: { type: SchemaType.INTEGER },
+        ratio: { type: SchemaType.NUMBER },
+        strict: { type: SchemaType.BOOLEAN },
+        tags: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+        note: { type: SchemaType.STRING, nullable: true },
+    },
+    required: ["text", "mode"],
+};
+
+describe("validateArgs", () => {
+    it("should accept valid arguments and ignore unknown ones", () => {
+        expect(validateArgs(schema, {
+            text: "hi",
+            mode: "fast",
+            count: 3,
+            ratio: 0.5,
+            strict: true,
+            tags: ["a", "b"],
+            note: null,
+            extra: "ignored",
+        })).toEqual([]);
+    });
+
+    it("should treat null optional arguments as omitted", () => {
+        expect(validateArgs(schema, { text: "hi", mode: "fast", count: null, tags: null, strict: null })).toEqual([]);
+        expect(validateArgs(
+            { ...schema, properties: { ...schema.properties, count: { type: SchemaType.INTEGER, nullable: false } } },
+            { text: "hi", mode: "fast", count: null }
+        )).toEqual([{ path: "count", message: "expected integer, got null" }]);
+    });
+
+    it("should report missing required arguments", () => {
+        expect(validateArgs(schema, { text: "hi" })).toEqual([
+            { path: "mode", message: "is required" },
+        ]);
+    });
+
+    it("should report enum mismatches with the allowed values", () => {
+        expect(validateArgs(schema, { text: "hi", mode: "medium" })).toEqual([
+            { path: "mode", message: "must be one of fast, slow (got \"medium\")" },
+        ]);
+    });
+
+    it("should report type mismatches per argument", () => {
+        const issues = validateArgs(schema, {
+            text: 42,
+            mode: "slow",
+            count: 1.5,
+            ratio: "0.5",
+            strict: "yes",
+            tags: ["ok", 7],
+        });
+
+        expect(formatIssues(issues)).toBe([
+            "text expected string, got number",
+            "count expected integer, got 1.5",
+            "ratio expected number, got string",
+            "strict expected boolean, got string",
+            "tags[1] expected string, got number",
+        ].join("; "));
+    });
+
+    it("should reject non-object arguments", () => {
+        expect(validateArgs(schema, ["hi"])).toEqual([
+            { path: "(arguments)", message: "expected object, got array" },
+        ]);
+    });
+
+    it("should accept anything when there is no schema", () => {
+        expect(validateArgs(undefined, { whatever: 1 })).toEqual([]);
+    });
+});
+
+describe("executeTool validation", () => {
+    beforeEach(() => {
+        resetToolMetrics();
+        vi.spyOn(console, "log").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it("should return a validation error the model can act on", async () => {
+        const result = await executeTool("encode_decode", { text: "hi", operation: "encode", format: "b64" });
+
+        expect(result).toEqual({
+            success: false,
+            result: null,
+            error: "Invalid arguments for 'encode_decode': format must be one of base64, base32, hex, url, html, rot13, morse, binary, utf8, jwt, sha1, sha256, sha512 (got \"b64\")",
+            code: "VALIDATION_ERROR",
+            retryable: false,
+        });
+        expect(getToolMetrics().get("encode_decode")).toMatchObject({ calls: 1, failures: 1 });
+    });
+
+    it("should run the handler when the arguments are valid", async () => {
+        const result = await executeTool("encode_decode", { text: "hi", operation: "encode", format: "base64" });
+
+        expect(result.success).toBe(true);
+    });
+});
@@ -1,15 +1,33 @@
 /**
  * Text Analysis Tool
- * 
- * Analyze text for statistics and patterns.
+ *
+ * Analyze text for statistics and patterns: counts, readability, n-gram
+ * frequencies, language, sentence statistics, and word diffs between two
+ * texts.
  */
 
 import { SchemaType, type FunctionDeclaration } from "@google/generative-ai";
 import type { ToolModule, ToolExecutionResult } from "./types";
+import { diffWords, formatDiff } from "./text/diff";
+import { detectLanguage } from "./text/language";
+import { scoreReadability } from "./text/readability";
+import { getStopWords, isStopWordLanguage, STOP_WORD_LANGUAGES } from "./text/stopwords";
+import { splitParagraphs, splitSentences, tokenizeWords } from "./text/tokenize";
+
+const ANALYZE_CONFIG = {
+    WORDS_PER_MINUTE: 200,
+    DEFAULT_TOP: 10,
+    MAX_TOP: 50,
+    MAX_NGRAM: 5,
+    /** Sentences longer than this are flagged as long */
+    LONG_SENTENCE_WORDS: 25,
+    MAX_QUOTED_CHARS: 200,
+    MAX_DIFF_CHUNKS: 200,
+};
 
 export const declaration: FunctionDeclaration = {
     name: "analyze_text",
-    description: "Analyze text for statistics: word count, character count, sentence count, reading time, most frequent words, and language detection.",
+    description: "Analyze text: word/character/sentence counts, reading time, readability (Flesch reading ease, Flesch-Kincaid grade, Gunning fog), word and n-gram frequencies without stop words, language detection, sentence statistics, and 'compare' for a word-level diff and similarity score between two texts.",
     parameters: {
         type: SchemaType.OBJECT,
         properties: {
@@ -19,49 +37,147 @@ export const declaration: FunctionDeclaration = {
             },
             analysis_type: {
                 type: SchemaType.STRING,
-                description: "Type of analysis: full, word_count, reading_time, frequency, summary"
+                format: "enum",
+                enum: ["full", "word_count", "reading_time", "frequency", "readability", "ngrams", "language", "sentences", "compare"],
+                description: "Type of analysis (default: full)"
+            },
+            compare_text: {
+                type: SchemaType.STRING,
+                description: "Second text, required for 'compare' (the diff shows how text becomes compare_text)"
+            },
+            n: {
+                type: SchemaType.INTEGER,
+                description: "N-gram size for 'ngrams', 1-5 (default: 2)"
+            },
+            top: {
+                type: SchemaType.INTEGER,
+                description: "How many words or n-grams to list (default: 10, max 50)"
+            },
+            language: {
+                type: SchemaType.STRING,
+                format: "enum",
+                enum: ["auto", ...STOP_WORD_LANGUAGES],
+                description: "Stop-word list for frequencies (default: auto, the detected language)"
+            },
+            include_stop_words: {
+                type: SchemaType.BOOLEAN,
+                description: "Keep stop words in frequencies (default: false)"
             }
         },
         required: ["text"]
     }
 };
 
+// ============================================================================
+// Analyses
+// ============================================================================
+
+interface Frequency {
+    ngram: string;
+    count: number;
+}
+
+function round(value: number, digits: number = 1): number {
+    const scale = 10 ** digits;
+    return Math.round(value * scale) / scale;
+}
+
+function quote(text: string): string {
+    return text.length > ANALYZE_CONFIG.MAX_QUOTED_CHARS
+        ? `${text.slice(0, ANALYZE_CONFIG.MAX_QUOTED_CHARS - 1)}…`
+        : text;
+}
+
+/**
+ * Most frequent n-grams within sentences; with stop words, grams that start
+ * or end on one are skipped ("of the" goes, "state of the art" stays)
+ */
+function countNgrams(sentences: string[], n: number, stopWords: ReadonlySet<string> | null, top: number): Frequency[] {
+    const counts = new Map<string, number>();
+    for (const sentence of sentences) {
+        const tokens = tokenizeWords(sentence).map((word) => word.toLowerCase());
+        for (let i = 0; i + n <= tokens.length; i++) {
+            const gram = tokens.slice(i, i + n);
+            const first = gram[0] ?? "";
+            const last = gram[n - 1] ?? "";
+            if (stopWords && (stopWords.has(first) || stopWords.has(last))) continue;
+            const key = gram.join(" ");
+            counts.set(key, (counts.get(key) ?? 0) + 1);
+        }
+    }
+    return [...counts]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, top)
+        .map(([ngram, count]) => ({ ngram, count }));
+}
+
+function sentenceStats(sentences: string[]) {
+    const measured = sentences.map((text) => ({ text, words: tokenizeWords(text).length }));
+    const lengths = measured.map((s) => s.words).sort((a, b) => a - b);
+    if (!lengths.length) return { count: 0 };
+
+    const middle = Math.floor(lengths.length / 2);
+    const median = lengths.length % 2 ? lengths[middle] ?? 0 : ((lengths[middle - 1] ?? 0) + (lengths[middle] ?? 0)) / 2;
+    const byLength = [...measured].sort((a, b) => a.words - b.words);
+    const shortest = byLength[0];
+    const longest = byLength[byLength.length - 1];
+
+    return {
+        count: sentences.length,
+        averageWords: round(lengths.reduce((sum, n) => sum + n, 0) / lengths.length),
+        medianWords: median,
+        minWords: lengths[0],
+        maxWords: lengths[lengths.length - 1],
+        questions: sentences.filter((s) => /[?？]["'”’)\]]*$/.test(s)).length,
+        exclamations: sentences.filter((s) => /[!！]["'”’)\]]*$/.test(s)).length,
+        longSentences: lengths.filter((n) => n > ANALYZE_CONFIG.LONG_SENTENCE_WORDS).length,
+        shortest: shortest && { text: quote(shortest.text), words: shortest.words },
+        longest: longest && { text: quote(longest.text), words: longest.words },
+    };
+}
+
+function compareTexts(before: string, after: string) {
+    const { chunks, ...diff } = diffWords(before, after);
+    return {
+        ...diff,
+        diff: formatDiff(chunks),
+        changes: chunks.filter((chunk) => chunk.type !== "equal").slice(0, ANALYZE_CONFIG.MAX_DIFF_CHUNKS),
+    };
+}
+
+function clampInteger(value: unknown, fallback: number, min: number, max: number): number {
+    const n = Number(value);
+    return Number.isInteger(n) ? Math.min(max, Math.max(min, n)) : fallback;
+}
+
 export const handler = async (args: Record<string, unknown>): Promise<ToolExecutionResult> => {
     try {
         const text = String(args.text || "");
         const analysisType = String(args.analysis_type || "full");
+        const top = clampInteger(args.top, ANALYZE_CONFIG.DEFAULT_TOP, 1, ANALYZE_CONFIG.MAX_TOP);
 
-        const words = text.trim().split(/\s+/).filter(Boolean);
-        const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-        const paragraphs = text.split(/\n\n+/).filter(p => p.trim().length > 0);
+        if (analysisType === "compare") {
+            if (typeof args.compare_text !== "string") throw new Error("'compare' needs 'compare_text'");
+            return { success: true, result: compareTexts(text, args.compare_text) };
+        }
 
-        // Word frequency (top 10)
-        const wordFreq: Record<string, number> = {};
-        words.forEach(w => {
-            const word = w.toLowerCase().replace(/[^a-z0-9]/g, "");
-            if (word.length > 2) { // Skip short words
-                wordFreq[word] = (wordFreq[word] || 0) + 1;
-            }
-        });
-        const topWords = Object.entries(wordFreq)
-            .sort((a, b) => b[1] - a[1])
-            .slice(0, 10)
-            .map(([word, count]) => ({ word, count }));
+        const words = tokenizeWords(text);
+        const sentences = splitSentences(text);
+        const paragraphs = splitParagraphs(text);
+        const detected = detectLanguage(text, words);
+
+        // Stop words follow the requested or detected language, when there is a list for it
+        const requested = String(args.language || "auto");
+        const stopWordLanguage = requested !== "auto" ? requested : detected.language;
+        const stopWords = args.include_stop_words !== true && isStopWordLanguage(stopWordLanguage)
+            ? getStopWords(stopWordLanguage)
+            : null;
+        const topWords = () => countNgrams(sentences, 1, stopWords, top).map(({ ngram, count }) => ({ word: ngram, count }));
 
         // Reading time (avg 200 wpm)
-        const readingTimeMinutes = Math.ceil(words.length / 200);
-
-        const fullResult = {
-            characters: text.length,
-            charactersNoSpaces: text.replace(/\s/g, "").length,
-            words: words.length,
-            sentences: sentences.length,
-            paragraphs: paragraphs.length,
-            averageWordLength: words.length > 0 ? Math.round(words.join("").length / words.length * 10) / 10 : 0,
-            averageSentenceLength: sentences.length > 0 ? Math.round(words.length / sentences.length * 10) / 10 : 0,
-            readingTime: `${readingTimeMinutes} minute${readingTimeMinutes !== 1 ? "s" : ""}`,
-            topWords
-        };
+        const readingTimeMinutes = Math.ceil(words.length / ANALYZE_CONFIG.WORDS_PER_MINUTE);
+        const readingTime = `${readingTimeMinutes} minute${readingTimeMinutes !== 1 ? "s" : ""}`;
+        const language = { language: detected.language, name: detected.name, confidence: detected.confidence };
 
         let result: object;
         switch (analysisType) {
@@ -69,13 +185,47 @@ export const handler = async (args: Record<string, unknown>): Promise<ToolExecut
                 result = { words: words.length, characters: text.length };
                 break;
             case "reading_time":
-                result = { readingTime: fullResult.readingTime, wordCount: words.length };
+                result = { readingTime, wordCount: words.length };
                 break;
             case "frequency":
-                result = { topWords };
+                result = { topWords: topWords(), stopWords: stopWords ? stopWordLanguage : null };
+                break;
+            case "ngrams": {
+                const n = clampInteger(args.n, 2, 1, ANALYZE_CONFIG.MAX_NGRAM);
+                result = { n, ngrams: countNgrams(sentences, n, stopWords, top), stopWords: stopWords ? stopWordLanguage : null };
+                break;
+            }
+            case "readability": {
+                const scores = scoreReadability(words, sentences.length);
+                if (!scores) throw new Error("Readability needs at least one sentence of Latin-script words");
+                result = {
+                    ...scores,
+                    words: words.length,
+                    sentences: sentences.length,
+                    ...(detected.language !== "en" && { note: "Readability formulas are calibrated on English text" }),
+                };
+                break;
+            }
+            case "language":
+                result = detected;
+                break;
+            case "sentences":
+                result = sentenceStats(sentences);
                 break;
             default:
-                result = fullResult;
+                result = {
+                    characters: text.length,
+                    charactersNoSpaces: text.replace(/\s/g, "").length,
+                    words: words.length,
+                    sentences: sentences.length,
+                    paragraphs: paragraphs.length,
+                    averageWordLength: words.length > 0 ? round(words.join("").length / words.length) : 0,
+                    averageSentenceLength: sentences.length > 0 ? round(words.length / sentences.length) : 0,
+                    readingTime,
+                    language,
+                    readability: scoreReadability(words, sentences.length),
+                    topWords: topWords()
+                };
         }
 
         return { success: true, result };
@@ -84,5 +234,9 @@ export const handler = async (args: Record<string, unknown>): Promise<ToolExecut
     }
 };
 
-const analyzeTool: ToolModule = { declaration, handler };
+const analyzeTool: ToolModule = {
+    declaration,
+    handler,
+    metadata: { category: "text", cost: "low", sideEffects: false }
+};
 export default analyzeTool;
@@ -1,28 +1,102 @@
 /**
  * Calculate Tool
  * 
- * Safe mathematical expression evaluation using expr-eval.
+ * Safe mathematical evaluation with its own parser (no code execution):
+ * multi-statement programs with variables, exact rational and big-integer
+ * arithmetic, unit-aware quantities, equation solving, and a step trace.
+ * See ./math for the parser, evaluator, units and solver.
  */
 
 import { SchemaType, type FunctionDeclaration } from "@google/generative-ai";
-import { Parser } from "expr-eval";
 import type { ToolModule, ToolExecutionResult } from "./types";
+import { namesIn, parseProgram, type Statement } from "./math/parser";
+import { Rational, toNumber, type Scalar } from "./math/rational";
+import { evaluate, formatQuantity, formatScalar, type EvaluationContext, type Quantity } from "./math/evaluate";
+import { findUnknown, solveEquation, type Solution } from "./math/solve";
+import { formatUnits } from "./math/units";
+
+const MAX_EXPRESSION_LENGTH = 2000;
 
 export const declaration: FunctionDeclaration = {
     name: "calculate",
-    description: "Perform mathematical calculations. Supports basic arithmetic, percentages, exponents, square roots, trigonometry (sin, cos, tan), logarithms, and more. Use this for ANY math calculation to ensure accuracy.",
+    description: "Perform mathematical calculations with exact results. Supports arithmetic, percentages, exponents, roots, trigonometry, logarithms, factorials, gcd/lcm, variables across statements (separate with ';' or newlines, e.g. 'r = 3; pi r^2'), units ('5 km + 300 m', '100 km / 2 h to m/s'), and solving equations ('2x + 3 = 11', 'x^2 - 5x + 6 = 0'). Fractions stay exact ('1/3 + 1/6' is 1/2) and integers are arbitrary precision. Use this for ANY math calculation to ensure accuracy.",
     parameters: {
         type: SchemaType.OBJECT,
         properties: {
             expression: {
                 type: SchemaType.STRING,
-                description: "The mathematical expression to evaluate, e.g., '15% of 847', '2^10', 'sqrt(144)', 'sin(45)', 'log(100)'"
+                description: "The expression, statements or equation to evaluate, e.g., '15% of 847', '2^100', 'sqrt(144)', 'sin(cos(30))', 'log(100)', 'x = 4; 3x + 1', '5 ft to cm', '2x + 3 = 11'. log is base 10, ln is natural."
+            },
+            angle_mode: {
+                type: SchemaType.STRING,
+                format: "enum",
+                description: "Angle unit for trigonometric functions (default degrees)",
+                enum: ["degrees", "radians"]
+            },
+            variable: {
+                type: SchemaType.STRING,
+                description: "Variable to solve for when the expression is an equation with more than one unknown"
             }
         },
         required: ["expression"]
     }
 };
 
+interface Step {
+    /** Human-readable trace line */
+    text: string;
+    value: Quantity | null;
+    solution: Solution | null;
+}
+
+/**
+ * Evaluate one statement: an expression, an assignment or an equation
+ */
+function runStatement(statement: Statement, context: EvaluationContext, variable: string | undefined): Step {
+    const { source, left, right } = statement;
+
+    if (!right) {
+        const value = checked(evaluate(left, context));
+        return { text: `${source} = ${formatQuantity(value)}`, value, solution: null };
+    }
+
+    // "x = x + 1" with x already set is a reassignment, not an equation
+    const isAssignment = left.kind === "name" && left.name !== variable
+        && (!namesIn(right).has(left.name) || context.variables.has(left.name));
+    if (isAssignment) {
+        const value = checked(evaluate(right, context));
+        context.variables.set(left.name, value);
+        const formatted = formatQuantity(value);
+        const rhs = source.slice(source.indexOf("=") + 1).trim();
+        return { text: rhs === formatted ? source : `${source} = ${formatted}`, value, solution: null };
+    }
+
+    const unknown = findUnknown(left, right, context, variable);
+    const solution = solveEquation(left, right, context, unknown);
+    const [only] = solution.values;
+    if (only !== undefined && solution.values.length === 1) {
+        context.variables.set(unknown, { value: only, units: {} });
+    }
+    const values = solution.values.map((value) => `${unknown} = ${formatScalar(value)}`).join(" or ");
+    return { text: `${source} → ${values} (${solution.method})`, value: null, solution };
+}
+
+function checked(value: Quantity): Quantity {
+    if (typeof value.value === "number" && !isFinite(value.value)) {
+        throw new Error("Calculation resulted in invalid number");
+    }
+    return value;
+}
+
+function numeric(value: Scalar): number | null {
+    const n = toNumber(value);
+    return isFinite(n) ? n : null;
+}
+
+function exactForm(value: Scalar): { exact?: string } {
+    return value instanceof Rational && !value.isInteger() ? { exact: value.toString() } : {};
+}
+
 export const handler = async (args: Record<string, unknown>): Promise<ToolExecutionResult> => {
     try {
         const expression = String(args.expression || "").trim();
@@ -30,50 +104,60 @@ export const handler = async (args: Record<string, unknown>): Promise<ToolExecut
         if (!expression) {
             throw new Error("Empty expression provided");
         }
+        if (expression.length > MAX_EXPRESSION_LENGTH) {
+            throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`);
+        }
 
-        // Normalize expression for the parser
-        let normalized = expression
-            // Handle natural language patterns
-            .replace(/(\d+(?:\.\d+)?)\s*%\s*of\s*(\d+(?:\.\d+)?)/gi, "($1/100)*$2")
-            .replace(/(\d+(?:\.\d+)?)\s*percent\s*of\s*(\d+(?:\.\d+)?)/gi, "($1/100)*$2")
-            // Replace ** with ^ for exponentiation (expr-eval uses ^ not **)
-            .replace(/\*\*/g, "^")
-            // Handle common function name aliases
-            .replace(/\bln\b/g, "log")
-            .replace(/\blog10\b/g, "log10")
-            // Convert trig functions to use radians (expr-eval uses radians)
-            // sin(x) -> sin(x * PI / 180) for degree input
-            .replace(/\bsin\s*\(\s*([^)]+)\s*\)/gi, "sin(($1) * PI / 180)")
-            .replace(/\bcos\s*\(\s*([^)]+)\s*\)/gi, "cos(($1) * PI / 180)")
-            .replace(/\btan\s*\(\s*([^)]+)\s*\)/gi, "tan(($1) * PI / 180)");
-
-        // Create parser
-        const parser = new Parser();
-
-        // Parse and evaluate safely (no code execution possible)
-        const parsedExpr = parser.parse(normalized);
-        const result = parsedExpr.evaluate({
-            PI: Math.PI,
-            E: Math.E,
-            pi: Math.PI,
-            e: Math.E
-        });
-
-        if (typeof result !== "number" || !isFinite(result)) {
-            throw new Error("Calculation resulted in invalid number");
+        const context: EvaluationContext = {
+            variables: new Map(),
+            angleMode: args.angle_mode === "radians" ? "radians" : "degrees",
+        };
+        const variable = typeof args.variable === "string" && args.variable.trim() ? args.variable.trim() : undefined;
+
+        const steps = parseProgram(expression).map((statement) => runStatement(statement, context, variable));
+        const last = steps[steps.length - 1];
+        if (!last) throw new Error("Empty expression provided");
+
+        const variables = context.variables.size > 0
+            ? { variables: Object.fromEntries([...context.variables].map(([name, value]) => [name, formatQuantity(value)])) }
+            : {};
+        const trace = steps.map((step) => step.text);
+
+        if (last.solution) {
+            const { variable: unknown, values, method, partial } = last.solution;
+            return {
+                success: true,
+                result: {
+                    expression: args.expression,
+                    result: values.map((value) => `${unknown} = ${formatScalar(value)}`).join(" or "),
+                    numericValue: values[0] === undefined ? null : numeric(values[0]),
+                    solutions: values.map((value) => ({
+                        variable: unknown,
+                        value: formatScalar(value),
+                        numericValue: numeric(value),
+                        ...exactForm(value),
+                    })),
+                    method,
+                    ...(partial && { note: `Showing the ${values.length} solutions closest to 0; there are more` }),
+                    ...variables,
+                    steps: trace,
+                }
+            };
         }
 
-        // Format result nicely
-        const formatted = Number.isInteger(result)
-            ? result.toString()
-            : result.toFixed(10).replace(/\.?0+$/, "");
+        const value = last.value as Quantity;
+        const unit = Object.keys(value.units).length > 0 ? { unit: formatUnits(value.units) } : {};
 
         return {
             success: true,
             result: {
                 expression: args.expression,
-                result: formatted,
-                numericValue: result
+                result: formatQuantity(value),
+                numericValue: numeric(value.value),
+                ...unit,
+                ...exactForm(value.value),
+                ...variables,
+                steps: trace,
             }
         };
     } catch (error) {
@@ -85,5 +169,9 @@ export const handler = async (args: Record<string, unknown>): Promise<ToolExecut
     }
 };
 
-const calculateTool: ToolModule = { declaration, handler };
+const calculateTool: ToolModule = {
+    declaration,
+    handler,
+    metadata: { category: "math", cost: "low", sideEffects: false }
+};
 export default calculateTool;
@@ -0,0 +1,222 @@
+/**
+ * Regex Runner
+ *
+ * Runs a JavaScript regular expression against sample inputs in a worker
+ * thread, so a pattern that backtracks catastrophically ((a+)+$ on a long
+ * run of a's) is terminated at the time limit instead of blocking the
+ * server. The worker's heap is capped and every string it returns is
+ * clipped, so a replacement that multiplies the input cannot flood the
+ * server or the model. The worker source is inlined (as for the token
+ * worker) so it survives bundling.
+ */
+
+import { Worker } from "worker_threads";
+
+/** Strings longer than the limits end with this */
+export const CLIPPED = "…";
+
+export interface RegexMatch {
+    match: string;
+    index: number;
+    /** Numbered groups from 1; null when a group did not participate */
+    groups: Array<string | null>;
+    namedGroups?: Record<string, string | null>;
+}
+
+export interface RegexInputResult {
+    /** The input, clipped like every other returned string */
+    input: string;
+    matched: boolean;
+    matches: RegexMatch[];
+    /** Matches were left out: more than the limit, or the result size limit was reached */
+    truncated?: boolean;
+    /** Input after replacement, when a replacement was given */
+    replaced?: string;
+}
+
+export interface RegexRunRequest {
+    pattern: string;
+    flags: string;
+    inputs: string[];
+    replacement?: string | undefined;
+    maxMatches: number;
+    /** Longest string returned (input, match, group or replaced text) */
+    maxStringChars: number;
+    /** Characters returned across all inputs before matches are left out */
+    maxResultChars: number;
+}
+
+export interface RegexRunOptions {
+    timeoutMs: number;
+    /** Heap limit for the worker */
+    memoryMb: number;
+    signal?: AbortSignal | undefined;
+}
+
+interface WorkerMessage {
+    type: "result";
+    result: RegexInputResult;
+}
+
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("worker_threads");
+const { pattern, flags, inputs, replacement, maxMatches, maxStringChars, maxResultChars, clipped } = workerData;
+
+let budget = maxResultChars;
+
+function clip(text) {
+    if (text === undefined || text === null) return null;
+    const limit = Math.min(maxStringChars, Math.max(0, budget));
+    budget -= Math.min(text.length, limit);
+    return text.length > limit ? text.slice(0, limit) + clipped : text;
+}
+
+function toMatch(m) {
+    const named = m.groups ? Object.fromEntries(Object.entries(m.groups).map(([k, v]) => [k, clip(v)])) : undefined;
+    return {
+        match: clip(m[0]),
+        index: m.index,
+        groups: m.slice(1).map(clip),
+        ...(named && { namedGroups: named }),
+    };
+}
+
+function unicodeAware() {
+    return flags.includes("u") || flags.includes("v");
+}
+
+function advance(regex, input, m) {
+    if (m[0] !== "") return;
+    const code = input.codePointAt(regex.lastIndex);
+    regex.lastIndex += unicodeAware() && code !== undefined && code > 0xffff ? 2 : 1;
+}
+
+// The replacement for one match, with $$ $& $\` $' $n $nn $<name> as in String.prototype.replace
+function expand(m, input) {
+    return replacement.replace(/\\$(\\$|&|\`|'|<([^>]*)>|(\\d{1,2}))/g, (token, kind, name, digits) => {
+        if (kind === "$") return "$";
+        if (kind === "&") return m[0];
+        if (kind === "\`") return input.slice(0, m.index);
+        if (kind === "'") return input.slice(m.index + m[0].length);
+        if (name !== undefined) return m.groups ? m.groups[name] ?? "" : token;
+        const n = Number(digits);
+        if (n >= 1 && n < m.length) return m[n] ?? "";
+        // $nn with fewer groups reads as $n followed by a digit
+        const single = Number(digits[0]);
+        return digits.length === 2 && single >= 1 && single < m.length ? (m[single] ?? "") + digits[1] : token;
+    });
+}
+
+// Replaced text, built only until it passes the string limit
+function replaceClipped(input) {
+    const regex = new RegExp(pattern, flags);
+    let output = "";
+    let last = 0;
+    let m;
+    while ((m = regex.exec(input)) !== null) {
+        output += input.slice(last, m.index) + expand(m, input);
+        last = m.index + m[0].length;
+        if (output.length > maxStringChars || !regex.global) break;
+        advance(regex, input, m);
+    }
+    if (output.length <= maxStringChars) output += input.slice(last);
+    return clip(output);
+}
+
+for (const input of inputs) {
+    const regex = new RegExp(pattern, flags);
+    const matches = [];
+    let truncated = false;
+    if (regex.global || regex.sticky) {
+        let m;
+        while ((m = regex.exec(input)) !== null) {
+            if (matches.length === maxMatches || budget <= 0) { truncated = true; break; }
+            matches.push(toMatch(m));
+            if (!regex.global) break;
+            advance(regex, input, m);
+        }
+    } else {
+        const m = regex.exec(input);
+        if (m && budget > 0) matches.push(toMatch(m));
+        else if (m) truncated = true;
+    }
+    const result = { input: clip(input), matched: matches.length > 0 || truncated, matches };
+    if (truncated) result.truncated = true;
+    if (typeof replacement === "string") result.replaced = replaceClipped(input);
+    parentPort.postMessage({ type: "result", result });
+}
+`;
+
+const VALID_FLAGS = /^[dgimsuvy]*$/;
+
+/**
+ * Compile once on this thread so syntax errors come back without a worker
+ */
+export function compileRegex(pattern: string, flags: string): RegExp {
+    if (!VALID_FLAGS.test(flags) || new Set(flags).size !== flags.length) {
+        throw new Error(`Invalid flags '${flags}': use each of d, g, i, m, s, u, v, y at most once`);
+    }
+    try {
+        return new RegExp(pattern, flags);
+    } catch (error) {
+        throw new Error(error instanceof Error ? error.message : `Invalid regular expression: /${pattern}/`);
+    }
+}
+
+/**
+ * Results per input, in order; rejects when an input exceeds the time limit
+ * (naming the input, since that is the one that backtracks) or on abort
+ */
+export function runRegex(request: RegexRunRequest, options: RegexRunOptions): Promise<RegexInputResult[]> {
+    compileRegex(request.pattern, request.flags);
+    if (request.inputs.length === 0) return Promise.resolve([]);
+
+    return new Promise((resolve, reject) => {
+        const results: RegexInputResult[] = [];
+        const worker = new Worker(WORKER_SOURCE, {
+            eval: true,
+            workerData: { ...request, clipped: CLIPPED },
+            resourceLimits: {
+                maxOldGenerationSizeMb: options.memoryMb,
+                maxYoungGenerationSizeMb: Math.max(1, Math.floor(options.memoryMb / 8)),
+            },
+        });
+        let settled = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+
+        const finish = (error?: Error) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            options.signal?.removeEventListener("abort", onAbort);
+            void worker.terminate();
+            if (error) reject(error);
+            else resolve(results);
+        };
+        const onAbort = () => finish(new Error("Regex test cancelled"));
+
+        if (options.signal?.aborted) return onAbort();
+        options.signal?.addEventListener("abort", onAbort, { once: true });
+
+        // Worker startup does not count towards the limit
+        worker.on("online", () => {
+            timer = setTimeout(() => {
+                finish(new Error(
+                    `Regex timed out after ${options.timeoutMs}ms on input ${results.length + 1} `
+                    + "(likely catastrophic backtracking; avoid nested quantifiers such as (a+)+ or overlapping alternatives such as (a|a)*)"
+                ));
+            }, options.timeoutMs);
+        });
+
+        worker.on("message", (message: WorkerMessage) => {
+            results.push(message.result);
+            if (results.length === request.inputs.length) finish();
+        });
+        worker.on("error", (error: Error & { code?: string }) => {
+            finish(error.code === "ERR_WORKER_OUT_OF_MEMORY"
+                ? new Error(`Regex test exceeded the ${options.memoryMb} MB memory limit on input ${results.length + 1}`)
+                : error);
+        });
+        worker.on("exit", () => finish(results.length === request.inputs.length ? undefined : new Error("Regex worker stopped unexpectedly")));
+    });
+}
@@ -0,0 +1,269 @@
+/**
+ * JavaScript Sandbox
+ *
+ * Runs model-written JavaScript in a fresh VM context inside a separate
+ * Node process. The context holds only the language built-ins plus a
+ * console whose output is relayed line by line; there is no require,
+ * process, fetch, timers, eval or import().
+ *
+ * The VM context alone is not a security boundary, so the process is the
+ * one that counts: it runs under Node's permission model with no
+ * filesystem, child process or worker grants, cannot compile code from
+ * strings in its own realm (which closes the usual
+ * `x.constructor.constructor("return process")` escape through a leaked
+ * host object), gets an empty environment, and is killed at the time limit
+ * or when its heap exceeds the memory limit. Network access is not covered
+ * by the permission model on Node 20, which is why run_code still asks the
+ * user before every call.
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from "child_process";
+import type { ToolOutputListener } from "../types";
+
+export interface SandboxOptions {
+    /** Wall-clock limit once the process is up; the snippet is synchronous, so this bounds CPU time */
+    timeoutMs: number;
+    /** Heap limit for the process */
+    memoryMb: number;
+    /** Output kept (and streamed) before the rest is dropped */
+    maxOutputChars: number;
+    signal?: AbortSignal | undefined;
+    onOutput?: ToolOutputListener | undefined;
+}
+
+export interface SandboxResult {
+    ok: boolean;
+    /** Completion value of the script (its last expression), awaited if a promise */
+    value?: string;
+    /** typeof the value, or "array"/"null" */
+    valueType?: string;
+    /** Uncaught error or the limit that stopped the run */
+    error?: string;
+    output: string;
+    outputTruncated: boolean;
+    durationMs: number;
+}
+
+export const SANDBOX_FILENAME = "snippet.js";
+
+type ChildMessage = { kind: "ready" | "stdout" | "stderr" | "result" | "error"; text: string; type?: string };
+
+/**
+ * Compiled inside the context: installs the console and returns finish/fail,
+ * which format everything to strings before calling the process's `send`.
+ * importError makes the error a blocked import() rejects with, so that it,
+ * too, belongs to the context rather than the host.
+ */
+const PRELUDE = `(function (send) {
+    "use strict";
+    function replacer() {
+        const seen = new WeakSet();
+        return function (key, value) {
+            if (typeof value === "bigint") return value.toString() + "n";
+            if (typeof value === "function") return "[Function " + (value.name || "anonymous") + "]";
+            if (typeof value === "symbol") return value.toString();
+            if (typeof value === "object" && value !== null) {
+                if (seen.has(value)) return "[Circular]";
+                seen.add(value);
+                if (value instanceof Map) return { "[Map]": Array.from(value) };
+                if (value instanceof Set) return { "[Set]": Array.from(value) };
+            }
+            return value;
+        };
+    }
+    function format(value) {
+        if (typeof value === "string") return value;
+        if (value === undefined) return "undefined";
+        if (typeof value === "bigint") return value.toString() + "n";
+        if (typeof value === "symbol") return value.toString();
+        if (typeof value === "function") return "[Function " + (value.name || "anonymous") + "]";
+        if (value instanceof Error) return value.stack || value.name + ": " + value.message;
+        try {
+            const json = JSON.stringify(value, replacer());
+            return json === undefined ? String(value) : json;
+        } catch (e) {
+            return String(value);
+        }
+    }
+    function typeOf(value) {
+        if (value === null) return "null";
+        return Array.isArray(value) ? "array" : typeof value;
+    }
+    function describeError(error) {
+        if (!(error instanceof Error)) return "Uncaught " + format(error);
+        const frame = /${SANDBOX_FILENAME.replace(".", "\\.")}:(\\d+)/.exec(String(error.stack));
+        return error.name + ": " + error.message + (frame ? " (line " + frame[1] + ")" : "");
+    }
+    function writer(stream) {
+        return function () {
+            send(stream, Array.prototype.map.call(arguments, format).join(" ") + "\\n");
+        };
+    }
+    globalThis.console = {
+        log: writer("stdout"),
+        info: writer("stdout"),
+        debug: writer("stdout"),
+        warn: writer("stderr"),
+        error: writer("stderr"),
+    };
+    return {
+        finish: function (value) {
+            Promise.resolve(value).then(
+                function (result) { send("result", format(result), typeOf(result)); },
+                function (error) { send("error", describeError(error)); }
+            );
+        },
+        fail: function (error) {
+            send("error", describeError(error));
+        },
+        importError: function () {
+            return new Error("import() is not available in the sandbox");
+        },
+    };
+})`;
+
+const CHILD_SOURCE = `
+"use strict";
+const vm = require("vm");
+
+// Host-side errors (a huge string, a stack overflow) must never reach the snippet
+function send(kind, text, type) {
+    try {
+        process.stdout.write(JSON.stringify({
+            kind: String(kind),
+            text: typeof text === "string" ? text : "[unprintable]",
+            ...(typeof type === "string" && { type }),
+        }) + "\\n");
+    } catch {}
+}
+
+function run({ code, prelude, filename }) {
+    const context = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } });
+    const api = new vm.Script(prelude).runInContext(context)(send);
+
+    let script;
+    try {
+        script = new vm.Script(code, { filename, importModuleDynamically: () => { throw api.importError(); } });
+    } catch (error) {
+        const line = /:(\\d+)\\n/.exec(String(error.stack));
+        return send("error", error.name + ": " + error.message + (line ? " (line " + line[1] + ")" : ""));
+    }
+
+    send("ready");
+    let value;
+    try {
+        value = script.runInContext(context);
+    } catch (error) {
+        return api.fail(error);
+    }
+    api.finish(value);
+}
+
+let input = "";
+process.stdin.setEncoding("utf8");
+process.stdin.on("data", (chunk) => { input += chunk; });
+process.stdin.on("end", () => run(JSON.parse(input)));
+`;
+
+/** Node 20 only knows the experimental spelling of the permission flag */
+const PERMISSION_FLAG = process.allowedNodeEnvironmentFlags.has("--permission")
+    ? "--permission"
+    : "--experimental-permission";
+
+/**
+ * Run `code` and collect its output and completion value. Never rejects:
+ * errors, limits and cancellation come back as `ok: false`.
+ */
+export function runSandboxed(code: string, options: SandboxOptions): Promise<SandboxResult> {
+    return new Promise((resolve) => {
+        const started = Date.now();
+        let output = "";
+        let outputTruncated = false;
+        let settled = false;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let pending = "";
+        let diagnostics = "";
+
+        const child: ChildProcessWithoutNullStreams = spawn(process.execPath, [
+            PERMISSION_FLAG,
+            "--disallow-code-generation-from-strings",
+            // Required for the importModuleDynamically hook that rejects import()
+            "--experimental-vm-modules",
+            "--no-warnings",
+            `--max-old-space-size=${options.memoryMb}`,
+            "-e",
+            CHILD_SOURCE,
+        ], {
+            // Nothing from the server's environment (keys, tokens) is passed on
+            env: { NODE_ENV: "production" },
+            stdio: ["pipe", "pipe", "pipe"],
+        });
+
+        const finish = (result: Omit<SandboxResult, "output" | "outputTruncated" | "durationMs">) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            options.signal?.removeEventListener("abort", onAbort);
+            child.kill("SIGKILL");
+            resolve({ ...result, output, outputTruncated, durationMs: Date.now() - started });
+        };
+        const onAbort = () => finish({ ok: false, error: "Run cancelled" });
+
+        if (options.signal?.aborted) return onAbort();
+        options.signal?.addEventListener("abort", onAbort, { once: true });
+
+        const handle = (message: ChildMessage) => {
+            switch (message.kind) {
+                case "ready":
+                    // The limit starts once the process is up and the snippet compiled
+                    timer = setTimeout(() => {
+                        finish({ ok: false, error: `Code ran longer than ${options.timeoutMs}ms and was stopped` });
+                    }, options.timeoutMs);
+                    return;
+                case "stdout":
+                case "stderr": {
+                    if (outputTruncated) return;
+                    const room = options.maxOutputChars - output.length;
+                    const text = message.text.length > room ? message.text.slice(0, room) : message.text;
+                    outputTruncated = text.length < message.text.length;
+                    output += text;
+                    if (text) options.onOutput?.({ stream: message.kind, text });
+                    return;
+                }
+                case "result":
+                    return finish({ ok: true, value: message.text, ...(message.type && { valueType: message.type }) });
+                case "error":
+                    return finish({ ok: false, error: message.text });
+            }
+        };
+
+        child.stdout.setEncoding("utf8");
+        child.stdout.on("data", (chunk: string) => {
+            pending += chunk;
+            let newline: number;
+            while (!settled && (newline = pending.indexOf("\n")) !== -1) {
+                const line = pending.slice(0, newline);
+                pending = pending.slice(newline + 1);
+                handle(JSON.parse(line) as ChildMessage);
+            }
+        });
+        child.stderr.setEncoding("utf8");
+        child.stderr.on("data", (chunk: string) => {
+            diagnostics = (diagnostics + chunk).slice(-2000);
+        });
+
+        child.on("error", (error) => finish({ ok: false, error: `Could not start the sandbox: ${error.message}` }));
+        child.on("close", (exitCode, signal) => {
+            if (/heap out of memory|allocation failed/i.test(diagnostics)) {
+                return finish({ ok: false, error: `Code exceeded the ${options.memoryMb} MB memory limit` });
+            }
+            // The event loop emptied with no result: the completion value was a promise nothing resolves
+            if (exitCode === 0) return finish({ ok: false, error: "Code finished without a result (a promise never settled)" });
+            const reason = diagnostics.trim().split("\n").pop() || `exit ${signal ?? exitCode}`;
+            finish({ ok: false, error: `Sandbox stopped unexpectedly (${reason})` });
+        });
+
+        child.stdin.on("error", () => undefined);
+        child.stdin.end(JSON.stringify({ code, prelude: PRELUDE, filename: SANDBOX_FILENAME }));
+    });
+}
@@ -1,15 +1,20 @@
 /**
  * Unit Conversion Tool
- * 
- * Convert between different units of measurement.
+ *
+ * Convert between units of measurement, compound units (km/h, L/100km,
+ * USD/kg) and currencies from the offline rate table.
  */
 
 import { SchemaType, type FunctionDeclaration } from "@google/generative-ai";
 import type { ToolModule, ToolExecutionResult } from "./types";
+import { categoryOf, UnitCatalog, BUILTIN_UNITS, type UnitConversion } from "./units/catalog";
+import { currencyUnits, getCurrencyRateStore } from "./units/currency";
 
 export const declaration: FunctionDeclaration = {
     name: "convert_units",
-    description: "Convert between units of measurement: length, weight, temperature, volume, area, speed, data sizes, currency (approximate), and more.",
+    description: "Convert between units of measurement: length, area, volume, mass, temperature, time, speed, "
+        + "fuel economy (mpg <-> L/100km), pressure, energy, power, data sizes, compound units like km/h or USD/kg, "
+        + "and currencies (offline rate table; the result says how old the rates are).",
     parameters: {
         type: SchemaType.OBJECT,
         properties: {
@@ -19,11 +24,11 @@ export const declaration: FunctionDeclaration = {
             },
             from_unit: {
                 type: SchemaType.STRING,
-                description: "Source unit (e.g., 'km', 'miles', 'celsius', 'kg', 'GB')"
+                description: "Source unit (e.g., 'km', 'miles', 'celsius', 'kg', 'GB', 'km/h', 'L/100km', 'EUR')"
             },
             to_unit: {
                 type: SchemaType.STRING,
-                description: "Target unit (e.g., 'meters', 'feet', 'fahrenheit', 'lb', 'MB')"
+                description: "Target unit (e.g., 'meters', 'feet', 'fahrenheit', 'lb', 'MB', 'm/s', 'mpg', 'USD')"
             }
         },
         required: ["value", "from_unit", "to_unit"]
@@ -32,118 +37,69 @@ export const declaration: FunctionDeclaration = {
 
 function getTemperatureFormula(from: string, to: string): string {
     const formulas: Record<string, string> = {
-        "cf": "°F = °C × 9/5 + 32",
-        "fc": "°C = (°F - 32) × 5/9",
-        "ck": "K = °C + 273.15",
-        "kc": "°C = K - 273.15",
-        "fk": "K = (°F - 32) × 5/9 + 273.15",
-        "kf": "°F = (K - 273.15) × 9/5 + 32",
+        "°C°F": "°F = °C × 9/5 + 32",
+        "°F°C": "°C = (°F - 32) × 5/9",
+        "°CK": "K = °C + 273.15",
+        "K°C": "°C = K - 273.15",
+        "°FK": "K = (°F - 32) × 5/9 + 273.15",
+        "K°F": "°F = (K - 273.15) × 9/5 + 32",
     };
     return formulas[from + to] || "";
 }
 
+function round(value: number): number {
+    return Number(value.toPrecision(10));
+}
+
+function convertValue(value: number, { from, to, relation }: UnitConversion): number {
+    if (relation === "reciprocal") {
+        if (value === 0) throw new Error(`Cannot convert 0 ${from.text} to ${to.text}; the units are reciprocal`);
+        return 1 / (value * from.factor * to.factor);
+    }
+    const base = (value + from.offset) * from.factor;
+    return base / to.factor - to.offset;
+}
+
 export const handler = async (args: Record<string, unknown>): Promise<ToolExecutionResult> => {
     try {
         const value = Number(args.value);
-        const from = String(args.from_unit).toLowerCase();
-        const to = String(args.to_unit).toLowerCase();
-
-        // Conversion factors to base units
-        const conversions: Record<string, Record<string, number>> = {
-            // Length (base: meters)
-            length: {
-                m: 1, meter: 1, meters: 1,
-                km: 1000, kilometer: 1000, kilometers: 1000,
-                cm: 0.01, centimeter: 0.01, centimeters: 0.01,
-                mm: 0.001, millimeter: 0.001, millimeters: 0.001,
-                mi: 1609.344, mile: 1609.344, miles: 1609.344,
-                ft: 0.3048, foot: 0.3048, feet: 0.3048,
-                in: 0.0254, inch: 0.0254, inches: 0.0254,
-                yd: 0.9144, yard: 0.9144, yards: 0.9144,
-            },
-            // Weight (base: grams)
-            weight: {
-                g: 1, gram: 1, grams: 1,
-                kg: 1000, kilogram: 1000, kilograms: 1000,
-                mg: 0.001, milligram: 0.001, milligrams: 0.001,
-                lb: 453.592, pound: 453.592, pounds: 453.592,
-                oz: 28.3495, ounce: 28.3495, ounces: 28.3495,
-                ton: 907185, tons: 907185,
-            },
-            // Data (base: bytes)
-            data: {
-                b: 1, byte: 1, bytes: 1,
-                kb: 1024, kilobyte: 1024, kilobytes: 1024,
-                mb: 1048576, megabyte: 1048576, megabytes: 1048576,
-                gb: 1073741824, gigabyte: 1073741824, gigabytes: 1073741824,
-                tb: 1099511627776, terabyte: 1099511627776, terabytes: 1099511627776,
-            }
+        const fromUnit = String(args.from_unit);
+        const toUnit = String(args.to_unit);
+
+        const rates = await getCurrencyRateStore().get();
+        const catalog = new UnitCatalog([...BUILTIN_UNITS, ...currencyUnits(rates)]);
+        const conversion = catalog.resolve(fromUnit, toUnit);
+        const result = convertValue(value, conversion);
+        if (!Number.isFinite(result)) throw new Error("Conversion resulted in invalid number");
+
+        const output: Record<string, unknown> = {
+            from: { value, unit: conversion.from.text },
+            to: { value: round(result), unit: conversion.to.text },
+            category: conversion.relation === "reciprocal" ? "fuel economy" : categoryOf(conversion.from),
         };
 
-        // Temperature is special
-        if (["c", "f", "k", "celsius", "fahrenheit", "kelvin"].includes(from) ||
-            ["c", "f", "k", "celsius", "fahrenheit", "kelvin"].includes(to)) {
-            const fromNorm = from.charAt(0);
-            const toNorm = to.charAt(0);
-
-            // Convert to Celsius first
-            let celsius: number;
-            if (fromNorm === "c") celsius = value;
-            else if (fromNorm === "f") celsius = (value - 32) * 5 / 9;
-            else if (fromNorm === "k") celsius = value - 273.15;
-            else throw new Error(`Unknown temperature unit: ${from}`);
-
-            // Convert from Celsius to target
-            let result: number;
-            if (toNorm === "c") result = celsius;
-            else if (toNorm === "f") result = celsius * 9 / 5 + 32;
-            else if (toNorm === "k") result = celsius + 273.15;
-            else throw new Error(`Unknown temperature unit: ${to}`);
-
-            return {
-                success: true,
-                result: {
-                    from: { value, unit: from },
-                    to: { value: Math.round(result * 1000) / 1000, unit: to },
-                    formula: getTemperatureFormula(fromNorm, toNorm)
-                }
-            };
+        const [fromPart] = conversion.from.parts;
+        const [toPart] = conversion.to.parts;
+        if (conversion.from.dimension.temperature && fromPart && toPart) {
+            output.formula = getTemperatureFormula(fromPart.unit.symbol, toPart.unit.symbol);
         }
-
-        // Find the conversion category
-        let category: Record<string, number> | null = null;
-        for (const cat of Object.values(conversions)) {
-            if (cat[from] !== undefined && cat[to] !== undefined) {
-                category = cat;
-                break;
-            }
+        if (conversion.relation === "reciprocal") {
+            output.formula = `${conversion.to.text} = ${round(1 / (conversion.from.factor * conversion.to.factor))} / ${conversion.from.text}`;
         }
-
-        if (!category) {
-            throw new Error(`Cannot convert between ${from} and ${to}`);
+        if (conversion.from.dimension.currency) {
+            output.exchangeRate = round(convertValue(1, conversion));
+            output.rates = { base: rates.base, asOf: rates.asOf, source: rates.source };
         }
 
-        const fromFactor = category[from];
-        const toFactor = category[to];
-
-        if (fromFactor === undefined || toFactor === undefined) {
-            throw new Error(`Cannot convert between ${from} and ${to}`);
-        }
-
-        const baseValue = value * fromFactor;
-        const result = baseValue / toFactor;
-
-        return {
-            success: true,
-            result: {
-                from: { value, unit: from },
-                to: { value: Math.round(result * 1000000) / 1000000, unit: to }
-            }
-        };
+        return { success: true, result: output };
     } catch (error) {
         return { success: false, result: null, error: error instanceof Error ? error.message : "Conversion failed" };
     }
 };
 
-const convertTool: ToolModule = { declaration, handler };
+const convertTool: ToolModule = {
+    declaration,
+    handler,
+    metadata: { category: "math", cost: "low", sideEffects: false }
+};
 export default convertTool;
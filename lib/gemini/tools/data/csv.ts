@@ -0,0 +1,90 @@
+/**
+ * CSV Parsing
+ *
+ * RFC 4180 style CSV reader and writer shared by the data tools: quoted
+ * fields may contain delimiters, doubled quotes and newlines. The delimiter
+ * (comma, semicolon or tab) is detected from the first line unless given.
+ */
+
+const DELIMITERS = [",", ";", "\t"] as const;
+
+export type CsvDelimiter = (typeof DELIMITERS)[number];
+
+/**
+ * Most frequent delimiter outside quotes on the first line (comma by default)
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+    const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+    const unquoted = firstLine.replace(/"[^"]*"/g, "");
+    let best: CsvDelimiter = ",";
+    let bestCount = 0;
+    for (const delimiter of DELIMITERS) {
+        const count = unquoted.split(delimiter).length - 1;
+        if (count > bestCount) {
+            best = delimiter;
+            bestCount = count;
+        }
+    }
+    return best;
+}
+
+/**
+ * Split CSV text into rows of raw string cells; blank lines are skipped
+ */
+export function parseCsv(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = "";
+    let quoted = false;
+
+    const endCell = () => {
+        row.push(cell);
+        cell = "";
+    };
+    const endRow = () => {
+        endCell();
+        if (row.length > 1 || row[0]?.trim()) rows.push(row);
+        row = [];
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (quoted) {
+            if (char === "\"" && text[i + 1] === "\"") {
+                cell += "\"";
+                i++;
+            } else if (char === "\"") {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === "\"" && !cell.trim()) {
+            quoted = true;
+            cell = "";
+        } else if (char === delimiter) {
+            endCell();
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++;
+            endRow();
+        } else {
+            cell += char;
+        }
+    }
+
+    if (quoted) throw new Error("Unterminated quoted field in CSV");
+    endRow();
+    return rows;
+}
+
+/**
+ * Join rows into CSV, quoting cells that hold the delimiter, quotes,
+ * line breaks or surrounding spaces
+ */
+export function stringifyCsv(rows: string[][], delimiter: string = ","): string {
+    const needsQuotes = (cell: string) =>
+        cell.includes(delimiter) || /["\r\n]/.test(cell) || cell !== cell.trim();
+    return rows
+        .map((row) => row.map((cell) => (needsQuotes(cell) ? `"${cell.replace(/"/g, "\"\"")}"` : cell)).join(delimiter))
+        .join("\n");
+}
@@ -0,0 +1,467 @@
+/**
+ * YAML Reading and Writing
+ *
+ * The JSON-compatible subset of YAML used in config files and chat: block
+ * mappings and sequences, flow collections ([a, b], {a: 1}), plain and
+ * quoted scalars, literal (|) and folded (>) block scalars and comments.
+ * Anchors, aliases, tags and multi-document streams are rejected.
+ */
+
+type YamlValue = null | boolean | number | string | YamlValue[] | { [key: string]: YamlValue };
+
+const INDICATORS = "-?:,[]{}#&*!|>'\"%@`";
+
+// ============================================================================
+// Scalars
+// ============================================================================
+
+/**
+ * Type of an unquoted scalar: null, boolean, number or string
+ */
+function resolvePlainScalar(text: string): YamlValue {
+    if (/^(?:~|null|Null|NULL|)$/.test(text)) return null;
+    if (/^(?:true|True|TRUE)$/.test(text)) return true;
+    if (/^(?:false|False|FALSE)$/.test(text)) return false;
+    if (/^[-+]?\d+$/.test(text)) {
+        const n = Number(text);
+        return Number.isSafeInteger(n) ? n : text;
+    }
+    if (/^0x[0-9a-fA-F]+$/.test(text)) return parseInt(text.slice(2), 16);
+    if (/^0o[0-7]+$/.test(text)) return parseInt(text.slice(2), 8);
+    if (/^[-+]?(?:\d+\.\d*|\.\d+|\d+)(?:[eE][-+]?\d+)?$/.test(text)) return Number(text);
+    return text;
+}
+
+class YamlError extends Error {
+    constructor(message: string, line?: number) {
+        super(line === undefined ? `Invalid YAML: ${message}` : `Invalid YAML (line ${line}): ${message}`);
+        this.name = "YamlError";
+    }
+}
+
+// ============================================================================
+// Flow Collections and Quoted Scalars
+// ============================================================================
+
+class FlowReader {
+    pos = 0;
+
+    constructor(private readonly text: string, private readonly line: number) { }
+
+    fail(message: string): never {
+        throw new YamlError(message, this.line);
+    }
+
+    skipSpace(): void {
+        while (this.pos < this.text.length && /\s/.test(this.text[this.pos] ?? "")) this.pos++;
+    }
+
+    get done(): boolean {
+        return this.pos >= this.text.length;
+    }
+
+    rest(): string {
+        return this.text.slice(this.pos);
+    }
+
+    readValue(): YamlValue {
+        this.skipSpace();
+        const char = this.text[this.pos];
+        if (char === "[") return this.readSequence();
+        if (char === "{") return this.readMapping();
+        if (char === "\"" || char === "'") return this.readQuoted();
+        return resolvePlainScalar(this.readPlain());
+    }
+
+    readPlain(): string {
+        const start = this.pos;
+        while (!this.done) {
+            const char = this.text[this.pos] ?? "";
+            if (",]}".includes(char)) break;
+            if (char === ":" && /[\s,\]}]|^$/.test(this.text[this.pos + 1] ?? "")) break;
+            if (char === "#" && /\s/.test(this.text[this.pos - 1] ?? "")) break;
+            this.pos++;
+        }
+        return this.text.slice(start, this.pos).trim();
+    }
+
+    readQuoted(): string {
+        const quote = this.text[this.pos];
+        this.pos++;
+        let result = "";
+        while (!this.done) {
+            const char = this.text[this.pos] ?? "";
+            if (quote === "'" && char === "'") {
+                if (this.text[this.pos + 1] === "'") {
+                    result += "'";
+                    this.pos += 2;
+                    continue;
+                }
+                this.pos++;
+                return result;
+            }
+            if (quote === "\"" && char === "\"") {
+                this.pos++;
+                try {
+                    return JSON.parse(`"${result}"`) as string;
+                } catch {
+                    this.fail("invalid escape in double-quoted string");
+                }
+            }
+            if (quote === "\"" && char === "\\") {
+                result += char + (this.text[this.pos + 1] ?? "");
+                this.pos += 2;
+                continue;
+            }
+            result += quote === "\"" && char === "\t" ? "\\t" : char;
+            this.pos++;
+        }
+        this.fail("unterminated quoted string");
+    }
+
+    private readSequence(): YamlValue[] {
+        this.pos++;
+        const items: YamlValue[] = [];
+        for (;;) {
+            this.skipSpace();
+            if (this.text[this.pos] === "]") {
+                this.pos++;
+                return items;
+            }
+            items.push(this.readValue());
+            this.skipSpace();
+            const char = this.text[this.pos];
+            if (char === ",") this.pos++;
+            else if (char !== "]") this.fail("expected ',' or ']' in flow sequence");
+        }
+    }
+
+    private readMapping(): { [key: string]: YamlValue } {
+        this.pos++;
+        const result: { [key: string]: YamlValue } = {};
+        for (;;) {
+            this.skipSpace();
+            if (this.text[this.pos] === "}") {
+                this.pos++;
+                return result;
+            }
+            const char = this.text[this.pos];
+            const key = char === "\"" || char === "'" ? this.readQuoted() : this.readPlain();
+            this.skipSpace();
+            let value: YamlValue = null;
+            if (this.text[this.pos] === ":") {
+                this.pos++;
+                value = this.readValue();
+            }
+            result[key] = value;
+            this.skipSpace();
+            const next = this.text[this.pos];
+            if (next === ",") this.pos++;
+            else if (next !== "}") this.fail("expected ',' or '}' in flow mapping");
+        }
+    }
+}
+
+// ============================================================================
+// Block Structure
+// ============================================================================
+
+interface Line {
+    indent: number;
+    text: string;
+    number: number;
+}
+
+function indentOf(raw: string): number {
+    return raw.length - raw.trimStart().length;
+}
+
+function isSignificant(raw: string): boolean {
+    const trimmed = raw.trim();
+    return trimmed !== "" && !trimmed.startsWith("#");
+}
+
+/**
+ * Position of the ':' separating a block mapping key, or -1
+ */
+function mappingColon(text: string): number {
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            if (char === quote) quote = null;
+            continue;
+        }
+        if ((char === "\"" || char === "'") && i === 0) quote = char;
+        else if (char === "#" && i > 0 && /\s/.test(text[i - 1] ?? "")) return -1;
+        else if ((char === "[" || char === "{") && i === 0) return -1;
+        else if (char === ":" && (i + 1 === text.length || /\s/.test(text[i + 1] ?? ""))) return i;
+    }
+    return -1;
+}
+
+function isSequenceItem(text: string): boolean {
+    return text === "-" || text.startsWith("- ");
+}
+
+class BlockReader {
+    private readonly lines: string[];
+    private index = 0;
+
+    constructor(text: string) {
+        this.lines = text.replace(/\r\n?/g, "\n").split("\n");
+        if (this.lines.some((raw) => /^\t/.test(raw) && isSignificant(raw))) {
+            throw new YamlError("tabs are not allowed for indentation");
+        }
+    }
+
+    read(): YamlValue {
+        this.skipDirectives();
+        const first = this.peek();
+        if (!first) return null;
+        const value = this.readBlock(first.indent);
+
+        const extra = this.peek();
+        if (extra && extra.text !== "...") {
+            if (extra.text === "---") throw new YamlError("multiple documents are not supported", extra.number);
+            throw new YamlError("unexpected indentation", extra.number);
+        }
+        return value;
+    }
+
+    private skipDirectives(): void {
+        const first = this.peek();
+        if (first?.text.startsWith("%")) throw new YamlError("directives are not supported", first.number);
+        if (first?.text === "---") this.index++;
+        else if (first?.text.startsWith("--- ")) this.lines[this.index] = first.text.slice(4);
+    }
+
+    /**
+     * Next non-blank, non-comment line without consuming it
+     */
+    private peek(): Line | null {
+        while (this.index < this.lines.length && !isSignificant(this.lines[this.index] ?? "")) this.index++;
+        const raw = this.lines[this.index];
+        if (raw === undefined) return null;
+        return { indent: indentOf(raw), text: raw.trim(), number: this.index + 1 };
+    }
+
+    private readBlock(indent: number): YamlValue {
+        const line = this.peek();
+        if (!line) return null;
+        if (isSequenceItem(line.text)) return this.readSequence(indent);
+        if (mappingColon(line.text) >= 0) return this.readMapping(indent);
+
+        this.index++;
+        return this.readInline(line.text, indent, line.number);
+    }
+
+    private readSequence(indent: number): YamlValue[] {
+        const items: YamlValue[] = [];
+        for (let line = this.peek(); line && line.indent === indent && isSequenceItem(line.text); line = this.peek()) {
+            const content = line.text.slice(1).trimStart();
+            const column = indent + (line.text.length - content.length);
+
+            if (!content || content.startsWith("#")) {
+                this.index++;
+                items.push(this.readNested(indent));
+            } else if (isSequenceItem(content) || mappingColon(content) >= 0) {
+                // "- key: value" or "- - item": the rest of the line opens a nested block
+                this.lines[this.index] = " ".repeat(column) + content;
+                items.push(this.readBlock(column));
+            } else {
+                this.index++;
+                items.push(this.readInline(content, indent, line.number));
+            }
+        }
+        return items;
+    }
+
+    private readMapping(indent: number): { [key: string]: YamlValue } {
+        const result: { [key: string]: YamlValue } = {};
+        for (let line = this.peek(); line && line.indent === indent && !isSequenceItem(line.text); line = this.peek()) {
+            const colon = mappingColon(line.text);
+            if (colon < 0) throw new YamlError(`expected 'key: value', got '${line.text}'`, line.number);
+
+            const rawKey = line.text.slice(0, colon).trim();
+            const key = /^["']/.test(rawKey) ? new FlowReader(rawKey, line.number).readQuoted() : rawKey;
+            if (Object.prototype.hasOwnProperty.call(result, key)) {
+                throw new YamlError(`duplicate key '${key}'`, line.number);
+            }
+
+            const rest = line.text.slice(colon + 1).trim();
+            this.index++;
+            if (!rest || rest.startsWith("#")) {
+                const next = this.peek();
+                // Sequences may sit at the key's own indentation
+                result[key] = next && next.indent === indent && isSequenceItem(next.text)
+                    ? this.readSequence(indent)
+                    : this.readNested(indent);
+            } else {
+                result[key] = this.readInline(rest, indent, line.number);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Block nested deeper than `indent`, or null when there is none
+     */
+    private readNested(indent: number): YamlValue {
+        const next = this.peek();
+        return next && next.indent > indent ? this.readBlock(next.indent) : null;
+    }
+
+    private readInline(text: string, indent: number, lineNumber: number): YamlValue {
+        if (/^[|>]/.test(text)) return this.readBlockScalar(text, indent, lineNumber);
+        if (/^[&*!]/.test(text)) throw new YamlError("anchors, aliases and tags are not supported", lineNumber);
+
+        if (!/^["'[{]/.test(text)) return resolvePlainScalar(stripComment(text));
+
+        const reader = new FlowReader(text, lineNumber);
+        const value = reader.readValue();
+        reader.skipSpace();
+        if (!reader.done && !reader.rest().startsWith("#")) {
+            throw new YamlError(`unexpected '${reader.rest()}' after value`, lineNumber);
+        }
+        return value;
+    }
+
+    private readBlockScalar(header: string, indent: number, lineNumber: number): string {
+        const match = /^([|>])([-+]?)\s*(?:#.*)?$/.exec(header);
+        if (!match) throw new YamlError(`unsupported block scalar header '${header}'`, lineNumber);
+        const [, style, chomp] = match;
+
+        const body: string[] = [];
+        let blockIndent = -1;
+        while (this.index < this.lines.length) {
+            const raw = this.lines[this.index] ?? "";
+            if (raw.trim() === "") {
+                body.push("");
+                this.index++;
+                continue;
+            }
+            const rawIndent = indentOf(raw);
+            if (rawIndent <= indent) break;
+            if (blockIndent < 0) blockIndent = rawIndent;
+            if (rawIndent < blockIndent) break;
+            body.push(raw.slice(blockIndent));
+            this.index++;
+        }
+
+        // Trailing blank lines belong to the chomping, not the content
+        let trailing = 0;
+        while (body.length && body[body.length - 1] === "") {
+            body.pop();
+            trailing++;
+        }
+
+        if (!body.length) return "";
+        const text = style === "|" ? body.join("\n") : fold(body);
+        if (chomp === "-") return text;
+        if (chomp === "+") return text + "\n".repeat(trailing + 1);
+        return `${text}\n`;
+    }
+}
+
+/**
+ * Folded scalar: line breaks become spaces, blank lines become line breaks
+ */
+function fold(lines: string[]): string {
+    let result = "";
+    lines.forEach((line, i) => {
+        if (i === 0) result = line;
+        else if (line === "") result += "\n";
+        else if (lines[i - 1] === "") result += line;
+        else result += ` ${line}`;
+    });
+    return result;
+}
+
+function stripComment(text: string): string {
+    const match = /\s#/.exec(text);
+    return (match ? text.slice(0, match.index) : text).trim();
+}
+
+/**
+ * Parse a YAML document into JSON-compatible values
+ */
+export function parseYaml(text: string): unknown {
+    return new BlockReader(text).read();
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+function isPlainSafe(text: string): boolean {
+    if (!text || text !== text.trim()) return false;
+    if (resolvePlainScalar(text) !== text) return false;
+    // YAML 1.1 readers treat these as booleans
+    if (/^(?:y|n|yes|no|on|off)$/i.test(text)) return false;
+    if (INDICATORS.includes(text[0] ?? "")) return false;
+    if (/[\u0000-\u001f\u007f]/.test(text)) return false;
+    return !/: |:$| #/.test(text);
+}
+
+function formatScalar(value: unknown): string {
+    if (value === null || value === undefined) return "null";
+    if (typeof value === "boolean") return String(value);
+    if (typeof value === "number") {
+        if (!Number.isFinite(value)) throw new Error("YAML output cannot hold non-finite numbers");
+        return String(value);
+    }
+    const text = String(value);
+    return isPlainSafe(text) ? text : JSON.stringify(text);
+}
+
+function isCollection(value: unknown): value is object {
+    return typeof value === "object" && value !== null;
+}
+
+function isEmptyCollection(value: object): boolean {
+    return Array.isArray(value) ? value.length === 0 : Object.keys(value).length === 0;
+}
+
+/**
+ * "key: value" / "- value" tail: inline scalar, block literal or nested lines
+ */
+function renderChild(prefix: string, value: unknown, indent: number): string[] {
+    const literal = typeof value === "string" && value.includes("\n") && !value.endsWith("\n\n")
+        && !/^\s|[\u0000-\u0009\u000b-\u001f]/.test(value);
+    if (literal) {
+        const chomp = value.endsWith("\n") ? "" : "-";
+        const body = value.endsWith("\n") ? value.slice(0, -1) : value;
+        if (!body.split("\n").some((line) => /\s$/.test(line))) {
+            const pad = " ".repeat(indent + 2);
+            return [`${prefix} |${chomp}`, ...body.split("\n").map((line) => (line ? pad + line : ""))];
+        }
+    }
+    if (!isCollection(value)) return [`${prefix} ${formatScalar(value)}`];
+    if (isEmptyCollection(value)) return [`${prefix} ${Array.isArray(value) ? "[]" : "{}"}`];
+    return [prefix, ...renderBlock(value, indent + 2)];
+}
+
+function renderBlock(value: object, indent: number): string[] {
+    const pad = " ".repeat(indent);
+    if (Array.isArray(value)) {
+        return value.flatMap((item: unknown) => {
+            if (isCollection(item) && !isEmptyCollection(item)) {
+                // First line of the nested block shares the dash: "- key: value"
+                const [first = "", ...rest] = renderBlock(item, indent + 2);
+                return [`${pad}- ${first.trimStart()}`, ...rest];
+            }
+            return renderChild(`${pad}-`, item, indent);
+        });
+    }
+    return Object.entries(value).flatMap(([key, item]) => renderChild(`${pad}${formatScalar(key)}:`, item, indent));
+}
+
+/**
+ * Write JSON-compatible values as block-style YAML
+ */
+export function stringifyYaml(value: unknown): string {
+    if (isCollection(value) && !isEmptyCollection(value)) return `${renderBlock(value, 0).join("\n")}\n`;
+    const [first = "", ...rest] = renderChild("", value, -2);
+    return `${[first.trimStart(), ...rest].join("\n")}\n`;
+}
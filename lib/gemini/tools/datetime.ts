@@ -1,94 +1,411 @@
 /**
  * DateTime Tool
  * 
- * Get current date, time, and timezone information.
+ * Current date and time, plus timezone-aware date arithmetic: adding
+ * durations, differences, business days, timezone conversion, ISO weeks
+ * and recurring schedules. "Now" comes from an injectable clock so results
+ * are deterministic in tests.
  */
 
 import { SchemaType, type FunctionDeclaration } from "@google/generative-ai";
 import type { ToolModule, ToolExecutionResult } from "./types";
+import {
+    addDays,
+    addDuration,
+    addMonths,
+    assertTimeZone,
+    daysBetween,
+    daysInMonth,
+    describeInstant,
+    formatDate,
+    fromWallTime,
+    isoWeek,
+    negateDuration,
+    offsetMinutes,
+    parseDuration,
+    parseInstant,
+    toWallTime,
+    weekdayOf,
+    WEEKDAYS,
+    type WallTime,
+} from "./time/calendar";
+import { describeRecurrence, expandRecurrence, parseRecurrence } from "./time/recurrence";
+
+const DATETIME_CONFIG = {
+    DEFAULT_OCCURRENCES: 5,
+    MAX_OCCURRENCES: 100,
+    /** Largest business-day span counted or added */
+    MAX_BUSINESS_DAYS: 100_000,
+};
 
 export const declaration: FunctionDeclaration = {
     name: "get_current_datetime",
-    description: "Get the current date, time, day of week, or perform date calculations. Use this whenever the user asks about current time, date, or time-related questions.",
+    description: "Get the current date, time, day of week, or perform date calculations: add/subtract durations, the difference between two dates, business days between dates (or N business days from a date), converting a time between timezones, ISO week numbers, and expanding recurring schedules like 'every 2nd Tuesday'. Use this whenever the user asks about current time, date, or time-related questions.",
     parameters: {
         type: SchemaType.OBJECT,
         properties: {
+            operation: {
+                type: SchemaType.STRING,
+                format: "enum",
+                enum: ["now", "add", "subtract", "difference", "business_days", "convert", "week_number", "recurrence"],
+                description: "What to compute (default: now)"
+            },
             timezone: {
                 type: SchemaType.STRING,
-                description: "IANA timezone name, e.g., 'Asia/Manila', 'America/New_York', 'Europe/London'. Default is UTC."
+                description: "IANA timezone name, e.g., 'Asia/Manila', 'America/New_York', 'Europe/London'. Dates without an offset are read in this zone. Default is UTC."
             },
             format: {
                 type: SchemaType.STRING,
-                description: "Output format preference: full, date_only, time_only, iso8601, relative"
+                format: "enum",
+                enum: ["full", "date_only", "time_only", "iso8601"],
+                description: "Output format preference for 'now' (default: full)"
+            },
+            date: {
+                type: SchemaType.STRING,
+                description: "Start date/time: ISO 8601 ('2024-03-15', '2024-03-15T14:30', '2024-03-15T14:30:00Z') or 'now', 'today', 'tomorrow', 'yesterday' (default: now)"
+            },
+            end_date: {
+                type: SchemaType.STRING,
+                description: "End date for difference and business_days; last date for recurrence"
+            },
+            duration: {
+                type: SchemaType.STRING,
+                description: "Duration for add/subtract: ISO 8601 ('P1Y2M3DT4H') or words ('3 days 4 hours', '2 weeks')"
+            },
+            to_timezone: {
+                type: SchemaType.STRING,
+                description: "Target IANA timezone for convert"
+            },
+            rule: {
+                type: SchemaType.STRING,
+                description: "Recurrence rule, e.g. 'every day', 'every other Friday', 'every Monday and Thursday', 'every 2nd Tuesday' (of each month), 'every last Friday', 'every 3 months on the 15th'"
+            },
+            count: {
+                type: SchemaType.INTEGER,
+                description: "Occurrences to list for recurrence (default 5, max 100), or business days to add for business_days without end_date (negative goes back)"
+            },
+            holidays: {
+                type: SchemaType.ARRAY,
+                items: { type: SchemaType.STRING },
+                description: "Dates (YYYY-MM-DD) that are not business days"
             }
         },
         required: []
     }
 };
 
+// ============================================================================
+// Clock
+// ============================================================================
+
+export type Clock = () => Date;
+
+const systemClock: Clock = () => new Date();
+let clock: Clock = systemClock;
+
+/**
+ * Replace the time source (for testing); null restores the system clock
+ */
+export function setClock(next: Clock | null): void {
+    clock = next ?? systemClock;
+}
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+interface OperationInput {
+    args: Record<string, unknown>;
+    timezone: string;
+    now: Date;
+}
+
+type Operation = (input: OperationInput) => Record<string, unknown>;
+
+function stringArg(args: Record<string, unknown>, name: string): string | undefined {
+    const value = args[name];
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function requireArg(args: Record<string, unknown>, name: string, operation: string): string {
+    const value = stringArg(args, name);
+    if (!value) throw new Error(`'${operation}' needs '${name}'`);
+    return value;
+}
+
+function startOf({ args, timezone, now }: OperationInput): Date {
+    return parseInstant(stringArg(args, "date") ?? "now", timezone, now);
+}
+
+function current({ timezone, now, args }: OperationInput): Record<string, unknown> {
+    const format = String(args.format || "full");
+
+    // Create formatter with timezone
+    const options: Intl.DateTimeFormatOptions = {
+        timeZone: timezone,
+        weekday: "long",
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+        second: "2-digit",
+        hour12: true,
+        timeZoneName: "short"
+    };
+
+    const formatter = new Intl.DateTimeFormat("en-US", options);
+    const parts = formatter.formatToParts(now);
+
+    const partsMap: Record<string, string> = {};
+    parts.forEach(p => { partsMap[p.type] = p.value; });
+
+    let result: Record<string, unknown>;
+
+    switch (format) {
+        case "date_only":
+            result = {
+                date: `${partsMap.month} ${partsMap.day}, ${partsMap.year}`,
+                weekday: partsMap.weekday,
+                timezone
+            };
+            break;
+        case "time_only":
+            result = {
+                time: `${partsMap.hour}:${partsMap.minute}:${partsMap.second} ${partsMap.dayPeriod}`,
+                timezone,
+                timeZoneName: partsMap.timeZoneName
+            };
+            break;
+        case "iso8601":
+            result = {
+                iso: now.toISOString(),
+                timezone
+            };
+            break;
+        default:
+            result = {
+                datetime: formatter.format(now),
+                date: `${partsMap.month} ${partsMap.day}, ${partsMap.year}`,
+                time: `${partsMap.hour}:${partsMap.minute}:${partsMap.second} ${partsMap.dayPeriod}`,
+                weekday: partsMap.weekday,
+                timezone,
+                timeZoneName: partsMap.timeZoneName,
+                unixTimestamp: Math.floor(now.getTime() / 1000)
+            };
+    }
+
+    return result;
+}
+
+function shift(sign: 1 | -1): Operation {
+    return (input) => {
+        const text = requireArg(input.args, "duration", sign === 1 ? "add" : "subtract");
+        const duration = parseDuration(text);
+        const start = startOf(input);
+        const end = addDuration(start, sign === 1 ? duration : negateDuration(duration), input.timezone);
+        return {
+            from: describeInstant(start, input.timezone),
+            duration: text,
+            result: describeInstant(end, input.timezone),
+        };
+    };
+}
+
+/**
+ * Years, months, days, hours, minutes and seconds from start to end (end >= start)
+ */
+function calendarDifference(start: Date, end: Date, timezone: string) {
+    const from = toWallTime(start, timezone);
+    const to = toWallTime(end, timezone);
+
+    let months = (to.year - from.year) * 12 + (to.month - from.month);
+    const monthAnchor = (n: number) => fromWallTime(addMonths(from, n), timezone);
+    while (months > 0 && monthAnchor(months) > end) months--;
+
+    const anchorWall = toWallTime(monthAnchor(months), timezone);
+    let days = daysBetween(anchorWall, to);
+    const dayAnchor = (n: number) => fromWallTime(addDays(anchorWall, n), timezone);
+    while (days > 0 && dayAnchor(days) > end) days--;
+
+    const restSeconds = Math.floor((end.getTime() - dayAnchor(days).getTime()) / 1000);
+    return {
+        years: Math.floor(months / 12),
+        months: months % 12,
+        days,
+        hours: Math.floor(restSeconds / 3600),
+        minutes: Math.floor(restSeconds / 60) % 60,
+        seconds: restSeconds % 60,
+    };
+}
+
+function humanize(parts: Record<string, number>): string {
+    const text = Object.entries(parts)
+        .filter(([, value]) => value !== 0)
+        .map(([unit, value]) => `${value} ${value === 1 ? unit.replace(/s$/, "") : unit}`)
+        .join(", ");
+    return text || "0 seconds";
+}
+
+const difference: Operation = (input) => {
+    const start = startOf(input);
+    const end = parseInstant(requireArg(input.args, "end_date", "difference"), input.timezone, input.now);
+    const forward = end >= start;
+    const ms = end.getTime() - start.getTime();
+    const calendar = forward ? calendarDifference(start, end, input.timezone) : calendarDifference(end, start, input.timezone);
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+
+    return {
+        from: describeInstant(start, input.timezone),
+        to: describeInstant(end, input.timezone),
+        direction: forward ? "future" : "past",
+        calendar,
+        human: `${humanize(calendar)}${forward ? "" : " ago"}`,
+        totalDays: round(ms / 86_400_000),
+        totalWeeks: round(ms / 604_800_000),
+        totalHours: round(ms / 3_600_000),
+        totalMinutes: round(ms / 60_000),
+        totalSeconds: Math.round(ms / 1000),
+    };
+};
+
+type CivilDate = Pick<WallTime, "year" | "month" | "day">;
+
+function parseHolidays(value: unknown): Set<string> {
+    if (value === undefined || value === null) return new Set();
+    if (!Array.isArray(value)) throw new Error("'holidays' must be a list of YYYY-MM-DD dates");
+    return new Set(value.map((day) => {
+        const text = String(day).trim();
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) throw new Error(`Invalid holiday '${text}'; use YYYY-MM-DD`);
+        return text;
+    }));
+}
+
+const businessDays: Operation = (input) => {
+    const holidays = parseHolidays(input.args.holidays);
+    const isBusinessDay = (date: CivilDate) => {
+        const weekday = weekdayOf(date);
+        return weekday !== 0 && weekday !== 6 && !holidays.has(formatDate(date));
+    };
+    const start = toWallTime(startOf(input), input.timezone);
+    const endArg = stringArg(input.args, "end_date");
+
+    if (endArg) {
+        // Counts both ends, like spreadsheet NETWORKDAYS
+        const end = toWallTime(parseInstant(endArg, input.timezone, input.now), input.timezone);
+        const span = daysBetween(start, end);
+        if (Math.abs(span) > DATETIME_CONFIG.MAX_BUSINESS_DAYS) throw new Error("Date range is too large");
+        const step = span < 0 ? -1 : 1;
+        let count = 0;
+        let holidaysSkipped = 0;
+        for (let i = 0; i !== span + step; i += step) {
+            const date = addDays(start, i);
+            if (isBusinessDay(date)) count++;
+            else if (holidays.has(formatDate(date)) && weekdayOf(date) % 6 !== 0) holidaysSkipped++;
+        }
+        return {
+            from: formatDate(start),
+            to: formatDate(end),
+            businessDays: step * count,
+            calendarDays: Math.abs(span) + 1,
+            holidaysExcluded: holidaysSkipped,
+        };
+    }
+
+    const count = Number(input.args.count);
+    if (!Number.isInteger(count)) throw new Error("'business_days' needs 'end_date' or an integer 'count'");
+    if (Math.abs(count) > DATETIME_CONFIG.MAX_BUSINESS_DAYS) throw new Error("Too many business days");
+
+    let date: CivilDate = start;
+    for (let remaining = Math.abs(count); remaining > 0;) {
+        date = addDays(date, Math.sign(count));
+        if (isBusinessDay(date)) remaining--;
+    }
+    return {
+        from: formatDate(start),
+        businessDaysAdded: count,
+        result: formatDate(date),
+        weekday: WEEKDAYS[weekdayOf(date)],
+    };
+};
+
+const convert: Operation = (input) => {
+    const target = requireArg(input.args, "to_timezone", "convert");
+    assertTimeZone(target);
+    const instant = startOf(input);
+    const offsetHours = (offsetMinutes(instant, target) - offsetMinutes(instant, input.timezone)) / 60;
+
+    return {
+        from: describeInstant(instant, input.timezone),
+        to: describeInstant(instant, target),
+        offsetDifferenceHours: offsetHours,
+    };
+};
+
+const weekNumber: Operation = (input) => {
+    const wall = toWallTime(startOf(input), input.timezone);
+    const week = isoWeek(wall);
+    const leap = daysInMonth(wall.year, 2) === 29;
+
+    return {
+        date: formatDate(wall),
+        isoYear: week.year,
+        isoWeek: week.week,
+        isoWeekString: `${week.year}-W${String(week.week).padStart(2, "0")}`,
+        isoWeekday: week.weekday,
+        weekday: WEEKDAYS[weekdayOf(wall)],
+        dayOfYear: daysBetween({ year: wall.year, month: 1, day: 1 }, wall) + 1,
+        daysInYear: leap ? 366 : 365,
+        quarter: Math.ceil(wall.month / 3),
+    };
+};
+
+const recurrence: Operation = (input) => {
+    const rule = requireArg(input.args, "rule", "recurrence");
+    const start = toWallTime(startOf(input), input.timezone);
+    const endArg = stringArg(input.args, "end_date");
+    const until = endArg ? toWallTime(parseInstant(endArg, input.timezone, input.now), input.timezone) : undefined;
+
+    const requested = Number(input.args.count);
+    const count = Math.min(
+        DATETIME_CONFIG.MAX_OCCURRENCES,
+        Number.isInteger(requested) && requested > 0 ? requested : DATETIME_CONFIG.DEFAULT_OCCURRENCES
+    );
+
+    const parsed = parseRecurrence(rule, start);
+    const dates = expandRecurrence(parsed, start, count, until);
+
+    return {
+        rule,
+        schedule: describeRecurrence(parsed),
+        from: formatDate(start),
+        ...(until && { until: formatDate(until) }),
+        occurrences: dates.map((date) => ({ date: formatDate(date), weekday: WEEKDAYS[weekdayOf(date)] })),
+    };
+};
+
+const OPERATIONS: Record<string, Operation> = {
+    now: current,
+    add: shift(1),
+    subtract: shift(-1),
+    difference,
+    business_days: businessDays,
+    convert,
+    week_number: weekNumber,
+    recurrence,
+};
+
 export const handler = async (args: Record<string, unknown>): Promise<ToolExecutionResult> => {
     try {
         const timezone = String(args.timezone || "UTC");
-        const format = String(args.format || "full");
-
-        const now = new Date();
-
-        // Create formatter with timezone
-        const options: Intl.DateTimeFormatOptions = {
-            timeZone: timezone,
-            weekday: "long",
-            year: "numeric",
-            month: "long",
-            day: "numeric",
-            hour: "2-digit",
-            minute: "2-digit",
-            second: "2-digit",
-            hour12: true,
-            timeZoneName: "short"
-        };
+        const operationName = String(args.operation || "now");
+        const operation = OPERATIONS[operationName];
+        if (!operation) throw new Error(`Unknown operation: ${operationName}`);
 
-        const formatter = new Intl.DateTimeFormat("en-US", options);
-        const parts = formatter.formatToParts(now);
-
-        const partsMap: Record<string, string> = {};
-        parts.forEach(p => { partsMap[p.type] = p.value; });
-
-        let result: Record<string, unknown>;
-
-        switch (format) {
-            case "date_only":
-                result = {
-                    date: `${partsMap.month} ${partsMap.day}, ${partsMap.year}`,
-                    weekday: partsMap.weekday,
-                    timezone
-                };
-                break;
-            case "time_only":
-                result = {
-                    time: `${partsMap.hour}:${partsMap.minute}:${partsMap.second} ${partsMap.dayPeriod}`,
-                    timezone,
-                    timeZoneName: partsMap.timeZoneName
-                };
-                break;
-            case "iso8601":
-                result = {
-                    iso: now.toISOString(),
-                    timezone
-                };
-                break;
-            default:
-                result = {
-                    datetime: formatter.format(now),
-                    date: `${partsMap.month} ${partsMap.day}, ${partsMap.year}`,
-                    time: `${partsMap.hour}:${partsMap.minute}:${partsMap.second} ${partsMap.dayPeriod}`,
-                    weekday: partsMap.weekday,
-                    timezone,
-                    timeZoneName: partsMap.timeZoneName,
-                    unixTimestamp: Math.floor(now.getTime() / 1000)
-                };
-        }
+        assertTimeZone(timezone);
+        const result = operation({ args, timezone, now: clock() });
 
-        return { success: true, result };
+        return { success: true, result: operationName === "now" ? result : { operation: operationName, ...result } };
     } catch (error) {
         return {
             success: false,
@@ -98,5 +415,9 @@ export const handler = async (args: Record<string, unknown>): Promise<ToolExecut
     }
 };
 
-const datetimeTool: ToolModule = { declaration, handler };
+const datetimeTool: ToolModule = {
+    declaration,
+    handler,
+    metadata: { category: "time", cost: "low", sideEffects: false }
+};
 export default datetimeTool;
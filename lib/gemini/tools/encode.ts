@@ -1,15 +1,22 @@
 /**
  * Encode/Decode Tool
  * 
- * Encode and decode text in various formats.
+ * Encode and decode text in various formats, hash it, inspect its UTF-8
+ * bytes and decode JWTs.
  */
 
+import { createHash, createHmac } from "crypto";
 import { SchemaType, type FunctionDeclaration } from "@google/generative-ai";
 import type { ToolModule, ToolExecutionResult } from "./types";
 
+const ENCODE_CONFIG = {
+    /** Characters listed individually by the utf8 format */
+    MAX_CHARACTERS: 200,
+};
+
 export const declaration: FunctionDeclaration = {
     name: "encode_decode",
-    description: "Encode or decode text using various formats: Base64, URL encoding, HTML entities, ROT13, Morse code, Binary.",
+    description: "Encode or decode text using various formats: Base64, Base32, hex, URL encoding, HTML entities, ROT13, Morse code, Binary. Also: SHA-1/256/512 digests and HMACs (operation 'hash', with 'key' for HMAC), UTF-8 byte inspection (format 'utf8') and JWT header/payload decoding without signature verification (format 'jwt').",
     parameters: {
         type: SchemaType.OBJECT,
         properties: {
@@ -19,11 +26,19 @@ export const declaration: FunctionDeclaration = {
             },
             operation: {
                 type: SchemaType.STRING,
-                description: "Whether to encode or decode"
+                format: "enum",
+                enum: ["encode", "decode", "hash"],
+                description: "Whether to encode, decode or hash"
             },
             format: {
                 type: SchemaType.STRING,
-                description: "The encoding format: base64, url, html, rot13, morse, binary"
+                format: "enum",
+                enum: ["base64", "base32", "hex", "url", "html", "rot13", "morse", "binary", "utf8", "jwt", "sha1", "sha256", "sha512"],
+                description: "The encoding format; sha1/sha256/sha512 with operation 'hash'"
+            },
+            key: {
+                type: SchemaType.STRING,
+                description: "Secret for an HMAC digest (hash only)"
             }
         },
         required: ["text", "operation", "format"]
@@ -40,19 +55,152 @@ const MORSE_MAP: Record<string, string> = {
     "8": "---..", "9": "----.", "0": "-----"
 };
 
+const HASH_ALGORITHMS: Record<string, string> = { sha1: "SHA-1", sha256: "SHA-256", sha512: "SHA-512" };
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function toBase32(bytes: Uint8Array): string {
+    let bits = 0;
+    let value = 0;
+    let output = "";
+    for (const byte of bytes) {
+        value = (value << 8) | byte;
+        bits += 8;
+        while (bits >= 5) {
+            output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+            bits -= 5;
+        }
+    }
+    if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+    return output.padEnd(Math.ceil(output.length / 8) * 8, "=");
+}
+
+function fromBase32(text: string): Buffer {
+    const clean = text.replace(/[\s=]/g, "").toUpperCase();
+    const bytes: number[] = [];
+    let bits = 0;
+    let value = 0;
+    for (const char of clean) {
+        const index = BASE32_ALPHABET.indexOf(char);
+        if (index < 0) throw new Error(`Invalid Base32 character '${char}'`);
+        value = (value << 5) | index;
+        bits += 5;
+        if (bits >= 8) {
+            bytes.push((value >>> (bits - 8)) & 255);
+            bits -= 8;
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+/**
+ * Bytes from hex text; spaces, colons and 0x prefixes are ignored
+ */
+function fromHex(text: string): Buffer {
+    const clean = text.replace(/0x/gi, "").replace(/[\s:]/g, "");
+    if (!/^(?:[0-9a-fA-F]{2})*$/.test(clean)) throw new Error("Hex input must be pairs of hex digits");
+    return Buffer.from(clean, "hex");
+}
+
+function decodeUtf8(bytes: Buffer): string {
+    try {
+        return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    } catch {
+        throw new Error("Invalid UTF-8 byte sequence");
+    }
+}
+
+function hexBytes(bytes: Uint8Array): string {
+    return Buffer.from(bytes).toString("hex").replace(/(..)(?!$)/g, "$1 ");
+}
+
+/**
+ * Byte-level breakdown: code point and UTF-8 bytes of each character
+ */
+function inspectUtf8(text: string) {
+    const characters = [...text];
+    return {
+        byteLength: Buffer.byteLength(text, "utf8"),
+        characterCount: characters.length,
+        characters: characters.slice(0, ENCODE_CONFIG.MAX_CHARACTERS).map((char) => ({
+            char,
+            codePoint: `U+${(char.codePointAt(0) ?? 0).toString(16).toUpperCase().padStart(4, "0")}`,
+            bytes: hexBytes(Buffer.from(char, "utf8")),
+        })),
+        truncated: characters.length > ENCODE_CONFIG.MAX_CHARACTERS,
+    };
+}
+
+function decodeJwtPart(part: string, name: string): Record<string, unknown> {
+    try {
+        const parsed: unknown = JSON.parse(Buffer.from(part, "base64url").toString("utf-8"));
+        if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) throw new Error();
+        return parsed as Record<string, unknown>;
+    } catch {
+        throw new Error(`JWT ${name} is not a Base64url-encoded JSON object`);
+    }
+}
+
+/**
+ * Header and payload of a JWT; the signature is NOT verified
+ */
+function decodeJwt(token: string) {
+    const parts = token.trim().replace(/^Bearer\s+/i, "").split(".");
+    if (parts.length !== 3) throw new Error("A JWT has three dot-separated parts (header.payload.signature)");
+    const [header, payload, signature] = parts as [string, string, string];
+
+    const decodedPayload = decodeJwtPart(payload, "payload");
+    const claims: Record<string, unknown> = {};
+    for (const [claim, label] of [["iat", "issuedAt"], ["nbf", "notBefore"], ["exp", "expiresAt"]] as const) {
+        const seconds = decodedPayload[claim];
+        if (typeof seconds === "number") claims[label] = new Date(seconds * 1000).toISOString();
+    }
+    if (typeof decodedPayload.exp === "number") claims.expired = decodedPayload.exp * 1000 < Date.now();
+
+    return {
+        header: decodeJwtPart(header, "header"),
+        payload: decodedPayload,
+        claims,
+        signaturePresent: signature.length > 0,
+        verified: false,
+    };
+}
+
 export const handler = async (args: Record<string, unknown>): Promise<ToolExecutionResult> => {
     try {
         const text = String(args.text || "");
         const operation = String(args.operation);
         const format = String(args.format);
 
-        let result: string;
+        let result: unknown;
+        let details: Record<string, unknown> = {};
 
-        if (operation === "encode") {
+        if (operation === "hash") {
+            const algorithm = HASH_ALGORITHMS[format];
+            if (!algorithm) throw new Error(`Hashing needs format sha1, sha256 or sha512 (got ${format})`);
+            const key = typeof args.key === "string" ? args.key : undefined;
+            const digest = (key === undefined ? createHash(format) : createHmac(format, key)).update(text, "utf8").digest();
+            result = digest.toString("hex");
+            details = { algorithm: key === undefined ? algorithm : `HMAC-${algorithm}`, base64: digest.toString("base64") };
+        } else if (HASH_ALGORITHMS[format]) {
+            throw new Error(`${HASH_ALGORITHMS[format]} is a one-way digest; use operation 'hash'`);
+        } else if (operation === "encode") {
             switch (format) {
                 case "base64":
                     result = Buffer.from(text).toString("base64");
                     break;
+                case "base32":
+                    result = toBase32(Buffer.from(text, "utf8"));
+                    break;
+                case "hex":
+                    result = Buffer.from(text, "utf8").toString("hex");
+                    break;
+                case "utf8":
+                    result = hexBytes(Buffer.from(text, "utf8"));
+                    details = inspectUtf8(text);
+                    break;
+                case "jwt":
+                    throw new Error("JWTs can only be decoded; signing needs a key and is not supported");
                 case "url":
                     result = encodeURIComponent(text);
                     break;
@@ -79,6 +227,24 @@ export const handler = async (args: Record<string, unknown>): Promise<ToolExecut
                 case "base64":
                     result = Buffer.from(text, "base64").toString("utf-8");
                     break;
+                case "base32":
+                    result = decodeUtf8(fromBase32(text));
+                    break;
+                case "hex":
+                    result = decodeUtf8(fromHex(text));
+                    break;
+                case "utf8": {
+                    const decoded = decodeUtf8(fromHex(text));
+                    result = decoded;
+                    details = inspectUtf8(decoded);
+                    break;
+                }
+                case "jwt": {
+                    const { header, payload, ...rest } = decodeJwt(text);
+                    result = { header, payload };
+                    details = rest;
+                    break;
+                }
                 case "url":
                     result = decodeURIComponent(text);
                     break;
@@ -98,11 +264,15 @@ export const handler = async (args: Record<string, unknown>): Promise<ToolExecut
             }
         }
 
-        return { success: true, result: { input: text, output: result, operation, format } };
+        return { success: true, result: { input: text, output: result, operation, format, ...details } };
     } catch (error) {
         return { success: false, result: null, error: error instanceof Error ? error.message : "Encode/decode failed" };
     }
 };
 
-const encodeTool: ToolModule = { declaration, handler };
+const encodeTool: ToolModule = {
+    declaration,
+    handler,
+    metadata: { category: "text", cost: "low", sideEffects: false }
+};
 export default encodeTool;
@@ -0,0 +1,202 @@
+/**
+ * Data Format Tool
+ *
+ * Convert structured data between JSON, YAML, CSV and URL query strings.
+ * Everything goes through plain JSON values: CSV rows become objects keyed
+ * by the header, query strings become flat objects (repeated keys become
+ * arrays).
+ */
+
+import { SchemaType, type FunctionDeclaration } from "@google/generative-ai";
+import type { ToolModule, ToolExecutionResult } from "./types";
+import { parseCsv, stringifyCsv } from "./data/csv";
+import { parseYaml, stringifyYaml } from "./data/yaml";
+
+const FORMAT_CONFIG = {
+    MAX_INPUT_LENGTH: 200_000,
+};
+
+type DataFormat = "json" | "yaml" | "csv" | "query";
+
+const FORMATS: DataFormat[] = ["json", "yaml", "csv", "query"];
+
+export const declaration: FunctionDeclaration = {
+    name: "data_format",
+    description: "Convert structured data between JSON, YAML, CSV (header row + records) and URL query strings (a=1&b=2). Use it to reformat, validate or pretty-print data instead of rewriting it by hand.",
+    parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+            data: {
+                type: SchemaType.STRING,
+                description: "The input document"
+            },
+            from: {
+                type: SchemaType.STRING,
+                format: "enum",
+                enum: FORMATS,
+                description: "Format of the input"
+            },
+            to: {
+                type: SchemaType.STRING,
+                format: "enum",
+                enum: FORMATS,
+                description: "Format to produce"
+            },
+            delimiter: {
+                type: SchemaType.STRING,
+                description: "CSV delimiter (default: detected when reading, comma when writing)"
+            },
+            infer_types: {
+                type: SchemaType.BOOLEAN,
+                description: "Turn numeric and true/false CSV cells into numbers and booleans (default: true)"
+            }
+        },
+        required: ["data", "from", "to"]
+    }
+};
+
+// ============================================================================
+// Reading
+// ============================================================================
+
+function inferCell(cell: string): unknown {
+    if (cell === "true" || cell === "false") return cell === "true";
+    // Leading zeros (zip codes, ids) stay text
+    if (/^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][-+]?\d+)?$/.test(cell.trim())) return Number(cell);
+    return cell;
+}
+
+function readCsv(text: string, delimiter: string | undefined, inferTypes: boolean): Array<Record<string, unknown>> {
+    const [header, ...rows] = delimiter ? parseCsv(text, delimiter) : parseCsv(text);
+    if (!header) return [];
+
+    const columns = header.map((name, index) => name.trim() || `column${index + 1}`);
+    return rows.map((row) => {
+        const record: Record<string, unknown> = {};
+        columns.forEach((column, index) => {
+            const cell = row[index] ?? "";
+            record[column] = inferTypes ? inferCell(cell) : cell;
+        });
+        return record;
+    });
+}
+
+function readQuery(text: string): Record<string, string | string[]> {
+    const trimmed = text.trim();
+    const query = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? new URL(trimmed).search : trimmed;
+
+    const result: Record<string, string | string[]> = {};
+    for (const [key, value] of new URLSearchParams(query.replace(/^\?/, ""))) {
+        const existing = result[key];
+        if (existing === undefined) result[key] = value;
+        else result[key] = Array.isArray(existing) ? [...existing, value] : [existing, value];
+    }
+    return result;
+}
+
+function read(text: string, format: DataFormat, args: Record<string, unknown>): unknown {
+    switch (format) {
+        case "json":
+            try {
+                return JSON.parse(text);
+            } catch (error) {
+                throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        case "yaml":
+            return parseYaml(text);
+        case "csv":
+            return readCsv(text, typeof args.delimiter === "string" ? args.delimiter : undefined, args.infer_types !== false);
+        case "query":
+            return readQuery(text);
+    }
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function cellText(value: unknown): string {
+    if (value === null || value === undefined) return "";
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Records (or rows of values) as a header row plus data rows
+ */
+function toTable(value: unknown): string[][] {
+    const items = Array.isArray(value) ? value : [value];
+    if (items.every(Array.isArray)) return items.map((row: unknown[]) => row.map(cellText));
+    if (!items.every(isRecord)) {
+        if (items.some((item) => typeof item === "object" && item !== null)) {
+            throw new Error("CSV output needs an array of objects, an array of arrays or a list of plain values");
+        }
+        return [["value"], ...items.map((item) => [cellText(item)])];
+    }
+
+    const columns: string[] = [];
+    for (const item of items) {
+        for (const key of Object.keys(item)) if (!columns.includes(key)) columns.push(key);
+    }
+    return [columns, ...items.map((item) => columns.map((column) => cellText(item[column])))];
+}
+
+function writeQuery(value: unknown): string {
+    if (!isRecord(value)) throw new Error("A query string can only hold a flat object");
+
+    const params = new URLSearchParams();
+    for (const [key, item] of Object.entries(value)) {
+        for (const entry of Array.isArray(item) ? item : [item]) {
+            if (typeof entry === "object" && entry !== null) {
+                throw new Error(`Query parameter '${key}' is nested; query strings only hold flat values`);
+            }
+            params.append(key, cellText(entry));
+        }
+    }
+    return params.toString();
+}
+
+function write(value: unknown, format: DataFormat, args: Record<string, unknown>): string {
+    switch (format) {
+        case "json":
+            return JSON.stringify(value, null, 2);
+        case "yaml":
+            return stringifyYaml(value);
+        case "csv":
+            return stringifyCsv(toTable(value), typeof args.delimiter === "string" && args.delimiter ? args.delimiter : ",");
+        case "query":
+            return writeQuery(value);
+    }
+}
+
+export const handler = async (args: Record<string, unknown>): Promise<ToolExecutionResult> => {
+    try {
+        const data = String(args.data ?? "");
+        const from = String(args.from) as DataFormat;
+        const to = String(args.to) as DataFormat;
+        if (!FORMATS.includes(from)) throw new Error(`Unknown input format: ${from}`);
+        if (!FORMATS.includes(to)) throw new Error(`Unknown output format: ${to}`);
+        if (data.length > FORMAT_CONFIG.MAX_INPUT_LENGTH) {
+            throw new Error(`Data is longer than ${FORMAT_CONFIG.MAX_INPUT_LENGTH} characters`);
+        }
+
+        const value = read(data, from, args);
+        return { success: true, result: { from, to, output: write(value, to, args) } };
+    } catch (error) {
+        return {
+            success: false,
+            result: null,
+            error: `Format conversion failed: ${error instanceof Error ? error.message : "Unknown error"}`
+        };
+    }
+};
+
+const formatTool: ToolModule = {
+    declaration,
+    handler,
+    metadata: { category: "text", cost: "low", sideEffects: false }
+};
+export default formatTool;
@@ -2,11 +2,17 @@
  * Tool Registry
  * 
  * Central registry for all Gemini function calling tools.
- * Tools are loaded from individual modules for better maintainability.
+ * Tools are loaded from individual modules for better maintainability;
+ * more can be registered at runtime on `toolRegistry`.
  */
 
 import type { FunctionDeclaration } from "@google/generative-ai";
-import type { ToolHandler, ToolExecutionResult, ToolModule } from "./types";
+import type { ToolCategory, ToolHandler, ToolExecutionResult, ToolOutputListener } from "./types";
+import type { IntentType } from "../types";
+import { AppError, ToolExecutionError, ValidationError } from "../../errors/index";
+import { getToolMetrics } from "./metrics";
+import { ToolRegistry } from "./registry";
+import { formatIssues, validateArgs } from "./validate";
 
 // Import individual tools
 import calculateTool from "./calculate";
@@ -15,52 +21,134 @@ import randomTool from "./random";
 import convertTool from "./convert";
 import analyzeTool from "./analyze";
 import encodeTool from "./encode";
+import statisticsTool from "./statistics";
+import formatTool from "./format";
+import regexTool from "./regex";
+import sandboxTool from "./sandbox";
 
 // Re-export types
-export type { ToolHandler, ToolExecutionResult, ToolModule } from "./types";
+export type {
+    ToolHandler,
+    ToolExecutionResult,
+    ToolModule,
+    ToolCategory,
+    ToolCost,
+    ToolMetadata,
+    ToolOutputChunk,
+    ToolOutputListener
+} from "./types";
+export { ToolRegistry } from "./registry";
+export type { ToolFilter, ToolInfo, RegisterOptions } from "./registry";
+export { getToolMetrics, resetToolMetrics, ToolMetrics } from "./metrics";
+export type { ToolStats, ToolStatsSnapshot } from "./metrics";
+
+const TOOL_CONFIG = {
+    /** Per-call limit unless the module sets timeoutMs (env: TOOL_TIMEOUT_MS) */
+    DEFAULT_TIMEOUT_MS: 10_000,
+};
+
+/**
+ * Tool categories offered per detected intent (null = every tool).
+ * Narrowing keeps the declarations small for focused requests.
+ */
+export const INTENT_TOOL_CATEGORIES: Record<IntentType, ToolCategory[] | null> = {
+    math: ["math", "utility"],
+    code: ["code", "text", "math"],
+    creative: ["text", "utility"],
+    analysis: null,
+    factual: null,
+    general: null
+};
 
 // ============================================================================
 // Tool Registry
 // ============================================================================
 
-const tools: ToolModule[] = [
+export const toolRegistry = new ToolRegistry([
     calculateTool,
     datetimeTool,
     randomTool,
     convertTool,
     analyzeTool,
-    encodeTool
-];
-
-// Build declarations array
-const toolDefinitions: FunctionDeclaration[] = tools.map(t => t.declaration);
-
-// Build handlers map
-const handlers: Record<string, ToolHandler> = {};
-for (const tool of tools) {
-    handlers[tool.declaration.name] = tool.handler;
+    encodeTool,
+    statisticsTool,
+    formatTool,
+    regexTool,
+    sandboxTool
+]);
+
+function getTimeoutMs(toolName: string): number {
+    return toolRegistry.get(toolName)?.timeoutMs
+        ?? (Number(process.env.TOOL_TIMEOUT_MS) || TOOL_CONFIG.DEFAULT_TIMEOUT_MS);
 }
 
-export interface ToolRegistry {
-    definitions: FunctionDeclaration[];
-    handlers: Record<string, ToolHandler>;
+function toFailure(error: AppError): ToolExecutionResult {
+    return {
+        success: false,
+        result: null,
+        error: error.message,
+        code: error.code,
+        retryable: error.retryable
+    };
 }
 
-export const toolRegistry: ToolRegistry = {
-    definitions: toolDefinitions,
-    handlers
-};
+/**
+ * Run a handler until it settles, times out, or the request is cancelled.
+ * The handler's signal fires in the latter two cases so it can stop early.
+ */
+async function runHandler(
+    toolName: string,
+    handler: ToolHandler,
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+    onOutput?: ToolOutputListener
+): Promise<ToolExecutionResult> {
+    const timeoutMs = getTimeoutMs(toolName);
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+
+    const interrupted = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            const error = new ToolExecutionError(toolName, `timed out after ${timeoutMs}ms`, "TIMEOUT");
+            controller.abort(error);
+            reject(error);
+        }, timeoutMs);
+
+        onAbort = () => {
+            const error = new ToolExecutionError(toolName, "cancelled");
+            controller.abort(error);
+            reject(error);
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+
+    try {
+        return await Promise.race([handler(args, controller.signal, onOutput), interrupted]);
+    } finally {
+        clearTimeout(timer);
+        if (onAbort) signal?.removeEventListener("abort", onAbort);
+    }
+}
 
 /**
  * Execute a tool by name with given arguments
+ *
+ * Never throws: exceptions, timeouts and cancellation become failed results
+ * shaped like ToolExecutionError, and every call is recorded in the metrics.
+ * Arguments are checked against the declaration first; a mismatch returns a
+ * VALIDATION_ERROR naming each bad argument so the model can correct the call.
+ * Tools that produce output while running pass it to `onOutput`.
  */
 export async function executeTool(
     toolName: string,
-    args: Record<string, unknown>
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+    onOutput?: ToolOutputListener
 ): Promise<ToolExecutionResult> {
-    const handler = handlers[toolName];
+    const tool = toolRegistry.get(toolName);
 
-    if (!handler) {
+    if (!tool) {
         return {
             success: false,
             result: null,
@@ -68,13 +156,38 @@ export async function executeTool(
         };
     }
 
+    if (signal?.aborted) {
+        return toFailure(new ToolExecutionError(toolName, "cancelled"));
+    }
+
     console.log(`[Tool] Executing: ${toolName}`, args);
     const startTime = Date.now();
 
-    const result = await handler(args);
+    let result: ToolExecutionResult;
+    const issues = validateArgs(tool.declaration.parameters, args);
+    if (issues.length > 0) {
+        result = toFailure(new ValidationError(
+            `Invalid arguments for '${toolName}': ${formatIssues(issues)}`,
+            issues[0]?.path
+        ));
+    } else {
+        try {
+            result = await runHandler(toolName, tool.handler, args, signal, onOutput);
+            if (!result.success && !result.code) {
+                result = { ...result, code: "TOOL_EXECUTION_FAILED" };
+            }
+        } catch (error) {
+            result = toFailure(error instanceof ToolExecutionError
+                ? error
+                : new ToolExecutionError(toolName, error instanceof Error ? error.message : String(error)));
+        }
+    }
+
+    const durationMs = Date.now() - startTime;
+    getToolMetrics().record(toolName, durationMs, result);
 
-    console.log(`[Tool] ${toolName} completed in ${Date.now() - startTime}ms`,
-        result.success ? "✓" : "✗");
+    console.log(`[Tool] ${toolName} completed in ${durationMs}ms`,
+        result.success ? "✓" : `✗ ${result.error}`);
 
     return result;
 }
@@ -84,6 +197,28 @@ export async function executeTool(
  */
 export function getToolDeclarations() {
     return {
-        functionDeclarations: toolDefinitions
+        functionDeclarations: toolRegistry.getDeclarations()
     };
 }
+
+/**
+ * Whether calls to the tool must be approved by the user first
+ */
+export function requiresApproval(toolName: string): boolean {
+    const metadata = toolRegistry.get(toolName)?.metadata;
+    return metadata?.requiresApproval ?? metadata?.sideEffects ?? false;
+}
+
+/**
+ * Declarations offered for one request: the intent's categories, further
+ * limited to the tool policy's allow-list when one is set
+ */
+export function getToolsForRequest(options: {
+    intent?: IntentType | undefined;
+    allowedTools?: string[] | null | undefined;
+} = {}): FunctionDeclaration[] {
+    return toolRegistry.getDeclarations({
+        categories: options.intent ? INTENT_TOOL_CATEGORIES[options.intent] : null,
+        names: options.allowedTools ?? null
+    });
+}
@@ -0,0 +1,117 @@
+/**
+ * Dice Notation
+ *
+ * Parses and rolls tabletop dice expressions: terms like 3d6, d20 or d%
+ * (a d100) joined with + and -, plus flat modifiers ("2d8+1d4-1").
+ * Keep-highest/lowest suffixes ("4d6kh3", "2d20kl1") drop the other dice
+ * from the total.
+ */
+
+import { randomInt, type RandomSource } from "./prng";
+
+export const MAX_DICE = 1000;
+export const MAX_SIDES = 1_000_000;
+
+interface DiceTerm {
+    sign: 1 | -1;
+    count: number;
+    sides: number;
+    keep?: { highest: boolean; count: number };
+}
+
+export interface DiceRoll {
+    /** The term as written, e.g. "4d6kh3" */
+    dice: string;
+    rolls: number[];
+    /** The rolls that count towards the total (all of them without a keep suffix) */
+    kept: number[];
+    subtotal: number;
+}
+
+export interface DiceResult {
+    notation: string;
+    rolls: DiceRoll[];
+    modifier: number;
+    total: number;
+    min: number;
+    max: number;
+}
+
+const TERM_PATTERN = /([+-])?(?:(\d*)d(\d+|%)(?:k([hl])?(\d+))?|(\d+))/gy;
+
+function parseDice(notation: string): { terms: DiceTerm[]; modifier: number } {
+    const source = notation.replace(/\s+/g, "").toLowerCase();
+    if (!source) throw new Error("Dice notation is empty");
+
+    const terms: DiceTerm[] = [];
+    let modifier = 0;
+    TERM_PATTERN.lastIndex = 0;
+    let position = 0;
+    let match: RegExpExecArray | null;
+    while (position < source.length && (match = TERM_PATTERN.exec(source))) {
+        const [text, signText, countText, sidesText, keepSide, keepText, flat] = match;
+        if (position > 0 && !signText) break;
+        position += text.length;
+        const sign = signText === "-" ? -1 : 1;
+
+        if (flat !== undefined) {
+            modifier += sign * Number(flat);
+            continue;
+        }
+        const count = countText ? Number(countText) : 1;
+        const sides = sidesText === "%" ? 100 : Number(sidesText);
+        if (count < 1 || sides < 1) throw new Error(`Invalid dice '${text.replace(/^[+-]/, "")}'`);
+        if (sides > MAX_SIDES) throw new Error(`Dice can have at most ${MAX_SIDES} sides`);
+
+        const term: DiceTerm = { sign, count, sides };
+        if (keepText !== undefined) {
+            const keep = Number(keepText);
+            if (keep < 1 || keep > count) throw new Error(`Cannot keep ${keep} of ${count} dice`);
+            term.keep = { highest: keepSide !== "l", count: keep };
+        }
+        terms.push(term);
+    }
+
+    if (position < source.length) {
+        throw new Error(`Invalid dice notation '${notation}' at '${source.slice(position)}' (expected e.g. 3d6+2)`);
+    }
+    const dice = terms.reduce((sum, term) => sum + term.count, 0);
+    if (dice === 0) throw new Error(`No dice in '${notation}'`);
+    if (dice > MAX_DICE) throw new Error(`At most ${MAX_DICE} dice per roll`);
+    return { terms, modifier };
+}
+
+function describeTerm(term: DiceTerm): string {
+    const keep = term.keep ? `k${term.keep.highest ? "h" : "l"}${term.keep.count}` : "";
+    return `${term.sign < 0 ? "-" : ""}${term.count}d${term.sides}${keep}`;
+}
+
+export function rollDice(notation: string, source: RandomSource): DiceResult {
+    const { terms, modifier } = parseDice(notation);
+
+    let total = modifier;
+    let min = modifier;
+    let max = modifier;
+    const rolls = terms.map((term): DiceRoll => {
+        const values = Array.from({ length: term.count }, () => randomInt(source, 1, term.sides));
+        let kept = values;
+        if (term.keep) {
+            const { highest, count } = term.keep;
+            const order = values.map((value, index) => ({ value, index }))
+                .sort((a, b) => (highest ? b.value - a.value : a.value - b.value) || a.index - b.index)
+                .slice(0, count)
+                .map(({ index }) => index);
+            kept = values.filter((_, index) => order.includes(index));
+        }
+
+        const subtotal = term.sign * kept.reduce((sum, value) => sum + value, 0);
+        const counted = term.keep?.count ?? term.count;
+        const bounds = [term.sign * counted, term.sign * counted * term.sides];
+        total += subtotal;
+        min += Math.min(...bounds);
+        max += Math.max(...bounds);
+        return { dice: describeTerm(term), rolls: values, kept, subtotal };
+    });
+
+    return { notation, rolls, modifier, total, min, max };
+}
@@ -0,0 +1,368 @@
+/**
+ * Calculator Evaluation
+ *
+ * Evaluates parsed calculate tool expressions to quantities: an exact or
+ * floating-point scalar with units. Unit arithmetic is checked (adding km
+ * to kg fails), compatible units are converted (km + m), and units that
+ * cancel out leave a plain number.
+ */
+
+import * as S from "./rational";
+import { Rational, type Scalar } from "./rational";
+import type { Node } from "./parser";
+import {
+    combineUnits,
+    factorOf,
+    findUnit,
+    formatUnits,
+    isDimensionless,
+    matchingUnits,
+    sameDimension,
+    scaleUnits,
+    type UnitMap,
+} from "./units";
+
+export type AngleMode = "degrees" | "radians";
+
+export interface Quantity {
+    value: Scalar;
+    units: UnitMap;
+}
+
+export interface EvaluationContext {
+    variables: Map<string, Quantity>;
+    angleMode: AngleMode;
+}
+
+export const CONSTANTS: Record<string, number> = {
+    pi: Math.PI,
+    PI: Math.PI,
+    e: Math.E,
+    E: Math.E,
+    tau: 2 * Math.PI,
+};
+
+const MAX_FACTORIAL = 1000;
+
+function plain(value: Scalar): Quantity {
+    return { value, units: {} };
+}
+
+function hasUnits(q: Quantity): boolean {
+    return Object.keys(q.units).length > 0;
+}
+
+function describeUnits(q: Quantity): string {
+    return hasUnits(q) ? formatUnits(q.units) : "a plain number";
+}
+
+/**
+ * Express `q` in the units of `target` (dimensions must match)
+ */
+function convertTo(q: Quantity, target: UnitMap, action: string): Scalar {
+    if (!sameDimension(q.units, target)) {
+        const targetUnits = describeUnits({ value: 0, units: target });
+        throw new Error(action === "convert"
+            ? `Cannot convert ${describeUnits(q)} to ${targetUnits}`
+            : `Cannot ${action} ${targetUnits} and ${describeUnits(q)}`);
+    }
+    return S.mul(q.value, factorOf(q.units).div(factorOf(target)));
+}
+
+/**
+ * Fold units that cancel to a dimensionless number into the value
+ */
+function simplify(q: Quantity): Quantity {
+    if (hasUnits(q) && isDimensionless(q.units)) {
+        return plain(S.mul(q.value, factorOf(q.units)));
+    }
+    return q;
+}
+
+function multiply(a: Quantity, b: Quantity): Quantity {
+    // Express b's units in a's where they measure the same thing (m * km -> km^2)
+    let value = S.mul(a.value, b.value);
+    const units: UnitMap = {};
+    const renames = matchingUnits(a.units, b.units);
+    for (const [symbol, exponent] of Object.entries(b.units)) {
+        const target = renames.get(symbol);
+        if (target) {
+            const ratio = factorOf({ [symbol]: 1 }).div(factorOf({ [target]: 1 }));
+            value = S.mul(value, ratio.pow(Rational.fromInt(exponent)) ?? ratio.toNumber() ** exponent);
+        }
+        const name = target ?? symbol;
+        units[name] = (units[name] ?? 0) + exponent;
+    }
+    return simplify({ value, units: combineUnits(a.units, units) });
+}
+
+function reciprocal(q: Quantity): Quantity {
+    return { value: S.div(Rational.ONE, q.value), units: scaleUnits(q.units, -1) };
+}
+
+function power(base: Quantity, exponent: Quantity): Quantity {
+    if (hasUnits(exponent)) throw new Error("Exponents must be plain numbers");
+    if (!hasUnits(base)) return plain(S.pow(base.value, exponent.value));
+
+    const e = exponent.value;
+    const units: UnitMap = {};
+    for (const [symbol, current] of Object.entries(base.units)) {
+        const scaled = e instanceof Rational ? e.mul(Rational.fromInt(current)) : null;
+        if (!scaled?.isInteger()) throw new Error(`Cannot raise ${formatUnits(base.units)} to a fractional power`);
+        units[symbol] = Number(scaled.num);
+    }
+    return simplify({ value: S.pow(base.value, e), units });
+}
+
+function modulo(a: Quantity, b: Quantity): Quantity {
+    const divisor = convertTo(b, a.units, "take the remainder of");
+    const x = a.value;
+    if (x instanceof Rational && divisor instanceof Rational && !divisor.isZero()) {
+        return { value: x.sub(divisor.mul(x.div(divisor).floor())), units: a.units };
+    }
+    const n = S.toNumber(x);
+    const d = S.toNumber(divisor);
+    return { value: n - d * Math.floor(n / d), units: a.units };
+}
+
+function factorial(q: Quantity): Quantity {
+    const n = q.value;
+    if (hasUnits(q) || !(n instanceof Rational) || !n.isInteger() || n.sign() < 0) {
+        throw new Error("Factorial needs a non-negative integer");
+    }
+    if (n.num > BigInt(MAX_FACTORIAL)) throw new Error(`Factorial is limited to ${MAX_FACTORIAL}!`);
+
+    let result = 1n;
+    for (let i = 2n; i <= n.num; i++) result *= i;
+    return plain(new Rational(result));
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+type MathFunction = (args: Quantity[], context: EvaluationContext) => Quantity;
+
+function scalarArgs(name: string, args: Quantity[], min: number, max = min): Scalar[] {
+    if (args.length < min || args.length > max) {
+        const expected = min === max ? `${min}` : `${min}-${max}`;
+        throw new Error(`${name}() takes ${expected} argument${max === 1 ? "" : "s"}, got ${args.length}`);
+    }
+    return args.map((arg) => {
+        if (hasUnits(arg)) throw new Error(`${name}() needs a plain number, got ${formatUnits(arg.units)}`);
+        return arg.value;
+    });
+}
+
+/** Round floats that are within rounding noise of an integer (sin(180) -> 0) */
+function clean(value: number): number {
+    const rounded = Math.round(value);
+    return Math.abs(value - rounded) < 1e-12 ? rounded + 0 : value;
+}
+
+function float(name: string, fn: (x: number) => number): MathFunction {
+    return (args) => plain(fn(S.toNumber(scalarArgs(name, args, 1)[0] as Scalar)));
+}
+
+function trig(name: string, fn: (x: number) => number): MathFunction {
+    return (args, context) => {
+        const x = S.toNumber(scalarArgs(name, args, 1)[0] as Scalar);
+        const radians = context.angleMode === "degrees" ? x * Math.PI / 180 : x;
+        // tan(90°) is undefined rather than 1.6e16
+        if (name === "tan" && context.angleMode === "degrees" && Math.abs(x % 180) === 90) return plain(NaN);
+        return plain(clean(fn(radians)));
+    };
+}
+
+function inverseTrig(name: string, fn: (...x: number[]) => number, arity = 1): MathFunction {
+    return (args, context) => {
+        const result = fn(...scalarArgs(name, args, arity).map(S.toNumber));
+        return plain(clean(context.angleMode === "degrees" ? result * 180 / Math.PI : result));
+    };
+}
+
+function root(name: string, k: number): MathFunction {
+    return ([x, ...rest]) => {
+        if (!x || rest.length) throw new Error(`${name}() takes 1 argument, got ${rest.length + (x ? 1 : 0)}`);
+        return power(x, plain(new Rational(1n, BigInt(k))));
+    };
+}
+
+/** Applies `fn` in the argument's own units */
+function rounding(name: string, fn: (x: Rational) => Rational, fallback: (x: number) => number): MathFunction {
+    return (args) => {
+        const [x, digits] = args;
+        if (!x || args.length > 2) throw new Error(`${name}() takes 1-2 arguments, got ${args.length}`);
+        const places = digits ? scalarArgs(name, [digits], 1)[0] as Scalar : Rational.ZERO;
+        const scale = S.pow(Rational.fromInt(10), places);
+
+        const scaled = S.mul(x.value, scale);
+        const value = scaled instanceof Rational ? fn(scaled) : fallback(scaled);
+        return { value: S.div(value, scale), units: x.units };
+    };
+}
+
+function integers(name: string, args: Quantity[]): bigint[] {
+    const values = scalarArgs(name, args, 2, Infinity);
+    return values.map((value) => {
+        if (!(value instanceof Rational) || !value.isInteger()) throw new Error(`${name}() needs integers`);
+        return value.num < 0n ? -value.num : value.num;
+    });
+}
+
+function bigGcd(a: bigint, b: bigint): bigint {
+    while (b !== 0n) [a, b] = [b, a % b];
+    return a;
+}
+
+function extreme(name: string, pick: (a: number, b: number) => boolean): MathFunction {
+    return (args) => {
+        const [first] = args;
+        if (!first) throw new Error(`${name}() needs at least one argument`);
+        let best = first;
+        let bestValue = S.toNumber(first.value);
+        for (const arg of args.slice(1)) {
+            const converted = convertTo(arg, first.units, "compare");
+            if (pick(S.toNumber(converted), bestValue)) {
+                best = { value: converted, units: first.units };
+                bestValue = S.toNumber(converted);
+            }
+        }
+        return best;
+    };
+}
+
+const FUNCTIONS: Record<string, MathFunction> = {
+    sqrt: root("sqrt", 2),
+    cbrt: root("cbrt", 3),
+    abs: ([x, ...rest]) => {
+        if (!x || rest.length) throw new Error("abs() takes 1 argument");
+        return { value: S.absolute(x.value), units: x.units };
+    },
+    floor: rounding("floor", (x) => x.floor(), Math.floor),
+    ceil: rounding("ceil", (x) => x.neg().floor().neg(), Math.ceil),
+    round: rounding("round", (x) => x.add(new Rational(1n, 2n)).floor(), Math.round),
+    min: extreme("min", (a, b) => a < b),
+    max: extreme("max", (a, b) => a > b),
+    exp: float("exp", Math.exp),
+    ln: float("ln", Math.log),
+    log10: float("log10", Math.log10),
+    log2: float("log2", Math.log2),
+    log: (args) => {
+        const [x, base] = scalarArgs("log", args, 1, 2).map(S.toNumber) as [number, number | undefined];
+        return plain(base === undefined ? Math.log10(x) : clean(Math.log(x) / Math.log(base)));
+    },
+    sin: trig("sin", Math.sin),
+    cos: trig("cos", Math.cos),
+    tan: trig("tan", Math.tan),
+    asin: inverseTrig("asin", Math.asin),
+    acos: inverseTrig("acos", Math.acos),
+    atan: inverseTrig("atan", Math.atan),
+    atan2: inverseTrig("atan2", Math.atan2, 2),
+    sinh: float("sinh", Math.sinh),
+    cosh: float("cosh", Math.cosh),
+    tanh: float("tanh", Math.tanh),
+    factorial: ([x, ...rest]) => {
+        if (!x || rest.length) throw new Error("factorial() takes 1 argument");
+        return factorial(x);
+    },
+    gcd: (args) => plain(new Rational(integers("gcd", args).reduce(bigGcd))),
+    lcm: (args) => plain(new Rational(integers("lcm", args)
+        .reduce((a, b) => (a === 0n || b === 0n ? 0n : a / bigGcd(a, b) * b)))),
+};
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+function resolveName(name: string, context: EvaluationContext): Quantity {
+    const variable = context.variables.get(name);
+    if (variable) return variable;
+
+    const constant = CONSTANTS[name];
+    if (constant !== undefined) return plain(constant);
+
+    const unit = findUnit(name);
+    if (unit) return { value: Rational.ONE, units: { [unit.symbol]: 1 } };
+
+    if (FUNCTIONS[name]) throw new Error(`'${name}' is a function; call it like ${name}(x)`);
+    throw new Error(`Unknown variable or unit '${name}'`);
+}
+
+/**
+ * Whether a name refers to something without being assigned
+ */
+export function isBuiltinName(name: string): boolean {
+    return name in CONSTANTS || findUnit(name) !== undefined;
+}
+
+export function evaluate(node: Node, context: EvaluationContext): Quantity {
+    switch (node.kind) {
+        case "number":
+            return plain(node.value);
+        case "name":
+            return resolveName(node.name, context);
+        case "call": {
+            const fn = FUNCTIONS[node.name];
+            if (!fn) throw new Error(`Unknown function '${node.name}'`);
+            return fn(node.args.map((arg) => evaluate(arg, context)), context);
+        }
+        case "negate": {
+            const q = evaluate(node.operand, context);
+            return { value: S.neg(q.value), units: q.units };
+        }
+        case "percent": {
+            const q = evaluate(node.operand, context);
+            return { value: S.div(q.value, Rational.fromInt(100)), units: q.units };
+        }
+        case "factorial":
+            return factorial(evaluate(node.operand, context));
+        case "convert": {
+            const value = evaluate(node.value, context);
+            const target = evaluate(node.target, context);
+            if (!hasUnits(target)) throw new Error("Conversion target must be a unit, e.g. '5 km to mi'");
+            return { value: S.div(convertTo(value, target.units, "convert"), target.value), units: target.units };
+        }
+        case "binary": {
+            const left = evaluate(node.left, context);
+            const right = evaluate(node.right, context);
+            switch (node.op) {
+                case "+":
+                    return { value: S.add(left.value, convertTo(right, left.units, "add")), units: left.units };
+                case "-":
+                    return { value: S.sub(left.value, convertTo(right, left.units, "subtract")), units: left.units };
+                case "*":
+                    return multiply(left, right);
+                case "/":
+                    return multiply(left, reciprocal(right));
+                case "^":
+                    return power(left, right);
+                case "mod":
+                    return modulo(left, right);
+            }
+        }
+    }
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Decimal display: integers in full, other values to 10 decimal places
+ */
+export function formatScalar(value: Scalar): string {
+    if (value instanceof Rational && value.isInteger()) return value.toString();
+
+    const n = S.toNumber(value);
+    if (Math.abs(n) < 1e-6 && n !== 0) return n.toPrecision(10).replace(/\.?0+(e|$)/, "$1");
+    // Digits from the fraction itself: past 2^53 a double has already lost them
+    if (value instanceof Rational) return value.toDecimal(10);
+    if (Number.isInteger(n)) return n.toString();
+    return n.toFixed(10).replace(/\.?0+$/, "");
+}
+
+export function formatQuantity(q: Quantity): string {
+    const value = formatScalar(q.value);
+    return hasUnits(q) ? `${value} ${formatUnits(q.units)}` : value;
+}
@@ -0,0 +1,290 @@
+/**
+ * Calculator Parser
+ *
+ * Tokenizer and recursive-descent parser for calculate tool programs:
+ * statements separated by ";" or newlines, each an expression, an
+ * assignment ("x = 3") or an equation ("2x + 3 = 11").
+ *
+ * Precedence, loosest first: "to" conversion, + -, * / mod of,
+ * implicit multiplication ("2x", "5 km"), unary minus, ^ (right
+ * associative), postfix ! and %. Implicit multiplication binds tighter than
+ * "/", so "100 km / 2 h" is 50 km/h.
+ */
+
+import { Rational } from "./rational";
+
+export type Node =
+    | { kind: "number"; value: Rational }
+    | { kind: "name"; name: string }
+    | { kind: "call"; name: string; args: Node[] }
+    | { kind: "negate"; operand: Node }
+    | { kind: "percent"; operand: Node }
+    | { kind: "factorial"; operand: Node }
+    | { kind: "binary"; op: "+" | "-" | "*" | "/" | "^" | "mod"; left: Node; right: Node }
+    | { kind: "convert"; value: Node; target: Node };
+
+export interface Statement {
+    /** Source text of the statement */
+    source: string;
+    left: Node;
+    /** Right-hand side of "=", null for plain expressions */
+    right: Node | null;
+}
+
+type TokenType = "number" | "name" | "op" | "end";
+
+interface Token {
+    type: TokenType;
+    text: string;
+    position: number;
+}
+
+const KEYWORDS = new Set(["of", "to", "mod", "percent"]);
+
+const OPERATOR_ALIASES: Record<string, string> = { "**": "^", "×": "*", "÷": "/", "->": "to" };
+
+const TOKEN_PATTERN = /\s*(?:(\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|([A-Za-z_][A-Za-z0-9_]*)|(\*\*|->|[-+*/^%!(),=×÷]))/y;
+
+function tokenize(source: string): Token[] {
+    const tokens: Token[] = [];
+    TOKEN_PATTERN.lastIndex = 0;
+
+    while (TOKEN_PATTERN.lastIndex < source.length) {
+        const start = TOKEN_PATTERN.lastIndex;
+        if (/^\s*$/.test(source.slice(start))) break;
+
+        const match = TOKEN_PATTERN.exec(source);
+        if (!match) {
+            const offending = source.slice(start).trim()[0];
+            throw new SyntaxError(`Unexpected character '${offending}'`);
+        }
+
+        const [, number, name, op] = match;
+        const position = match.index + match[0].length - (number ?? name ?? op ?? "").length;
+        if (number !== undefined) tokens.push({ type: "number", text: number, position });
+        else if (name !== undefined) tokens.push({ type: "name", text: name, position });
+        else if (op !== undefined) {
+            const text = OPERATOR_ALIASES[op] ?? op;
+            tokens.push({ type: text === "to" ? "name" : "op", text, position });
+        }
+    }
+
+    tokens.push({ type: "end", text: "", position: source.length });
+    return tokens;
+}
+
+class Parser {
+    private index = 0;
+
+    constructor(private readonly tokens: Token[]) { }
+
+    private peek(offset = 0): Token {
+        return this.tokens[Math.min(this.index + offset, this.tokens.length - 1)] as Token;
+    }
+
+    private next(): Token {
+        const token = this.peek();
+        this.index++;
+        return token;
+    }
+
+    private isOp(text: string, offset = 0): boolean {
+        const token = this.peek(offset);
+        return token.type === "op" && token.text === text;
+    }
+
+    private isKeyword(text: string): boolean {
+        const token = this.peek();
+        return token.type === "name" && token.text === text;
+    }
+
+    private expect(text: string): void {
+        if (!this.isOp(text)) throw this.unexpected();
+        this.index++;
+    }
+
+    private unexpected(): SyntaxError {
+        const token = this.peek();
+        return new SyntaxError(token.type === "end"
+            ? "Unexpected end of expression"
+            : `Unexpected '${token.text}' at position ${token.position + 1}`);
+    }
+
+    /** Whether the next token can start an operand (for implicit multiplication) */
+    private startsOperand(): boolean {
+        const token = this.peek();
+        if (token.type === "number" || this.isOp("(")) return true;
+        return token.type === "name" && !KEYWORDS.has(token.text);
+    }
+
+    statement(): { left: Node; right: Node | null } {
+        const left = this.conversion();
+        let right: Node | null = null;
+        if (this.isOp("=")) {
+            this.index++;
+            right = this.conversion();
+        }
+        if (this.peek().type !== "end") throw this.unexpected();
+        return { left, right };
+    }
+
+    private conversion(): Node {
+        let value = this.additive();
+        while (this.isKeyword("to")) {
+            this.index++;
+            value = { kind: "convert", value, target: this.multiplicative() };
+        }
+        return value;
+    }
+
+    private additive(): Node {
+        let left = this.multiplicative();
+        while (this.isOp("+") || this.isOp("-")) {
+            const op = this.next().text as "+" | "-";
+            left = { kind: "binary", op, left, right: this.multiplicative() };
+        }
+        return left;
+    }
+
+    private multiplicative(): Node {
+        let left = this.implicit();
+        while (true) {
+            if (this.isOp("*") || this.isKeyword("of")) {
+                this.index++;
+                left = { kind: "binary", op: "*", left, right: this.implicit() };
+            } else if (this.isOp("/")) {
+                this.index++;
+                left = { kind: "binary", op: "/", left, right: this.implicit() };
+            } else if (this.isKeyword("mod") || this.isOp("%")) {
+                this.index++;
+                left = { kind: "binary", op: "mod", left, right: this.implicit() };
+            } else {
+                return left;
+            }
+        }
+    }
+
+    private implicit(): Node {
+        let left = this.unary();
+        while (this.startsOperand()) {
+            left = { kind: "binary", op: "*", left, right: this.unary() };
+        }
+        return left;
+    }
+
+    private unary(): Node {
+        if (this.isOp("-")) {
+            this.index++;
+            return { kind: "negate", operand: this.unary() };
+        }
+        if (this.isOp("+")) {
+            this.index++;
+            return this.unary();
+        }
+        return this.power();
+    }
+
+    private power(): Node {
+        const base = this.postfix();
+        if (!this.isOp("^")) return base;
+        this.index++;
+        return { kind: "binary", op: "^", left: base, right: this.unary() };
+    }
+
+    private postfix(): Node {
+        let operand = this.primary();
+        while (true) {
+            if (this.isOp("!")) {
+                this.index++;
+                operand = { kind: "factorial", operand };
+            } else if (this.isKeyword("percent")) {
+                this.index++;
+                operand = { kind: "percent", operand };
+            } else if (this.isOp("%")) {
+                // "%" followed by an operand is modulo ("10 % 3"), otherwise percent ("15% of 80")
+                this.index++;
+                if (this.startsOperand()) {
+                    this.index--;
+                    return operand;
+                }
+                operand = { kind: "percent", operand };
+            } else {
+                return operand;
+            }
+        }
+    }
+
+    private primary(): Node {
+        const token = this.peek();
+
+        if (token.type === "number") {
+            this.index++;
+            return { kind: "number", value: Rational.parse(token.text) };
+        }
+
+        if (token.type === "name" && !KEYWORDS.has(token.text)) {
+            this.index++;
+            if (!this.isOp("(")) return { kind: "name", name: token.text };
+
+            this.index++;
+            const args: Node[] = [];
+            if (!this.isOp(")")) {
+                do {
+                    if (args.length) this.index++;
+                    args.push(this.conversion());
+                } while (this.isOp(","));
+            }
+            this.expect(")");
+            return { kind: "call", name: token.text, args };
+        }
+
+        if (this.isOp("(")) {
+            this.index++;
+            const inner = this.conversion();
+            this.expect(")");
+            return inner;
+        }
+
+        throw this.unexpected();
+    }
+}
+
+/**
+ * Split a program into statements and parse each one
+ */
+export function parseProgram(source: string): Statement[] {
+    return source
+        .split(/[;\n]/)
+        .map((part) => part.trim())
+        .filter(Boolean)
+        .map((part) => ({ source: part, ...new Parser(tokenize(part)).statement() }));
+}
+
+/**
+ * Identifiers referenced by a node (not function names)
+ */
+export function namesIn(node: Node, found: Set<string> = new Set()): Set<string> {
+    switch (node.kind) {
+        case "name":
+            found.add(node.name);
+            break;
+        case "call":
+            node.args.forEach((arg) => namesIn(arg, found));
+            break;
+        case "negate":
+        case "percent":
+        case "factorial":
+            namesIn(node.operand, found);
+            break;
+        case "binary":
+            namesIn(node.left, found);
+            namesIn(node.right, found);
+            break;
+        case "convert":
+            namesIn(node.value, found);
+            break;
+        case "number":
+            break;
+    }
+    return found;
+}
@@ -0,0 +1,118 @@
+/**
+ * Random Sources
+ *
+ * Uniform randomness for generate_random, either reproducible (a seeded
+ * mulberry32 generator, the same sequence for the same seed on every run)
+ * or from the platform's cryptographic RNG. Distributions and sampling take
+ * the source as an argument so both behave identically.
+ */
+
+import { randomBytes } from "crypto";
+
+export interface RandomSource {
+    /** Uniform float in [0, 1) */
+    next(): number;
+}
+
+/**
+ * Seeded generator; seeds are folded to 32 bits, so use integers below 2^32
+ */
+export function seededRandom(seed: number): RandomSource {
+    let state = (Math.trunc(seed) % 2 ** 32 ^ Math.trunc(seed / 2 ** 32)) >>> 0;
+    return {
+        next() {
+            state = (state + 0x6d2b79f5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+        },
+    };
+}
+
+/** 53 random bits per draw from the crypto RNG */
+export const cryptoRandom: RandomSource = {
+    next() {
+        const bytes = randomBytes(8);
+        return (bytes.readUInt32BE(0) * 2 ** 21 + (bytes.readUInt32BE(4) >>> 11)) / 2 ** 53;
+    },
+};
+
+// ============================================================================
+// Distributions
+// ============================================================================
+
+/**
+ * Integer in [min, max], both inclusive
+ */
+export function randomInt(source: RandomSource, min: number, max: number): number {
+    return min + Math.floor(source.next() * (max - min + 1));
+}
+
+/**
+ * Normal deviate (Box-Muller)
+ */
+export function randomNormal(source: RandomSource, mean: number, stdDev: number): number {
+    // 1 - next() is in (0, 1], so the log is finite
+    const u = 1 - source.next();
+    const v = source.next();
+    return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Fisher-Yates shuffle into a new array
+ */
+export function shuffle<T>(source: RandomSource, items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = randomInt(source, 0, i);
+        [result[i], result[j]] = [result[j] as T, result[i] as T];
+    }
+    return result;
+}
+
+/**
+ * Index drawn with probability proportional to its weight
+ */
+function weightedIndex(source: RandomSource, weights: readonly number[]): number {
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    let target = source.next() * total;
+    let last = -1;
+    for (let i = 0; i < weights.length; i++) {
+        const weight = weights[i] ?? 0;
+        if (weight <= 0) continue;
+        target -= weight;
+        if (target < 0) return i;
+        last = i;
+    }
+    // Rounding can leave a sliver past the end; take the last weighted item
+    return last;
+}
+
+/**
+ * `count` items, without replacement unless `replacement` is set; weights
+ * (one per item, non-negative) make items proportionally more likely, and
+ * each draw without replacement renormalizes over what is left
+ */
+export function sample<T>(
+    source: RandomSource,
+    items: readonly T[],
+    count: number,
+    options: { weights?: readonly number[]; replacement?: boolean } = {}
+): T[] {
+    const { replacement = false } = options;
+    const weights = [...(options.weights ?? items.map(() => 1))];
+    const available = weights.filter((w) => w > 0).length;
+    if (available === 0) throw new Error("No items to choose from");
+    if (!replacement && count > available) {
+        throw new Error(`Cannot draw ${count} items without replacement from ${available}`);
+    }
+
+    const picked: T[] = [];
+    for (let n = 0; n < count; n++) {
+        const index = weightedIndex(source, weights);
+        picked.push(items[index] as T);
+        if (!replacement) weights[index] = 0;
+    }
+    return picked;
+}
@@ -0,0 +1,249 @@
+/**
+ * Exact Rational Arithmetic
+ *
+ * Arbitrary-precision fractions on BigInt for the calculate tool. Values
+ * stay exact through + - * / and integer powers; operations with no exact
+ * result (trig, logs, irrational roots) fall back to floating point, so a
+ * Scalar is either a Rational or a plain number.
+ */
+
+/** Results larger than this many bits are approximated instead */
+const MAX_EXACT_BITS = 100_000;
+
+function abs(n: bigint): bigint {
+    return n < 0n ? -n : n;
+}
+
+function gcd(a: bigint, b: bigint): bigint {
+    a = abs(a);
+    b = abs(b);
+    while (b !== 0n) [a, b] = [b, a % b];
+    return a;
+}
+
+export function bitLength(n: bigint): number {
+    return abs(n).toString(2).length;
+}
+
+/**
+ * Exact integer k-th root of a non-negative integer, or null
+ */
+function exactRoot(n: bigint, k: number): bigint | null {
+    if (n < 2n) return n;
+    const K = BigInt(k);
+    // Newton's method from an upper bound
+    let x = 1n << BigInt(Math.ceil(bitLength(n) / k));
+    while (true) {
+        const next = ((K - 1n) * x + n / x ** (K - 1n)) / K;
+        if (next >= x) break;
+        x = next;
+    }
+    return x ** K === n ? x : null;
+}
+
+export class Rational {
+    readonly num: bigint;
+    readonly den: bigint;
+
+    constructor(num: bigint, den: bigint = 1n) {
+        if (den === 0n) throw new RangeError("Zero denominator");
+        if (den < 0n) {
+            num = -num;
+            den = -den;
+        }
+        const divisor = gcd(num, den) || 1n;
+        this.num = num / divisor;
+        this.den = den / divisor;
+    }
+
+    static readonly ZERO = new Rational(0n);
+    static readonly ONE = new Rational(1n);
+
+    static fromInt(n: number): Rational {
+        return new Rational(BigInt(n));
+    }
+
+    /**
+     * Parse a decimal literal ("12", "0.1", "1.5e-3") exactly
+     */
+    static parse(text: string): Rational {
+        const match = /^(\d*)(?:\.(\d*))?(?:[eE]([+-]?\d+))?$/.exec(text);
+        if (!match) throw new SyntaxError(`Invalid number '${text}'`);
+        const [, whole = "", fraction = "", exponent = "0"] = match;
+        const shift = Number(exponent) - fraction.length;
+        const digits = BigInt(`${whole}${fraction}` || "0");
+        if (Math.abs(shift) > 10_000) throw new RangeError(`Number '${text}' is out of range`);
+        return shift >= 0
+            ? new Rational(digits * 10n ** BigInt(shift))
+            : new Rational(digits, 10n ** BigInt(-shift));
+    }
+
+    /**
+     * Exact value of a finite float (0.1 becomes 1/10, not its binary expansion)
+     */
+    static fromNumber(n: number): Rational {
+        if (!Number.isFinite(n)) throw new RangeError("Not a finite number");
+        const text = Math.abs(n).toString();
+        const value = Rational.parse(text);
+        return n < 0 ? value.neg() : value;
+    }
+
+    isZero(): boolean {
+        return this.num === 0n;
+    }
+
+    isInteger(): boolean {
+        return this.den === 1n;
+    }
+
+    sign(): number {
+        return this.num === 0n ? 0 : this.num < 0n ? -1 : 1;
+    }
+
+    neg(): Rational {
+        return new Rational(-this.num, this.den);
+    }
+
+    add(other: Rational): Rational {
+        return new Rational(this.num * other.den + other.num * this.den, this.den * other.den);
+    }
+
+    sub(other: Rational): Rational {
+        return this.add(other.neg());
+    }
+
+    mul(other: Rational): Rational {
+        return new Rational(this.num * other.num, this.den * other.den);
+    }
+
+    div(other: Rational): Rational {
+        return new Rational(this.num * other.den, this.den * other.num);
+    }
+
+    floor(): Rational {
+        const q = this.num / this.den;
+        return new Rational(this.num < 0n && q * this.den !== this.num ? q - 1n : q);
+    }
+
+    compare(other: Rational): number {
+        return this.sub(other).sign();
+    }
+
+    /**
+     * Exact power, or null when the result is irrational or too large
+     */
+    pow(exponent: Rational): Rational | null {
+        if (exponent.isZero()) return Rational.ONE;
+        if (this.isZero()) return exponent.sign() > 0 ? Rational.ZERO : null;
+        if (exponent.den > 3n) return null;
+
+        const root = exponent.den === 1n ? this : this.root(Number(exponent.den));
+        if (!root) return null;
+
+        const power = abs(exponent.num);
+        const bits = Math.max(bitLength(root.num), bitLength(root.den));
+        if (bits * Number(power) > MAX_EXACT_BITS) return null;
+
+        const result = new Rational(root.num ** power, root.den ** power);
+        return exponent.sign() < 0 ? Rational.ONE.div(result) : result;
+    }
+
+    /**
+     * Exact k-th root, or null when it is irrational (or imaginary)
+     */
+    root(k: number): Rational | null {
+        if (this.num < 0n) {
+            if (k % 2 === 0) return null;
+            return this.neg().root(k)?.neg() ?? null;
+        }
+        const num = exactRoot(this.num, k);
+        const den = exactRoot(this.den, k);
+        return num !== null && den !== null ? new Rational(num, den) : null;
+    }
+
+    toNumber(): number {
+        // Scale both parts down together so huge fractions don't become Infinity/Infinity
+        const shift = Math.max(0, Math.max(bitLength(this.num), bitLength(this.den)) - 1000);
+        if (shift === 0) return Number(this.num) / Number(this.den);
+        const s = BigInt(shift);
+        return Number(this.num >> s) / Number(this.den >> s);
+    }
+
+    /**
+     * Decimal rounded to `places` digits (half away from zero), trailing zeros
+     * dropped; the integer part is exact however large it is
+     */
+    toDecimal(places: number): string {
+        const scale = 10n ** BigInt(places);
+        const scaled = (abs(this.num) * scale * 2n + this.den) / (this.den * 2n);
+        const whole = (scaled / scale).toString();
+        const fraction = (scaled % scale).toString().padStart(places, "0").replace(/0+$/, "");
+        const sign = this.num < 0n && scaled !== 0n ? "-" : "";
+        return `${sign}${whole}${fraction ? `.${fraction}` : ""}`;
+    }
+
+    /** "3", "-1/3" */
+    toString(): string {
+        return this.isInteger() ? this.num.toString() : `${this.num}/${this.den}`;
+    }
+
+    /**
+     * Whether the result is small enough to keep exact
+     */
+    isManageable(): boolean {
+        return bitLength(this.num) + bitLength(this.den) <= MAX_EXACT_BITS;
+    }
+}
+
+// ============================================================================
+// Scalars
+// ============================================================================
+
+/** Exact value, or a float once exactness is lost */
+export type Scalar = Rational | number;
+
+export function toNumber(value: Scalar): number {
+    return value instanceof Rational ? value.toNumber() : value;
+}
+
+function exact(value: Rational): Scalar {
+    return value.isManageable() ? value : value.toNumber();
+}
+
+export function add(a: Scalar, b: Scalar): Scalar {
+    return a instanceof Rational && b instanceof Rational ? exact(a.add(b)) : toNumber(a) + toNumber(b);
+}
+
+export function sub(a: Scalar, b: Scalar): Scalar {
+    return a instanceof Rational && b instanceof Rational ? exact(a.sub(b)) : toNumber(a) - toNumber(b);
+}
+
+export function mul(a: Scalar, b: Scalar): Scalar {
+    return a instanceof Rational && b instanceof Rational ? exact(a.mul(b)) : toNumber(a) * toNumber(b);
+}
+
+/** Division by an exact zero yields Infinity/NaN like float division */
+export function div(a: Scalar, b: Scalar): Scalar {
+    if (a instanceof Rational && b instanceof Rational && !b.isZero()) return exact(a.div(b));
+    return toNumber(a) / toNumber(b);
+}
+
+export function pow(a: Scalar, b: Scalar): Scalar {
+    if (a instanceof Rational && b instanceof Rational) {
+        const result = a.pow(b);
+        if (result) return result;
+    }
+    return Math.pow(toNumber(a), toNumber(b));
+}
+
+export function neg(a: Scalar): Scalar {
+    return a instanceof Rational ? a.neg() : -a;
+}
+
+export function absolute(a: Scalar): Scalar {
+    return a instanceof Rational ? (a.sign() < 0 ? a.neg() : a) : Math.abs(a);
+}
+
+export function isZero(a: Scalar): boolean {
+    return a instanceof Rational ? a.isZero() : a === 0;
+}
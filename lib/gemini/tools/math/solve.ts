@@ -0,0 +1,271 @@
+/**
+ * Equation Solving
+ *
+ * Solves "left = right" for one unknown. Linear and quadratic equations are
+ * recognised by sampling left - right at a few exact points and solved in
+ * closed form (exactly where the roots are rational); anything else is
+ * solved numerically: a sign-change scan over [-1e6, 1e6] brackets every
+ * root that crosses zero (refined by bisection), and Newton's method from a
+ * few starting points catches roots that only touch it.
+ */
+
+import * as S from "./rational";
+import { Rational, type Scalar } from "./rational";
+import { CONSTANTS, evaluate, isBuiltinName, type EvaluationContext } from "./evaluate";
+import { namesIn, type Node } from "./parser";
+import { findUnit } from "./units";
+
+export type SolveMethod = "linear" | "quadratic" | "numeric";
+
+export interface Solution {
+    variable: string;
+    /** Real roots in ascending order */
+    values: Scalar[];
+    method: SolveMethod;
+    /** Set when there are more roots than returned (e.g. a periodic function) */
+    partial?: boolean;
+}
+
+const NEWTON_STARTS = [0, 1, -1, 10, -10, 100, -100, 0.5];
+const NEWTON_ITERATIONS = 100;
+const BISECTION_ITERATIONS = 200;
+/** Scan step near the origin, and how far the scan reaches (growing geometrically past ±SCAN_DENSE) */
+const SCAN_STEP = 0.05;
+const SCAN_DENSE = 10;
+const SCAN_LIMIT = 1e6;
+const SCAN_GROWTH = 1.05;
+const TOLERANCE = 1e-9;
+/** Roots returned at most, the ones closest to zero */
+const MAX_ROOTS = 10;
+
+/**
+ * Pick the unknown: the requested variable, else the one unassigned name
+ * that isn't a constant or unit, else a lone unit name ("2t = 6")
+ */
+export function findUnknown(left: Node, right: Node, context: EvaluationContext, requested?: string): string {
+    const names = [...namesIn(right, namesIn(left))];
+    if (requested) {
+        if (!names.includes(requested)) throw new Error(`The equation does not contain '${requested}'`);
+        return requested;
+    }
+
+    const free = names.filter((name) => !context.variables.has(name) && !(name in CONSTANTS));
+    const unknowns = free.filter((name) => !isBuiltinName(name));
+    if (unknowns.length === 1) return unknowns[0] as string;
+    if (unknowns.length > 1) {
+        throw new Error(`The equation has several unknowns (${unknowns.join(", ")}); say which variable to solve for`);
+    }
+
+    const units = free.filter((name) => findUnit(name));
+    if (units.length === 1) return units[0] as string;
+    throw new Error("The equation has no unknown to solve for");
+}
+
+/**
+ * left - right with the unknown set to x, in left's units
+ */
+function residual(left: Node, right: Node, context: EvaluationContext, variable: string, x: Scalar): Scalar {
+    const variables = new Map(context.variables).set(variable, { value: x, units: {} });
+    const scope = { ...context, variables };
+    const difference = evaluate({ kind: "binary", op: "-", left, right }, scope);
+    return difference.value;
+}
+
+function isRoot(value: Scalar): boolean {
+    return value instanceof Rational ? value.isZero() : Math.abs(value) < TOLERANCE;
+}
+
+/**
+ * Closed-form roots when the residual is exactly linear or quadratic
+ */
+function solvePolynomial(f: (x: Scalar) => Scalar): { values: Scalar[]; method: SolveMethod } | null {
+    let samples: Rational[];
+    try {
+        const values = [0, 1, 2, 3, 4].map((x) => f(Rational.fromInt(x)));
+        if (!values.every((v): v is Rational => v instanceof Rational)) return null;
+        samples = values;
+    } catch {
+        return null;
+    }
+
+    const differences = (values: Rational[]) => values.slice(1).map((v, i) => v.sub(values[i] as Rational));
+    const d1 = differences(samples);
+    const d2 = differences(d1);
+    const d3 = differences(d2);
+    const [s0, s1] = samples as [Rational, Rational];
+
+    if (d1.every((d) => d.isZero())) {
+        throw new Error(s0.isZero()
+            ? "The equation holds for every value"
+            : "The equation has no solution");
+    }
+
+    if (d2.every((d) => d.isZero())) {
+        return { values: [s0.neg().div(s1.sub(s0))], method: "linear" };
+    }
+
+    if (d3.every((d) => d.isZero())) {
+        // f(x) = ax^2 + bx + c
+        const a = (d2[0] as Rational).div(Rational.fromInt(2));
+        const b = s1.sub(s0).sub(a);
+        const c = s0;
+        const discriminant = b.mul(b).sub(Rational.fromInt(4).mul(a).mul(c));
+        if (discriminant.sign() < 0) throw new Error("The equation has no real solution");
+
+        const twoA = a.mul(Rational.fromInt(2));
+        if (discriminant.isZero()) return { values: [b.neg().div(twoA)], method: "quadratic" };
+
+        const root = discriminant.root(2) ?? Math.sqrt(discriminant.toNumber());
+        const roots = [S.div(S.sub(b.neg(), root), twoA), S.div(S.add(b.neg(), root), twoA)];
+        return { values: roots.sort((x, y) => S.toNumber(x) - S.toNumber(y)), method: "quadratic" };
+    }
+
+    return null;
+}
+
+/**
+ * Points the sign-change scan samples, in ascending order
+ */
+function scanPoints(): number[] {
+    const dense: number[] = [];
+    for (let i = 1; i * SCAN_STEP < SCAN_DENSE; i++) dense.push(i * SCAN_STEP);
+    const sparse: number[] = [];
+    for (let x = SCAN_DENSE; x < SCAN_LIMIT; x *= SCAN_GROWTH) sparse.push(x);
+    const positive = [...dense, ...sparse, SCAN_LIMIT];
+    return [...positive.map((x) => -x).reverse(), 0, ...positive];
+}
+
+const SCAN_POINTS = scanPoints();
+
+/**
+ * Narrow [a, b], where f changes sign, down to the crossing; null when the
+ * sign change is a pole or jump rather than a root
+ */
+function bisect(f: (x: number) => number, a: number, b: number, fa: number, fb: number): number | null {
+    let lo = a;
+    let hi = b;
+    let flo = fa;
+    for (let i = 0; i < BISECTION_ITERATIONS; i++) {
+        const mid = lo + (hi - lo) / 2;
+        if (mid <= lo || mid >= hi) break;
+        const fmid = f(mid);
+        if (fmid === 0) return mid;
+        if (Math.sign(fmid) === Math.sign(flo)) {
+            lo = mid;
+            flo = fmid;
+        } else {
+            hi = mid;
+        }
+    }
+    const x = Math.abs(flo) <= Math.abs(f(hi)) ? lo : hi;
+    // Across a pole or a jump |f| stays large as the interval shrinks
+    return Math.abs(f(x)) < TOLERANCE * Math.max(1, Math.abs(fa), Math.abs(fb)) ? x : null;
+}
+
+/**
+ * Roots where f crosses zero between neighbouring scan points (or hits it exactly)
+ */
+function scanRoots(f: (x: number) => number): number[] {
+    const roots: number[] = [];
+    let previous: { x: number; fx: number } | null = null;
+    for (const x of SCAN_POINTS) {
+        const fx = f(x);
+        if (!Number.isFinite(fx)) {
+            previous = null;
+            continue;
+        }
+        if (fx === 0) {
+            roots.push(x);
+        } else if (previous && previous.fx !== 0 && Math.sign(previous.fx) !== Math.sign(fx)) {
+            const root = bisect(f, previous.x, x, previous.fx, fx);
+            if (root !== null) roots.push(root);
+        }
+        previous = { x, fx };
+    }
+    return roots;
+}
+
+/**
+ * Roots found by Newton's method with a numeric derivative
+ */
+function newtonRoots(f: (x: number) => number): number[] {
+    const roots: number[] = [];
+    for (const start of NEWTON_STARTS) {
+        let x = start;
+        for (let i = 0; i < NEWTON_ITERATIONS; i++) {
+            const fx = f(x);
+            if (!Number.isFinite(fx)) break;
+            if (Math.abs(fx) < 1e-12) {
+                roots.push(x);
+                break;
+            }
+            const h = 1e-7 * Math.max(1, Math.abs(x));
+            const slope = (f(x + h) - f(x - h)) / (2 * h);
+            if (!Number.isFinite(slope) || slope === 0) break;
+
+            const next = x - fx / slope;
+            if (Math.abs(next - x) < 1e-12 * Math.max(1, Math.abs(x))) {
+                if (Math.abs(f(next)) < TOLERANCE) roots.push(next);
+                break;
+            }
+            x = next;
+        }
+    }
+    return roots;
+}
+
+/**
+ * Real roots, from the sign-change scan plus Newton's method, at most
+ * MAX_ROOTS of them
+ */
+function solveNumeric(f: (x: number) => number): { roots: number[]; partial: boolean } {
+    let lastError: unknown = null;
+    // Points outside the domain (log of a negative, ...) count as gaps in the curve
+    const safe = (x: number) => {
+        try {
+            return f(x);
+        } catch (error) {
+            lastError = error;
+            return NaN;
+        }
+    };
+
+    const found = [...scanRoots(safe), ...newtonRoots(safe)];
+    if (!found.length && lastError) throw lastError;
+
+    // Newton converges slowly on repeated roots, so copies of one root can sit
+    // ~1e-6 apart; keep the best of each cluster
+    const residual = (x: number) => Math.abs(safe(x));
+    const unique: number[] = [];
+    for (const root of found.sort((a, b) => a - b)) {
+        const snapped = Math.abs(root - Math.round(root)) < 1e-9 ? Math.round(root) + 0 : root;
+        const previous = unique[unique.length - 1];
+        if (previous === undefined || Math.abs(snapped - previous) > 1e-5 * Math.max(1, Math.abs(snapped))) {
+            unique.push(snapped);
+        } else if (residual(snapped) < residual(previous)) {
+            unique[unique.length - 1] = snapped;
+        }
+    }
+
+    if (unique.length <= MAX_ROOTS) return { roots: unique, partial: false };
+    const nearest = [...unique].sort((a, b) => Math.abs(a) - Math.abs(b)).slice(0, MAX_ROOTS);
+    return { roots: nearest.sort((a, b) => a - b), partial: true };
+}
+
+/**
+ * Solve `left = right` for `variable`
+ */
+export function solveEquation(left: Node, right: Node, context: EvaluationContext, variable: string): Solution {
+    const f = (x: Scalar) => residual(left, right, context, variable, x);
+
+    const polynomial = solvePolynomial(f);
+    if (polynomial && polynomial.values.every((value) => isRoot(f(value)))) {
+        return { variable, ...polynomial };
+    }
+
+    const { roots, partial } = solveNumeric((x) => S.toNumber(f(x)));
+    const values = roots
+        .map((x): Scalar => (Number.isInteger(x) && isRoot(f(Rational.fromInt(x))) ? Rational.fromInt(x) : x));
+    if (!values.length) throw new Error(`Could not find a solution for ${variable}`);
+    return { variable, values, method: "numeric", ...(partial && { partial }) };
+}
@@ -0,0 +1,164 @@
+/**
+ * Calculator Units
+ *
+ * Unit table for unit-aware arithmetic in the calculate tool. Every unit is
+ * an exact factor times a product of base dimensions, so "5 km + 300 m" or
+ * "100 km / 2 h to m/s" can be checked and converted without rounding.
+ */
+
+import { Rational } from "./rational";
+
+export type BaseDimension = "length" | "mass" | "time" | "data";
+
+/** Exponent per base dimension; missing entries are 0 */
+export type Dimension = Partial<Record<BaseDimension, number>>;
+
+export interface UnitDefinition {
+    symbol: string;
+    /** Size in base units (m, kg, s, B) */
+    factor: Rational;
+    dimension: Dimension;
+}
+
+/** Unit symbol -> exponent, e.g. { km: 1, h: -1 } */
+export type UnitMap = Record<string, number>;
+
+const UNIT_TABLE: Array<[symbol: string, factor: string, dimension: Dimension, aliases: string[]]> = [
+    // Length (base: meter)
+    ["m", "1", { length: 1 }, ["meter", "meters", "metre", "metres"]],
+    ["km", "1000", { length: 1 }, ["kilometer", "kilometers", "kilometre", "kilometres"]],
+    ["cm", "0.01", { length: 1 }, ["centimeter", "centimeters"]],
+    ["mm", "0.001", { length: 1 }, ["millimeter", "millimeters"]],
+    ["mi", "1609.344", { length: 1 }, ["mile", "miles"]],
+    ["yd", "0.9144", { length: 1 }, ["yard", "yards"]],
+    ["ft", "0.3048", { length: 1 }, ["foot", "feet"]],
+    ["in", "0.0254", { length: 1 }, ["inch", "inches"]],
+    // Volume
+    ["L", "0.001", { length: 3 }, ["liter", "liters", "litre", "litres"]],
+    ["mL", "0.000001", { length: 3 }, ["ml", "milliliter", "milliliters"]],
+    // Mass (base: kilogram)
+    ["kg", "1", { mass: 1 }, ["kilogram", "kilograms"]],
+    ["g", "0.001", { mass: 1 }, ["gram", "grams"]],
+    ["mg", "0.000001", { mass: 1 }, ["milligram", "milligrams"]],
+    ["tonne", "1000", { mass: 1 }, ["tonnes"]],
+    ["lb", "0.45359237", { mass: 1 }, ["lbs", "pound", "pounds"]],
+    ["oz", "0.028349523125", { mass: 1 }, ["ounce", "ounces"]],
+    // Time (base: second)
+    ["s", "1", { time: 1 }, ["sec", "second", "seconds"]],
+    ["ms", "0.001", { time: 1 }, ["millisecond", "milliseconds"]],
+    ["min", "60", { time: 1 }, ["minute", "minutes"]],
+    ["h", "3600", { time: 1 }, ["hr", "hour", "hours"]],
+    ["day", "86400", { time: 1 }, ["days"]],
+    ["week", "604800", { time: 1 }, ["weeks"]],
+    // Data (base: byte, binary prefixes like the convert_units tool)
+    ["B", "1", { data: 1 }, ["byte", "bytes"]],
+    ["bit", "0.125", { data: 1 }, ["bits"]],
+    ["KB", "1024", { data: 1 }, ["kb", "kilobyte", "kilobytes"]],
+    ["MB", "1048576", { data: 1 }, ["mb", "megabyte", "megabytes"]],
+    ["GB", "1073741824", { data: 1 }, ["gb", "gigabyte", "gigabytes"]],
+    ["TB", "1099511627776", { data: 1 }, ["tb", "terabyte", "terabytes"]],
+];
+
+const UNITS = new Map<string, UnitDefinition>();
+for (const [symbol, factor, dimension, aliases] of UNIT_TABLE) {
+    const unit = { symbol, factor: Rational.parse(factor), dimension };
+    for (const name of [symbol, ...aliases]) UNITS.set(name, unit);
+}
+
+/**
+ * Look up a unit by symbol or name
+ */
+export function findUnit(name: string): UnitDefinition | undefined {
+    return UNITS.get(name);
+}
+
+function unitOf(symbol: string): UnitDefinition {
+    const unit = UNITS.get(symbol);
+    if (!unit) throw new Error(`Unknown unit '${symbol}'`);
+    return unit;
+}
+
+/**
+ * Combined dimension of a unit map
+ */
+export function dimensionOf(units: UnitMap): Dimension {
+    const result: Dimension = {};
+    for (const [symbol, exponent] of Object.entries(units)) {
+        for (const [dim, power] of Object.entries(unitOf(symbol).dimension) as Array<[BaseDimension, number]>) {
+            const total = (result[dim] ?? 0) + power * exponent;
+            if (total === 0) delete result[dim];
+            else result[dim] = total;
+        }
+    }
+    return result;
+}
+
+export function sameDimension(a: UnitMap, b: UnitMap): boolean {
+    const da = dimensionOf(a);
+    const db = dimensionOf(b);
+    const keys = new Set([...Object.keys(da), ...Object.keys(db)]) as Set<BaseDimension>;
+    return [...keys].every((key) => (da[key] ?? 0) === (db[key] ?? 0));
+}
+
+export function isDimensionless(units: UnitMap): boolean {
+    return Object.keys(dimensionOf(units)).length === 0;
+}
+
+/**
+ * Size of a unit map in base units
+ */
+export function factorOf(units: UnitMap): Rational {
+    let factor = Rational.ONE;
+    for (const [symbol, exponent] of Object.entries(units)) {
+        const power = unitOf(symbol).factor.pow(Rational.fromInt(exponent));
+        if (power) factor = factor.mul(power);
+    }
+    return factor;
+}
+
+/**
+ * Multiply unit maps (exponents add); zero exponents are dropped
+ */
+export function combineUnits(a: UnitMap, b: UnitMap, sign: 1 | -1 = 1): UnitMap {
+    const result: UnitMap = { ...a };
+    for (const [symbol, exponent] of Object.entries(b)) {
+        const total = (result[symbol] ?? 0) + sign * exponent;
+        if (total === 0) delete result[symbol];
+        else result[symbol] = total;
+    }
+    return result;
+}
+
+export function scaleUnits(units: UnitMap, power: number): UnitMap {
+    const result: UnitMap = {};
+    for (const [symbol, exponent] of Object.entries(units)) result[symbol] = exponent * power;
+    return result;
+}
+
+/**
+ * Symbols in `b` measuring the same single dimension as a different symbol
+ * in `a` (km vs m), mapped to the symbol in `a`
+ */
+export function matchingUnits(a: UnitMap, b: UnitMap): Map<string, string> {
+    const matches = new Map<string, string>();
+    for (const symbol of Object.keys(b)) {
+        if (symbol in a) continue;
+        const target = Object.keys(a).find((other) => sameDimension({ [other]: 1 }, { [symbol]: 1 }));
+        if (target) matches.set(symbol, target);
+    }
+    return matches;
+}
+
+/**
+ * "km/h", "m^2", "kg*m/s^2"
+ */
+export function formatUnits(units: UnitMap): string {
+    const part = (symbol: string, exponent: number) => (exponent === 1 ? symbol : `${symbol}^${exponent}`);
+    const entries = Object.entries(units);
+    const numerator = entries.filter(([, e]) => e > 0).map(([s, e]) => part(s, e));
+    const denominator = entries.filter(([, e]) => e < 0).map(([s, e]) => part(s, -e));
+
+    const top = numerator.join("*") || (denominator.length ? "1" : "");
+    if (!denominator.length) return top;
+    return `${top}/${denominator.length > 1 ? `(${denominator.join("*")})` : denominator[0]}`;
+}
@@ -0,0 +1,96 @@
+/**
+ * Tool Metrics
+ *
+ * In-process counters of tool calls, failures and timeouts per tool.
+ * Reset on server restart; exposed at GET /api/tools/metrics. Failures are
+ * kept as error codes only: messages can carry arguments, paths or
+ * upstream responses and the endpoint is public.
+ */
+
+import type { AppErrorCode } from "../../errors/index";
+import type { ToolExecutionResult } from "./types";
+
+export interface ToolStats {
+    calls: number;
+    failures: number;
+    timeouts: number;
+    totalDurationMs: number;
+    /** Code of the most recent failure */
+    lastErrorCode?: AppErrorCode | undefined;
+    /** ISO timestamp of the most recent failure */
+    lastFailureAt?: string | undefined;
+}
+
+export interface ToolStatsSnapshot extends ToolStats {
+    failureRate: number;
+    avgDurationMs: number;
+}
+
+export class ToolMetrics {
+    private readonly stats = new Map<string, ToolStats>();
+
+    /**
+     * Record one finished call
+     */
+    record(toolName: string, durationMs: number, result: ToolExecutionResult): void {
+        let entry = this.stats.get(toolName);
+        if (!entry) {
+            entry = { calls: 0, failures: 0, timeouts: 0, totalDurationMs: 0 };
+            this.stats.set(toolName, entry);
+        }
+
+        entry.calls++;
+        entry.totalDurationMs += durationMs;
+
+        if (!result.success) {
+            entry.failures++;
+            if (result.code === "TIMEOUT") entry.timeouts++;
+            entry.lastErrorCode = result.code ?? "TOOL_EXECUTION_FAILED";
+            entry.lastFailureAt = new Date().toISOString();
+        }
+    }
+
+    get(toolName: string): ToolStats | undefined {
+        const entry = this.stats.get(toolName);
+        return entry ? { ...entry } : undefined;
+    }
+
+    /**
+     * Per-tool stats with derived rates, keyed by tool name
+     */
+    snapshot(): Record<string, ToolStatsSnapshot> {
+        const result: Record<string, ToolStatsSnapshot> = {};
+        for (const [name, entry] of this.stats) {
+            result[name] = {
+                ...entry,
+                failureRate: entry.calls > 0 ? entry.failures / entry.calls : 0,
+                avgDurationMs: entry.calls > 0 ? Math.round(entry.totalDurationMs / entry.calls) : 0,
+            };
+        }
+        return result;
+    }
+
+    reset(): void {
+        this.stats.clear();
+    }
+}
+
+// Singleton instance
+let globalMetrics: ToolMetrics | null = null;
+
+/**
+ * Get the global tool metrics instance
+ */
+export function getToolMetrics(): ToolMetrics {
+    if (!globalMetrics) {
+        globalMetrics = new ToolMetrics();
+    }
+    return globalMetrics;
+}
+
+/**
+ * Reset tool metrics (for testing)
+ */
+export function resetToolMetrics(): void {
+    globalMetrics = null;
+}
@@ -1,21 +1,34 @@
 /**
  * Random Tool
  * 
- * Generate random numbers, UUIDs, passwords, and more.
+ * Generate random numbers, UUIDs, passwords, dice rolls, and more. With a
+ * `seed` every output except passwords is reproducible; passwords always
+ * come from the cryptographic RNG.
  */
 
 import { SchemaType, type FunctionDeclaration } from "@google/generative-ai";
 import type { ToolModule, ToolExecutionResult } from "./types";
+import { rollDice } from "./math/dice";
+import { cryptoRandom, randomInt, randomNormal, sample, seededRandom, shuffle, type RandomSource } from "./math/prng";
+
+const RANDOM_CONFIG = {
+    MAX_COUNT: 1000,
+    DEFAULT_PASSWORD_LENGTH: 16,
+    MAX_PASSWORD_LENGTH: 1024,
+    PASSWORD_CHARS: "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*",
+};
 
 export const declaration: FunctionDeclaration = {
     name: "generate_random",
-    description: "Generate random numbers, UUIDs, passwords, or pick random items from a list. Use for any randomization needs.",
+    description: "Generate random numbers, normally distributed values, UUIDs, passwords, dice rolls ('3d6+2'), or pick (optionally weighted) random items from a list. Use for any randomization needs. Pass a seed for reproducible results; passwords always use the cryptographic RNG.",
     parameters: {
         type: SchemaType.OBJECT,
         properties: {
             type: {
                 type: SchemaType.STRING,
-                description: "Type of random generation: number, uuid, password, choice, shuffle"
+                format: "enum",
+                enum: ["number", "normal", "uuid", "password", "choice", "shuffle", "dice"],
+                description: "Type of random generation"
             },
             min: {
                 type: SchemaType.NUMBER,
@@ -25,53 +38,175 @@ export const declaration: FunctionDeclaration = {
                 type: SchemaType.NUMBER,
                 description: "Maximum value for number generation"
             },
+            mean: {
+                type: SchemaType.NUMBER,
+                description: "Mean for 'normal' (default: 0)"
+            },
+            std_dev: {
+                type: SchemaType.NUMBER,
+                description: "Standard deviation for 'normal' (default: 1)"
+            },
             items: {
                 type: SchemaType.STRING,
                 description: "Comma-separated items for choice/shuffle operations"
             },
+            weights: {
+                type: SchemaType.ARRAY,
+                items: { type: SchemaType.NUMBER },
+                description: "Relative weight per item for 'choice', in the same order as items"
+            },
+            count: {
+                type: SchemaType.INTEGER,
+                description: "How many numbers, values or items to draw (default: 1, max 1000)"
+            },
+            replacement: {
+                type: SchemaType.BOOLEAN,
+                description: "Allow the same number or item more than once when drawing several (default: false)"
+            },
+            notation: {
+                type: SchemaType.STRING,
+                description: "Dice notation for 'dice', e.g. '3d6+2', 'd20', '4d6kh3' (keep highest 3)"
+            },
             length: {
                 type: SchemaType.NUMBER,
                 description: "Length for password generation (default: 16)"
+            },
+            seed: {
+                type: SchemaType.INTEGER,
+                description: "Seed for reproducible output; the same seed and arguments give the same result"
             }
         },
         required: ["type"]
     }
 };
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parseItems(value: unknown): string[] {
+    return String(value || "").split(",").map(s => s.trim()).filter(Boolean);
+}
+
+function parseCount(value: unknown): number | undefined {
+    if (value === undefined || value === null) return undefined;
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 1 || count > RANDOM_CONFIG.MAX_COUNT) {
+        throw new Error(`count must be an integer from 1 to ${RANDOM_CONFIG.MAX_COUNT}`);
+    }
+    return count;
+}
+
+/**
+ * `count` integers in [min, max], distinct unless `replacement` is set
+ */
+function drawIntegers(source: RandomSource, min: number, max: number, count: number, replacement: boolean): number[] {
+    if (replacement) return Array.from({ length: count }, () => randomInt(source, min, max));
+    if (count > max - min + 1) {
+        throw new Error(`Cannot draw ${count} distinct numbers from ${min}-${max}; set replacement to allow repeats`);
+    }
+    const seen = new Set<number>();
+    const values: number[] = [];
+    while (values.length < count) {
+        const value = randomInt(source, min, max);
+        if (seen.has(value)) continue;
+        seen.add(value);
+        values.push(value);
+    }
+    return values;
+}
+
+function randomUuid(source: RandomSource): string {
+    const bytes = Array.from({ length: 16 }, () => randomInt(source, 0, 255));
+    // Version 4, RFC 4122 variant
+    bytes[6] = ((bytes[6] ?? 0) & 0x0f) | 0x40;
+    bytes[8] = ((bytes[8] ?? 0) & 0x3f) | 0x80;
+    const hex = bytes.map((b) => b.toString(16).padStart(2, "0")).join("");
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
 export const handler = async (args: Record<string, unknown>): Promise<ToolExecutionResult> => {
     try {
         const type = String(args.type);
+        const seeded = args.seed !== undefined && args.seed !== null;
+        if (seeded && !Number.isInteger(args.seed)) throw new Error("seed must be an integer");
+        const source = seeded ? seededRandom(Number(args.seed)) : cryptoRandom;
+        const count = parseCount(args.count);
+        const replacement = args.replacement === true;
+        const seed = seeded ? { seed: args.seed } : {};
 
         switch (type) {
             case "number": {
-                const min = Number(args.min ?? 1);
-                const max = Number(args.max ?? 100);
-                const result = Math.floor(Math.random() * (max - min + 1)) + min;
-                return { success: true, result: { type: "number", value: result, range: { min, max } } };
+                const min = Math.ceil(Number(args.min ?? 1));
+                const max = Math.floor(Number(args.max ?? 100));
+                if (!Number.isFinite(min) || !Number.isFinite(max)) throw new Error("min and max must be numbers");
+                if (min > max) throw new Error(`No integers between min ${args.min} and max ${args.max}`);
+                const values = drawIntegers(source, min, max, count ?? 1, replacement);
+                const value = count === undefined ? { value: values[0] } : { values };
+                return { success: true, result: { type: "number", ...value, range: { min, max }, ...seed } };
+            }
+            case "normal": {
+                const mean = Number(args.mean ?? 0);
+                const stdDev = Number(args.std_dev ?? 1);
+                if (!Number.isFinite(mean)) throw new Error("mean must be a number");
+                if (!Number.isFinite(stdDev) || stdDev < 0) throw new Error("std_dev must be a non-negative number");
+                const values = Array.from({ length: count ?? 1 }, () => randomNormal(source, mean, stdDev));
+                const value = count === undefined ? { value: values[0] } : { values };
+                return { success: true, result: { type: "normal", ...value, mean, stdDev, ...seed } };
             }
             case "uuid": {
-                const uuid = crypto.randomUUID();
-                return { success: true, result: { type: "uuid", value: uuid } };
+                const uuids = Array.from({ length: count ?? 1 }, () => (seeded ? randomUuid(source) : crypto.randomUUID()));
+                const value = count === undefined ? { value: uuids[0] } : { values: uuids };
+                return { success: true, result: { type: "uuid", ...value, ...seed } };
             }
             case "password": {
-                const length = Number(args.length ?? 16);
-                const chars = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*";
+                const length = Number(args.length ?? RANDOM_CONFIG.DEFAULT_PASSWORD_LENGTH);
+                if (!Number.isInteger(length) || length < 1 || length > RANDOM_CONFIG.MAX_PASSWORD_LENGTH) {
+                    throw new Error(`length must be an integer from 1 to ${RANDOM_CONFIG.MAX_PASSWORD_LENGTH}`);
+                }
+                // Never seeded: a reproducible password is a guessable one
+                const chars = RANDOM_CONFIG.PASSWORD_CHARS;
                 let password = "";
                 for (let i = 0; i < length; i++) {
-                    password += chars[Math.floor(Math.random() * chars.length)];
+                    password += chars[randomInt(cryptoRandom, 0, chars.length - 1)];
                 }
-                return { success: true, result: { type: "password", value: password, length } };
+                return {
+                    success: true,
+                    result: {
+                        type: "password",
+                        value: password,
+                        length,
+                        ...(seeded && { note: "Passwords always use the cryptographic RNG; the seed was ignored" }),
+                    },
+                };
             }
             case "choice": {
-                const items = String(args.items || "").split(",").map(s => s.trim()).filter(Boolean);
+                const items = parseItems(args.items);
                 if (items.length === 0) throw new Error("No items provided");
-                const choice = items[Math.floor(Math.random() * items.length)];
-                return { success: true, result: { type: "choice", value: choice, from: items } };
+                let weights: number[] | undefined;
+                if (args.weights !== undefined) {
+                    weights = Array.isArray(args.weights) ? args.weights.map(Number) : [];
+                    if (weights.length !== items.length) {
+                        throw new Error(`Got ${weights.length} weights for ${items.length} items`);
+                    }
+                    if (weights.some((w) => !Number.isFinite(w) || w < 0)) throw new Error("Weights must be non-negative numbers");
+                }
+                const picked = sample(source, items, count ?? 1, { ...(weights && { weights }), replacement });
+                const value = count === undefined ? { value: picked[0] } : { values: picked };
+                return {
+                    success: true,
+                    result: { type: "choice", ...value, from: items, ...(weights && { weights }), ...seed },
+                };
             }
             case "shuffle": {
-                const items = String(args.items || "").split(",").map(s => s.trim()).filter(Boolean);
-                const shuffled = [...items].sort(() => Math.random() - 0.5);
-                return { success: true, result: { type: "shuffle", value: shuffled, original: items } };
+                const items = parseItems(args.items);
+                const shuffled = shuffle(source, items);
+                return { success: true, result: { type: "shuffle", value: shuffled, original: items, ...seed } };
+            }
+            case "dice": {
+                if (!args.notation) throw new Error("'dice' needs 'notation', e.g. 3d6+2");
+                const roll = rollDice(String(args.notation), source);
+                return { success: true, result: { type: "dice", ...roll, ...seed } };
             }
             default:
                 throw new Error(`Unknown random type: ${type}`);
@@ -81,5 +216,9 @@ export const handler = async (args: Record<string, unknown>): Promise<ToolExecut
     }
 };
 
-const randomTool: ToolModule = { declaration, handler };
+const randomTool: ToolModule = {
+    declaration,
+    handler,
+    metadata: { category: "utility", cost: "low", sideEffects: false }
+};
 export default randomTool;
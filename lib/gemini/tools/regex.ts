@@ -0,0 +1,95 @@
+/**
+ * Regex Test Tool
+ *
+ * Lets the model check a regular expression before presenting it: runs the
+ * pattern against sample inputs and reports matches, numbered and named
+ * groups, and replacement output. Matching happens in a worker with a time
+ * limit, so catastrophic backtracking comes back as an error.
+ */
+
+import { SchemaType, type FunctionDeclaration } from "@google/generative-ai";
+import type { ToolModule, ToolExecutionResult } from "./types";
+import { runRegex } from "./code/regex";
+
+const REGEX_CONFIG = {
+    TIME_LIMIT_MS: 1000,
+    MAX_INPUTS: 50,
+    MAX_INPUT_LENGTH: 100_000,
+    MAX_MATCHES_PER_INPUT: 100,
+    MAX_STRING_CHARS: 2000,
+    MAX_RESULT_CHARS: 100_000,
+    MEMORY_MB: 64,
+};
+
+export const declaration: FunctionDeclaration = {
+    name: "regex_test",
+    description: "Test a JavaScript regular expression against sample inputs before presenting it. Returns whether each input matches, every match with its index, numbered and named capture groups, and the output of an optional replacement (long strings are clipped with '…'). Patterns that take too long (catastrophic backtracking) fail with a timeout error.",
+    parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+            pattern: {
+                type: SchemaType.STRING,
+                description: "Regex source without slashes, e.g. '(?<year>\\d{4})-(?<month>\\d{2})'"
+            },
+            flags: {
+                type: SchemaType.STRING,
+                description: "Regex flags, any of d g i m s u v y (default: none; use 'g' to list every match)"
+            },
+            inputs: {
+                type: SchemaType.ARRAY,
+                items: { type: SchemaType.STRING },
+                description: "Sample strings to run the pattern on, including ones that should not match"
+            },
+            replacement: {
+                type: SchemaType.STRING,
+                description: "Replacement string ($1, $<name>, $& allowed); each input's replaced text is returned"
+            }
+        },
+        required: ["pattern", "inputs"]
+    }
+};
+
+export const handler = async (args: Record<string, unknown>, signal?: AbortSignal): Promise<ToolExecutionResult> => {
+    try {
+        const pattern = String(args.pattern ?? "");
+        const flags = String(args.flags ?? "");
+        const inputs = Array.isArray(args.inputs) ? args.inputs.map(String) : [];
+        if (inputs.length === 0) throw new Error("Provide at least one sample input");
+        if (inputs.length > REGEX_CONFIG.MAX_INPUTS) throw new Error(`At most ${REGEX_CONFIG.MAX_INPUTS} inputs per call`);
+        if (inputs.some((input) => input.length > REGEX_CONFIG.MAX_INPUT_LENGTH)) {
+            throw new Error(`Inputs are limited to ${REGEX_CONFIG.MAX_INPUT_LENGTH} characters`);
+        }
+
+        const results = await runRegex(
+            {
+                pattern,
+                flags,
+                inputs,
+                replacement: typeof args.replacement === "string" ? args.replacement : undefined,
+                maxMatches: REGEX_CONFIG.MAX_MATCHES_PER_INPUT,
+                maxStringChars: REGEX_CONFIG.MAX_STRING_CHARS,
+                maxResultChars: REGEX_CONFIG.MAX_RESULT_CHARS,
+            },
+            { timeoutMs: REGEX_CONFIG.TIME_LIMIT_MS, memoryMb: REGEX_CONFIG.MEMORY_MB, signal }
+        );
+
+        return {
+            success: true,
+            result: {
+                regex: `/${pattern}/${flags}`,
+                matchedInputs: results.filter((r) => r.matched).length,
+                totalInputs: results.length,
+                results,
+            }
+        };
+    } catch (error) {
+        return { success: false, result: null, error: error instanceof Error ? error.message : "Regex test failed" };
+    }
+};
+
+const regexTool: ToolModule = {
+    declaration,
+    handler,
+    metadata: { category: "code", cost: "low", sideEffects: false }
+};
+export default regexTool;
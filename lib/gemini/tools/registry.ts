@@ -0,0 +1,105 @@
+/**
+ * Tool Registry
+ *
+ * Runtime registry of tool modules. Tools can be added or removed while the
+ * server runs, and each request can be offered a filtered subset by name,
+ * category, cost or side effects.
+ */
+
+import type { FunctionDeclaration } from "@google/generative-ai";
+import type { ToolCategory, ToolCost, ToolHandler, ToolMetadata, ToolModule } from "./types";
+import { ValidationError } from "../../errors/index";
+
+const COST_RANK: Record<ToolCost, number> = { low: 0, medium: 1, high: 2 };
+
+/**
+ * Criteria for selecting tools; omitted fields do not filter
+ */
+export interface ToolFilter {
+    /** Only these tool names (null = any) */
+    names?: string[] | null | undefined;
+    /** Only tools in these categories (null = any) */
+    categories?: ToolCategory[] | null | undefined;
+    /** Exclude tools that change state outside the conversation */
+    excludeSideEffects?: boolean | undefined;
+    /** Most expensive cost allowed */
+    maxCost?: ToolCost | undefined;
+}
+
+/**
+ * Public description of a registered tool
+ */
+export interface ToolInfo extends ToolMetadata {
+    name: string;
+    description: string;
+}
+
+export interface RegisterOptions {
+    /** Replace an existing tool with the same name instead of throwing */
+    replace?: boolean;
+}
+
+export class ToolRegistry {
+    private readonly tools = new Map<string, ToolModule>();
+
+    constructor(modules: ToolModule[] = []) {
+        for (const module of modules) this.register(module);
+    }
+
+    /**
+     * Add a tool; throws if the name is taken unless `replace` is set
+     */
+    register(module: ToolModule, options: RegisterOptions = {}): void {
+        const { name } = module.declaration;
+        if (this.tools.has(name) && !options.replace) {
+            throw new ValidationError(`Tool '${name}' is already registered`, "name");
+        }
+        this.tools.set(name, module);
+    }
+
+    /**
+     * Remove a tool; returns whether it was registered
+     */
+    unregister(name: string): boolean {
+        return this.tools.delete(name);
+    }
+
+    has(name: string): boolean {
+        return this.tools.has(name);
+    }
+
+    get(name: string): ToolModule | undefined {
+        return this.tools.get(name);
+    }
+
+    getHandler(name: string): ToolHandler | undefined {
+        return this.tools.get(name)?.handler;
+    }
+
+    /**
+     * Registered tools matching the filter, in registration order
+     */
+    list(filter: ToolFilter = {}): ToolInfo[] {
+        return this.select(filter).map(({ declaration, metadata }) => ({
+            name: declaration.name,
+            description: declaration.description ?? "",
+            ...metadata,
+        }));
+    }
+
+    /**
+     * Declarations to offer the model for the matching tools
+     */
+    getDeclarations(filter: ToolFilter = {}): FunctionDeclaration[] {
+        return this.select(filter).map((module) => module.declaration);
+    }
+
+    private select({ names, categories, excludeSideEffects, maxCost }: ToolFilter): ToolModule[] {
+        return [...this.tools.values()].filter(({ declaration, metadata }) =>
+            (!names || names.includes(declaration.name))
+            && (!categories || categories.includes(metadata.category))
+            && (!excludeSideEffects || !metadata.sideEffects)
+            && (!maxCost || COST_RANK[metadata.cost] <= COST_RANK[maxCost])
+        );
+    }
+}
@@ -0,0 +1,98 @@
+/**
+ * Run Code Tool
+ *
+ * Lets the model run small JavaScript snippets it writes and see their
+ * console output and result. Snippets run in an isolated VM context in a
+ * separate process with time and memory limits and no filesystem access;
+ * console output is streamed to the client while the snippet runs. Each
+ * run needs the user's approval.
+ */
+
+import { SchemaType, type FunctionDeclaration } from "@google/generative-ai";
+import type { ToolModule, ToolExecutionResult, ToolOutputListener } from "./types";
+import { runSandboxed } from "./code/sandbox";
+
+const SANDBOX_CONFIG = {
+    DEFAULT_TIMEOUT_MS: 2000,
+    MAX_TIMEOUT_MS: 10_000,
+    MEMORY_MB: 64,
+    MAX_CODE_LENGTH: 50_000,
+    MAX_OUTPUT_CHARS: 20_000,
+};
+
+export const declaration: FunctionDeclaration = {
+    name: "run_code",
+    description: "Run a JavaScript snippet and return its console output and the value of its last expression (awaited if it is a promise). Use it to check code, algorithms or calculations before presenting them. Runs in an isolated sandbox: only standard JavaScript built-ins and console are available; there is no require/import, eval, filesystem, network or timers (setTimeout), and runs are limited in time and memory.",
+    parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+            code: {
+                type: SchemaType.STRING,
+                description: "JavaScript source (a script, not a module); end with an expression to return its value"
+            },
+            timeout_ms: {
+                type: SchemaType.INTEGER,
+                description: "Time limit in milliseconds (default: 2000, max 10000)"
+            }
+        },
+        required: ["code"]
+    }
+};
+
+export const handler = async (
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+    onOutput?: ToolOutputListener
+): Promise<ToolExecutionResult> => {
+    try {
+        const code = String(args.code ?? "");
+        if (!code.trim()) throw new Error("No code provided");
+        if (code.length > SANDBOX_CONFIG.MAX_CODE_LENGTH) {
+            throw new Error(`Code is limited to ${SANDBOX_CONFIG.MAX_CODE_LENGTH} characters`);
+        }
+        const timeoutMs = args.timeout_ms === undefined
+            ? SANDBOX_CONFIG.DEFAULT_TIMEOUT_MS
+            : Number(args.timeout_ms);
+        if (!Number.isInteger(timeoutMs) || timeoutMs < 1 || timeoutMs > SANDBOX_CONFIG.MAX_TIMEOUT_MS) {
+            throw new Error(`timeout_ms must be an integer from 1 to ${SANDBOX_CONFIG.MAX_TIMEOUT_MS}`);
+        }
+
+        const run = await runSandboxed(code, {
+            timeoutMs,
+            memoryMb: SANDBOX_CONFIG.MEMORY_MB,
+            maxOutputChars: SANDBOX_CONFIG.MAX_OUTPUT_CHARS,
+            signal,
+            onOutput,
+        });
+
+        if (!run.ok) {
+            // The model needs the output that led up to the failure as well
+            const output = run.output ? `\nOutput before the error:\n${run.output}` : "";
+            return { success: false, result: null, error: `${run.error}${output}` };
+        }
+
+        return {
+            success: true,
+            result: {
+                output: run.output,
+                ...(run.outputTruncated && { outputTruncated: true }),
+                value: run.value,
+                valueType: run.valueType,
+                durationMs: run.durationMs,
+            }
+        };
+    } catch (error) {
+        return { success: false, result: null, error: error instanceof Error ? error.message : "Code execution failed" };
+    }
+};
+
+const sandboxTool: ToolModule = {
+    declaration,
+    handler,
+    // The sandbox process has no filesystem access, but nothing stops network
+    // access on Node 20, so every run is shown to the user first
+    metadata: { category: "code", cost: "medium", sideEffects: false, requiresApproval: true },
+    // Above the largest timeout_ms, leaving room for the worker to start
+    timeoutMs: SANDBOX_CONFIG.MAX_TIMEOUT_MS + 5000
+};
+export default sandboxTool;
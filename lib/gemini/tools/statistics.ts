@@ -0,0 +1,525 @@
+/**
+ * Statistics Tool
+ *
+ * Descriptive statistics over inline datasets: a list of numbers, a JSON
+ * array (numbers or objects) or CSV text with a header row. Results come
+ * back as small tables ({ columns, rows }) the model can quote directly.
+ */
+
+import { SchemaType, type FunctionDeclaration } from "@google/generative-ai";
+import type { ToolModule, ToolExecutionResult } from "./types";
+import { parseCsv } from "./data/csv";
+
+const STATS_CONFIG = {
+    MAX_INPUT_LENGTH: 200_000,
+    MAX_ROWS: 10_000,
+    MAX_BINS: 50,
+    DEFAULT_PERCENTILES: [25, 50, 75, 90, 95, 99],
+};
+
+export const declaration: FunctionDeclaration = {
+    name: "statistics",
+    description: "Compute statistics over a dataset given inline as a list of numbers ('3, 5, 8'), a JSON array of numbers or objects, or CSV with a header row. Operations: describe (count, mean, median, mode, std dev, quartiles per numeric column), percentiles, correlation (Pearson and Spearman), regression (least-squares line), group_by (count/sum/mean/min/max per group) and histogram. Use this for ANY data analysis instead of computing statistics by hand.",
+    parameters: {
+        type: SchemaType.OBJECT,
+        properties: {
+            data: {
+                type: SchemaType.STRING,
+                description: "The dataset: numbers separated by commas/whitespace/newlines, a JSON array, or CSV text with a header row"
+            },
+            operation: {
+                type: SchemaType.STRING,
+                format: "enum",
+                enum: ["describe", "percentiles", "correlation", "regression", "group_by", "histogram"],
+                description: "What to compute (default: describe)"
+            },
+            column: {
+                type: SchemaType.STRING,
+                description: "Numeric column to analyze (default: every numeric column for describe, else the first)"
+            },
+            x_column: {
+                type: SchemaType.STRING,
+                description: "Independent column for correlation/regression (default: first numeric column)"
+            },
+            y_column: {
+                type: SchemaType.STRING,
+                description: "Dependent column for correlation/regression (default: second numeric column)"
+            },
+            group_by: {
+                type: SchemaType.STRING,
+                description: "Column to group rows by (required for group_by)"
+            },
+            percentiles: {
+                type: SchemaType.ARRAY,
+                items: { type: SchemaType.NUMBER },
+                description: "Percentiles between 0 and 100 (default: 25, 50, 75, 90, 95, 99)"
+            },
+            bins: {
+                type: SchemaType.INTEGER,
+                description: "Histogram bin count (default: Sturges' rule)"
+            }
+        },
+        required: ["data"]
+    }
+};
+
+// ============================================================================
+// Datasets
+// ============================================================================
+
+type Cell = string | number | null;
+
+export interface Dataset {
+    columns: string[];
+    rows: Array<Record<string, Cell>>;
+}
+
+function toCell(value: unknown): Cell {
+    if (value === null || value === undefined || value === "") return null;
+    if (typeof value === "number") return Number.isFinite(value) ? value : null;
+    const text = String(value).trim();
+    if (!text) return null;
+    const n = Number(text);
+    return Number.isFinite(n) ? n : text;
+}
+
+function isNumericText(text: string): boolean {
+    return text.trim() !== "" && Number.isFinite(Number(text));
+}
+
+function fromJson(value: unknown): Dataset {
+    if (!Array.isArray(value)) throw new Error("JSON data must be an array");
+
+    if (value.every((item) => typeof item !== "object" || item === null)) {
+        return { columns: ["value"], rows: value.map((item) => ({ value: toCell(item) })) };
+    }
+
+    const columns: string[] = [];
+    const rows = value.map((item, index) => {
+        if (typeof item !== "object" || item === null || Array.isArray(item)) {
+            throw new Error(`JSON row ${index + 1} is not an object`);
+        }
+        const row: Record<string, Cell> = {};
+        for (const [key, cell] of Object.entries(item)) {
+            if (!columns.includes(key)) columns.push(key);
+            row[key] = toCell(cell);
+        }
+        return row;
+    });
+    return { columns, rows };
+}
+
+function fromCsv(text: string): Dataset {
+    const lines = parseCsv(text);
+    const [header = [], ...body] = lines;
+
+    if (lines.every((line) => line.every(isNumericText))) {
+        // A bare list of numbers: "1, 2, 3" or one number per line
+        if (lines.length === 1 || header.length === 1) {
+            return { columns: ["value"], rows: lines.flat().map((cell) => ({ value: toCell(cell) })) };
+        }
+        // Numeric rows without a header
+        const columns = header.map((_, i) => `column${i + 1}`);
+        return { columns, rows: lines.map((line) => Object.fromEntries(columns.map((c, i) => [c, toCell(line[i])]))) };
+    }
+
+    const columns = header.map((name, i) => name.trim() || `column${i + 1}`);
+    const rows = body.map((line) => Object.fromEntries(columns.map((column, i) => [column, toCell(line[i])])));
+    return { columns, rows };
+}
+
+/**
+ * Parse inline data: JSON array, CSV with a header row, or a list of numbers
+ */
+export function parseDataset(data: string): Dataset {
+    const text = data.trim();
+    if (!text) throw new Error("No data provided");
+    if (text.length > STATS_CONFIG.MAX_INPUT_LENGTH) {
+        throw new Error(`Data is longer than ${STATS_CONFIG.MAX_INPUT_LENGTH} characters`);
+    }
+
+    let dataset: Dataset;
+    if (text.startsWith("[")) {
+        let json: unknown;
+        try {
+            json = JSON.parse(text);
+        } catch {
+            throw new Error("Data looks like JSON but could not be parsed");
+        }
+        dataset = fromJson(json);
+    } else if (!/[\n,;\t]/.test(text) || /^[-+.\d\s eE]+$/.test(text)) {
+        // Whitespace-separated numbers
+        dataset = fromCsv(text.split(/\s+/).join("\n"));
+    } else {
+        dataset = fromCsv(text);
+    }
+
+    if (!dataset.rows.length) throw new Error("The dataset has no rows");
+    if (dataset.rows.length > STATS_CONFIG.MAX_ROWS) {
+        throw new Error(`The dataset has more than ${STATS_CONFIG.MAX_ROWS} rows`);
+    }
+    return dataset;
+}
+
+function numericColumns(dataset: Dataset): string[] {
+    return dataset.columns.filter((column) =>
+        dataset.rows.some((row) => typeof row[column] === "number")
+        && dataset.rows.every((row) => row[column] === null || row[column] === undefined || typeof row[column] === "number"));
+}
+
+function requireColumn(dataset: Dataset, column: string): string {
+    if (!dataset.columns.includes(column)) {
+        throw new Error(`Unknown column '${column}' (columns: ${dataset.columns.join(", ")})`);
+    }
+    return column;
+}
+
+function pickNumeric(dataset: Dataset, requested: unknown, index = 0): string {
+    if (typeof requested === "string" && requested) {
+        const column = requireColumn(dataset, requested);
+        if (!numericColumns(dataset).includes(column)) throw new Error(`Column '${column}' is not numeric`);
+        return column;
+    }
+    const column = numericColumns(dataset)[index];
+    if (!column) throw new Error(index === 0 ? "The dataset has no numeric column" : "The dataset needs two numeric columns");
+    return column;
+}
+
+function valuesOf(dataset: Dataset, column: string): number[] {
+    return dataset.rows.map((row) => row[column]).filter((v): v is number => typeof v === "number");
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+/** Rounds away floating point noise for display */
+function round(value: number): number {
+    return Number.isFinite(value) ? Number(value.toPrecision(12)) : value;
+}
+
+function sum(values: number[]): number {
+    return values.reduce((total, v) => total + v, 0);
+}
+
+function mean(values: number[]): number {
+    return sum(values) / values.length;
+}
+
+/**
+ * Percentile with linear interpolation between closest ranks
+ * (same as Excel PERCENTILE.INC and NumPy's default)
+ */
+function percentile(sorted: number[], p: number): number {
+    const position = (sorted.length - 1) * p / 100;
+    const lower = Math.floor(position);
+    const fraction = position - lower;
+    const low = sorted[lower] as number;
+    const high = sorted[Math.min(lower + 1, sorted.length - 1)] as number;
+    return low + (high - low) * fraction;
+}
+
+/** Sample variance (n - 1) */
+function variance(values: number[]): number {
+    if (values.length < 2) return 0;
+    const m = mean(values);
+    return sum(values.map((v) => (v - m) ** 2)) / (values.length - 1);
+}
+
+function modes(values: number[]): number[] {
+    const counts = new Map<number, number>();
+    for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+    const top = Math.max(...counts.values());
+    if (top === 1) return [];
+    return [...counts].filter(([, count]) => count === top).map(([value]) => value).sort((a, b) => a - b);
+}
+
+function describeColumn(values: number[], missing: number) {
+    if (!values.length) throw new Error("No numeric values to describe");
+    const sorted = [...values].sort((a, b) => a - b);
+    const q1 = percentile(sorted, 25);
+    const q3 = percentile(sorted, 75);
+    const min = sorted[0] as number;
+    const max = sorted[sorted.length - 1] as number;
+    const v = variance(values);
+
+    return {
+        count: values.length,
+        missing,
+        sum: round(sum(values)),
+        mean: round(mean(values)),
+        median: round(percentile(sorted, 50)),
+        mode: modes(values),
+        min,
+        max,
+        range: round(max - min),
+        variance: round(v),
+        stdDev: round(Math.sqrt(v)),
+        q1: round(q1),
+        q3: round(q3),
+        iqr: round(q3 - q1),
+    };
+}
+
+function pearson(xs: number[], ys: number[]): number {
+    const mx = mean(xs);
+    const my = mean(ys);
+    let sxy = 0;
+    let sxx = 0;
+    let syy = 0;
+    xs.forEach((x, i) => {
+        const dx = x - mx;
+        const dy = (ys[i] as number) - my;
+        sxy += dx * dy;
+        sxx += dx * dx;
+        syy += dy * dy;
+    });
+    if (sxx === 0 || syy === 0) throw new Error("Correlation is undefined when a column is constant");
+    return sxy / Math.sqrt(sxx * syy);
+}
+
+/** Ranks with ties sharing their average rank */
+function ranks(values: number[]): number[] {
+    const order = values.map((value, index) => ({ value, index })).sort((a, b) => a.value - b.value);
+    const result = new Array<number>(values.length);
+    for (let i = 0; i < order.length;) {
+        let j = i;
+        while (j + 1 < order.length && order[j + 1]?.value === order[i]?.value) j++;
+        for (let k = i; k <= j; k++) result[(order[k] as { index: number }).index] = (i + j) / 2 + 1;
+        i = j + 1;
+    }
+    return result;
+}
+
+/**
+ * Rows where both columns are numeric
+ */
+function pairs(dataset: Dataset, xColumn: string, yColumn: string): [number[], number[]] {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const row of dataset.rows) {
+        const x = row[xColumn];
+        const y = row[yColumn];
+        if (typeof x === "number" && typeof y === "number") {
+            xs.push(x);
+            ys.push(y);
+        }
+    }
+    if (xs.length < 3) throw new Error("At least 3 rows with both values are needed");
+    return [xs, ys];
+}
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+type Operation = (dataset: Dataset, args: Record<string, unknown>) => Record<string, unknown>;
+
+const describe: Operation = (dataset, args) => {
+    const columns = typeof args.column === "string" && args.column
+        ? [pickNumeric(dataset, args.column)]
+        : numericColumns(dataset);
+    if (!columns.length) throw new Error("The dataset has no numeric column");
+
+    const stats = columns.map((column) => {
+        const values = valuesOf(dataset, column);
+        return { column, ...describeColumn(values, dataset.rows.length - values.length) };
+    });
+    const keys = ["count", "mean", "median", "stdDev", "min", "q1", "q3", "max"] as const;
+
+    return {
+        statistics: stats.length === 1 ? stats[0] : stats,
+        table: {
+            columns: ["column", ...keys],
+            rows: stats.map((s) => [s.column, ...keys.map((key) => s[key])]),
+        },
+    };
+};
+
+const percentiles: Operation = (dataset, args) => {
+    const column = pickNumeric(dataset, args.column);
+    const requested = Array.isArray(args.percentiles) && args.percentiles.length
+        ? args.percentiles.map(Number)
+        : STATS_CONFIG.DEFAULT_PERCENTILES;
+    const invalid = requested.find((p) => !Number.isFinite(p) || p < 0 || p > 100);
+    if (invalid !== undefined) throw new Error(`Percentiles must be between 0 and 100 (got ${invalid})`);
+
+    const sorted = valuesOf(dataset, column).sort((a, b) => a - b);
+    if (!sorted.length) throw new Error(`Column '${column}' has no numeric values`);
+
+    return {
+        column,
+        count: sorted.length,
+        table: {
+            columns: ["percentile", "value"],
+            rows: requested.map((p) => [p, round(percentile(sorted, p))]),
+        },
+    };
+};
+
+const correlation: Operation = (dataset, args) => {
+    const hasPair = Boolean(args.x_column || args.y_column);
+    if (hasPair || numericColumns(dataset).length === 2) {
+        const x = pickNumeric(dataset, args.x_column, 0);
+        const y = pickNumeric(dataset, args.y_column, x === numericColumns(dataset)[1] ? 0 : 1);
+        const [xs, ys] = pairs(dataset, x, y);
+        return {
+            x,
+            y,
+            n: xs.length,
+            pearson: round(pearson(xs, ys)),
+            spearman: round(pearson(ranks(xs), ranks(ys))),
+        };
+    }
+
+    // Matrix over every numeric column
+    const columns = numericColumns(dataset);
+    if (columns.length < 2) throw new Error("The dataset needs two numeric columns");
+    return {
+        method: "pearson",
+        table: {
+            columns: ["column", ...columns],
+            rows: columns.map((a) => [a, ...columns.map((b) => (a === b ? 1 : round(pearson(...pairs(dataset, a, b)))))]),
+        },
+    };
+};
+
+const regression: Operation = (dataset, args) => {
+    const x = pickNumeric(dataset, args.x_column, 0);
+    const y = pickNumeric(dataset, args.y_column, x === numericColumns(dataset)[1] ? 0 : 1);
+    const [xs, ys] = pairs(dataset, x, y);
+
+    const mx = mean(xs);
+    const my = mean(ys);
+    const sxx = sum(xs.map((v) => (v - mx) ** 2));
+    if (sxx === 0) throw new Error(`Column '${x}' is constant; no line can be fitted`);
+    const slope = sum(xs.map((v, i) => (v - mx) * ((ys[i] as number) - my))) / sxx;
+    const intercept = my - slope * mx;
+
+    const residuals = xs.map((v, i) => (ys[i] as number) - (slope * v + intercept));
+    const ssRes = sum(residuals.map((r) => r * r));
+    const ssTot = sum(ys.map((v) => (v - my) ** 2));
+    const sign = intercept < 0 ? "-" : "+";
+
+    return {
+        x,
+        y,
+        n: xs.length,
+        slope: round(slope),
+        intercept: round(intercept),
+        rSquared: ssTot === 0 ? 1 : round(1 - ssRes / ssTot),
+        standardError: round(Math.sqrt(ssRes / (xs.length - 2))),
+        equation: `${y} = ${round(slope)} * ${x} ${sign} ${round(Math.abs(intercept))}`,
+    };
+};
+
+const groupBy: Operation = (dataset, args) => {
+    if (typeof args.group_by !== "string" || !args.group_by) throw new Error("group_by needs a 'group_by' column");
+    const key = requireColumn(dataset, args.group_by);
+    const column = typeof args.column === "string" && args.column
+        ? pickNumeric(dataset, args.column)
+        : numericColumns(dataset).find((c) => c !== key);
+    if (!column) throw new Error("The dataset has no numeric column to aggregate");
+
+    const groups = new Map<string, number[]>();
+    for (const row of dataset.rows) {
+        const group = String(row[key] ?? "(missing)");
+        const values = groups.get(group) ?? [];
+        const value = row[column];
+        if (typeof value === "number") values.push(value);
+        groups.set(group, values);
+    }
+
+    return {
+        groupBy: key,
+        column,
+        table: {
+            columns: [key, "count", "sum", "mean", "min", "max"],
+            rows: [...groups].map(([group, values]) => values.length
+                ? [group, values.length, round(sum(values)), round(mean(values)), Math.min(...values), Math.max(...values)]
+                : [group, 0, 0, null, null, null]),
+        },
+    };
+};
+
+const histogram: Operation = (dataset, args) => {
+    const column = pickNumeric(dataset, args.column);
+    const values = valuesOf(dataset, column);
+    if (!values.length) throw new Error(`Column '${column}' has no numeric values`);
+
+    const requested = Number(args.bins);
+    const bins = Math.min(
+        STATS_CONFIG.MAX_BINS,
+        Number.isInteger(requested) && requested > 0 ? requested : Math.ceil(Math.log2(values.length) + 1)
+    );
+    const min = Math.min(...values);
+    const max = Math.max(...values);
+    // Every value is the same: one bin, rather than a range the data doesn't have
+    if (min === max) {
+        return {
+            column,
+            count: values.length,
+            binWidth: 0,
+            table: { columns: ["from", "to", "count"], rows: [[round(min), round(max), values.length]] },
+        };
+    }
+    const width = (max - min) / bins;
+
+    const counts = new Array<number>(bins).fill(0);
+    for (const v of values) {
+        // The last bin includes the maximum
+        const index = Math.min(bins - 1, Math.floor((v - min) / width));
+        counts[index] = (counts[index] ?? 0) + 1;
+    }
+
+    return {
+        column,
+        count: values.length,
+        binWidth: round(width),
+        table: {
+            columns: ["from", "to", "count"],
+            rows: counts.map((count, i) => [round(min + i * width), round(min + (i + 1) * width), count]),
+        },
+    };
+};
+
+const OPERATIONS: Record<string, Operation> = {
+    describe,
+    percentiles,
+    correlation,
+    regression,
+    group_by: groupBy,
+    histogram,
+};
+
+export const handler = async (args: Record<string, unknown>): Promise<ToolExecutionResult> => {
+    try {
+        const operationName = String(args.operation || "describe");
+        const operation = OPERATIONS[operationName];
+        if (!operation) throw new Error(`Unknown operation: ${operationName}`);
+
+        const dataset = parseDataset(String(args.data ?? ""));
+
+        return {
+            success: true,
+            result: {
+                operation: operationName,
+                rows: dataset.rows.length,
+                ...operation(dataset, args),
+            }
+        };
+    } catch (error) {
+        return {
+            success: false,
+            result: null,
+            error: `Statistics failed: ${error instanceof Error ? error.message : "Unknown error"}`
+        };
+    }
+};
+
+const statisticsTool: ToolModule = {
+    declaration,
+    handler,
+    metadata: { category: "math", cost: "low", sideEffects: false }
+};
+export default statisticsTool;
@@ -0,0 +1,117 @@
+/**
+ * Word Diff
+ *
+ * Word-level diff of two texts from their longest common subsequence, plus
+ * a similarity ratio (2 × matching words / total words, as in difflib).
+ * Whitespace is not significant; punctuation stays attached to its word.
+ */
+
+export type DiffOp = "equal" | "insert" | "delete";
+
+export interface DiffChunk {
+    type: DiffOp;
+    text: string;
+    words: number;
+}
+
+export interface WordDiff {
+    similarity: number;
+    chunks: DiffChunk[];
+    wordsAdded: number;
+    wordsRemoved: number;
+    wordsUnchanged: number;
+}
+
+/** Largest side compared after trimming the common prefix and suffix */
+export const MAX_DIFF_WORDS = 3000;
+
+function splitTokens(text: string): string[] {
+    return text.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Edit script for the middle parts that differ (classic LCS table)
+ */
+function diffMiddle(a: string[], b: string[]): Array<[DiffOp, string]> {
+    const width = b.length + 1;
+    const table = new Uint16Array((a.length + 1) * width);
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            table[i * width + j] = a[i] === b[j]
+                ? (table[(i + 1) * width + j + 1] ?? 0) + 1
+                : Math.max(table[(i + 1) * width + j] ?? 0, table[i * width + j + 1] ?? 0);
+        }
+    }
+
+    const ops: Array<[DiffOp, string]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            ops.push(["equal", a[i] as string]);
+            i++;
+            j++;
+        } else if ((table[(i + 1) * width + j] ?? 0) >= (table[i * width + j + 1] ?? 0)) {
+            ops.push(["delete", a[i++] as string]);
+        } else {
+            ops.push(["insert", b[j++] as string]);
+        }
+    }
+    while (i < a.length) ops.push(["delete", a[i++] as string]);
+    while (j < b.length) ops.push(["insert", b[j++] as string]);
+    return ops;
+}
+
+export function diffWords(before: string, after: string): WordDiff {
+    const a = splitTokens(before);
+    const b = splitTokens(after);
+
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix
+        && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    const middleA = a.slice(prefix, a.length - suffix);
+    const middleB = b.slice(prefix, b.length - suffix);
+    if (Math.max(middleA.length, middleB.length) > MAX_DIFF_WORDS) {
+        throw new Error(`Texts differ in more than ${MAX_DIFF_WORDS} words; compare shorter passages`);
+    }
+
+    const ops: Array<[DiffOp, string]> = [
+        ...a.slice(0, prefix).map((word): [DiffOp, string] => ["equal", word]),
+        ...diffMiddle(middleA, middleB),
+        ...a.slice(a.length - suffix).map((word): [DiffOp, string] => ["equal", word]),
+    ];
+
+    const chunks: DiffChunk[] = [];
+    const totals: Record<DiffOp, number> = { equal: 0, insert: 0, delete: 0 };
+    for (const [type, word] of ops) {
+        totals[type]++;
+        const last = chunks[chunks.length - 1];
+        if (last?.type === type) {
+            last.text += ` ${word}`;
+            last.words++;
+        } else {
+            chunks.push({ type, text: word, words: 1 });
+        }
+    }
+
+    const total = a.length + b.length;
+    return {
+        similarity: total === 0 ? 1 : Math.round((2 * totals.equal / total) * 1000) / 1000,
+        chunks,
+        wordsAdded: totals.insert,
+        wordsRemoved: totals.delete,
+        wordsUnchanged: totals.equal,
+    };
+}
+
+/**
+ * One-line rendering: "the [-old-]{+new+} text"
+ */
+export function formatDiff(chunks: DiffChunk[]): string {
+    return chunks
+        .map((chunk) => (chunk.type === "equal" ? chunk.text : chunk.type === "delete" ? `[-${chunk.text}-]` : `{+${chunk.text}+}`))
+        .join(" ");
+}
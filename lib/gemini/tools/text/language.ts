@@ -0,0 +1,126 @@
+/**
+ * Language Detection
+ *
+ * Guesses the language from the Unicode scripts of its letters; Latin and
+ * Cyrillic text is narrowed down by how many of its words are stop words
+ * of each language. Short texts get low confidence.
+ */
+
+import { getStopWords, STOP_WORD_LANGUAGES, type StopWordLanguage } from "./stopwords";
+
+export interface LanguageGuess {
+    /** ISO 639-1 code, or "unknown" */
+    language: string;
+    name: string;
+    /** Dominant script of the letters */
+    script: string;
+    /** 0-1 */
+    confidence: number;
+    /** Share of letters per script */
+    scripts: Record<string, number>;
+}
+
+const SCRIPTS: Array<[name: string, pattern: RegExp]> = [
+    ["Latin", /\p{Script=Latin}/u],
+    ["Cyrillic", /\p{Script=Cyrillic}/u],
+    ["Greek", /\p{Script=Greek}/u],
+    ["Arabic", /\p{Script=Arabic}/u],
+    ["Hebrew", /\p{Script=Hebrew}/u],
+    ["Devanagari", /\p{Script=Devanagari}/u],
+    ["Thai", /\p{Script=Thai}/u],
+    ["Hangul", /\p{Script=Hangul}/u],
+    ["Hiragana", /\p{Script=Hiragana}/u],
+    ["Katakana", /\p{Script=Katakana}/u],
+    ["Han", /\p{Script=Han}/u],
+];
+
+const LANGUAGE_NAMES: Record<string, string> = {
+    en: "English", es: "Spanish", fr: "French", de: "German", it: "Italian", pt: "Portuguese", nl: "Dutch",
+    ru: "Russian", uk: "Ukrainian", el: "Greek", ar: "Arabic", he: "Hebrew", hi: "Hindi", th: "Thai",
+    ko: "Korean", ja: "Japanese", zh: "Chinese", unknown: "Unknown",
+};
+
+/** Scripts that (nearly) identify one language */
+const SCRIPT_LANGUAGES: Record<string, string> = {
+    Greek: "el", Arabic: "ar", Hebrew: "he", Devanagari: "hi", Thai: "th", Hangul: "ko",
+};
+
+/** Fewer letters than this give at most half confidence */
+const MIN_CONFIDENT_LETTERS = 40;
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+function countScripts(text: string): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const char of text) {
+        if (!/\p{L}/u.test(char)) continue;
+        const script = SCRIPTS.find(([, pattern]) => pattern.test(char))?.[0] ?? "Other";
+        counts.set(script, (counts.get(script) ?? 0) + 1);
+    }
+    return counts;
+}
+
+/**
+ * Best stop-word match among the candidate languages, with its share of words
+ */
+function scoreStopWords(words: string[], candidates: StopWordLanguage[]): { language: StopWordLanguage; score: number; runnerUp: number } | null {
+    if (!words.length) return null;
+    const scores = candidates
+        .map((language) => {
+            const stopWords = getStopWords(language);
+            return { language, score: words.filter((word) => stopWords.has(word)).length / words.length };
+        })
+        .sort((a, b) => b.score - a.score);
+    const [best, second] = scores;
+    if (!best || best.score === 0) return null;
+    return { ...best, runnerUp: second?.score ?? 0 };
+}
+
+export function detectLanguage(text: string, words: string[]): LanguageGuess {
+    const counts = countScripts(text);
+    const letters = [...counts.values()].reduce((sum, n) => sum + n, 0);
+    const scripts: Record<string, number> = {};
+    for (const [script, count] of [...counts].sort((a, b) => b[1] - a[1])) scripts[script] = round(count / letters);
+
+    const guess = (language: string, script: string, confidence: number): LanguageGuess => ({
+        language,
+        name: LANGUAGE_NAMES[language] ?? language,
+        script,
+        confidence: round(letters < MIN_CONFIDENT_LETTERS ? Math.min(confidence, 0.5) : confidence),
+        scripts,
+    });
+
+    if (!letters) return guess("unknown", "None", 0);
+
+    // Japanese mixes Han with kana; count them together
+    const kana = (counts.get("Hiragana") ?? 0) + (counts.get("Katakana") ?? 0);
+    const han = counts.get("Han") ?? 0;
+    if (kana + han > letters / 2) {
+        return kana > (kana + han) * 0.1
+            ? guess("ja", "Han+Kana", (kana + han) / letters)
+            : guess("zh", "Han", han / letters);
+    }
+
+    const [script = "Other", count = 0] = [...counts].sort((a, b) => b[1] - a[1])[0] ?? [];
+    const share = count / letters;
+    const fixed = SCRIPT_LANGUAGES[script];
+    if (fixed) return guess(fixed, script, share);
+
+    const lower = words.map((word) => word.toLowerCase());
+    if (script === "Cyrillic") {
+        // і ї є ґ only occur in Ukrainian
+        return /[іїєґ]/iu.test(text) ? guess("uk", script, share * 0.9) : guess("ru", script, share * 0.9);
+    }
+    if (script === "Latin") {
+        const latin = STOP_WORD_LANGUAGES.filter((language) => language !== "ru");
+        const best = scoreStopWords(lower, latin);
+        if (!best) return guess("unknown", script, 0);
+        // Clear winners among many stop words are confident; near-ties are not
+        const margin = best.score > 0 ? (best.score - best.runnerUp) / best.score : 0;
+        const confidence = share * Math.min(1, best.score * 4) * (0.5 + margin / 2);
+        return guess(best.language, script, confidence);
+    }
+    return guess("unknown", script, 0);
+}
@@ -0,0 +1,63 @@
+/**
+ * Readability Scores
+ *
+ * Flesch reading ease, Flesch-Kincaid grade level and Gunning fog index.
+ * All three are calibrated on English; syllables are estimated, so treat
+ * the scores as approximate.
+ */
+
+import { countSyllables } from "./tokenize";
+
+export interface ReadabilityScores {
+    fleschReadingEase: number;
+    fleschKincaidGrade: number;
+    gunningFog: number;
+    /** Plain-language band for the reading-ease score */
+    level: string;
+    averageSyllablesPerWord: number;
+    /** Words of three or more syllables */
+    complexWords: number;
+}
+
+const LEVELS: Array<[minimum: number, label: string]> = [
+    [90, "very easy"],
+    [80, "easy"],
+    [70, "fairly easy"],
+    [60, "standard"],
+    [50, "fairly difficult"],
+    [30, "difficult"],
+    [-Infinity, "very difficult"],
+];
+
+function round(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+/**
+ * Complex word for the fog index: 3+ syllables, not counting -es/-ed/-ing
+ * endings, and not hyphenated compounds
+ */
+function isComplex(word: string): boolean {
+    if (word.includes("-")) return false;
+    return countSyllables(word.replace(/(?:es|ed|ing)$/i, "")) >= 3;
+}
+
+export function scoreReadability(words: string[], sentenceCount: number): ReadabilityScores | null {
+    const latin = words.filter((word) => /[a-z]/i.test(word));
+    if (!latin.length || sentenceCount === 0) return null;
+
+    const syllables = latin.reduce((sum, word) => sum + countSyllables(word), 0);
+    const complexWords = latin.filter(isComplex).length;
+    const wordsPerSentence = latin.length / sentenceCount;
+    const syllablesPerWord = syllables / latin.length;
+
+    const ease = 206.835 - 1.015 * wordsPerSentence - 84.6 * syllablesPerWord;
+    return {
+        fleschReadingEase: round(ease),
+        fleschKincaidGrade: round(0.39 * wordsPerSentence + 11.8 * syllablesPerWord - 15.59),
+        gunningFog: round(0.4 * (wordsPerSentence + 100 * (complexWords / latin.length))),
+        level: LEVELS.find(([minimum]) => ease >= minimum)?.[1] ?? "very difficult",
+        averageSyllablesPerWord: Math.round(syllablesPerWord * 100) / 100,
+        complexWords,
+    };
+}
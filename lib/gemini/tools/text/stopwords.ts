@@ -0,0 +1,49 @@
+/**
+ * Stop Words
+ *
+ * Common function words per language. analyze_text drops them from word and
+ * n-gram frequencies and counts them to tell Latin-script languages apart.
+ */
+
+export const STOP_WORD_LANGUAGES = ["en", "es", "fr", "de", "it", "pt", "nl", "ru"] as const;
+
+export type StopWordLanguage = (typeof STOP_WORD_LANGUAGES)[number];
+
+const LISTS: Record<StopWordLanguage, string> = {
+    en: "a about after all also an and any are as at be been but by can could did do does for from had has have he her "
+        + "his how i if in into is it its just me more most my no not of on one only or other our out so some such "
+        + "than that the their them then there these they this those to too up us very was we were what when where "
+        + "which while who why will with would you your",
+    es: "a al algo como con de del desde donde el ella ellos en entre era es esa ese esta este estos fue ha hay la "
+        + "las le les lo los más me mi muy no nos o para pero por que qué se ser si sin sobre son su sus también te "
+        + "tiene todo un una uno y ya yo",
+    fr: "a au aux avec ce ces cette comme dans de des du elle en est et eux il ils je la le les leur lui ma mais me "
+        + "même mes moi mon ne nous on ou par pas pour qu que qui sa se ses son sont sur ta te tes toi ton tu un une "
+        + "vous y été être",
+    de: "aber als am an auch auf aus bei bin bis da das dass dem den der des die doch du durch ein eine einem einen "
+        + "einer er es für hat hatte ich ihr im in ist ja kann mit nach nicht noch nur oder sein sich sie sind so "
+        + "um und uns von vor war was wenn wie wir wird zu zum zur über",
+    it: "a ai al alla anche che chi ci come con da dal del della dei di e ed era gli ha hanno il in io la le lei lo "
+        + "loro lui ma mi nel nella non noi per più questa questo se si sono su sua suo tra un una uno è",
+    pt: "a ao aos as com como da das de dela dele do dos e ela ele eles em entre era essa esse esta este eu foi há "
+        + "isso já lhe mais mas me meu minha muito na nas no nos não o os ou para pela pelo por que se sem ser seu "
+        + "sua são também um uma você é",
+    nl: "aan al als bij dan dat de der deze die dit door een en er had heb heeft het hij hoe hun ik in is je kan "
+        + "maar me met mij naar niet nog nu of om ons ook op over te tot uit van veel voor was wat we wel wij zal "
+        + "ze zei zich zij zijn zo",
+    ru: "а без бы был была были было в вам вас весь во вот все всё вы да даже для до его ее её если есть еще ещё же за "
+        + "и из или им их к как когда кто ли мне мы на над не нет ни но о об он она они оно от по при с со так там "
+        + "то тот ты у уже что это я",
+};
+
+const STOP_WORDS = Object.fromEntries(
+    STOP_WORD_LANGUAGES.map((language) => [language, new Set(LISTS[language].split(" "))])
+) as Record<StopWordLanguage, Set<string>>;
+
+export function isStopWordLanguage(language: string): language is StopWordLanguage {
+    return (STOP_WORD_LANGUAGES as readonly string[]).includes(language);
+}
+
+export function getStopWords(language: StopWordLanguage): ReadonlySet<string> {
+    return STOP_WORDS[language];
+}
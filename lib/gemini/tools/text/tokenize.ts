@@ -0,0 +1,72 @@
+/**
+ * Text Tokenizing
+ *
+ * Unicode-aware word and sentence splitting for analyze_text. Words are runs
+ * of letters and digits (with inner apostrophes and hyphens) or numbers
+ * like 3.50; Chinese and Japanese characters count as one word each since
+ * those scripts don't use spaces. Sentences end at . ! ? … (or 。！？)
+ * unless the period belongs to an abbreviation, an initial or a number.
+ */
+
+const CJK_CHAR = "[\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}]";
+const WORD_CHAR = `(?:(?!${CJK_CHAR})[\\p{L}\\p{M}\\p{N}])`;
+const NUMBER = "\\p{N}+(?:[.,]\\p{N}+)+";
+const WORD_PATTERN = new RegExp(`${NUMBER}|${CJK_CHAR}|${WORD_CHAR}+(?:['’\\-]${WORD_CHAR}+)*`, "gu");
+
+const SENTENCE_END = /[.!?…]+["'”’)\]]*(?=\s|$)|[。！？]+/g;
+
+const ABBREVIATIONS = new Set([
+    "mr", "mrs", "ms", "dr", "prof", "sr", "jr", "st", "mt", "vs", "etc", "inc", "ltd", "co", "corp",
+    "no", "fig", "approx", "dept", "est", "gen", "gov", "sen", "rep", "rev", "sgt", "capt", "col",
+    "jan", "feb", "mar", "apr", "jun", "jul", "aug", "sep", "sept", "oct", "nov", "dec",
+]);
+
+export function tokenizeWords(text: string): string[] {
+    return text.match(WORD_PATTERN) ?? [];
+}
+
+function isAbbreviation(word: string): boolean {
+    const bare = word.replace(/^[("'“‘[]+/, "").replace(/\.$/, "").toLowerCase();
+    // Initials ("J.") and dotted forms ("e.g.", "U.S.")
+    return ABBREVIATIONS.has(bare) || /^\p{L}$/u.test(bare) || /^(?:\p{L}\.)+\p{L}$/u.test(bare);
+}
+
+/**
+ * Sentences in order, trimmed; text without end punctuation is one sentence
+ */
+export function splitSentences(text: string): string[] {
+    const sentences: string[] = [];
+    let start = 0;
+
+    for (const match of text.matchAll(SENTENCE_END)) {
+        const end = match.index + match[0].length;
+        if (match[0] === ".") {
+            const word = /\S+$/.exec(text.slice(start, match.index + 1))?.[0] ?? "";
+            const next = /\S/.exec(text.slice(end))?.[0] ?? "";
+            if (isAbbreviation(word) || /^[\p{Ll}\d]/u.test(next)) continue;
+        }
+        const sentence = text.slice(start, end).trim();
+        if (sentence) sentences.push(sentence);
+        start = end;
+    }
+
+    const rest = text.slice(start).trim();
+    if (rest) sentences.push(rest);
+    return sentences;
+}
+
+export function splitParagraphs(text: string): string[] {
+    return text.split(/\n\s*\n/).filter((p) => p.trim().length > 0);
+}
+
+/**
+ * English syllable estimate (vowel groups, minus silent endings)
+ */
+export function countSyllables(word: string): number {
+    const letters = word.toLowerCase().replace(/[^a-z]/g, "");
+    if (!letters) return 0;
+    if (letters.length <= 3) return 1;
+
+    const trimmed = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, "").replace(/^y/, "");
+    return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length ?? 0);
+}
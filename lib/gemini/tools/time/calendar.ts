@@ -0,0 +1,314 @@
+/**
+ * Calendar Helpers
+ *
+ * Timezone-aware date math for the datetime tool using only Intl. Civil
+ * (wall-clock) dates are plain { year, month, day, ... } records; instants
+ * are Dates. Calendar units (years, months, days) move the wall clock in the
+ * target timezone, so adding a day across a DST change keeps the local time.
+ */
+
+export interface WallTime {
+    year: number;
+    /** 1-12 */
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    millisecond: number;
+}
+
+export interface Duration {
+    years: number;
+    months: number;
+    weeks: number;
+    days: number;
+    hours: number;
+    minutes: number;
+    seconds: number;
+}
+
+export const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const MS_PER_DAY = 86_400_000;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        // Throws RangeError for unknown zones
+        formatter = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            year: "numeric",
+            month: "numeric",
+            day: "numeric",
+            hour: "numeric",
+            minute: "numeric",
+            second: "numeric",
+            hourCycle: "h23",
+        });
+        formatters.set(timeZone, formatter);
+    }
+    return formatter;
+}
+
+/**
+ * Throw a readable error for an unknown IANA zone
+ */
+export function assertTimeZone(timeZone: string): void {
+    try {
+        formatterFor(timeZone);
+    } catch {
+        throw new Error(`Unknown timezone '${timeZone}'; use an IANA name like 'Europe/London'`);
+    }
+}
+
+/**
+ * Wall-clock time of an instant in a timezone
+ */
+export function toWallTime(instant: Date, timeZone: string): WallTime {
+    const parts: Record<string, number> = {};
+    for (const part of formatterFor(timeZone).formatToParts(instant)) {
+        if (part.type !== "literal") parts[part.type] = Number(part.value);
+    }
+    return {
+        year: parts.year ?? 1970,
+        month: parts.month ?? 1,
+        day: parts.day ?? 1,
+        hour: parts.hour ?? 0,
+        minute: parts.minute ?? 0,
+        second: parts.second ?? 0,
+        millisecond: instant.getUTCMilliseconds(),
+    };
+}
+
+function wallToUtcMs(wall: WallTime): number {
+    return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second, wall.millisecond);
+}
+
+/**
+ * UTC offset of a timezone at an instant, in minutes (e.g. -240 for EDT)
+ */
+export function offsetMinutes(instant: Date, timeZone: string): number {
+    return Math.round((wallToUtcMs(toWallTime(instant, timeZone)) - instant.getTime()) / 60_000);
+}
+
+/**
+ * Instant for a wall-clock time in a timezone. Times skipped by a DST jump
+ * resolve forward; repeated times resolve to the first occurrence.
+ */
+export function fromWallTime(wall: WallTime, timeZone: string): Date {
+    const guess = wallToUtcMs(wall);
+    // The offsets in force a day either side cover both sides of any transition
+    const candidates = [guess - MS_PER_DAY, guess + MS_PER_DAY]
+        .map((ms) => guess - offsetMinutes(new Date(ms), timeZone) * 60_000);
+    const exact = candidates.filter((ms) => wallToUtcMs(toWallTime(new Date(ms), timeZone)) === guess);
+    return new Date(exact.length ? Math.min(...exact) : Math.max(...candidates));
+}
+
+export function daysInMonth(year: number, month: number): number {
+    return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/** 0 = Sunday */
+export function weekdayOf(wall: Pick<WallTime, "year" | "month" | "day">): number {
+    return new Date(Date.UTC(wall.year, wall.month - 1, wall.day)).getUTCDay();
+}
+
+/**
+ * Move a civil date by whole months, clamping the day (Jan 31 + 1 month = Feb 28/29)
+ */
+export function addMonths<T extends Pick<WallTime, "year" | "month" | "day">>(wall: T, months: number): T {
+    const index = wall.year * 12 + (wall.month - 1) + months;
+    const year = Math.floor(index / 12);
+    const month = index - year * 12 + 1;
+    return { ...wall, year, month, day: Math.min(wall.day, daysInMonth(year, month)) };
+}
+
+export function addDays<T extends Pick<WallTime, "year" | "month" | "day">>(wall: T, days: number): T {
+    const date = new Date(Date.UTC(wall.year, wall.month - 1, wall.day + days));
+    return { ...wall, year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() };
+}
+
+/** Whole days from a to b (civil dates) */
+export function daysBetween(a: Pick<WallTime, "year" | "month" | "day">, b: Pick<WallTime, "year" | "month" | "day">): number {
+    return Math.round((Date.UTC(b.year, b.month - 1, b.day) - Date.UTC(a.year, a.month - 1, a.day)) / MS_PER_DAY);
+}
+
+/**
+ * Add a duration: calendar parts on the wall clock, time parts on the instant
+ */
+export function addDuration(instant: Date, duration: Duration, timeZone: string): Date {
+    let wall = toWallTime(instant, timeZone);
+    wall = addMonths(wall, duration.years * 12 + duration.months);
+    wall = addDays(wall, duration.weeks * 7 + duration.days);
+
+    const moved = duration.years || duration.months || duration.weeks || duration.days
+        ? fromWallTime(wall, timeZone)
+        : instant;
+    const timeMs = ((duration.hours * 60 + duration.minutes) * 60 + duration.seconds) * 1000;
+    return new Date(moved.getTime() + timeMs);
+}
+
+export function negateDuration(duration: Duration): Duration {
+    const result = { ...duration };
+    for (const key of Object.keys(result) as Array<keyof Duration>) result[key] = -result[key] || 0;
+    return result;
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const ISO_DURATION = /^([-+])?P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i;
+
+const UNIT_NAMES: Array<[RegExp, keyof Duration]> = [
+    [/^(y|yrs?|years?)$/, "years"],
+    [/^(mo|mos|months?)$/, "months"],
+    [/^(w|wks?|weeks?)$/, "weeks"],
+    [/^(d|days?)$/, "days"],
+    [/^(h|hrs?|hours?)$/, "hours"],
+    [/^(m|mins?|minutes?)$/, "minutes"],
+    [/^(s|secs?|seconds?)$/, "seconds"],
+];
+
+function emptyDuration(): Duration {
+    return { years: 0, months: 0, weeks: 0, days: 0, hours: 0, minutes: 0, seconds: 0 };
+}
+
+/**
+ * Parse "P1Y2M3DT4H", "3 days 4 hours", "-2 weeks" or "1h30m".
+ * Calendar units must be whole numbers.
+ */
+export function parseDuration(text: string): Duration {
+    const input = text.trim();
+    const duration = emptyDuration();
+
+    const iso = ISO_DURATION.exec(input);
+    if (iso && input.length > 1 && !/T$/i.test(input)) {
+        const sign = iso[1] === "-" ? -1 : 1;
+        const keys: Array<keyof Duration> = ["years", "months", "weeks", "days", "hours", "minutes", "seconds"];
+        keys.forEach((key, i) => {
+            duration[key] = sign * Number(iso[i + 2] ?? 0);
+        });
+    } else {
+        // "-2 weeks 3 days" negates the whole duration
+        const negative = input.startsWith("-");
+        let rest = input.replace(/^[-+]/, "").replace(/\band\b|,/gi, " ");
+        if (!rest.trim()) throw new Error(`Unrecognized duration '${text}'`);
+
+        while (rest.trim()) {
+            const match = /^\s*(\d+(?:\.\d+)?)\s*([a-z]+)/i.exec(rest);
+            if (!match) {
+                throw new Error(`Unrecognized duration '${text}'; use ISO 8601 (P1DT2H) or e.g. '3 days 4 hours'`);
+            }
+            const [whole, amount, unit = ""] = match;
+            const key = UNIT_NAMES.find(([names]) => names.test(unit.toLowerCase()))?.[1];
+            if (!key) throw new Error(`Unknown duration unit '${unit}'`);
+            duration[key] += negative ? -Number(amount) : Number(amount);
+            rest = rest.slice(whole.length);
+        }
+    }
+
+    for (const key of ["years", "months", "weeks", "days"] as const) {
+        if (!Number.isInteger(duration[key])) throw new Error(`Duration ${key} must be a whole number`);
+    }
+    return duration;
+}
+
+const LOCAL_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?)?$/;
+
+/**
+ * Parse an instant: "now", "today", "tomorrow", "yesterday", an ISO date or
+ * datetime (local to `timeZone` unless it has an offset or Z)
+ */
+export function parseInstant(text: string, timeZone: string, now: Date): Date {
+    const input = text.trim();
+    const keyword = input.toLowerCase();
+
+    if (!input || keyword === "now") return now;
+
+    const relative: Record<string, number> = { today: 0, tomorrow: 1, yesterday: -1 };
+    const offset = relative[keyword];
+    if (offset !== undefined) {
+        const midnight = { ...addDays(toWallTime(now, timeZone), offset), hour: 0, minute: 0, second: 0, millisecond: 0 };
+        return fromWallTime(midnight, timeZone);
+    }
+
+    const local = LOCAL_DATE.exec(input);
+    if (local) {
+        const [, y, mo, d, h = "0", mi = "0", s = "0", ms = "0"] = local;
+        const wall = {
+            year: Number(y),
+            month: Number(mo),
+            day: Number(d),
+            hour: Number(h),
+            minute: Number(mi),
+            second: Number(s),
+            millisecond: Number(ms.padEnd(3, "0")),
+        };
+        if (wall.month < 1 || wall.month > 12 || wall.day < 1 || wall.day > daysInMonth(wall.year, wall.month)
+            || wall.hour > 23 || wall.minute > 59 || wall.second > 59) {
+            throw new Error(`Invalid date '${text}'`);
+        }
+        return fromWallTime(wall, timeZone);
+    }
+
+    if (/^\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/i.test(input)) {
+        const parsed = new Date(input);
+        if (!isNaN(parsed.getTime())) return parsed;
+    }
+
+    throw new Error(`Unrecognized date '${text}'; use ISO 8601 like 2024-03-15 or 2024-03-15T14:30`);
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+function pad(n: number, width = 2): string {
+    return String(Math.abs(n)).padStart(width, "0");
+}
+
+export function formatDate(wall: Pick<WallTime, "year" | "month" | "day">): string {
+    return `${pad(wall.year, 4)}-${pad(wall.month)}-${pad(wall.day)}`;
+}
+
+/**
+ * Local ISO 8601 with offset, e.g. "2024-03-10T03:00:00-04:00"
+ */
+export function formatLocalIso(instant: Date, timeZone: string): string {
+    const wall = toWallTime(instant, timeZone);
+    const offset = offsetMinutes(instant, timeZone);
+    const zone = offset === 0 && timeZone === "UTC"
+        ? "Z"
+        : `${offset < 0 ? "-" : "+"}${pad(Math.floor(Math.abs(offset) / 60))}:${pad(Math.abs(offset) % 60)}`;
+    return `${formatDate(wall)}T${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}${zone}`;
+}
+
+/**
+ * Instant as seen in a timezone
+ */
+export function describeInstant(instant: Date, timeZone: string) {
+    const wall = toWallTime(instant, timeZone);
+    return {
+        iso: formatLocalIso(instant, timeZone),
+        date: formatDate(wall),
+        time: `${pad(wall.hour)}:${pad(wall.minute)}:${pad(wall.second)}`,
+        weekday: WEEKDAYS[weekdayOf(wall)] as string,
+        timezone: timeZone,
+        utcOffset: formatLocalIso(instant, timeZone).slice(19) || "Z",
+    };
+}
+
+/**
+ * ISO 8601 week-numbering year and week (weeks start Monday; week 1 holds
+ * the year's first Thursday)
+ */
+export function isoWeek(wall: Pick<WallTime, "year" | "month" | "day">): { year: number; week: number; weekday: number } {
+    const weekday = weekdayOf(wall) || 7;
+    const thursday = addDays(wall, 4 - weekday);
+    const week = Math.floor(daysBetween({ year: thursday.year, month: 1, day: 1 }, thursday) / 7) + 1;
+    return { year: thursday.year, week, weekday };
+}
@@ -0,0 +1,201 @@
+/**
+ * Recurring Schedules
+ *
+ * Parses plain-English recurrence rules ("every 2nd Tuesday", "every other
+ * Friday", "every 3 months on the 15th") and expands them into dates.
+ * An ordinal weekday ("2nd Tuesday") means that weekday of each month; use
+ * "every other Tuesday" for a fortnightly schedule.
+ */
+
+import { addDays, addMonths, daysBetween, daysInMonth, weekdayOf, WEEKDAYS, type WallTime } from "./calendar";
+
+type CivilDate = Pick<WallTime, "year" | "month" | "day">;
+
+export type Recurrence =
+    | { kind: "daily"; interval: number }
+    | { kind: "weekly"; interval: number; weekdays: number[] }
+    | { kind: "monthly"; interval: number; day: number }
+    | { kind: "monthly_weekday"; interval: number; weekday: number; nth: number }
+    | { kind: "yearly"; interval: number };
+
+/** Upper bound on days scanned while expanding a weekly rule */
+const MAX_SCAN_DAYS = 20_000;
+
+const ORDINALS: Record<string, number> = {
+    first: 1, "1st": 1,
+    second: 2, "2nd": 2,
+    third: 3, "3rd": 3,
+    fourth: 4, "4th": 4,
+    fifth: 5, "5th": 5,
+    last: -1,
+};
+
+const WEEKDAY_PATTERN = "(?:(?:sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day)?s?|(?:tues|wednes|thurs|satur)days?)";
+
+function parseWeekday(name: string): number {
+    const prefix = name.toLowerCase().slice(0, 3);
+    const index = WEEKDAYS.findIndex((day) => day.toLowerCase().startsWith(prefix));
+    if (index < 0) throw new Error(`Unknown weekday '${name}'`);
+    return index;
+}
+
+function parseWeekdayList(text: string): number[] {
+    const days = text.split(/\s*(?:,|\band\b|&)\s*/).filter(Boolean).map(parseWeekday);
+    return [...new Set(days)].sort((a, b) => a - b);
+}
+
+function parseInterval(text: string | undefined): number {
+    if (!text) return 1;
+    if (text === "other") return 2;
+    const n = Number(text);
+    if (!Number.isInteger(n) || n < 1) throw new Error(`Invalid interval '${text}'`);
+    return n;
+}
+
+function parseDayOfMonth(text: string | undefined, fallback: number): number {
+    if (!text) return fallback;
+    const day = Number(text);
+    if (!Number.isInteger(day) || day < 1 || day > 31) throw new Error(`Invalid day of month '${text}'`);
+    return day;
+}
+
+/**
+ * Parse a rule; defaults (weekday, day of month) come from the start date
+ */
+export function parseRecurrence(rule: string, start: CivilDate): Recurrence {
+    const text = rule.toLowerCase().trim().replace(/\s+/g, " ").replace(/^each /, "every ");
+    const weekdayList = `(${WEEKDAY_PATTERN}(?:(?:\\s*,\\s*|\\s+and\\s+|\\s*&\\s*)(?:${WEEKDAY_PATTERN}))*)`;
+    const dayOfMonth = "(?: on the (\\d{1,2})(?:st|nd|rd|th)?)?";
+    let match: RegExpExecArray | null;
+
+    if (/^(daily|every day)$/.test(text)) return { kind: "daily", interval: 1 };
+    if ((match = /^every (\d+|other) days?$/.exec(text))) return { kind: "daily", interval: parseInterval(match[1]) };
+
+    if (/^(every )?weekdays?$/.test(text)) return { kind: "weekly", interval: 1, weekdays: [1, 2, 3, 4, 5] };
+    if (/^(weekly|every week)$/.test(text)) return { kind: "weekly", interval: 1, weekdays: [weekdayOf(start)] };
+    if ((match = new RegExp(`^every (\\d+|other) weeks?(?: on ${weekdayList})?$`).exec(text))) {
+        return {
+            kind: "weekly",
+            interval: parseInterval(match[1]),
+            weekdays: match[2] ? parseWeekdayList(match[2]) : [weekdayOf(start)],
+        };
+    }
+    if ((match = new RegExp(`^every (other )?${weekdayList}$`).exec(text))) {
+        return { kind: "weekly", interval: match[1] ? 2 : 1, weekdays: parseWeekdayList(match[2] ?? "") };
+    }
+
+    const ordinal = `(${Object.keys(ORDINALS).join("|")})`;
+    if ((match = new RegExp(`^(?:every |the )?${ordinal} (${WEEKDAY_PATTERN})(?: of (?:the|each|every) month)?$`).exec(text))) {
+        return {
+            kind: "monthly_weekday",
+            interval: 1,
+            nth: ORDINALS[match[1] ?? ""] ?? 1,
+            weekday: parseWeekday(match[2] ?? ""),
+        };
+    }
+
+    if ((match = new RegExp(`^(?:monthly|every month)${dayOfMonth}$`).exec(text))) {
+        return { kind: "monthly", interval: 1, day: parseDayOfMonth(match[1], start.day) };
+    }
+    if ((match = new RegExp(`^every (\\d+|other) months?${dayOfMonth}$`).exec(text))) {
+        return { kind: "monthly", interval: parseInterval(match[1]), day: parseDayOfMonth(match[2], start.day) };
+    }
+    if ((match = /^every (\d{1,2})(?:st|nd|rd|th)(?: of (?:the|each|every) month)?$/.exec(text))) {
+        return { kind: "monthly", interval: 1, day: parseDayOfMonth(match[1], start.day) };
+    }
+
+    if (/^(yearly|annually|every year)$/.test(text)) return { kind: "yearly", interval: 1 };
+    if ((match = /^every (\d+|other) years?$/.exec(text))) return { kind: "yearly", interval: parseInterval(match[1]) };
+
+    throw new Error(
+        `Unrecognized recurrence '${rule}'. Examples: 'every day', 'every other Friday', 'every Monday and Thursday', `
+        + "'every 2nd Tuesday', 'every last Friday', 'every 3 months on the 15th', 'every year'"
+    );
+}
+
+function nthWeekday(year: number, month: number, weekday: number, nth: number): CivilDate | null {
+    if (nth === -1) {
+        const last = { year, month, day: daysInMonth(year, month) };
+        return addDays(last, -((weekdayOf(last) - weekday + 7) % 7));
+    }
+    const first = { year, month, day: 1 };
+    const day = 1 + ((weekday - weekdayOf(first) + 7) % 7) + (nth - 1) * 7;
+    return day <= daysInMonth(year, month) ? { year, month, day } : null;
+}
+
+function isBefore(a: CivilDate, b: CivilDate): boolean {
+    return daysBetween(b, a) < 0;
+}
+
+/**
+ * The first `count` dates on or after `start` (and not after `until`)
+ */
+export function expandRecurrence(rule: Recurrence, start: CivilDate, count: number, until?: CivilDate): CivilDate[] {
+    const dates: CivilDate[] = [];
+    const accept = (date: CivilDate): boolean => {
+        if (until && isBefore(until, date)) return false;
+        if (!isBefore(date, start)) dates.push(date);
+        return dates.length < count;
+    };
+    const base = { year: start.year, month: start.month, day: start.day };
+
+    switch (rule.kind) {
+        case "daily":
+            for (let i = 0; accept(addDays(base, i * rule.interval)); i++);
+            break;
+
+        case "weekly": {
+            // Weeks are counted from the Sunday starting the start date's week
+            const weekStart = addDays(base, -weekdayOf(base));
+            for (let i = 0; i < MAX_SCAN_DAYS; i++) {
+                const date = addDays(weekStart, i);
+                const onWeek = Math.floor(i / 7) % rule.interval === 0;
+                if (onWeek && rule.weekdays.includes(weekdayOf(date)) && !accept(date)) break;
+                if (until && isBefore(until, date)) break;
+            }
+            break;
+        }
+
+        case "monthly":
+            for (let i = 0; ; i++) {
+                const { year, month } = addMonths({ ...base, day: 1 }, i * rule.interval);
+                if (!accept({ year, month, day: Math.min(rule.day, daysInMonth(year, month)) })) break;
+            }
+            break;
+
+        case "monthly_weekday":
+            for (let i = 0; i < MAX_SCAN_DAYS / 28; i++) {
+                const { year, month } = addMonths({ ...base, day: 1 }, i * rule.interval);
+                const date = nthWeekday(year, month, rule.weekday, rule.nth);
+                if (date && !accept(date)) break;
+            }
+            break;
+
+        case "yearly":
+            for (let i = 0; accept(addMonths(base, i * 12 * rule.interval)); i++);
+            break;
+    }
+
+    return dates;
+}
+
+/**
+ * Human summary of a rule, e.g. "2nd Tuesday of every month"
+ */
+export function describeRecurrence(rule: Recurrence): string {
+    const every = (unit: string) => (rule.interval === 1 ? `every ${unit}` : `every ${rule.interval} ${unit}s`);
+    switch (rule.kind) {
+        case "daily":
+            return every("day");
+        case "weekly":
+            return `${every("week")} on ${rule.weekdays.map((d) => WEEKDAYS[d]).join(", ")}`;
+        case "monthly":
+            return `${every("month")} on day ${rule.day}`;
+        case "monthly_weekday": {
+            const nth = rule.nth === -1 ? "last" : (["1st", "2nd", "3rd", "4th", "5th"][rule.nth - 1] ?? `${rule.nth}th`);
+            return `${nth} ${WEEKDAYS[rule.weekday]} of ${every("month")}`;
+        }
+        case "yearly":
+            return every("year");
+    }
+}
@@ -5,16 +5,60 @@
  */
 
 import type { FunctionDeclaration } from "@google/generative-ai";
+import type { AppErrorCode } from "../../errors/index";
 
 export interface ToolExecutionResult {
     success: boolean;
     result: unknown;
     error?: string | undefined;
+    /** Failure classification (TIMEOUT, TOOL_EXECUTION_FAILED, ...) */
+    code?: AppErrorCode | undefined;
+    /** Whether retrying the same call may succeed */
+    retryable?: boolean | undefined;
 }
 
-export type ToolHandler = (args: Record<string, unknown>) => Promise<ToolExecutionResult>;
+/**
+ * Output a tool produces while it runs (e.g. console output of run_code)
+ */
+export interface ToolOutputChunk {
+    stream: "stdout" | "stderr";
+    text: string;
+}
+
+export type ToolOutputListener = (chunk: ToolOutputChunk) => void;
+
+/**
+ * Tool implementation. `signal` fires when the request is cancelled;
+ * long-running handlers should stop early when it does. `onOutput`, when
+ * given, receives output as it is produced so it can be streamed.
+ */
+export type ToolHandler = (
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+    onOutput?: ToolOutputListener
+) => Promise<ToolExecutionResult>;
+
+export type ToolCategory = "math" | "time" | "text" | "code" | "utility" | "external";
+
+export type ToolCost = "low" | "medium" | "high";
+
+/**
+ * Descriptive tool metadata used to pick the tool set offered per request
+ */
+export interface ToolMetadata {
+    category: ToolCategory;
+    /** Relative execution cost (CPU, latency or money) */
+    cost: ToolCost;
+    /** Whether the tool changes state outside the conversation */
+    sideEffects: boolean;
+    /** Ask the user before every call (defaults to `sideEffects`) */
+    requiresApproval?: boolean;
+}
 
 export interface ToolModule {
     declaration: FunctionDeclaration;
     handler: ToolHandler;
+    metadata: ToolMetadata;
+    /** Per-call time limit in ms (defaults to TOOL_TIMEOUT_MS, then 10s) */
+    timeoutMs?: number;
 }
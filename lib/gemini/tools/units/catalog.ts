@@ -0,0 +1,436 @@
+/**
+ * Conversion Units
+ *
+ * Unit table and unit-expression reader for convert_units. Every unit is a
+ * factor times a product of base dimensions, so compound units ("km/h",
+ * "USD/kg", "L/100km", "sq ft") convert whenever their dimensions match;
+ * reciprocal dimensions (mpg <-> L/100km) convert through 1/x.
+ *
+ * Aliases are case-insensitive and may name several units ("oz" is a mass
+ * and a volume, "pound" a mass and a currency). The other side of the
+ * conversion usually settles which one is meant; when it doesn't, resolve()
+ * throws an AmbiguousUnitError listing the choices.
+ */
+
+export type BaseDimension = "length" | "mass" | "time" | "data" | "temperature" | "currency";
+
+/** Exponent per base dimension; missing entries are 0 */
+export type Dimension = Partial<Record<BaseDimension, number>>;
+
+export interface UnitEntry {
+    symbol: string;
+    name: string;
+    /** Size in base units (m, kg, s, B, K, base currency) */
+    factor: number;
+    dimension: Dimension;
+    aliases: string[];
+    /** Added before scaling, for temperature scales: K = (value + offset) * factor */
+    offset?: number;
+}
+
+export type UnitDefinition = Omit<UnitEntry, "aliases">;
+
+export interface UnitExpression {
+    text: string;
+    factor: number;
+    dimension: Dimension;
+    offset: number;
+    /** The unit picked for each alias in the expression */
+    parts: Array<{ alias: string; unit: UnitDefinition }>;
+}
+
+export interface UnitConversion {
+    from: UnitExpression;
+    to: UnitExpression;
+    /** `reciprocal` converts 1/x, e.g. mpg <-> L/100km */
+    relation: "direct" | "reciprocal";
+}
+
+export class AmbiguousUnitError extends Error {
+    constructor(public readonly alias: string, public readonly choices: UnitDefinition[], suggestions: string[]) {
+        const meanings = choices.map((unit) => `${unit.name} (${dimensionName(unit.dimension)})`);
+        super(
+            `Unit '${alias}' is ambiguous: it could be ${meanings.join(" or ")}. `
+            + `Use a specific unit such as ${suggestions.map((s) => `'${s}'`).join(" or ")}`
+        );
+        this.name = "AmbiguousUnitError";
+    }
+}
+
+/** Upper bound on readings tried for an expression full of ambiguous aliases */
+const MAX_INTERPRETATIONS = 64;
+
+// ============================================================================
+// Unit Table
+// ============================================================================
+
+const LENGTH: Dimension = { length: 1 };
+const AREA: Dimension = { length: 2 };
+const VOLUME: Dimension = { length: 3 };
+const MASS: Dimension = { mass: 1 };
+const TIME: Dimension = { time: 1 };
+const DATA: Dimension = { data: 1 };
+const SPEED: Dimension = { length: 1, time: -1 };
+const PRESSURE: Dimension = { mass: 1, length: -1, time: -2 };
+const ENERGY: Dimension = { mass: 1, length: 2, time: -2 };
+const POWER: Dimension = { mass: 1, length: 2, time: -3 };
+const FUEL_ECONOMY: Dimension = { length: -2 };
+const TEMPERATURE: Dimension = { temperature: 1 };
+
+const US_GALLON = 0.003785411784;
+const IMPERIAL_GALLON = 0.00454609;
+const MILE = 1609.344;
+
+const UNIT_TABLE: Array<[symbol: string, name: string, factor: number, dimension: Dimension, aliases: string[]]> = [
+    // Length (base: meter)
+    ["m", "meter", 1, LENGTH, ["meter", "meters", "metre", "metres"]],
+    ["km", "kilometer", 1000, LENGTH, ["kilometer", "kilometers", "kilometre", "kilometres"]],
+    ["cm", "centimeter", 0.01, LENGTH, ["centimeter", "centimeters", "centimetre", "centimetres"]],
+    ["mm", "millimeter", 0.001, LENGTH, ["millimeter", "millimeters", "millimetre", "millimetres"]],
+    ["µm", "micrometer", 1e-6, LENGTH, ["um", "micrometer", "micrometers", "micron", "microns"]],
+    ["nm", "nanometer", 1e-9, LENGTH, ["nanometer", "nanometers"]],
+    ["mi", "mile", MILE, LENGTH, ["mile", "miles"]],
+    ["yd", "yard", 0.9144, LENGTH, ["yard", "yards"]],
+    ["ft", "foot", 0.3048, LENGTH, ["foot", "feet"]],
+    ["in", "inch", 0.0254, LENGTH, ["inch", "inches"]],
+    ["nmi", "nautical mile", 1852, LENGTH, ["nautical mile", "nautical miles"]],
+    // Area (base: square meter)
+    ["ha", "hectare", 10_000, AREA, ["hectare", "hectares"]],
+    ["acre", "acre", 4046.8564224, AREA, ["acres", "ac"]],
+    // Volume (base: cubic meter)
+    ["L", "liter", 0.001, VOLUME, ["l", "liter", "liters", "litre", "litres"]],
+    ["mL", "milliliter", 1e-6, VOLUME, ["milliliter", "milliliters", "millilitre", "millilitres", "cc"]],
+    ["cL", "centiliter", 1e-5, VOLUME, ["centiliter", "centiliters"]],
+    ["gal", "US gallon", US_GALLON, VOLUME, ["gallon", "gallons", "us gallon", "us gallons"]],
+    ["imp gal", "imperial gallon", IMPERIAL_GALLON, VOLUME, ["imperial gallon", "imperial gallons", "gal_imp"]],
+    ["qt", "US quart", US_GALLON / 4, VOLUME, ["quart", "quarts"]],
+    ["pt", "US pint", US_GALLON / 8, VOLUME, ["pint", "pints"]],
+    ["cup", "US cup", US_GALLON / 16, VOLUME, ["cups"]],
+    ["fl oz", "fluid ounce", US_GALLON / 128, VOLUME, ["floz", "fl_oz", "fluid ounce", "fluid ounces", "oz"]],
+    ["tbsp", "tablespoon", US_GALLON / 256, VOLUME, ["tablespoon", "tablespoons"]],
+    ["tsp", "teaspoon", US_GALLON / 768, VOLUME, ["teaspoon", "teaspoons"]],
+    // Mass (base: kilogram)
+    ["kg", "kilogram", 1, MASS, ["kilogram", "kilograms", "kilo", "kilos"]],
+    ["g", "gram", 0.001, MASS, ["gram", "grams"]],
+    ["mg", "milligram", 1e-6, MASS, ["milligram", "milligrams"]],
+    ["t", "tonne", 1000, MASS, ["tonne", "tonnes", "metric ton", "metric tons"]],
+    ["ton", "US ton", 907.18474, MASS, ["tons", "short ton", "short tons"]],
+    ["lb", "pound", 0.45359237, MASS, ["lbs", "pound", "pounds"]],
+    ["oz", "ounce", 0.028349523125, MASS, ["ounce", "ounces"]],
+    ["st", "stone", 6.35029318, MASS, ["stone", "stones"]],
+    // Time (base: second)
+    ["s", "second", 1, TIME, ["sec", "secs", "second", "seconds"]],
+    ["ms", "millisecond", 0.001, TIME, ["millisecond", "milliseconds"]],
+    ["min", "minute", 60, TIME, ["mins", "minute", "minutes"]],
+    ["h", "hour", 3600, TIME, ["hr", "hrs", "hour", "hours"]],
+    ["day", "day", 86_400, TIME, ["d", "days"]],
+    ["week", "week", 604_800, TIME, ["wk", "weeks"]],
+    ["year", "year", 31_557_600, TIME, ["yr", "yrs", "years"]],
+    // Data (base: byte, binary prefixes)
+    ["B", "byte", 1, DATA, ["b", "byte", "bytes"]],
+    ["bit", "bit", 0.125, DATA, ["bits"]],
+    ["KB", "kilobyte", 1024, DATA, ["kib", "kilobyte", "kilobytes"]],
+    ["MB", "megabyte", 1024 ** 2, DATA, ["mib", "megabyte", "megabytes"]],
+    ["GB", "gigabyte", 1024 ** 3, DATA, ["gib", "gigabyte", "gigabytes"]],
+    ["TB", "terabyte", 1024 ** 4, DATA, ["tib", "terabyte", "terabytes"]],
+    ["PB", "petabyte", 1024 ** 5, DATA, ["pib", "petabyte", "petabytes"]],
+    // Speed (base: meter per second)
+    ["mph", "mile per hour", MILE / 3600, SPEED, []],
+    ["km/h", "kilometer per hour", 1 / 3.6, SPEED, ["kph", "kmh", "kmph"]],
+    ["kn", "knot", 1852 / 3600, SPEED, ["knot", "knots", "kt"]],
+    // Fuel economy (base: meter per cubic meter)
+    ["mpg", "mile per US gallon", MILE / US_GALLON, FUEL_ECONOMY, ["mpg_us"]],
+    ["mpg imp", "mile per imperial gallon", MILE / IMPERIAL_GALLON, FUEL_ECONOMY, ["mpg_imp", "imperial mpg"]],
+    // Pressure (base: pascal)
+    ["Pa", "pascal", 1, PRESSURE, ["pascal", "pascals"]],
+    ["kPa", "kilopascal", 1000, PRESSURE, ["kilopascal", "kilopascals"]],
+    ["hPa", "hectopascal", 100, PRESSURE, ["hectopascal", "hectopascals"]],
+    ["bar", "bar", 100_000, PRESSURE, ["bars"]],
+    ["mbar", "millibar", 100, PRESSURE, ["mb", "millibar", "millibars"]],
+    ["psi", "pound per square inch", 6894.757293168361, PRESSURE, []],
+    ["atm", "atmosphere", 101_325, PRESSURE, ["atmosphere", "atmospheres"]],
+    ["mmHg", "millimeter of mercury", 133.322387415, PRESSURE, ["torr"]],
+    // Energy (base: joule)
+    ["J", "joule", 1, ENERGY, ["joule", "joules"]],
+    ["kJ", "kilojoule", 1000, ENERGY, ["kilojoule", "kilojoules"]],
+    ["cal", "calorie", 4.184, ENERGY, ["calorie", "calories"]],
+    ["kcal", "kilocalorie", 4184, ENERGY, ["kilocalorie", "kilocalories"]],
+    ["Wh", "watt-hour", 3600, ENERGY, ["watt hour", "watt hours"]],
+    ["kWh", "kilowatt-hour", 3.6e6, ENERGY, ["kilowatt hour", "kilowatt hours"]],
+    ["BTU", "British thermal unit", 1055.05585262, ENERGY, ["btus"]],
+    // Power (base: watt)
+    ["W", "watt", 1, POWER, ["watt", "watts"]],
+    ["kW", "kilowatt", 1000, POWER, ["kilowatt", "kilowatts"]],
+    ["MW", "megawatt", 1e6, POWER, ["megawatt", "megawatts"]],
+    ["hp", "horsepower", 745.69987158227022, POWER, ["horsepower"]],
+];
+
+/** Temperature scales are affine, so they only convert on their own */
+const TEMPERATURE_TABLE: UnitEntry[] = [
+    { symbol: "°C", name: "degree Celsius", factor: 1, offset: 273.15, dimension: TEMPERATURE, aliases: ["c", "celsius", "centigrade"] },
+    { symbol: "°F", name: "degree Fahrenheit", factor: 5 / 9, offset: 459.67, dimension: TEMPERATURE, aliases: ["f", "fahrenheit"] },
+    { symbol: "K", name: "kelvin", factor: 1, offset: 0, dimension: TEMPERATURE, aliases: ["k", "kelvin", "kelvins"] },
+];
+
+export const BUILTIN_UNITS: UnitEntry[] = [
+    ...UNIT_TABLE.map(([symbol, name, factor, dimension, aliases]) => ({ symbol, name, factor, dimension, aliases })),
+    ...TEMPERATURE_TABLE,
+];
+
+// ============================================================================
+// Dimensions
+// ============================================================================
+
+const DIMENSION_NAMES: Array<[Dimension, string]> = [
+    [LENGTH, "length"],
+    [AREA, "area"],
+    [VOLUME, "volume"],
+    [MASS, "mass"],
+    [TIME, "time"],
+    [DATA, "data"],
+    [TEMPERATURE, "temperature"],
+    [{ currency: 1 }, "currency"],
+    [SPEED, "speed"],
+    [{ length: 1, time: -2 }, "acceleration"],
+    [{ time: -1 }, "frequency"],
+    [{ data: 1, time: -1 }, "data rate"],
+    [{ length: 3, time: -1 }, "flow rate"],
+    [{ mass: 1, length: -3 }, "density"],
+    [PRESSURE, "pressure"],
+    [ENERGY, "energy"],
+    [POWER, "power"],
+    [FUEL_ECONOMY, "fuel economy"],
+];
+
+function dimensionKey(dimension: Dimension): string {
+    return Object.entries(dimension)
+        .filter(([, exponent]) => exponent !== 0)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([dim, exponent]) => `${dim}^${exponent}`)
+        .join(" ");
+}
+
+function sameDimension(a: Dimension, b: Dimension): boolean {
+    return dimensionKey(a) === dimensionKey(b);
+}
+
+function invert(dimension: Dimension): Dimension {
+    const result: Dimension = {};
+    for (const [dim, exponent] of Object.entries(dimension) as Array<[BaseDimension, number]>) result[dim] = -exponent;
+    return result;
+}
+
+/**
+ * "speed", "pressure", ... or a formula like "currency/mass" for unnamed dimensions
+ */
+export function dimensionName(dimension: Dimension): string {
+    const key = dimensionKey(dimension);
+    if (!key) return "dimensionless";
+    const named = DIMENSION_NAMES.find(([dim]) => dimensionKey(dim) === key);
+    if (named) return named[1];
+
+    const entries = Object.entries(dimension).filter(([, e]) => e !== 0);
+    const part = (dim: string, e: number) => (e === 1 ? dim : `${dim}^${e}`);
+    const top = entries.filter(([, e]) => e > 0).map(([d, e]) => part(d, e)).join("*") || "1";
+    const bottom = entries.filter(([, e]) => e < 0).map(([d, e]) => part(d, -e)).join("*");
+    return bottom ? `${top}/${bottom}` : top;
+}
+
+/**
+ * Category label for a conversion; volume per distance reads as fuel consumption
+ */
+export function categoryOf(expression: UnitExpression): string {
+    const perDistance = expression.parts.some((p) => sameDimension(p.unit.dimension, VOLUME))
+        && sameDimension(expression.dimension, AREA);
+    return perDistance ? "fuel consumption" : dimensionName(expression.dimension);
+}
+
+// ============================================================================
+// Expressions
+// ============================================================================
+
+interface Term {
+    alias: string;
+    coefficient: number;
+    exponent: number;
+    candidates: UnitDefinition[];
+}
+
+/**
+ * Lower-case and spell out "per", "square", "cubic", superscripts and degree signs
+ */
+function normalize(text: string): string {
+    return text
+        .toLowerCase()
+        .replace(/²/g, "^2")
+        .replace(/³/g, "^3")
+        .replace(/°\s*/g, "")
+        .replace(/\bdeg(?:rees?)?\s+/g, "")
+        .replace(/\s+per\s+/g, "/")
+        .replace(/\b(?:square|sq\.?)\s+([a-zµ]+)/g, "$1^2")
+        .replace(/\b(?:cubic|cu\.?)\s+([a-zµ]+)/g, "$1^3")
+        .replace(/\s*([/*·^])\s*/g, "$1")
+        .replace(/\s+/g, " ")
+        .trim();
+}
+
+export class UnitCatalog {
+    private readonly aliases = new Map<string, UnitDefinition[]>();
+
+    constructor(entries: UnitEntry[] = BUILTIN_UNITS) {
+        for (const { aliases, ...unit } of entries) {
+            for (const alias of new Set([unit.symbol, ...aliases].map((a) => a.toLowerCase()))) {
+                const existing = this.aliases.get(alias) ?? [];
+                this.aliases.set(alias, [...existing, unit]);
+            }
+        }
+    }
+
+    /**
+     * Every unit an alias can name
+     */
+    lookup(alias: string): UnitDefinition[] {
+        return this.aliases.get(alias.trim().toLowerCase()) ?? [];
+    }
+
+    private readTerm(text: string, sign: 1 | -1): Term {
+        const match = /^(\d+(?:\.\d+)?(?:e[+-]?\d+)?)?\s*(.*?)(?:\^(-?\d+))?$/.exec(text);
+        if (!match) throw new Error(`Unknown unit '${text}'`);
+
+        const coefficient = match[1] ? Number(match[1]) : 1;
+        let alias = match[2] ?? "";
+        let exponent = match[3] ? Number(match[3]) : 1;
+        let candidates = alias ? this.lookup(alias) : [];
+
+        // "m2", "ft3"
+        const compact = /^(.*[a-z])([23])$/.exec(alias);
+        if (!candidates.length && !match[3] && compact?.[1] && this.lookup(compact[1]).length) {
+            alias = compact[1];
+            exponent = Number(compact[2]);
+            candidates = this.lookup(alias);
+        }
+
+        if (alias && !candidates.length) throw new Error(`Unknown unit '${alias}'`);
+        if (!alias && !match[1]) throw new Error(`Unknown unit '${text}'`);
+        return { alias, coefficient, exponent: exponent * sign, candidates };
+    }
+
+    private readTerms(text: string): Term[] {
+        const whole = this.lookup(text);
+        if (whole.length) return [{ alias: text, coefficient: 1, exponent: 1, candidates: whole }];
+
+        const [numerator = "", ...denominators] = text.split("/");
+        const terms: Term[] = [];
+        for (const part of numerator.split(/[*·]/)) {
+            if (part.trim() !== "1" || denominators.length === 0) terms.push(this.readTerm(part.trim(), 1));
+        }
+        for (const denominator of denominators) {
+            for (const part of denominator.split(/[*·]/)) terms.push(this.readTerm(part.trim(), -1));
+        }
+        return terms;
+    }
+
+    /**
+     * Every reading of a unit expression, one per combination of alias meanings
+     */
+    interpret(text: string): UnitExpression[] {
+        const normalized = normalize(text);
+        if (!normalized) throw new Error("Unit is required");
+        const terms = this.readTerms(normalized);
+
+        let readings: UnitExpression[] = [{ text: text.trim(), factor: 1, dimension: {}, offset: 0, parts: [] }];
+        for (const term of terms) {
+            const next: UnitExpression[] = [];
+            for (const reading of readings) {
+                const coefficient = term.coefficient ** term.exponent;
+                if (!term.alias) {
+                    next.push({ ...reading, factor: reading.factor * coefficient });
+                    continue;
+                }
+                for (const unit of term.candidates) {
+                    const dimension: Dimension = { ...reading.dimension };
+                    for (const [dim, power] of Object.entries(unit.dimension) as Array<[BaseDimension, number]>) {
+                        dimension[dim] = (dimension[dim] ?? 0) + power * term.exponent;
+                    }
+                    next.push({
+                        ...reading,
+                        factor: reading.factor * coefficient * unit.factor ** term.exponent,
+                        dimension,
+                        offset: unit.offset ?? reading.offset,
+                        parts: [...reading.parts, { alias: term.alias, unit }],
+                    });
+                }
+            }
+            if (next.length > MAX_INTERPRETATIONS) throw new Error(`Unit '${text}' has too many possible meanings`);
+            readings = next;
+        }
+
+        const combinesTemperature = (reading: UnitExpression) =>
+            reading.parts.some((p) => p.unit.offset !== undefined)
+            && (terms.length > 1 || terms[0]?.exponent !== 1 || terms[0]?.coefficient !== 1);
+        const valid = readings.filter((reading) => !combinesTemperature(reading));
+        if (!valid.length) throw new Error("Temperature units cannot be combined with other units");
+        return valid;
+    }
+
+    /**
+     * Pick the reading of both units that makes the conversion possible
+     */
+    resolve(fromText: string, toText: string): UnitConversion {
+        const fromReadings = this.interpret(fromText);
+        const toReadings = this.interpret(toText);
+
+        const pairs = (relation: UnitConversion["relation"]) => fromReadings.flatMap((from) => toReadings
+            .filter((to) => relation === "direct"
+                ? sameDimension(from.dimension, to.dimension)
+                : to.offset === 0 && from.offset === 0 && dimensionKey(from.dimension) !== ""
+                && sameDimension(invert(from.dimension), to.dimension))
+            .map((to): UnitConversion => ({ from, to, relation })));
+
+        const direct = pairs("direct");
+        const matches = direct.length ? direct : pairs("reciprocal");
+
+        if (!matches.length) {
+            const describe = (readings: UnitExpression[]) =>
+                [...new Set(readings.map((r) => dimensionName(r.dimension)))].join(" or ");
+            throw new Error(
+                `Cannot convert between ${fromText.trim()} (${describe(fromReadings)}) and ${toText.trim()} (${describe(toReadings)})`
+            );
+        }
+
+        const [first] = matches as [UnitConversion];
+        if (matches.length > 1) this.throwAmbiguity(matches);
+        return first;
+    }
+
+    private throwAmbiguity(matches: UnitConversion[]): never {
+        const sides = (["from", "to"] as const).map((side) => matches.map((m) => m[side].parts));
+        for (const readings of sides) {
+            const width = readings[0]?.length ?? 0;
+            for (let i = 0; i < width; i++) {
+                const units = [...new Set(readings.map((parts) => parts[i]?.unit))]
+                    .filter((unit): unit is UnitDefinition => !!unit);
+                if (units.length < 2) continue;
+
+                const alias = readings[0]?.[i]?.alias ?? "";
+                const suggestions = units.map((unit) => this.unambiguousName(unit));
+                throw new AmbiguousUnitError(alias, units, suggestions);
+            }
+        }
+        throw new Error("Ambiguous units");
+    }
+
+    /**
+     * An alias that names only this unit (its symbol when possible)
+     */
+    private unambiguousName(unit: UnitDefinition): string {
+        const names = [unit.symbol, unit.name];
+        for (const [alias, units] of this.aliases) {
+            if (units.length === 1 && units[0] === unit) names.push(alias);
+        }
+        return names.find((name) => {
+            const units = this.lookup(name);
+            return units.length === 1 && units[0] === unit;
+        }) ?? unit.symbol;
+    }
+}
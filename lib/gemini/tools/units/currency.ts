@@ -0,0 +1,268 @@
+/**
+ * Currency Rates
+ *
+ * Offline exchange-rate table for convert_units. Rates are read from a local
+ * JSON file (CURRENCY_RATES_PATH, default .data/currency-rates.json) and fall
+ * back to the bundled reference table when that file does not exist.
+ * Uploaded rates are merged into the table and written back to the file.
+ *
+ * File format:
+ *   { "base": "USD", "asOf": "2024-12-31", "source": "...",
+ *     "rates": { "EUR": 0.96, "JPY": 157.2 } }   // units of each code per 1 base
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { StorageError, ValidationError } from "../../../errors/index";
+import type { UnitEntry } from "./catalog";
+import bundledRates from "./currency-rates.json";
+
+export interface RateTable {
+    /** Currency every rate is quoted against */
+    base: string;
+    /** Date the rates were taken (YYYY-MM-DD) */
+    asOf: string;
+    source: string;
+    /** Units of each currency per 1 base unit; the base itself is 1 */
+    rates: Record<string, number>;
+}
+
+export interface RateUpload {
+    base?: unknown;
+    asOf?: unknown;
+    source?: unknown;
+    rates?: unknown;
+}
+
+const CODE_PATTERN = /^[A-Z]{3}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Everyday names and symbols per code; names shared by several codes are ambiguous */
+export const CURRENCY_NAMES: Record<string, string[]> = {
+    USD: ["$", "us$", "dollar", "dollars", "us dollar", "us dollars"],
+    EUR: ["€", "euro", "euros"],
+    GBP: ["£", "pound", "pounds", "pound sterling", "pounds sterling", "british pound", "british pounds"],
+    JPY: ["¥", "yen", "japanese yen"],
+    CNY: ["rmb", "yuan", "renminbi"],
+    INR: ["₹", "rupee", "rupees", "indian rupee", "indian rupees"],
+    CAD: ["c$", "canadian dollar", "canadian dollars"],
+    AUD: ["a$", "australian dollar", "australian dollars"],
+    NZD: ["nz$", "new zealand dollar", "new zealand dollars"],
+    CHF: ["swiss franc", "swiss francs"],
+    KRW: ["₩", "won", "korean won"],
+    MXN: ["peso", "pesos", "mexican peso", "mexican pesos"],
+    PHP: ["₱", "peso", "pesos", "philippine peso", "philippine pesos"],
+    BRL: ["r$", "real", "reais", "brazilian real"],
+    SGD: ["s$", "singapore dollar", "singapore dollars"],
+    HKD: ["hk$", "hong kong dollar", "hong kong dollars"],
+};
+
+/**
+ * One convert_units unit per currency, sized in the table's base currency
+ */
+export function currencyUnits(table: RateTable): UnitEntry[] {
+    return Object.entries(table.rates).map(([code, rate]) => ({
+        symbol: code,
+        name: code,
+        factor: 1 / rate,
+        dimension: { currency: 1 },
+        aliases: CURRENCY_NAMES[code] ?? [],
+    }));
+}
+
+function cloneTable(table: RateTable): RateTable {
+    return { ...table, rates: { ...table.rates } };
+}
+
+export function defaultRateTable(): RateTable {
+    return cloneTable(bundledRates as RateTable);
+}
+
+function today(): string {
+    return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Check an uploaded table; codes are upper-cased and the base gets rate 1
+ */
+export function normalizeRates(input: RateUpload, fallbackBase?: string): RateTable {
+    const base = typeof input.base === "string" ? input.base.trim().toUpperCase() : fallbackBase;
+    if (!base || !CODE_PATTERN.test(base)) {
+        throw new ValidationError("base must be a three-letter currency code", "base");
+    }
+
+    const asOf = input.asOf ?? today();
+    if (typeof asOf !== "string" || !DATE_PATTERN.test(asOf) || Number.isNaN(Date.parse(asOf))) {
+        throw new ValidationError("asOf must be a date like 2024-12-31", "asOf");
+    }
+
+    if (typeof input.rates !== "object" || input.rates === null || Array.isArray(input.rates)) {
+        throw new ValidationError("rates must be an object of currency code -> rate", "rates");
+    }
+
+    const rates: Record<string, number> = {};
+    for (const [key, value] of Object.entries(input.rates)) {
+        const code = key.trim().toUpperCase();
+        if (!CODE_PATTERN.test(code)) {
+            throw new ValidationError(`'${key}' is not a three-letter currency code`, "rates");
+        }
+        if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+            throw new ValidationError(`Rate for ${code} must be a positive number`, "rates");
+        }
+        rates[code] = value;
+    }
+    if (rates[base] !== undefined && rates[base] !== 1) {
+        throw new ValidationError(`Rate for the base currency ${base} must be 1`, "rates");
+    }
+    rates[base] = 1;
+
+    const source = typeof input.source === "string" && input.source.trim() ? input.source.trim() : "Uploaded rates";
+    return { base, asOf, source, rates };
+}
+
+/**
+ * Express every rate against another base currency from the same table
+ */
+function rebase(table: RateTable, base: string): RateTable {
+    const divisor = table.rates[base];
+    if (divisor === undefined) {
+        throw new ValidationError(
+            `Cannot merge rates quoted in ${base} into a ${table.base} table without a ${base} rate; upload with replace: true`,
+            "base"
+        );
+    }
+    const rates: Record<string, number> = {};
+    for (const [code, rate] of Object.entries(table.rates)) rates[code] = rate / divisor;
+    return { ...table, base, rates };
+}
+
+// ============================================================================
+// Store
+// ============================================================================
+
+export class CurrencyRateStore {
+    private table: RateTable | null = null;
+    private writeQueue: Promise<void> = Promise.resolve();
+    private mutationQueue: Promise<unknown> = Promise.resolve();
+
+    /** `filePath` null keeps uploads in memory only */
+    constructor(private readonly filePath: string | null) { }
+
+    async get(): Promise<RateTable> {
+        if (!this.table) this.table = await this.readFile();
+        return cloneTable(this.table);
+    }
+
+    /**
+     * Merge uploaded rates into the table (or replace it) and persist
+     */
+    update(input: RateUpload, options: { replace?: boolean } = {}): Promise<RateTable> {
+        return this.mutate(async () => {
+            const current = await this.get();
+            const upload = normalizeRates(input, options.replace ? undefined : current.base);
+
+            const next = options.replace
+                ? upload
+                : { ...upload, rates: { ...rebase(current, upload.base).rates, ...upload.rates } };
+
+            this.table = next;
+            await this.persist(next);
+            return cloneTable(next);
+        });
+    }
+
+    /**
+     * Drop uploaded rates and go back to the bundled table
+     */
+    reset(): Promise<RateTable> {
+        return this.mutate(async () => {
+            this.table = defaultRateTable();
+            if (this.filePath) {
+                const filePath = this.filePath;
+                await this.enqueue(async () => {
+                    await fs.rm(filePath, { force: true });
+                });
+            }
+            return cloneTable(this.table);
+        });
+    }
+
+    private async readFile(): Promise<RateTable> {
+        if (!this.filePath) return defaultRateTable();
+        let raw: string;
+        try {
+            raw = await fs.readFile(this.filePath, "utf8");
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") return defaultRateTable();
+            throw new StorageError(
+                `Failed to read currency rates: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+
+        try {
+            const parsed = JSON.parse(raw) as RateUpload & { source?: unknown };
+            return normalizeRates({ ...parsed, source: parsed.source ?? this.filePath });
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            throw new StorageError(`Currency rates file ${this.filePath} is invalid: ${reason}`);
+        }
+    }
+
+    private persist(table: RateTable): Promise<void> {
+        if (!this.filePath) return Promise.resolve();
+        const filePath = this.filePath;
+
+        return this.enqueue(async () => {
+            const tmpPath = `${filePath}.tmp`;
+            try {
+                await fs.mkdir(path.dirname(filePath), { recursive: true });
+                await fs.writeFile(tmpPath, JSON.stringify(table, null, 2), "utf8");
+                await fs.rename(tmpPath, filePath);
+            } catch (error) {
+                throw new StorageError(
+                    `Failed to write currency rates: ${error instanceof Error ? error.message : String(error)}`
+                );
+            }
+        });
+    }
+
+    /**
+     * Chain updates and resets so each starts from the table the previous one left
+     */
+    private mutate<T>(operation: () => Promise<T>): Promise<T> {
+        const next = this.mutationQueue.catch(() => undefined).then(operation);
+        this.mutationQueue = next;
+        return next;
+    }
+
+    /**
+     * Chain file operations so they never interleave
+     */
+    private enqueue(operation: () => Promise<void>): Promise<void> {
+        const next = this.writeQueue.catch(() => undefined).then(operation);
+        this.writeQueue = next;
+        return next;
+    }
+}
+
+// ============================================================================
+// Application Instance
+// ============================================================================
+
+let globalStore: CurrencyRateStore | null = null;
+
+export function getCurrencyRateStore(): CurrencyRateStore {
+    if (!globalStore) {
+        const filePath = process.env.CURRENCY_RATES_PATH
+            || path.join(process.cwd(), ".data", "currency-rates.json");
+        globalStore = new CurrencyRateStore(filePath);
+    }
+    return globalStore;
+}
+
+/**
+ * Replace the global store (for testing)
+ */
+export function setCurrencyRateStore(store: CurrencyRateStore | null): void {
+    globalStore = store;
+}
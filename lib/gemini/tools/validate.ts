@@ -0,0 +1,116 @@
+/**
+ * Tool Argument Validation
+ *
+ * Checks model-supplied arguments against a FunctionDeclaration's parameter
+ * schema (types, required fields, enums, array items) before the handler
+ * runs, so the model gets a precise error it can correct instead of the
+ * handler silently coercing bad input.
+ */
+
+import type { FunctionDeclarationSchema, Schema } from "@google/generative-ai";
+
+export interface ArgumentIssue {
+    /** Dotted path to the offending argument, e.g. "items[2]" */
+    path: string;
+    message: string;
+}
+
+function describe(value: unknown): string {
+    if (value === null) return "null";
+    if (Array.isArray(value)) return "array";
+    return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateValue(schema: Schema, value: unknown, path: string, issues: ArgumentIssue[]): void {
+    if (value === null && schema.nullable) return;
+
+    const fail = (message: string): void => {
+        issues.push({ path, message });
+    };
+
+    switch (schema.type) {
+        case "string":
+            if (typeof value !== "string") return fail(`expected string, got ${describe(value)}`);
+            if (schema.enum && !schema.enum.includes(value)) {
+                return fail(`must be one of ${schema.enum.join(", ")} (got "${value}")`);
+            }
+            return;
+        case "number":
+            if (typeof value !== "number" || !Number.isFinite(value)) {
+                return fail(`expected number, got ${describe(value)}`);
+            }
+            return;
+        case "integer":
+            if (typeof value !== "number" || !Number.isInteger(value)) {
+                return fail(`expected integer, got ${typeof value === "number" ? value : describe(value)}`);
+            }
+            return;
+        case "boolean":
+            if (typeof value !== "boolean") return fail(`expected boolean, got ${describe(value)}`);
+            return;
+        case "array": {
+            if (!Array.isArray(value)) return fail(`expected array, got ${describe(value)}`);
+            const { items } = schema;
+            if (items) {
+                value.forEach((item, index) => validateValue(items, item, `${path}[${index}]`, issues));
+            }
+            return;
+        }
+        case "object":
+            if (!isPlainObject(value)) return fail(`expected object, got ${describe(value)}`);
+            validateProperties(schema, value, `${path}.`, issues);
+            return;
+    }
+}
+
+function validateProperties(
+    schema: Pick<Schema, "properties" | "required">,
+    args: Record<string, unknown>,
+    prefix: string,
+    issues: ArgumentIssue[]
+): void {
+    for (const name of schema.required ?? []) {
+        if (args[name] === undefined || args[name] === null) {
+            issues.push({ path: `${prefix}${name}`, message: "is required" });
+        }
+    }
+
+    for (const [name, propertySchema] of Object.entries(schema.properties ?? {})) {
+        const value = args[name];
+        // Optional arguments may be omitted; unknown extra arguments are ignored
+        if (value === undefined) continue;
+        if (value === null) {
+            // Reported above when required; Gemini sends null for optional arguments it leaves out
+            if ((schema.required ?? []).includes(name) || propertySchema.nullable !== false) continue;
+        }
+        validateValue(propertySchema, value, `${prefix}${name}`, issues);
+    }
+}
+
+/**
+ * Validate arguments against a declaration's parameters; empty when valid
+ */
+export function validateArgs(
+    schema: FunctionDeclarationSchema | undefined,
+    args: unknown
+): ArgumentIssue[] {
+    if (!schema) return [];
+    if (!isPlainObject(args)) {
+        return [{ path: "(arguments)", message: `expected object, got ${describe(args)}` }];
+    }
+
+    const issues: ArgumentIssue[] = [];
+    validateProperties(schema, args, "", issues);
+    return issues;
+}
+
+/**
+ * One-line summary of issues for the model, e.g. "format must be one of ...; text is required"
+ */
+export function formatIssues(issues: ArgumentIssue[]): string {
+    return issues.map((issue) => `${issue.path} ${issue.message}`).join("; ");
+}
@@ -5,7 +5,9 @@
  * Uses SDK types where possible for consistency.
  */
 
-import type { Content, Part, FunctionCall, FunctionResponse, FunctionDeclaration } from "@google/generative-ai";
+import type { Content, Part, FunctionCall, FunctionResponse } from "@google/generative-ai";
+import type { ToolPolicy, ToolStopReason } from "./tool-policy";
+import type { AppErrorCode } from "../errors/index";
 export { SchemaType } from "@google/generative-ai";
 
 // ============================================================================
@@ -15,6 +17,8 @@ export { SchemaType } from "@google/generative-ai";
 export interface ChatRequest {
     message: string;
     userId: string;
+    /** Conversation identifier; each conversation gets its own model session */
+    conversationId?: string;
     stream?: boolean;
     history?: Content[];
     /** File attachments for multimodal input */
@@ -23,6 +27,8 @@ export interface ChatRequest {
     responseFormat?: "text" | "json";
     /** Override default temperature (0.0-2.0) */
     temperature?: number;
+    /** Tool loop limits; values are clamped server-side */
+    toolPolicy?: Partial<ToolPolicy>;
 }
 
 export interface Attachment {
@@ -54,6 +60,8 @@ export interface ResponseMeta {
     maxTokensUsed?: number | undefined;
     /** Tools that were called during generation */
     toolsUsed?: string[] | undefined;
+    /** Tool loop limit that forced the final answer, if any */
+    toolStopReason?: ToolStopReason | undefined;
     /** Whether response came from cache */
     cached?: boolean | undefined;
 }
@@ -166,14 +174,16 @@ export interface ToolExecutionResult {
     success: boolean;
     result: unknown;
     error?: string;
+    /** Failure classification (TIMEOUT, TOOL_EXECUTION_FAILED, ...) */
+    code?: AppErrorCode;
+    /** Whether retrying the same call may succeed */
+    retryable?: boolean;
 }
 
-export type ToolHandler = (args: Record<string, unknown>) => Promise<ToolExecutionResult>;
-
-export interface ToolRegistry {
-    definitions: FunctionDeclaration[];
-    handlers: Record<string, ToolHandler>;
-}
+export type ToolHandler = (
+    args: Record<string, unknown>,
+    signal?: AbortSignal
+) => Promise<ToolExecutionResult>;
 
 // Re-export SDK types for convenience
 export type { Content, Part, FunctionCall, FunctionResponse };
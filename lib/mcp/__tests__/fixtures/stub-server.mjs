@@ -0,0 +1,128 @@
+/**
+ * Stub MCP Server
+ *
+ * Minimal MCP server for tests. Speaks newline-delimited JSON-RPC on
+ * stdin/stdout, or Streamable HTTP with `--http` (prints the port on stdout).
+ *
+ * Tools:
+ * - echo(text, shout?)   returns the text
+ * - add(a, b)            returns structured { sum }
+ * - fail()               returns an isError result
+ * - slow()               never answers (for cancellation tests)
+ * Tools are listed over two pages to exercise pagination.
+ */
+
+import http from "node:http";
+import readline from "node:readline";
+
+const TOOLS = [
+    {
+        name: "echo",
+        description: "Echo text back",
+        inputSchema: {
+            type: "object",
+            properties: {
+                text: { type: "string" },
+                shout: { type: ["boolean", "null"] },
+            },
+            required: ["text"],
+        },
+        annotations: { readOnlyHint: true },
+    },
+    {
+        name: "add",
+        description: "Add two numbers",
+        inputSchema: {
+            type: "object",
+            properties: { a: { type: "number" }, b: { type: "number" } },
+            required: ["a", "b"],
+        },
+    },
+    { name: "fail", description: "Always fails", inputSchema: { type: "object" } },
+    { name: "slow", description: "Never answers", inputSchema: { type: "object" } },
+];
+
+/** Returns the response for a request, or null for notifications/no answer */
+function handle(message) {
+    const { id, method, params } = message;
+    if (id === undefined) return null;
+
+    const reply = (result) => ({ jsonrpc: "2.0", id, result });
+
+    switch (method) {
+        case "initialize":
+            return reply({
+                protocolVersion: params.protocolVersion,
+                capabilities: { tools: {} },
+                serverInfo: { name: "stub", version: "1.0.0" },
+            });
+        case "tools/list":
+            return params?.cursor
+                ? reply({ tools: TOOLS.slice(2) })
+                : reply({ tools: TOOLS.slice(0, 2), nextCursor: "page-2" });
+        case "tools/call": {
+            const args = params.arguments ?? {};
+            switch (params.name) {
+                case "echo":
+                    return reply({ content: [{ type: "text", text: args.shout ? args.text.toUpperCase() : args.text }] });
+                case "add":
+                    return reply({
+                        content: [{ type: "text", text: String(args.a + args.b) }],
+                        structuredContent: { sum: args.a + args.b },
+                    });
+                case "fail":
+                    return reply({ content: [{ type: "text", text: "stub failure" }], isError: true });
+                case "slow":
+                    return null;
+                default:
+                    return { jsonrpc: "2.0", id, error: { code: -32602, message: `Unknown tool: ${params.name}` } };
+            }
+        }
+        default:
+            return { jsonrpc: "2.0", id, error: { code: -32601, message: "Method not found" } };
+    }
+}
+
+if (process.argv.includes("--http")) {
+    const server = http.createServer((req, res) => {
+        if (req.method === "DELETE") {
+            res.writeHead(204).end();
+            return;
+        }
+
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+            const message = JSON.parse(body);
+            const response = handle(message);
+
+            if (message.method === "initialize") res.setHeader("Mcp-Session-Id", "stub-session");
+            if (!response) {
+                if (message.id === undefined) res.writeHead(202).end();
+                return; // "slow": leave the request open
+            }
+
+            // Answer tools/call as an SSE stream, everything else as plain JSON
+            if (message.method === "tools/call") {
+                res.writeHead(200, { "Content-Type": "text/event-stream" });
+                res.end(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
+            } else {
+                res.writeHead(200, { "Content-Type": "application/json" });
+                res.end(JSON.stringify(response));
+            }
+        });
+    });
+
+    server.listen(0, "127.0.0.1", () => {
+        process.stdout.write(`${server.address().port}\n`);
+    });
+    process.stdin.on("end", () => process.exit(0));
+    process.stdin.resume();
+} else {
+    const lines = readline.createInterface({ input: process.stdin });
+    lines.on("line", (line) => {
+        if (!line.trim()) return;
+        const response = handle(JSON.parse(line));
+        if (response) process.stdout.write(`${JSON.stringify(response)}\n`);
+    });
+}
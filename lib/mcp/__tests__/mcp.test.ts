@@ -0,0 +1,262 @@
+// @vitest-environment node
+/**
+ * MCP Client Tests
+ *
+ * Tests for schema translation, config loading, and connecting to a local
+ * stub MCP server over stdio and HTTP with its tools routed through
+ * executeTool.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from "vitest";
+import { spawn, type ChildProcessWithoutNullStreams } from "child_process";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { SchemaType } from "@google/generative-ai";
+import {
+    loadMcpConfig,
+    McpManager,
+    qualifiedToolName,
+    StdioTransport,
+    suffixedToolName,
+    toFunctionDeclaration,
+    toGeminiSchema,
+    toToolResult,
+} from "@/lib/mcp";
+import { executeTool, toolRegistry, ToolRegistry } from "@/lib/gemini/tools";
+
+const STUB = path.join(__dirname, "fixtures", "stub-server.mjs");
+const stdioStub = { command: process.execPath, args: [STUB] };
+
+describe("MCP", () => {
+    beforeAll(() => {
+        vi.spyOn(console, "log").mockImplementation(() => undefined);
+        vi.spyOn(console, "warn").mockImplementation(() => undefined);
+    });
+
+    afterAll(() => {
+        vi.restoreAllMocks();
+    });
+
+    describe("schema translation", () => {
+        it("should qualify and sanitize tool names", () => {
+            expect(qualifiedToolName("git hub", "create.issue")).toBe("git_hub__create_issue");
+            expect(qualifiedToolName("s", "x".repeat(100))).toHaveLength(64);
+            expect(suffixedToolName("files__read", 2)).toBe("files__read_2");
+            expect(suffixedToolName("x".repeat(64), 12)).toBe(`${"x".repeat(61)}_12`);
+        });
+
+        it("should map JSON Schema onto the Gemini subset", () => {
+            expect(toGeminiSchema({
+                type: "object",
+                properties: {
+                    mode: { enum: ["a", "b"], description: "Mode" },
+                    limit: { type: ["integer", "null"] },
+                    tags: { type: "array" },
+                    owner: { anyOf: [{ type: "null" }, { type: "string" }], description: "Owner" },
+                },
+                required: ["mode", "ghost"],
+            })).toEqual({
+                type: SchemaType.OBJECT,
+                properties: {
+                    mode: { type: SchemaType.STRING, description: "Mode", format: "enum", enum: ["a", "b"] },
+                    limit: { type: SchemaType.INTEGER, nullable: true },
+                    tags: { type: SchemaType.ARRAY, items: { type: SchemaType.STRING } },
+                    owner: { type: SchemaType.STRING, description: "Owner", nullable: true },
+                },
+                required: ["mode"],
+            });
+        });
+
+        it("should omit parameters for tools without arguments", () => {
+            const declaration = toFunctionDeclaration("stub", { name: "ping", inputSchema: { type: "object" } });
+            expect(declaration).toEqual({ name: "stub__ping", description: "ping" });
+        });
+
+        it("should map isError results to failures", () => {
+            expect(toToolResult({ content: [{ type: "text", text: "nope" }], isError: true }))
+                .toEqual({ success: false, result: null, error: "nope" });
+            expect(toToolResult({ content: [{ type: "image", data: "", mimeType: "image/png" }] }))
+                .toEqual({ success: true, result: "[image: image/png]" });
+        });
+    });
+
+    describe("loadMcpConfig", () => {
+        let dir: string;
+
+        beforeAll(async () => {
+            dir = await fs.mkdtemp(path.join(os.tmpdir(), "mcp-config-"));
+        });
+
+        afterAll(async () => {
+            await fs.rm(dir, { recursive: true, force: true });
+        });
+
+        it("should return null when the file does not exist", async () => {
+            expect(await loadMcpConfig(path.join(dir, "missing.json"))).toBeNull();
+        });
+
+        it("should reject servers without a command or url", async () => {
+            const file = path.join(dir, "bad.json");
+            await fs.writeFile(file, JSON.stringify({ mcpServers: { broken: { args: [] } } }));
+            await expect(loadMcpConfig(file)).rejects.toThrow("MCP server 'broken' needs a \"command\" or a \"url\"");
+        });
+
+        it("should read valid configs", async () => {
+            const file = path.join(dir, "ok.json");
+            await fs.writeFile(file, JSON.stringify({ mcpServers: { stub: stdioStub } }));
+            expect(await loadMcpConfig(file)).toEqual({ mcpServers: { stub: stdioStub } });
+        });
+    });
+
+    describe("stdio server", () => {
+        const manager = new McpManager();
+
+        beforeAll(async () => {
+            await manager.connectAll({ mcpServers: { stub: stdioStub } });
+        }, 20_000);
+
+        afterAll(async () => {
+            await manager.closeAll();
+        });
+
+        it("should register every listed tool across pages", () => {
+            expect(manager.servers()).toEqual([{
+                name: "stub",
+                connected: true,
+                tools: ["stub__echo", "stub__add", "stub__fail", "stub__slow"],
+            }]);
+            expect(toolRegistry.list({ categories: ["external"] }).map((t) => [t.name, t.sideEffects])).toEqual([
+                ["stub__echo", false],
+                ["stub__add", true],
+                ["stub__fail", true],
+                ["stub__slow", true],
+            ]);
+        });
+
+        it("should run calls through executeTool", async () => {
+            await expect(executeTool("stub__echo", { text: "hi", shout: true }))
+                .resolves.toEqual({ success: true, result: "HI" });
+            await expect(executeTool("stub__add", { a: 2, b: 3 }))
+                .resolves.toEqual({ success: true, result: { sum: 5 } });
+        });
+
+        it("should validate arguments against the translated schema", async () => {
+            await expect(executeTool("stub__add", { a: "2", b: 3 })).resolves.toMatchObject({
+                success: false,
+                code: "VALIDATION_ERROR",
+                error: "Invalid arguments for 'stub__add': a expected number, got string",
+            });
+        });
+
+        it("should report tool errors and cancellation as failed results", async () => {
+            await expect(executeTool("stub__fail", {}))
+                .resolves.toMatchObject({ success: false, error: "stub failure", code: "TOOL_EXECUTION_FAILED" });
+
+            const controller = new AbortController();
+            const pending = executeTool("stub__slow", {}, controller.signal);
+            controller.abort();
+            await expect(pending).resolves.toMatchObject({ success: false, error: "Tool 'stub__slow' failed: cancelled" });
+        });
+
+        it("should unregister tools on disconnect", async () => {
+            const local = new McpManager(new ToolRegistry());
+            await local.connect("other", stdioStub);
+            await local.disconnect("other");
+            expect(local.servers()).toEqual([]);
+            expect(toolRegistry.has("stub__echo")).toBe(true);
+        }, 20_000);
+    });
+
+    describe("HTTP server", () => {
+        let child: ChildProcessWithoutNullStreams;
+        let url: string;
+        const registry = new ToolRegistry();
+        const manager = new McpManager(registry);
+
+        beforeAll(async () => {
+            child = spawn(process.execPath, [STUB, "--http"]);
+            const port = await new Promise<string>((resolve) => {
+                child.stdout.once("data", (chunk: Buffer) => resolve(chunk.toString().trim()));
+            });
+            url = `http://127.0.0.1:${port}/mcp`;
+            await manager.connect("web", { url });
+        }, 20_000);
+
+        afterAll(async () => {
+            await manager.closeAll();
+            child.kill();
+        });
+
+        it("should list tools and call them over JSON and SSE responses", async () => {
+            expect(registry.list().map((t) => t.name)).toEqual(["web__echo", "web__add", "web__fail", "web__slow"]);
+
+            const result = await registry.getHandler("web__echo")!({ text: "over http" });
+            expect(result).toEqual({ success: true, result: "over http" });
+        });
+    });
+
+    describe("name collisions", () => {
+        const registry = new ToolRegistry();
+        const manager = new McpManager(registry);
+
+        afterAll(async () => {
+            await manager.closeAll();
+        });
+
+        it("should suffix tools whose qualified names are taken", async () => {
+            const builtin = vi.fn(async () => ({ success: true, result: "built-in" }));
+            registry.register({
+                declaration: { name: "my_stub__add", description: "Existing tool" },
+                handler: builtin,
+                metadata: { category: "math", cost: "low", sideEffects: false },
+            });
+
+            const first = await manager.connect("my.stub", stdioStub);
+            const second = await manager.connect("my_stub", stdioStub);
+
+            expect(first.tools).toEqual(["my_stub__echo", "my_stub__add_2", "my_stub__fail", "my_stub__slow"]);
+            expect(second.tools).toEqual(["my_stub__echo_2", "my_stub__add_3", "my_stub__fail_2", "my_stub__slow_2"]);
+            await expect(registry.getHandler("my_stub__add")!({ a: 1, b: 2 }))
+                .resolves.toEqual({ success: true, result: "built-in" });
+            await expect(registry.getHandler("my_stub__add_3")!({ a: 1, b: 2 }))
+                .resolves.toEqual({ success: true, result: { sum: 3 } });
+        }, 20_000);
+    });
+
+    describe("unreachable servers", () => {
+        const manager = new McpManager(new ToolRegistry());
+
+        afterEach(async () => {
+            await manager.closeAll();
+        });
+
+        it("should report a server that fails to start and keep going", async () => {
+            const servers = await manager.connectAll({
+                mcpServers: {
+                    missing: { command: path.join(os.tmpdir(), "no-such-mcp-server") },
+                    off: { ...stdioStub, disabled: true },
+                },
+            });
+
+            expect(servers).toEqual([{
+                name: "missing",
+                connected: false,
+                tools: [],
+                error: expect.stringContaining("Server 'missing' failed to start"),
+            }]);
+        });
+
+        it("should fail requests to a server that closed its stdin instead of crashing", async () => {
+            const transport = new StdioTransport("closed", {
+                command: process.execPath,
+                args: ["-e", "require('fs').closeSync(0); setTimeout(() => {}, 10000)"],
+            });
+            await new Promise((resolve) => setTimeout(resolve, 300));
+
+            await expect(transport.request("tools/list")).rejects.toThrow(/Server 'closed' stdin failed: .*EPIPE/);
+            await expect(transport.request("tools/list")).rejects.toThrow("stdin failed");
+            await transport.close();
+        }, 20_000);
+    });
+});
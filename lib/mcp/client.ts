@@ -0,0 +1,84 @@
+/**
+ * MCP Client
+ *
+ * One connection to one MCP server: the initialize handshake, tool listing
+ * (following pagination) and tool calls. Transport-agnostic.
+ */
+
+import { McpError } from "../errors/index";
+import type { McpCallToolResult, McpTool, McpTransport } from "./types";
+
+export const MCP_PROTOCOL_VERSION = "2025-03-26";
+
+const CLIENT_INFO = { name: "gemini-chatbot", version: "0.1.0" };
+
+/** Limit for handshake and listing; tool calls are bounded by executeTool */
+const REQUEST_TIMEOUT_MS = 15_000;
+
+export interface McpServerInfo {
+    name: string;
+    version?: string;
+}
+
+export class McpClient {
+    private info: McpServerInfo | null = null;
+
+    constructor(readonly name: string, private readonly transport: McpTransport) { }
+
+    get serverInfo(): McpServerInfo | null {
+        return this.info;
+    }
+
+    /**
+     * Run the initialize handshake; must complete before any other call
+     */
+    async connect(): Promise<void> {
+        const result = await this.request("initialize", {
+            protocolVersion: MCP_PROTOCOL_VERSION,
+            capabilities: {},
+            clientInfo: CLIENT_INFO,
+        }) as { serverInfo?: McpServerInfo; capabilities?: { tools?: unknown } };
+
+        if (!result?.capabilities?.tools) {
+            throw new McpError(`Server '${this.name}' does not offer tools`);
+        }
+
+        this.info = result.serverInfo ?? { name: this.name };
+        await this.transport.notify("notifications/initialized");
+    }
+
+    async listTools(): Promise<McpTool[]> {
+        const tools: McpTool[] = [];
+        let cursor: string | undefined;
+
+        do {
+            const page = await this.request("tools/list", cursor ? { cursor } : {}) as {
+                tools?: McpTool[];
+                nextCursor?: string;
+            };
+            tools.push(...(page.tools ?? []));
+            cursor = page.nextCursor;
+        } while (cursor);
+
+        return tools;
+    }
+
+    async callTool(name: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<McpCallToolResult> {
+        const result = await this.transport.request("tools/call", { name, arguments: args }, signal) as McpCallToolResult;
+        return { ...result, content: result?.content ?? [] };
+    }
+
+    close(): Promise<void> {
+        return this.transport.close();
+    }
+
+    private request(method: string, params: unknown): Promise<unknown> {
+        const signal = AbortSignal.timeout(REQUEST_TIMEOUT_MS);
+        return this.transport.request(method, params, signal).catch((error: unknown) => {
+            if (signal.aborted) {
+                throw new McpError(`Server '${this.name}' did not answer ${method} within ${REQUEST_TIMEOUT_MS}ms`);
+            }
+            throw error;
+        });
+    }
+}
@@ -0,0 +1,245 @@
+/**
+ * MCP Module
+ *
+ * Connects to the MCP servers listed in the local config file and registers
+ * their tools on the shared tool registry, so they are offered to the model
+ * and run through executeTool (validation, timeouts, metrics) like built-ins.
+ *
+ * Environment:
+ * - MCP_CONFIG_PATH: config file (default: mcp.json in the working directory)
+ *
+ * Config format:
+ *   { "mcpServers": { "files": { "command": "npx", "args": [...] },
+ *                     "search": { "url": "http://localhost:8080/mcp" } } }
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { ValidationError } from "../errors/index";
+import { toolRegistry } from "../gemini/tools";
+import type { ToolExecutionResult, ToolRegistry } from "../gemini/tools";
+import { McpClient } from "./client";
+import { suffixedToolName, toFunctionDeclaration } from "./schema";
+import { createTransport } from "./transport";
+import type { McpCallToolResult, McpConfigFile, McpContent, McpServerConfig, McpTool } from "./types";
+
+export { McpClient, MCP_PROTOCOL_VERSION } from "./client";
+export type { McpServerInfo } from "./client";
+export { HttpTransport, StdioTransport, createTransport } from "./transport";
+export { qualifiedToolName, suffixedToolName, toFunctionDeclaration, toGeminiSchema } from "./schema";
+export type * from "./types";
+
+// ============================================================================
+// Config
+// ============================================================================
+
+function isServerConfig(value: unknown): value is McpServerConfig {
+    if (typeof value !== "object" || value === null) return false;
+    const entry = value as Record<string, unknown>;
+    return typeof entry.command === "string" || typeof entry.url === "string";
+}
+
+/**
+ * Read the config file; null when it does not exist
+ */
+export async function loadMcpConfig(filePath: string): Promise<McpConfigFile | null> {
+    let raw: string;
+    try {
+        raw = await fs.readFile(filePath, "utf8");
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(raw);
+    } catch {
+        throw new ValidationError(`MCP config ${filePath} is not valid JSON`);
+    }
+
+    const servers = (parsed as Partial<McpConfigFile> | null)?.mcpServers;
+    if (typeof servers !== "object" || servers === null) {
+        throw new ValidationError(`MCP config ${filePath} must contain an "mcpServers" object`);
+    }
+
+    for (const [name, entry] of Object.entries(servers)) {
+        if (!isServerConfig(entry)) {
+            throw new ValidationError(`MCP server '${name}' needs a "command" or a "url"`, name);
+        }
+    }
+
+    return { mcpServers: servers };
+}
+
+// ============================================================================
+// Tool Adapter
+// ============================================================================
+
+function contentToText(content: McpContent[]): string {
+    return content
+        .map((item) => {
+            if (item.type === "text" && item.text !== undefined) return item.text;
+            if (item.type === "resource" && item.resource) {
+                return item.resource.text ?? `[resource: ${item.resource.uri}]`;
+            }
+            return `[${item.type}${item.mimeType ? `: ${item.mimeType}` : ""}]`;
+        })
+        .join("\n");
+}
+
+/**
+ * Map an MCP tool result onto the in-process tool result shape
+ */
+export function toToolResult(result: McpCallToolResult): ToolExecutionResult {
+    const text = contentToText(result.content);
+    if (result.isError) {
+        return { success: false, result: null, error: text || "Tool reported an error" };
+    }
+    return { success: true, result: result.structuredContent ?? text };
+}
+
+// ============================================================================
+// Manager
+// ============================================================================
+
+export interface McpServerStatus {
+    name: string;
+    connected: boolean;
+    tools: string[];
+    error?: string;
+}
+
+export class McpManager {
+    private readonly clients = new Map<string, McpClient>();
+    private readonly registered = new Map<string, string[]>();
+    private readonly status = new Map<string, McpServerStatus>();
+
+    constructor(private readonly registry: ToolRegistry = toolRegistry) { }
+
+    /**
+     * Connect every enabled server and register its tools. A server that
+     * fails to start is reported in status() and skipped.
+     */
+    async connectAll(config: McpConfigFile): Promise<McpServerStatus[]> {
+        const entries = Object.entries(config.mcpServers).filter(([, server]) => !server.disabled);
+        await Promise.all(entries.map(([name, server]) => this.connect(name, server)));
+        return this.servers();
+    }
+
+    async connect(name: string, config: McpServerConfig): Promise<McpServerStatus> {
+        await this.disconnect(name);
+
+        const client = new McpClient(name, createTransport(name, config));
+        let status: McpServerStatus;
+        try {
+            await client.connect();
+            const tools = (await client.listTools()).map((tool) => this.registerTool(client, tool, config));
+            this.clients.set(name, client);
+            this.registered.set(name, tools);
+            status = { name, connected: true, tools };
+            console.log(`[MCP] ${name}: ${tools.length} tool(s) registered`);
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.warn(`[MCP] ${name}: ${message}`);
+            await client.close().catch(() => undefined);
+            status = { name, connected: false, tools: [], error: message };
+        }
+
+        this.status.set(name, status);
+        return status;
+    }
+
+    async disconnect(name: string): Promise<void> {
+        for (const toolName of this.registered.get(name) ?? []) {
+            this.registry.unregister(toolName);
+        }
+        this.registered.delete(name);
+        this.status.delete(name);
+
+        const client = this.clients.get(name);
+        this.clients.delete(name);
+        await client?.close();
+    }
+
+    async closeAll(): Promise<void> {
+        await Promise.all([...this.status.keys()].map((name) => this.disconnect(name)));
+    }
+
+    servers(): McpServerStatus[] {
+        return [...this.status.values()];
+    }
+
+    private registerTool(client: McpClient, tool: McpTool, config: McpServerConfig): string {
+        const declaration = toFunctionDeclaration(client.name, tool);
+        const name = this.freeName(declaration.name);
+        if (name !== declaration.name) {
+            console.warn(`[MCP] ${client.name}: '${declaration.name}' is taken, registering tool '${tool.name}' as '${name}'`);
+        }
+
+        this.registry.register({
+            declaration: { ...declaration, name },
+            handler: async (args, signal) => toToolResult(await client.callTool(tool.name, args, signal)),
+            metadata: {
+                category: "external",
+                cost: "medium",
+                sideEffects: tool.annotations?.readOnlyHint !== true,
+            },
+            ...(config.timeoutMs !== undefined && { timeoutMs: config.timeoutMs }),
+        });
+        return name;
+    }
+
+    /**
+     * `name`, or the first free suffixed form of it: sanitizing and truncating
+     * can map different tools (or servers) onto one name, and a later one
+     * must not silently replace an earlier one or a built-in
+     */
+    private freeName(name: string): string {
+        let candidate = name;
+        for (let n = 2; this.registry.has(candidate); n++) {
+            candidate = suffixedToolName(name, n);
+        }
+        return candidate;
+    }
+}
+
+// ============================================================================
+// Application Instance
+// ============================================================================
+
+let globalManager: McpManager | null = null;
+let ready: Promise<void> | null = null;
+
+export function getMcpManager(): McpManager {
+    if (!globalManager) globalManager = new McpManager();
+    return globalManager;
+}
+
+/**
+ * Connect the configured servers once per process; later calls reuse the
+ * same attempt. Config errors are logged, never thrown, so chat keeps working.
+ */
+export function ensureMcpTools(): Promise<void> {
+    if (!ready) {
+        const filePath = process.env.MCP_CONFIG_PATH || path.join(process.cwd(), "mcp.json");
+        ready = loadMcpConfig(filePath)
+            .then(async (config) => {
+                if (config) await getMcpManager().connectAll(config);
+            })
+            .catch((error: unknown) => {
+                console.warn(`[MCP] ${error instanceof Error ? error.message : String(error)}`);
+            });
+    }
+    return ready;
+}
+
+/**
+ * Disconnect all servers and forget the config (for testing)
+ */
+export async function resetMcpTools(): Promise<void> {
+    const manager = globalManager;
+    globalManager = null;
+    ready = null;
+    await manager?.closeAll();
+}
@@ -0,0 +1,104 @@
+/**
+ * MCP Schema Translation
+ *
+ * Converts MCP tool definitions (JSON Schema input) into Gemini
+ * FunctionDeclarations. Gemini accepts an OpenAPI subset, so unsupported
+ * keywords are dropped and unions collapse to their first non-null branch.
+ */
+
+import { SchemaType } from "@google/generative-ai";
+import type { FunctionDeclaration, FunctionDeclarationSchema, Schema } from "@google/generative-ai";
+import type { JsonSchema, McpTool } from "./types";
+
+/** Gemini function names: letters, digits, underscores and dashes, at most 64 chars */
+const MAX_NAME_LENGTH = 64;
+
+const TYPE_MAP: Record<string, SchemaType> = {
+    string: SchemaType.STRING,
+    number: SchemaType.NUMBER,
+    integer: SchemaType.INTEGER,
+    boolean: SchemaType.BOOLEAN,
+    array: SchemaType.ARRAY,
+    object: SchemaType.OBJECT,
+};
+
+/**
+ * Model-facing name for a server's tool, e.g. "github__create_issue"
+ */
+export function qualifiedToolName(serverName: string, toolName: string): string {
+    return `${serverName}__${toolName}`
+        .replace(/[^A-Za-z0-9_-]/g, "_")
+        .slice(0, MAX_NAME_LENGTH);
+}
+
+/**
+ * `name` with "_<n>" appended, shortened to stay within the length limit
+ */
+export function suffixedToolName(name: string, n: number): string {
+    const suffix = `_${n}`;
+    return name.slice(0, MAX_NAME_LENGTH - suffix.length) + suffix;
+}
+
+function inferType(schema: JsonSchema): string {
+    if (schema.properties) return "object";
+    if (schema.items) return "array";
+    return "string";
+}
+
+export function toGeminiSchema(schema: JsonSchema): Schema {
+    const union = schema.anyOf ?? schema.oneOf;
+    if (union) {
+        const nullable = union.some((branch) => branch.type === "null");
+        const branch = union.find((b) => b.type !== "null") ?? {};
+        return {
+            ...toGeminiSchema({ ...(schema.description && { description: schema.description }), ...branch }),
+            ...(nullable && { nullable: true }),
+        };
+    }
+
+    const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    const nullable = types.includes("null");
+    const type = TYPE_MAP[types.find((t) => t !== "null") ?? inferType(schema)] ?? SchemaType.STRING;
+
+    const result: Schema = { type };
+    if (schema.description) result.description = schema.description;
+    if (nullable) result.nullable = true;
+
+    if (type === SchemaType.STRING && schema.enum?.every((v) => typeof v === "string")) {
+        result.format = "enum";
+        result.enum = schema.enum as string[];
+    } else if (type === SchemaType.ARRAY) {
+        result.items = toGeminiSchema(schema.items ?? { type: "string" });
+    } else if (type === SchemaType.OBJECT && schema.properties) {
+        const properties = Object.fromEntries(
+            Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+        );
+        const required = (schema.required ?? []).filter((key) => key in properties);
+        result.properties = properties;
+        if (required.length > 0) result.required = required;
+    }
+
+    return result;
+}
+
+/**
+ * Build the declaration offered to the model for an MCP tool
+ */
+export function toFunctionDeclaration(serverName: string, tool: McpTool): FunctionDeclaration {
+    const declaration: FunctionDeclaration = {
+        name: qualifiedToolName(serverName, tool.name),
+        description: tool.description ?? tool.annotations?.title ?? tool.name,
+    };
+
+    // Gemini rejects OBJECT parameters without properties, so omit them for no-arg tools
+    const { properties, required } = toGeminiSchema({ ...tool.inputSchema, type: "object" });
+    if (properties && Object.keys(properties).length > 0) {
+        declaration.parameters = {
+            type: SchemaType.OBJECT,
+            properties,
+            ...(required && { required }),
+        } as FunctionDeclarationSchema;
+    }
+
+    return declaration;
+}
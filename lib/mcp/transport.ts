@@ -0,0 +1,263 @@
+/**
+ * MCP Transports
+ *
+ * JSON-RPC 2.0 over the two standard MCP transports:
+ * - stdio: newline-delimited messages to a child process
+ * - Streamable HTTP: one POST per message, answered with JSON or an SSE stream
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from "child_process";
+import { McpError } from "../errors/index";
+import { readSSE } from "../chat/sse-parser";
+import type {
+    JsonRpcMessage,
+    JsonRpcResponse,
+    McpHttpServerConfig,
+    McpServerConfig,
+    McpStdioServerConfig,
+    McpTransport,
+} from "./types";
+
+const METHOD_NOT_FOUND = -32601;
+
+function isResponse(message: JsonRpcMessage): message is JsonRpcResponse {
+    return "id" in message && ("result" in message || "error" in message);
+}
+
+function resultOf(method: string, response: JsonRpcResponse): unknown {
+    if (response.error) {
+        throw new McpError(`${method} failed: ${response.error.message}`, response.error.code);
+    }
+    return response.result;
+}
+
+function abortReason(signal?: AbortSignal): Error {
+    return signal?.reason instanceof Error ? signal.reason : new McpError("Request cancelled");
+}
+
+// ============================================================================
+// stdio
+// ============================================================================
+
+interface PendingRequest {
+    method: string;
+    resolve: (result: unknown) => void;
+    reject: (error: Error) => void;
+}
+
+export class StdioTransport implements McpTransport {
+    private readonly child: ChildProcessWithoutNullStreams;
+    private readonly pending = new Map<number, PendingRequest>();
+    private buffer = "";
+    private nextId = 1;
+    private exitError: McpError | null = null;
+
+    constructor(private readonly name: string, config: McpStdioServerConfig) {
+        this.child = spawn(config.command, config.args ?? [], {
+            ...(config.cwd && { cwd: config.cwd }),
+            env: { ...process.env, ...config.env },
+            stdio: ["pipe", "pipe", "pipe"],
+        });
+
+        this.child.stdout.setEncoding("utf8");
+        this.child.stdout.on("data", (chunk: string) => this.onData(chunk));
+        this.child.stderr.setEncoding("utf8");
+        this.child.stderr.on("data", (chunk: string) => {
+            for (const line of chunk.split("\n").filter(Boolean)) {
+                console.warn(`[MCP:${name}] ${line}`);
+            }
+        });
+        // A server that dies mid-request closes the pipe; EPIPE must not crash the host
+        this.child.stdin.on("error", (error) => this.fail(new McpError(`Server '${name}' stdin failed: ${error.message}`)));
+        this.child.on("error", (error) => this.fail(new McpError(`Server '${name}' failed to start: ${error.message}`)));
+        this.child.on("exit", (code) => this.fail(new McpError(`Server '${name}' exited (code ${code})`)));
+    }
+
+    request(method: string, params?: unknown, signal?: AbortSignal): Promise<unknown> {
+        if (this.exitError) return Promise.reject(this.exitError);
+        if (signal?.aborted) return Promise.reject(abortReason(signal));
+
+        const id = this.nextId++;
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                this.pending.delete(id);
+                void this.notify("notifications/cancelled", { requestId: id, reason: "cancelled" });
+                reject(abortReason(signal));
+            };
+
+            this.pending.set(id, {
+                method,
+                resolve: (result) => {
+                    signal?.removeEventListener("abort", onAbort);
+                    resolve(result);
+                },
+                reject: (error) => {
+                    signal?.removeEventListener("abort", onAbort);
+                    reject(error);
+                },
+            });
+            signal?.addEventListener("abort", onAbort, { once: true });
+            this.write({ jsonrpc: "2.0", id, method, ...(params !== undefined && { params }) });
+        });
+    }
+
+    async notify(method: string, params?: unknown): Promise<void> {
+        if (this.exitError) return;
+        this.write({ jsonrpc: "2.0", method, ...(params !== undefined && { params }) });
+    }
+
+    async close(): Promise<void> {
+        // A failed pipe leaves the process running, so only skip what has really exited
+        if (this.child.pid === undefined || this.child.exitCode !== null || this.child.signalCode !== null) return;
+        const exited = new Promise<void>((resolve) => this.child.once("exit", () => resolve()));
+        this.child.stdin.end();
+        this.child.kill();
+        await exited;
+    }
+
+    /**
+     * Send a message; once the server is gone, fail its request instead
+     */
+    private write(message: JsonRpcMessage): void {
+        if (this.exitError) {
+            const id = "id" in message && typeof message.id === "number" ? message.id : undefined;
+            const pending = id === undefined ? undefined : this.pending.get(id);
+            if (id !== undefined && pending) {
+                this.pending.delete(id);
+                pending.reject(this.exitError);
+            }
+            return;
+        }
+        this.child.stdin.write(`${JSON.stringify(message)}\n`);
+    }
+
+    private onData(chunk: string): void {
+        this.buffer += chunk;
+        let newline: number;
+        while ((newline = this.buffer.indexOf("\n")) >= 0) {
+            const line = this.buffer.slice(0, newline).trim();
+            this.buffer = this.buffer.slice(newline + 1);
+            if (!line) continue;
+
+            try {
+                this.dispatch(JSON.parse(line));
+            } catch {
+                console.warn(`[MCP:${this.name}] Ignoring non-JSON output: ${line.slice(0, 200)}`);
+            }
+        }
+    }
+
+    private dispatch(message: JsonRpcMessage): void {
+        if (isResponse(message)) {
+            const pending = typeof message.id === "number" ? this.pending.get(message.id) : undefined;
+            if (!pending) return;
+            this.pending.delete(message.id as number);
+            try {
+                pending.resolve(resultOf(pending.method, message));
+            } catch (error) {
+                pending.reject(error as Error);
+            }
+            return;
+        }
+
+        // Server-initiated request: answer pings, decline everything else
+        if ("id" in message) {
+            this.write(message.method === "ping"
+                ? { jsonrpc: "2.0", id: message.id, result: {} }
+                : { jsonrpc: "2.0", id: message.id, error: { code: METHOD_NOT_FOUND, message: "Method not found" } });
+        }
+    }
+
+    private fail(error: McpError): void {
+        if (this.exitError) return;
+        this.exitError = error;
+        for (const pending of this.pending.values()) pending.reject(error);
+        this.pending.clear();
+    }
+}
+
+// ============================================================================
+// Streamable HTTP
+// ============================================================================
+
+export class HttpTransport implements McpTransport {
+    private nextId = 1;
+    private sessionId: string | null = null;
+
+    constructor(private readonly name: string, private readonly config: McpHttpServerConfig) { }
+
+    async request(method: string, params?: unknown, signal?: AbortSignal): Promise<unknown> {
+        const id = this.nextId++;
+        const res = await this.post({ jsonrpc: "2.0", id, method, ...(params !== undefined && { params }) }, signal);
+
+        if (res.headers.get("content-type")?.includes("text/event-stream") && res.body) {
+            for await (const message of readSSE(res.body)) {
+                if (!message.data) continue;
+                const parsed = JSON.parse(message.data) as JsonRpcMessage;
+                if (isResponse(parsed) && parsed.id === id) return resultOf(method, parsed);
+            }
+            throw new McpError(`Server '${this.name}' closed the stream without answering ${method}`);
+        }
+
+        const body = await res.json() as JsonRpcResponse | JsonRpcResponse[];
+        const response = (Array.isArray(body) ? body : [body]).find((m) => m.id === id);
+        if (!response) throw new McpError(`Server '${this.name}' sent no response to ${method}`);
+        return resultOf(method, response);
+    }
+
+    async notify(method: string, params?: unknown): Promise<void> {
+        const res = await this.post({ jsonrpc: "2.0", method, ...(params !== undefined && { params }) });
+        await res.body?.cancel();
+    }
+
+    async close(): Promise<void> {
+        if (!this.sessionId) return;
+        // Best effort: servers may not support explicit session termination
+        await fetch(this.config.url, { method: "DELETE", headers: this.headers() }).catch(() => undefined);
+        this.sessionId = null;
+    }
+
+    private headers(): Record<string, string> {
+        return {
+            ...this.config.headers,
+            ...(this.sessionId && { "Mcp-Session-Id": this.sessionId }),
+        };
+    }
+
+    private async post(message: JsonRpcMessage, signal?: AbortSignal): Promise<Response> {
+        let res: Response;
+        try {
+            res = await fetch(this.config.url, {
+                method: "POST",
+                ...(signal && { signal }),
+                headers: {
+                    "Content-Type": "application/json",
+                    Accept: "application/json, text/event-stream",
+                    ...this.headers(),
+                },
+                body: JSON.stringify(message),
+            });
+        } catch (error) {
+            if (signal?.aborted) throw abortReason(signal);
+            throw new McpError(`Server '${this.name}' unreachable: ${error instanceof Error ? error.message : String(error)}`);
+        }
+
+        if (!res.ok) {
+            const body = await res.text().catch(() => "");
+            throw new McpError(`Server '${this.name}' returned HTTP ${res.status}: ${body.slice(0, 200)}`);
+        }
+
+        const sessionId = res.headers.get("mcp-session-id");
+        if (sessionId) this.sessionId = sessionId;
+        return res;
+    }
+}
+
+/**
+ * Pick the transport for a server entry (`command` → stdio, `url` → HTTP)
+ */
+export function createTransport(name: string, config: McpServerConfig): McpTransport {
+    return "command" in config
+        ? new StdioTransport(name, config)
+        : new HttpTransport(name, config);
+}
@@ -0,0 +1,127 @@
+/**
+ * MCP Types
+ *
+ * Configuration and wire types for the Model Context Protocol client.
+ * Only the subset needed to list and call tools is modelled.
+ */
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+interface McpServerBase {
+    /** Per-call time limit for this server's tools in ms */
+    timeoutMs?: number;
+    /** Skip this server without removing it from the file */
+    disabled?: boolean;
+}
+
+/**
+ * Server launched as a child process, speaking JSON-RPC over stdin/stdout
+ */
+export interface McpStdioServerConfig extends McpServerBase {
+    command: string;
+    args?: string[];
+    env?: Record<string, string>;
+    cwd?: string;
+}
+
+/**
+ * Server reached over the Streamable HTTP transport
+ */
+export interface McpHttpServerConfig extends McpServerBase {
+    url: string;
+    headers?: Record<string, string>;
+}
+
+export type McpServerConfig = McpStdioServerConfig | McpHttpServerConfig;
+
+/**
+ * Shape of the local config file (same layout as other MCP hosts)
+ */
+export interface McpConfigFile {
+    mcpServers: Record<string, McpServerConfig>;
+}
+
+// ============================================================================
+// JSON-RPC
+// ============================================================================
+
+export interface JsonRpcRequest {
+    jsonrpc: "2.0";
+    id: number;
+    method: string;
+    params?: unknown;
+}
+
+export interface JsonRpcNotification {
+    jsonrpc: "2.0";
+    method: string;
+    params?: unknown;
+}
+
+export interface JsonRpcResponse {
+    jsonrpc: "2.0";
+    id: number | string | null;
+    result?: unknown;
+    error?: { code: number; message: string; data?: unknown };
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+/**
+ * Moves JSON-RPC messages to and from one server
+ */
+export interface McpTransport {
+    /** Send a request and resolve with its result (rejects with McpError) */
+    request(method: string, params?: unknown, signal?: AbortSignal): Promise<unknown>;
+    /** Send a notification (no response expected) */
+    notify(method: string, params?: unknown): Promise<void>;
+    close(): Promise<void>;
+}
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+/**
+ * The JSON Schema subset MCP servers use for tool input
+ */
+export interface JsonSchema {
+    type?: string | string[];
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: unknown[];
+    anyOf?: JsonSchema[];
+    oneOf?: JsonSchema[];
+}
+
+export interface McpTool {
+    name: string;
+    description?: string;
+    inputSchema: JsonSchema;
+    annotations?: {
+        title?: string;
+        readOnlyHint?: boolean;
+        destructiveHint?: boolean;
+    };
+}
+
+/**
+ * One item of a tool result ("text", "image", "audio", "resource", ...)
+ */
+export interface McpContent {
+    type: string;
+    text?: string;
+    data?: string;
+    mimeType?: string;
+    resource?: { uri: string; text?: string; mimeType?: string };
+}
+
+export interface McpCallToolResult {
+    content: McpContent[];
+    structuredContent?: unknown;
+    isError?: boolean;
+}
@@ -0,0 +1,163 @@
+/**
+ * Chat Provider Tests
+ *
+ * Tests for provider resolution, the scripted mock provider, the
+ * OpenAI-compatible wire translation, and the agent running offline.
+ */
+
+import { describe, it, expect, afterEach, vi } from "vitest";
+import {
+    createMockProvider,
+    getProvider,
+    MockSession,
+    OpenAISession,
+    resetProviders,
+    setProvider,
+} from "@/lib/providers";
+import type { ProviderChunk } from "@/lib/providers";
+import { GeminiAgent } from "@/lib/gemini/agent";
+
+async function drain(stream: AsyncIterable<ProviderChunk>): Promise<ProviderChunk[]> {
+    const chunks: ProviderChunk[] = [];
+    for await (const chunk of stream) chunks.push(chunk);
+    return chunks;
+}
+
+const intentInfo = { intent: "math", depth: "brief", config: { temperature: 0.1, maxOutputTokens: 1024 } };
+
+describe("Chat Providers", () => {
+    afterEach(() => {
+        resetProviders();
+        vi.unstubAllEnvs();
+        vi.unstubAllGlobals();
+    });
+
+    describe("getProvider", () => {
+        it("should prefer the requested provider over the environment", () => {
+            vi.stubEnv("CHAT_PROVIDER", "openai");
+            expect(getProvider("mock").name).toBe("mock");
+            expect(getProvider().name).toBe("openai");
+        });
+
+        it("should fall back to gemini for unknown environment values", () => {
+            vi.stubEnv("CHAT_PROVIDER", "nope");
+            expect(getProvider().name).toBe("gemini");
+        });
+
+        it("should return overrides registered with setProvider", () => {
+            const custom = createMockProvider([{ chunks: ["custom"] }]);
+            setProvider(custom);
+            expect(getProvider("mock")).toBe(custom);
+        });
+    });
+
+    describe("MockSession", () => {
+        it("should replay scripted turns in order", async () => {
+            const session = new MockSession([
+                { chunks: ["Hel", "lo"] },
+                { functionCalls: [{ name: "calculate", args: { expression: "2+2" } }] },
+            ]);
+
+            const first = await drain(await session.sendMessageStream([{ text: "hi" }]));
+            expect(first.map((c) => c.text).join("")).toBe("Hello");
+
+            const second = await session.sendMessage([{ text: "2+2?" }]);
+            expect(second.functionCalls).toEqual([{ name: "calculate", args: { expression: "2+2" } }]);
+        });
+
+        it("should echo once the script is exhausted", async () => {
+            const session = new MockSession([]);
+            const response = await session.sendMessage([{ text: "ping" }]);
+            expect(response.text).toBe("Mock response: ping");
+        });
+
+        it("should throw scripted errors", async () => {
+            const session = new MockSession([{ error: "[SAFETY] blocked" }]);
+            await expect(session.sendMessage([{ text: "x" }])).rejects.toThrow("SAFETY");
+        });
+
+        it("should record history including tool turns", async () => {
+            const session = new MockSession([
+                { functionCalls: [{ name: "calculate", args: { expression: "1+1" } }] },
+                { chunks: ["2"] },
+            ]);
+            await session.sendMessage([{ text: "1+1?" }]);
+            await session.sendToolResults([{ name: "calculate", response: { result: 2 } }]);
+
+            const roles = (await session.getHistory()).map((c) => c.role);
+            expect(roles).toEqual(["user", "model", "function", "model"]);
+        });
+    });
+
+    describe("OpenAISession", () => {
+        const config = { baseUrl: "http://llm.local/v1", apiKey: "test", model: "test-model" };
+
+        function sseResponse(events: unknown[]): Response {
+            const body = events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join("") + "data: [DONE]\n\n";
+            return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+        }
+
+        it("should stream text and assemble tool call deltas", async () => {
+            const fetchMock = vi.fn().mockResolvedValue(sseResponse([
+                { choices: [{ delta: { content: "Let me " } }] },
+                { choices: [{ delta: { content: "check." } }] },
+                { choices: [{ delta: { tool_calls: [{ index: 0, id: "call_1", function: { name: "calculate", arguments: "{\"expr" } }] } }] },
+                { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: "ession\":\"2+2\"}" } }] } }] },
+            ]));
+            vi.stubGlobal("fetch", fetchMock);
+
+            const session = new OpenAISession(config, [], { temperature: 0.1 }, []);
+            const chunks = await drain(await session.sendMessageStream([{ text: "2+2?" }]));
+
+            expect(chunks.map((c) => c.text).join("")).toBe("Let me check.");
+            expect(chunks.flatMap((c) => c.functionCalls)).toEqual([
+                { id: "call_1", name: "calculate", args: { expression: "2+2" } },
+            ]);
+
+            const body = JSON.parse(fetchMock.mock.calls[0]![1].body);
+            expect(body).toMatchObject({ model: "test-model", stream: true, temperature: 0.1 });
+            expect(body.messages[0].role).toBe("system");
+        });
+
+        it("should pair tool results with their call ids", async () => {
+            const fetchMock = vi.fn().mockResolvedValue(Response.json({
+                choices: [{ message: { content: "It is 4." } }],
+            }));
+            vi.stubGlobal("fetch", fetchMock);
+
+            const session = new OpenAISession(config, [{ role: "user", parts: [{ text: "earlier" }] }], {}, []);
+            const response = await session.sendToolResults([{ id: "call_1", name: "calculate", response: { result: 4 } }]);
+
+            expect(response.text).toBe("It is 4.");
+            const body = JSON.parse(fetchMock.mock.calls[0]![1].body);
+            expect(body.messages.at(-1)).toEqual({ role: "tool", tool_call_id: "call_1", content: "{\"result\":4}" });
+            expect(body.messages[1]).toEqual({ role: "user", content: "earlier" });
+        });
+
+        it("should surface HTTP errors", async () => {
+            vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("quota", { status: 429 })));
+            const session = new OpenAISession(config, [], {}, []);
+            await expect(session.sendMessage([{ text: "x" }])).rejects.toThrow("429");
+        });
+    });
+
+    describe("Agent with the mock provider", () => {
+        it("should run the tool loop end to end without a network", async () => {
+            const session = new MockSession([
+                { functionCalls: [{ name: "calculate", args: { expression: "6 * 7" } }] },
+                { chunks: ["The answer is 42."] },
+            ]);
+
+            const { response, meta } = await GeminiAgent.generateResponse(session, "What is 6 * 7?", [], intentInfo);
+
+            expect(response).toBe("The answer is 42.");
+            expect(meta.toolsUsed).toEqual(["calculate"]);
+
+            const history = await session.getHistory();
+            const toolTurn = history.find((c) => c.role === "function");
+            expect(toolTurn?.parts[0]).toMatchObject({
+                functionResponse: { name: "calculate", response: { result: { numericValue: 42 } } },
+            });
+        });
+    });
+});
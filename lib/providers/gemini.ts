@@ -0,0 +1,111 @@
+/**
+ * Gemini Provider
+ *
+ * Adapts @google/generative-ai ChatSession to the ChatProvider contract.
+ */
+
+import type {
+    EnhancedGenerateContentResponse,
+    Part,
+    SingleRequestOptions,
+} from "@google/generative-ai";
+import { getModel, MODEL_CONFIG, type ModelChatSession } from "../gemini/client";
+import { getToolDeclarations } from "../gemini/tools";
+import type {
+    ChatProvider,
+    ChatProviderSession,
+    ProviderChunk,
+    ProviderResponse,
+    SendOptions,
+    StartSessionOptions,
+    ToolCall,
+    ToolResult,
+} from "./types";
+
+/**
+ * Pull function calls out of a response's first candidate
+ */
+function extractFunctionCalls(response: EnhancedGenerateContentResponse): ToolCall[] {
+    const calls: ToolCall[] = [];
+    const parts = response.candidates?.[0]?.content?.parts;
+
+    if (parts) {
+        for (const part of parts) {
+            if ("functionCall" in part && part.functionCall) {
+                calls.push({
+                    name: part.functionCall.name,
+                    args: part.functionCall.args as Record<string, unknown>,
+                });
+            }
+        }
+    }
+    return calls;
+}
+
+function toProviderResponse(response: EnhancedGenerateContentResponse): ProviderResponse {
+    return {
+        // text() throws on SAFETY blocks; let it propagate so callers classify it
+        text: response.text(),
+        functionCalls: extractFunctionCalls(response),
+    };
+}
+
+function toFunctionResponseParts(results: ToolResult[]): Part[] {
+    return results.map((r) => ({
+        functionResponse: { name: r.name, response: r.response },
+    }));
+}
+
+function toRequestOptions({ signal }: SendOptions): SingleRequestOptions {
+    return signal ? { signal } : {};
+}
+
+export class GeminiSession implements ChatProviderSession {
+    readonly provider = "gemini" as const;
+
+    constructor(private readonly chat: ModelChatSession) { }
+
+    async sendMessage(parts: Part[], options: SendOptions = {}): Promise<ProviderResponse> {
+        const result = await this.chat.sendMessage(parts, toRequestOptions(options));
+        return toProviderResponse(result.response);
+    }
+
+    async sendMessageStream(parts: Part[], options: SendOptions = {}): Promise<AsyncIterable<ProviderChunk>> {
+        const result = await this.chat.sendMessageStream(parts, toRequestOptions(options));
+
+        return (async function* () {
+            for await (const chunk of result.stream) {
+                yield toProviderResponse(chunk);
+            }
+        })();
+    }
+
+    async sendToolResults(results: ToolResult[], options?: SendOptions): Promise<ProviderResponse> {
+        return this.sendMessage(toFunctionResponseParts(results), options);
+    }
+
+    async sendToolResultsStream(results: ToolResult[], options?: SendOptions): Promise<AsyncIterable<ProviderChunk>> {
+        return this.sendMessageStream(toFunctionResponseParts(results), options);
+    }
+
+    getHistory() {
+        return this.chat.getHistory();
+    }
+}
+
+export const geminiProvider: ChatProvider = {
+    name: "gemini",
+    startSession({ history, generationConfig, tools }: StartSessionOptions): ChatProviderSession {
+        const functionDeclarations = tools ?? getToolDeclarations().functionDeclarations;
+        const chat = getModel().startChat({
+            history,
+            generationConfig: {
+                maxOutputTokens: MODEL_CONFIG.MAX_OUTPUT_TOKENS,
+                ...generationConfig,
+            },
+            // Tools are per session so registry changes apply without rebuilding the client
+            tools: functionDeclarations.length > 0 ? [{ functionDeclarations }] : [],
+        });
+        return new GeminiSession(chat);
+    },
+};
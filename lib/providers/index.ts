@@ -0,0 +1,69 @@
+/**
+ * Chat Provider Module
+ *
+ * Resolves the model backend for a request: explicit request choice first,
+ * then CHAT_PROVIDER, then Gemini.
+ */
+
+import { geminiProvider } from "./gemini";
+import { openaiProvider } from "./openai";
+import { createMockProvider } from "./mock";
+import { PROVIDER_NAMES } from "./types";
+import type { ChatProvider, ProviderName } from "./types";
+
+export { geminiProvider, GeminiSession } from "./gemini";
+export { openaiProvider, OpenAISession } from "./openai";
+export { createMockProvider, MockSession } from "./mock";
+export type { MockTurn } from "./mock";
+export { PROVIDER_NAMES } from "./types";
+export type {
+    ChatProvider,
+    ChatProviderSession,
+    ProviderChunk,
+    ProviderName,
+    ProviderResponse,
+    SendOptions,
+    StartSessionOptions,
+    ToolCall,
+    ToolResult,
+} from "./types";
+
+const overrides = new Map<ProviderName, ChatProvider>();
+
+export function isProviderName(value: unknown): value is ProviderName {
+    return typeof value === "string" && (PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve a provider by name (request choice, then CHAT_PROVIDER env, then gemini)
+ */
+export function getProvider(name?: ProviderName): ChatProvider {
+    const envName = process.env.CHAT_PROVIDER;
+    const resolved: ProviderName = name ?? (isProviderName(envName) ? envName : "gemini");
+
+    const override = overrides.get(resolved);
+    if (override) return override;
+
+    switch (resolved) {
+        case "openai":
+            return openaiProvider;
+        case "mock":
+            return createMockProvider();
+        default:
+            return geminiProvider;
+    }
+}
+
+/**
+ * Replace a provider implementation (for testing)
+ */
+export function setProvider(provider: ChatProvider): void {
+    overrides.set(provider.name, provider);
+}
+
+/**
+ * Remove all provider overrides (for testing)
+ */
+export function resetProviders(): void {
+    overrides.clear();
+}
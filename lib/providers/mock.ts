@@ -0,0 +1,165 @@
+/**
+ * Mock Provider
+ *
+ * Deterministic scripted backend for offline development and tests.
+ * Each session replays the script from the start: every send (message or
+ * tool results) consumes the next turn. Once the script runs out the model
+ * echoes the last user message.
+ *
+ * Environment:
+ * - MOCK_PROVIDER_SCRIPT: JSON array of MockTurn (optional)
+ */
+
+import type { Content, Part } from "@google/generative-ai";
+import type {
+    ChatProvider,
+    ChatProviderSession,
+    ProviderChunk,
+    ProviderResponse,
+    SendOptions,
+    StartSessionOptions,
+    ToolCall,
+    ToolResult,
+} from "./types";
+
+export interface MockTurn {
+    /** Text streamed in order (joined for non-streaming calls) */
+    chunks?: string[];
+    /** Function calls emitted after the text */
+    functionCalls?: ToolCall[];
+    /** Throw this message instead of responding */
+    error?: string;
+    /** Delay before each chunk, in ms */
+    delayMs?: number;
+}
+
+/**
+ * Delay that rejects with an AbortError when the signal fires
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError());
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
+
+function abortError(): Error {
+    return new DOMException("The operation was aborted", "AbortError");
+}
+
+function partsToText(parts: Part[]): string {
+    return parts
+        .map((p) => ("text" in p && typeof p.text === "string" ? p.text : ""))
+        .join("");
+}
+
+export class MockSession implements ChatProviderSession {
+    readonly provider = "mock" as const;
+    private readonly history: Content[];
+    private turnIndex = 0;
+    private lastUserText = "";
+
+    constructor(private readonly script: MockTurn[], history: Content[] = []) {
+        this.history = [...history];
+    }
+
+    async sendMessage(parts: Part[], options?: SendOptions): Promise<ProviderResponse> {
+        return collect(await this.sendMessageStream(parts, options));
+    }
+
+    async sendMessageStream(parts: Part[], options: SendOptions = {}): Promise<AsyncIterable<ProviderChunk>> {
+        this.lastUserText = partsToText(parts);
+        this.history.push({ role: "user", parts });
+        return this.play(this.nextTurn(), options.signal);
+    }
+
+    async sendToolResults(results: ToolResult[], options?: SendOptions): Promise<ProviderResponse> {
+        return collect(await this.sendToolResultsStream(results, options));
+    }
+
+    async sendToolResultsStream(results: ToolResult[], options: SendOptions = {}): Promise<AsyncIterable<ProviderChunk>> {
+        this.history.push({
+            role: "function",
+            parts: results.map((r) => ({ functionResponse: { name: r.name, response: r.response } })),
+        });
+        return this.play(this.nextTurn(), options.signal);
+    }
+
+    async getHistory(): Promise<Content[]> {
+        return [...this.history];
+    }
+
+    private nextTurn(): MockTurn {
+        const turn = this.script[this.turnIndex++];
+        return turn ?? { chunks: [`Mock response: ${this.lastUserText}`] };
+    }
+
+    private async *play(turn: MockTurn, signal?: AbortSignal): AsyncGenerator<ProviderChunk> {
+        if (turn.error) {
+            if (turn.delayMs) await sleep(turn.delayMs, signal);
+            throw new Error(turn.error);
+        }
+
+        let text = "";
+        for (const chunk of turn.chunks ?? []) {
+            if (turn.delayMs) await sleep(turn.delayMs, signal);
+            if (signal?.aborted) throw abortError();
+            text += chunk;
+            yield { text: chunk, functionCalls: [] };
+        }
+
+        const functionCalls = turn.functionCalls ?? [];
+        if (functionCalls.length > 0) {
+            yield { text: "", functionCalls };
+        }
+
+        this.history.push({
+            role: "model",
+            parts: [
+                ...(text ? [{ text }] : []),
+                ...functionCalls.map((c) => ({ functionCall: { name: c.name, args: c.args } })),
+            ],
+        });
+    }
+}
+
+async function collect(stream: AsyncIterable<ProviderChunk>): Promise<ProviderResponse> {
+    const response: ProviderResponse = { text: "", functionCalls: [] };
+    for await (const chunk of stream) {
+        response.text += chunk.text;
+        response.functionCalls.push(...chunk.functionCalls);
+    }
+    return response;
+}
+
+function loadScriptFromEnv(): MockTurn[] {
+    const raw = process.env.MOCK_PROVIDER_SCRIPT;
+    if (!raw) return [];
+    try {
+        const parsed = JSON.parse(raw);
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        console.warn("[MockProvider] MOCK_PROVIDER_SCRIPT is not valid JSON, ignoring");
+        return [];
+    }
+}
+
+/**
+ * Create a mock provider that replays the given script in every session
+ */
+export function createMockProvider(script: MockTurn[] = loadScriptFromEnv()): ChatProvider {
+    return {
+        name: "mock",
+        startSession({ history }: StartSessionOptions): ChatProviderSession {
+            return new MockSession(script, history);
+        },
+    };
+}
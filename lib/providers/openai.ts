@@ -0,0 +1,280 @@
+/**
+ * OpenAI-Compatible Provider
+ *
+ * Talks to any /chat/completions endpoint that follows the OpenAI wire format
+ * (OpenAI, Azure-style gateways, vLLM, Ollama, LM Studio, ...).
+ *
+ * Environment:
+ * - OPENAI_BASE_URL (default: https://api.openai.com/v1)
+ * - OPENAI_API_KEY
+ * - OPENAI_MODEL (default: gpt-4o-mini)
+ */
+
+import type { Content, FunctionDeclaration, GenerationConfig, Part } from "@google/generative-ai";
+import { SYSTEM_INSTRUCTION } from "../gemini/prompts";
+import { getToolDeclarations } from "../gemini/tools";
+import { readSSE } from "../chat/sse-parser";
+import type {
+    ChatProvider,
+    ChatProviderSession,
+    ProviderChunk,
+    ProviderResponse,
+    SendOptions,
+    StartSessionOptions,
+    ToolCall,
+    ToolResult,
+} from "./types";
+
+// ============================================================================
+// Wire Types
+// ============================================================================
+
+interface OpenAIToolCall {
+    id: string;
+    type: "function";
+    function: { name: string; arguments: string };
+}
+
+type OpenAIMessage =
+    | { role: "system" | "user"; content: string }
+    | { role: "assistant"; content: string | null; tool_calls?: OpenAIToolCall[] }
+    | { role: "tool"; tool_call_id: string; content: string };
+
+interface OpenAIConfig {
+    baseUrl: string;
+    apiKey: string;
+    model: string;
+}
+
+function getConfig(): OpenAIConfig {
+    const apiKey = process.env.OPENAI_API_KEY;
+    if (!apiKey) {
+        throw new Error("Missing OPENAI_API_KEY environment variable");
+    }
+    return {
+        baseUrl: (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/$/, ""),
+        apiKey,
+        model: process.env.OPENAI_MODEL || "gpt-4o-mini",
+    };
+}
+
+// ============================================================================
+// Translation
+// ============================================================================
+
+function partsToText(parts: Part[]): string {
+    return parts
+        .map((p) => ("text" in p && typeof p.text === "string" ? p.text : ""))
+        .join("");
+}
+
+/**
+ * Convert Gemini history to OpenAI chat messages (text turns only)
+ */
+export function contentsToMessages(history: Content[]): OpenAIMessage[] {
+    const messages: OpenAIMessage[] = [];
+    for (const content of history) {
+        const text = partsToText(content.parts ?? []);
+        if (!text) continue;
+        messages.push(content.role === "model"
+            ? { role: "assistant", content: text }
+            : { role: "user", content: text });
+    }
+    return messages;
+}
+
+function toOpenAITool(declaration: FunctionDeclaration) {
+    return {
+        type: "function" as const,
+        function: {
+            name: declaration.name,
+            description: declaration.description ?? "",
+            // Gemini SchemaType values are the lowercase JSON Schema type names
+            parameters: declaration.parameters ?? { type: "object", properties: {} },
+        },
+    };
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+    try {
+        const parsed = JSON.parse(raw || "{}");
+        return typeof parsed === "object" && parsed !== null ? parsed : {};
+    } catch {
+        return {};
+    }
+}
+
+function toToolCalls(calls: OpenAIToolCall[] | undefined): ToolCall[] {
+    return (calls ?? []).map((c) => ({
+        id: c.id,
+        name: c.function.name,
+        args: parseArguments(c.function.arguments),
+    }));
+}
+
+// ============================================================================
+// Session
+// ============================================================================
+
+export class OpenAISession implements ChatProviderSession {
+    readonly provider = "openai" as const;
+    private readonly messages: OpenAIMessage[];
+
+    constructor(
+        private readonly config: OpenAIConfig,
+        history: Content[],
+        private readonly generationConfig: GenerationConfig,
+        private readonly tools: FunctionDeclaration[]
+    ) {
+        this.messages = [
+            { role: "system", content: SYSTEM_INSTRUCTION },
+            ...contentsToMessages(history),
+        ];
+    }
+
+    async sendMessage(parts: Part[], options: SendOptions = {}): Promise<ProviderResponse> {
+        this.messages.push({ role: "user", content: partsToText(parts) });
+        return this.complete(options);
+    }
+
+    async sendMessageStream(parts: Part[], options: SendOptions = {}): Promise<AsyncIterable<ProviderChunk>> {
+        this.messages.push({ role: "user", content: partsToText(parts) });
+        const res = await this.request(true, options);
+        return this.readStream(res);
+    }
+
+    async sendToolResults(results: ToolResult[], options: SendOptions = {}): Promise<ProviderResponse> {
+        this.pushToolResults(results);
+        return this.complete(options);
+    }
+
+    async sendToolResultsStream(results: ToolResult[], options: SendOptions = {}): Promise<AsyncIterable<ProviderChunk>> {
+        this.pushToolResults(results);
+        const res = await this.request(true, options);
+        return this.readStream(res);
+    }
+
+    async getHistory(): Promise<Content[]> {
+        const history: Content[] = [];
+        for (const message of this.messages) {
+            if (message.role === "user") {
+                history.push({ role: "user", parts: [{ text: message.content }] });
+            } else if (message.role === "assistant" && message.content) {
+                history.push({ role: "model", parts: [{ text: message.content }] });
+            }
+        }
+        return history;
+    }
+
+    private pushToolResults(results: ToolResult[]): void {
+        for (const result of results) {
+            this.messages.push({
+                role: "tool",
+                tool_call_id: result.id ?? result.name,
+                content: JSON.stringify(result.response),
+            });
+        }
+    }
+
+    private async request(stream: boolean, { signal }: SendOptions): Promise<Response> {
+        const res = await fetch(`${this.config.baseUrl}/chat/completions`, {
+            method: "POST",
+            ...(signal && { signal }),
+            headers: {
+                "Content-Type": "application/json",
+                Authorization: `Bearer ${this.config.apiKey}`,
+            },
+            body: JSON.stringify({
+                model: this.config.model,
+                messages: this.messages,
+                stream,
+                temperature: this.generationConfig.temperature,
+                top_p: this.generationConfig.topP,
+                max_tokens: this.generationConfig.maxOutputTokens,
+                ...(this.generationConfig.responseMimeType === "application/json" && {
+                    response_format: { type: "json_object" },
+                }),
+                ...(this.tools.length > 0 && { tools: this.tools.map(toOpenAITool) }),
+            }),
+        });
+
+        if (!res.ok) {
+            const body = await res.text().catch(() => "");
+            throw new Error(`OpenAI request failed (${res.status}): ${body.slice(0, 200)}`);
+        }
+        return res;
+    }
+
+    private async complete(options: SendOptions): Promise<ProviderResponse> {
+        const res = await this.request(false, options);
+        const data = await res.json();
+        const message = data.choices?.[0]?.message ?? {};
+
+        const toolCalls: OpenAIToolCall[] | undefined = message.tool_calls;
+        this.messages.push({
+            role: "assistant",
+            content: message.content ?? null,
+            ...(toolCalls && { tool_calls: toolCalls }),
+        });
+
+        return { text: message.content ?? "", functionCalls: toToolCalls(toolCalls) };
+    }
+
+    /**
+     * Parse the SSE stream, yielding text deltas as they arrive and
+     * assembled tool calls once the stream finishes
+     */
+    private async *readStream(res: Response): AsyncGenerator<ProviderChunk> {
+        if (!res.body) return;
+
+        let text = "";
+        const partialCalls: Array<{ id: string; name: string; arguments: string }> = [];
+
+        for await (const message of readSSE(res.body)) {
+            if (message.data === "[DONE]") continue;
+
+            const delta = JSON.parse(message.data).choices?.[0]?.delta;
+            if (!delta) continue;
+
+            if (typeof delta.content === "string" && delta.content) {
+                text += delta.content;
+                yield { text: delta.content, functionCalls: [] };
+            }
+
+            for (const call of delta.tool_calls ?? []) {
+                const slot = partialCalls[call.index] ??= { id: "", name: "", arguments: "" };
+                if (call.id) slot.id = call.id;
+                if (call.function?.name) slot.name += call.function.name;
+                if (call.function?.arguments) slot.arguments += call.function.arguments;
+            }
+        }
+
+        const toolCalls: OpenAIToolCall[] = partialCalls.filter(Boolean).map((c) => ({
+            id: c.id,
+            type: "function",
+            function: { name: c.name, arguments: c.arguments },
+        }));
+
+        this.messages.push({
+            role: "assistant",
+            content: text || null,
+            ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
+        });
+
+        if (toolCalls.length > 0) {
+            yield { text: "", functionCalls: toToolCalls(toolCalls) };
+        }
+    }
+}
+
+export const openaiProvider: ChatProvider = {
+    name: "openai",
+    startSession({ history, generationConfig, tools }: StartSessionOptions): ChatProviderSession {
+        return new OpenAISession(
+            getConfig(),
+            history,
+            generationConfig,
+            tools ?? getToolDeclarations().functionDeclarations
+        );
+    },
+};
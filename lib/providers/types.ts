@@ -0,0 +1,86 @@
+/**
+ * Chat Provider Types
+ *
+ * Vendor-neutral contract between the agent and a model backend.
+ * Gemini SDK content types (Content, Part, FunctionDeclaration) are the
+ * lingua franca; other providers translate to and from them.
+ */
+
+import type { Content, FunctionDeclaration, GenerationConfig, Part } from "@google/generative-ai";
+
+export type ProviderName = "gemini" | "openai" | "mock";
+
+export const PROVIDER_NAMES: readonly ProviderName[] = ["gemini", "openai", "mock"];
+
+/**
+ * A function call requested by the model
+ */
+export interface ToolCall {
+    /** Provider-assigned call id (required by OpenAI-style APIs to pair results) */
+    id?: string | undefined;
+    name: string;
+    args: Record<string, unknown>;
+}
+
+/**
+ * Result of executing a tool call, sent back to the model
+ */
+export interface ToolResult {
+    id?: string | undefined;
+    name: string;
+    response: Record<string, unknown>;
+}
+
+/**
+ * Incremental piece of a streamed model turn
+ */
+export interface ProviderChunk {
+    text: string;
+    functionCalls: ToolCall[];
+}
+
+/**
+ * A complete (non-streamed) model turn
+ */
+export interface ProviderResponse {
+    text: string;
+    functionCalls: ToolCall[];
+}
+
+/**
+ * Per-call options for a model request
+ */
+export interface SendOptions {
+    /** Aborts the upstream request and any stream still being read */
+    signal?: AbortSignal | undefined;
+}
+
+export interface StartSessionOptions {
+    /** Prior conversation turns */
+    history: Content[];
+    generationConfig: GenerationConfig;
+    /** Tools the model may call (defaults to every registered tool) */
+    tools?: FunctionDeclaration[] | undefined;
+}
+
+/**
+ * A stateful multi-turn conversation with a model
+ */
+export interface ChatProviderSession {
+    readonly provider: ProviderName;
+    /** Send user parts and wait for the full turn */
+    sendMessage(parts: Part[], options?: SendOptions): Promise<ProviderResponse>;
+    /** Send user parts and stream the turn */
+    sendMessageStream(parts: Part[], options?: SendOptions): Promise<AsyncIterable<ProviderChunk>>;
+    /** Return tool results for the previous turn's function calls */
+    sendToolResults(results: ToolResult[], options?: SendOptions): Promise<ProviderResponse>;
+    /** Return tool results and stream the model's next turn */
+    sendToolResultsStream(results: ToolResult[], options?: SendOptions): Promise<AsyncIterable<ProviderChunk>>;
+    /** Conversation so far, in Gemini Content form */
+    getHistory(): Promise<Content[]>;
+}
+
+export interface ChatProvider {
+    readonly name: ProviderName;
+    startSession(options: StartSessionOptions): ChatProviderSession;
+}
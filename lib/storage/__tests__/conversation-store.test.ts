@@ -0,0 +1,135 @@
+/**
+ * Conversation Store Tests
+ *
+ * Tests for the in-memory and file-backed storage adapters.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { MemoryConversationStore, FileConversationStore, normalizeMessages } from "@/lib/storage";
+import type { ConversationStore } from "@/lib/storage";
+import type { StoredMessage } from "@/types/chat";
+
+const message = (sender: "user" | "bot", text: string): StoredMessage => ({
+    sender,
+    text,
+    timestamp: "2025-01-01T00:00:00.000Z",
+});
+
+function runStoreContract(name: string, createStore: () => ConversationStore) {
+    describe(name, () => {
+        let store: ConversationStore;
+
+        beforeEach(() => {
+            store = createStore();
+        });
+
+        it("should create and get a conversation", async () => {
+            const created = await store.create("user-1", { messages: [message("user", "Hello there")] });
+            const loaded = await store.get("user-1", created.id);
+
+            expect(loaded?.messages).toHaveLength(1);
+            expect(loaded?.title).toBe("Hello there");
+        });
+
+        it("should scope conversations to their owner", async () => {
+            const created = await store.create("user-1");
+
+            expect(await store.get("user-2", created.id)).toBeNull();
+            expect(await store.list("user-2")).toEqual([]);
+            expect(await store.delete("user-2", created.id)).toBe(false);
+        });
+
+        it("should keep message lists independent per conversation", async () => {
+            const a = await store.create("user-1", { messages: [message("user", "first")] });
+            const b = await store.create("user-1", { messages: [message("user", "second")] });
+
+            await store.update("user-1", a.id, {
+                messages: [message("user", "first"), message("bot", "reply")],
+            });
+
+            expect((await store.get("user-1", a.id))?.messages).toHaveLength(2);
+            expect((await store.get("user-1", b.id))?.messages).toHaveLength(1);
+        });
+
+        it("should list summaries most recent first", async () => {
+            const a = await store.create("user-1", { title: "A" });
+            await store.create("user-1", { title: "B" });
+            await new Promise((r) => setTimeout(r, 5));
+            await store.update("user-1", a.id, { messages: [message("user", "bump")] });
+
+            const list = await store.list("user-1");
+            expect(list.map((c) => c.title)).toEqual(["A", "B"]);
+            expect(list[0]).toMatchObject({ lastMessage: "bump", messageCount: 1 });
+        });
+
+        it("should rename and delete", async () => {
+            const created = await store.create("user-1");
+
+            const renamed = await store.update("user-1", created.id, { title: "Renamed" });
+            expect(renamed?.title).toBe("Renamed");
+
+            expect(await store.delete("user-1", created.id)).toBe(true);
+            expect(await store.get("user-1", created.id)).toBeNull();
+            expect(await store.update("user-1", created.id, { title: "x" })).toBeNull();
+        });
+
+        it("should not leak mutations through returned objects", async () => {
+            const created = await store.create("user-1", { messages: [message("user", "hi")] });
+            created.messages.push(message("bot", "mutated"));
+
+            expect((await store.get("user-1", created.id))?.messages).toHaveLength(1);
+        });
+    });
+}
+
+describe("Conversation Store", () => {
+    runStoreContract("MemoryConversationStore", () => new MemoryConversationStore());
+
+    describe("FileConversationStore", () => {
+        let dir: string;
+
+        beforeEach(async () => {
+            dir = await fs.mkdtemp(path.join(os.tmpdir(), "conversations-"));
+        });
+
+        afterEach(async () => {
+            await fs.rm(dir, { recursive: true, force: true });
+        });
+
+        runStoreContract("contract", () => new FileConversationStore(path.join(dir, `${Math.random()}.json`)));
+
+        it("should survive a reload from disk", async () => {
+            const filePath = path.join(dir, "store.json");
+            const first = new FileConversationStore(filePath);
+            const created = await first.create("user-1", { messages: [message("user", "persist me")] });
+
+            const second = new FileConversationStore(filePath);
+            const loaded = await second.get("user-1", created.id);
+
+            expect(loaded?.messages[0]?.text).toBe("persist me");
+        });
+
+        it("should treat a missing file as empty", async () => {
+            const store = new FileConversationStore(path.join(dir, "missing", "store.json"));
+            expect(await store.list("user-1")).toEqual([]);
+        });
+    });
+
+    describe("normalizeMessages", () => {
+        it("should drop unknown fields", () => {
+            const [normalized] = normalizeMessages([{ ...message("user", "hi"), extra: true }]);
+            expect(normalized).toEqual(message("user", "hi"));
+        });
+
+        it("should reject invalid senders", () => {
+            expect(() => normalizeMessages([{ sender: "system", text: "x" }])).toThrow(/sender/);
+        });
+
+        it("should reject non-array input", () => {
+            expect(() => normalizeMessages("nope")).toThrow(/array/);
+        });
+    });
+});
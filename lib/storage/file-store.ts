@@ -0,0 +1,121 @@
+/**
+ * File-Backed Conversation Store
+ *
+ * Persists all conversations to a single JSON file.
+ * - Lazy load on first access
+ * - Serialized, atomic writes (temp file + rename)
+ * For multi-instance deployments, implement ConversationStore over a database.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import { StorageError } from "../errors/index";
+import { MemoryConversationStore } from "./memory-store";
+import type {
+    ConversationStore,
+    ConversationSummary,
+    CreateConversationInput,
+    StoredConversation,
+    UpdateConversationInput,
+} from "./types";
+
+interface StoreFile {
+    version: 1;
+    conversations: StoredConversation[];
+}
+
+export class FileConversationStore implements ConversationStore {
+    private memory: MemoryConversationStore | null = null;
+    private loading: Promise<MemoryConversationStore> | null = null;
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(private readonly filePath: string) { }
+
+    async list(userId: string): Promise<ConversationSummary[]> {
+        return (await this.load()).list(userId);
+    }
+
+    async get(userId: string, id: string): Promise<StoredConversation | null> {
+        return (await this.load()).get(userId, id);
+    }
+
+    async create(userId: string, input?: CreateConversationInput): Promise<StoredConversation> {
+        const conversation = await (await this.load()).create(userId, input);
+        await this.persist();
+        return conversation;
+    }
+
+    async update(
+        userId: string,
+        id: string,
+        input: UpdateConversationInput
+    ): Promise<StoredConversation | null> {
+        const conversation = await (await this.load()).update(userId, id, input);
+        if (conversation) await this.persist();
+        return conversation;
+    }
+
+    async delete(userId: string, id: string): Promise<boolean> {
+        const deleted = await (await this.load()).delete(userId, id);
+        if (deleted) await this.persist();
+        return deleted;
+    }
+
+    /**
+     * Load the store file once; concurrent callers share the same promise
+     */
+    private load(): Promise<MemoryConversationStore> {
+        if (this.memory) return Promise.resolve(this.memory);
+        if (!this.loading) {
+            this.loading = this.readFile().then((conversations) => {
+                this.memory = new MemoryConversationStore(conversations);
+                return this.memory;
+            }).finally(() => {
+                this.loading = null;
+            });
+        }
+        return this.loading;
+    }
+
+    private async readFile(): Promise<StoredConversation[]> {
+        try {
+            const raw = await fs.readFile(this.filePath, "utf8");
+            const parsed = JSON.parse(raw) as Partial<StoreFile>;
+            return Array.isArray(parsed.conversations) ? parsed.conversations : [];
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+                return [];
+            }
+            throw new StorageError(
+                `Failed to read conversation store: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+    }
+
+    /**
+     * Queue a full write of the current snapshot
+     */
+    private persist(): Promise<void> {
+        const memory = this.memory;
+        if (!memory) return Promise.resolve();
+
+        const write = async () => {
+            const data: StoreFile = { version: 1, conversations: memory.snapshot() };
+            const tmpPath = `${this.filePath}.tmp`;
+            try {
+                await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+                await fs.writeFile(tmpPath, JSON.stringify(data), "utf8");
+                await fs.rename(tmpPath, this.filePath);
+            } catch (error) {
+                throw new StorageError(
+                    `Failed to write conversation store: ${error instanceof Error ? error.message : String(error)}`
+                );
+            }
+        };
+
+        // Chain so writes never interleave; a failed write does not block later ones
+        const next = this.writeQueue.catch(() => undefined).then(write);
+        this.writeQueue = next;
+        return next;
+    }
+}
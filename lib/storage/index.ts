@@ -0,0 +1,53 @@
+/**
+ * Conversation Storage Module
+ *
+ * Selects the storage adapter via CONVERSATION_STORE ("file" | "memory").
+ * The file adapter writes to CONVERSATION_STORE_PATH (default: .data/conversations.json).
+ */
+
+import path from "path";
+import { FileConversationStore } from "./file-store";
+import { MemoryConversationStore } from "./memory-store";
+import type { ConversationStore } from "./types";
+
+export { FileConversationStore } from "./file-store";
+export { MemoryConversationStore } from "./memory-store";
+export { normalizeMessages, normalizeTitle, toSummary } from "./serialize";
+export type {
+    ConversationStore,
+    CreateConversationInput,
+    UpdateConversationInput,
+} from "./types";
+
+let globalStore: ConversationStore | null = null;
+
+/**
+ * Get the application-wide conversation store
+ */
+export function getConversationStore(): ConversationStore {
+    if (globalStore) return globalStore;
+
+    if (process.env.CONVERSATION_STORE === "memory") {
+        globalStore = new MemoryConversationStore();
+    } else {
+        const filePath = process.env.CONVERSATION_STORE_PATH
+            || path.join(process.cwd(), ".data", "conversations.json");
+        globalStore = new FileConversationStore(filePath);
+    }
+
+    return globalStore;
+}
+
+/**
+ * Replace the global store (for testing or custom adapters)
+ */
+export function setConversationStore(store: ConversationStore): void {
+    globalStore = store;
+}
+
+/**
+ * Reset the global store (for testing)
+ */
+export function resetConversationStore(): void {
+    globalStore = null;
+}
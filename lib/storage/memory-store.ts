@@ -0,0 +1,101 @@
+/**
+ * In-Memory Conversation Store
+ *
+ * Process-local adapter used by tests and as the working set of the file store.
+ */
+
+import { generateId } from "../utils";
+import { deriveTitle, toSummary } from "./serialize";
+import type {
+    ConversationStore,
+    ConversationSummary,
+    CreateConversationInput,
+    StoredConversation,
+    UpdateConversationInput,
+} from "./types";
+
+export class MemoryConversationStore implements ConversationStore {
+    /** userId -> conversationId -> conversation */
+    private readonly users = new Map<string, Map<string, StoredConversation>>();
+
+    constructor(initial: StoredConversation[] = []) {
+        for (const conversation of initial) {
+            this.bucket(conversation.userId).set(conversation.id, conversation);
+        }
+    }
+
+    async list(userId: string): Promise<ConversationSummary[]> {
+        const conversations = [...(this.users.get(userId)?.values() ?? [])];
+        return conversations
+            .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+            .map(toSummary);
+    }
+
+    async get(userId: string, id: string): Promise<StoredConversation | null> {
+        const conversation = this.users.get(userId)?.get(id);
+        return conversation ? structuredClone(conversation) : null;
+    }
+
+    async create(userId: string, input: CreateConversationInput = {}): Promise<StoredConversation> {
+        const now = new Date().toISOString();
+        const messages = input.messages ?? [];
+        const conversation: StoredConversation = {
+            id: input.id ?? generateId(),
+            userId,
+            title: input.title ?? deriveTitle(messages),
+            createdAt: now,
+            updatedAt: now,
+            messages,
+        };
+
+        this.bucket(userId).set(conversation.id, conversation);
+        return structuredClone(conversation);
+    }
+
+    async update(
+        userId: string,
+        id: string,
+        input: UpdateConversationInput
+    ): Promise<StoredConversation | null> {
+        const conversation = this.users.get(userId)?.get(id);
+        if (!conversation) return null;
+
+        if (input.messages) {
+            conversation.messages = input.messages;
+            // Keep auto-derived titles in sync until the user renames
+            if (conversation.title === "New Conversation") {
+                conversation.title = deriveTitle(input.messages);
+            }
+        }
+        if (input.title !== undefined) {
+            conversation.title = input.title;
+        }
+        conversation.updatedAt = new Date().toISOString();
+
+        return structuredClone(conversation);
+    }
+
+    async delete(userId: string, id: string): Promise<boolean> {
+        return this.users.get(userId)?.delete(id) ?? false;
+    }
+
+    /**
+     * All conversations across users (for persistence adapters)
+     */
+    snapshot(): StoredConversation[] {
+        const all: StoredConversation[] = [];
+        for (const bucket of this.users.values()) {
+            all.push(...bucket.values());
+        }
+        return all;
+    }
+
+    private bucket(userId: string): Map<string, StoredConversation> {
+        let bucket = this.users.get(userId);
+        if (!bucket) {
+            bucket = new Map();
+            this.users.set(userId, bucket);
+        }
+        return bucket;
+    }
+}
@@ -0,0 +1,88 @@
+/**
+ * Conversation Serialization Helpers
+ *
+ * Validation of untrusted message payloads and summary projection.
+ */
+
+import { ValidationError } from "../errors/index";
+import type { StoredConversation, StoredMessage, ConversationSummary } from "./types";
+
+const MAX_TITLE_LENGTH = 100;
+const MAX_MESSAGES = 500;
+const PREVIEW_LENGTH = 50;
+
+/**
+ * Derive a display title from the first user message
+ */
+export function deriveTitle(messages: StoredMessage[]): string {
+    const first = messages.find((m) => m.sender === "user");
+    if (!first) return "New Conversation";
+    const text = first.text.trim();
+    return text.length > 30 ? `${text.slice(0, 30)}...` : text;
+}
+
+/**
+ * Normalize a user-provided title
+ */
+export function normalizeTitle(input: unknown): string | undefined {
+    if (typeof input !== "string") return undefined;
+    const title = input.trim().slice(0, MAX_TITLE_LENGTH);
+    return title || undefined;
+}
+
+/**
+ * Validate and normalize an untrusted messages array.
+ * Unknown fields are dropped; malformed entries raise a ValidationError.
+ */
+export function normalizeMessages(input: unknown): StoredMessage[] {
+    if (!Array.isArray(input)) {
+        throw new ValidationError("messages must be an array", "messages");
+    }
+
+    return input.slice(-MAX_MESSAGES).map((raw, index) => {
+        if (typeof raw !== "object" || raw === null) {
+            throw new ValidationError(`messages[${index}] must be an object`, "messages");
+        }
+        const m = raw as Record<string, unknown>;
+
+        if (m.sender !== "user" && m.sender !== "bot") {
+            throw new ValidationError(`messages[${index}].sender must be "user" or "bot"`, "messages");
+        }
+        if (typeof m.text !== "string") {
+            throw new ValidationError(`messages[${index}].text must be a string`, "messages");
+        }
+
+        const timestamp = typeof m.timestamp === "string" && !Number.isNaN(Date.parse(m.timestamp))
+            ? m.timestamp
+            : new Date().toISOString();
+
+        const message: StoredMessage = {
+            sender: m.sender,
+            text: m.text,
+            timestamp,
+        };
+        if (typeof m.id === "string") message.id = m.id;
+        if (Array.isArray(m.segments) && m.segments.every((s) => typeof s === "string")) {
+            message.segments = m.segments;
+        }
+        if (m.status === "sent" || m.status === "error") message.status = m.status;
+        if (Array.isArray(m.attachments)) message.attachments = m.attachments as StoredMessage["attachments"];
+        if (typeof m.meta === "object" && m.meta !== null) message.meta = m.meta as StoredMessage["meta"];
+
+        return message;
+    });
+}
+
+/**
+ * Project a conversation to its listing entry
+ */
+export function toSummary(conversation: StoredConversation): ConversationSummary {
+    const last = conversation.messages[conversation.messages.length - 1];
+    return {
+        id: conversation.id,
+        title: conversation.title,
+        lastMessage: last ? last.text.slice(0, PREVIEW_LENGTH) : "",
+        updatedAt: conversation.updatedAt,
+        messageCount: conversation.messages.length,
+    };
+}
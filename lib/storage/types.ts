@@ -0,0 +1,39 @@
+/**
+ * Conversation Storage Types
+ *
+ * Contract implemented by every conversation storage adapter.
+ */
+
+import type { StoredConversation, StoredMessage, ConversationSummary } from "@/types/chat";
+
+export type { StoredConversation, StoredMessage, ConversationSummary };
+
+export interface CreateConversationInput {
+    /** Optional client-chosen id (generated when omitted) */
+    id?: string | undefined;
+    title?: string | undefined;
+    messages?: StoredMessage[] | undefined;
+}
+
+export interface UpdateConversationInput {
+    title?: string | undefined;
+    /** Replaces the whole message list */
+    messages?: StoredMessage[] | undefined;
+}
+
+/**
+ * Pluggable persistence for conversations.
+ * All operations are scoped to a user; a user can never see another user's data.
+ */
+export interface ConversationStore {
+    /** List conversations for a user, most recently updated first */
+    list(userId: string): Promise<ConversationSummary[]>;
+    /** Get a single conversation with messages, or null if missing */
+    get(userId: string, id: string): Promise<StoredConversation | null>;
+    /** Create a new conversation */
+    create(userId: string, input?: CreateConversationInput): Promise<StoredConversation>;
+    /** Update title and/or messages, returns null if missing */
+    update(userId: string, id: string, input: UpdateConversationInput): Promise<StoredConversation | null>;
+    /** Delete a conversation, returns false if it did not exist */
+    delete(userId: string, id: string): Promise<boolean>;
+}
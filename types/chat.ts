@@ -13,6 +13,8 @@ export interface ChatRequest {
     message: string;
     /** Unique user identifier for session management */
     userId: string;
+    /** Conversation identifier; each conversation gets its own model session */
+    conversationId?: string;
     /** Optional conversation context */
     context?: {
         /** Maximum tokens for response */
@@ -67,6 +69,27 @@ export interface AttachmentMeta {
     filename: string;
 }
 
+/**
+ * One tool call made while generating a bot message
+ */
+export interface ToolCallRecord {
+    /** Call identifier, unique within the response */
+    id: string;
+    name: string;
+    args: Record<string, unknown>;
+    /** Tool loop iteration the call belongs to (1-based) */
+    iteration: number;
+    status: "awaiting_approval" | "running" | "complete" | "error";
+    /** Set while the call waits for the user to approve or deny it */
+    approvalId?: string | undefined;
+    /** Output streamed while the call ran (stdout and stderr interleaved) */
+    output?: string | undefined;
+    /** JSON result, truncated for display */
+    result?: string | undefined;
+    error?: string | undefined;
+    durationMs?: number | undefined;
+}
+
 /**
  * Response metadata from API
  */
@@ -76,6 +99,8 @@ export interface MessageMeta {
     detectedIntent?: string | undefined;
     temperatureUsed?: number | undefined;
     toolsUsed?: string[] | undefined;
+    /** Tool activity streamed while the message was generated */
+    toolCalls?: ToolCallRecord[] | undefined;
 }
 
 /**
@@ -86,6 +111,8 @@ export interface Message {
     sender: "user" | "bot";
     /** Message content */
     text: string;
+    /** Bot text split at tool calls (pre-tool text, then the answer); `text` joins them */
+    segments?: string[] | undefined;
     /** When the message was sent */
     timestamp: Date;
     /** Optional message ID for tracking */
@@ -106,6 +133,37 @@ export interface StoredMessage extends Omit<Message, "timestamp"> {
     timestamp: string;
 }
 
+/**
+ * Persisted conversation with its full message list
+ */
+export interface StoredConversation {
+    /** Conversation identifier */
+    id: string;
+    /** Owner of the conversation */
+    userId: string;
+    /** Display title (usually derived from the first message) */
+    title: string;
+    /** ISO timestamp of creation */
+    createdAt: string;
+    /** ISO timestamp of last modification */
+    updatedAt: string;
+    /** Messages in chronological order */
+    messages: StoredMessage[];
+}
+
+/**
+ * Lightweight conversation listing entry (no message bodies)
+ */
+export interface ConversationSummary {
+    id: string;
+    title: string;
+    /** Preview of the most recent message */
+    lastMessage: string;
+    /** ISO timestamp of last modification */
+    updatedAt: string;
+    messageCount: number;
+}
+
 /**
  * Chat session configuration
  */